@@ -0,0 +1,24 @@
+const nextJest = require('next/jest');
+
+// next/jest compiles TypeScript with SWC and maps the `@/` path alias from tsconfig.json
+const createJestConfig = nextJest({ dir: './' });
+
+// Dependencies that ship only as ES modules, which Jest has to compile before requiring them
+const ESM_PACKAGES = ['marked', 'franc-min', 'trigram-utils', 'n-gram', 'collapse-white-space'];
+
+const config = createJestConfig({
+  testEnvironment: 'node',
+  testMatch: ['<rootDir>/src/**/*.test.ts'],
+  setupFiles: ['<rootDir>/src/test/setup-env.ts'],
+});
+
+module.exports = async () => {
+  const resolved = await config();
+  return {
+    ...resolved,
+    transformIgnorePatterns: [
+      `/node_modules/(?!(${ESM_PACKAGES.join('|')})/)`,
+      ...resolved.transformIgnorePatterns.filter(pattern => !pattern.startsWith('/node_modules/')),
+    ],
+  };
+};
@@ -1,7 +1,9 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // pdf.js loads its worker, Tesseract its worker script and language data, and
+  // better-sqlite3 and the canvas their native bindings from node_modules at runtime
+  serverExternalPackages: ['pdfjs-dist', 'better-sqlite3', 'tesseract.js', '@napi-rs/canvas'],
 };
 
 export default nextConfig;
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { checkAdminAccess, getApiKey, revokeApiKey } from '@/lib/api-keys';
+import { ApiKeyResponse } from '@/lib/types';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const createErrorResponse = (message: string, status = 400): NextResponse => {
+    return NextResponse.json(
+        { success: false, error: message },
+        { status }
+    );
+};
+
+// Key with its limits and usage this month
+export const GET = async (request: NextRequest, { params }: RouteContext): Promise<NextResponse> => {
+    const denied = checkAdminAccess(request.headers);
+    if (denied) {
+        return createErrorResponse(denied.message, denied.status);
+    }
+
+    const { id } = await params;
+    const apiKey = await getApiKey(id);
+    if (!apiKey) {
+        return createErrorResponse(`API key ${id} not found`, 404);
+    }
+
+    return NextResponse.json<ApiKeyResponse>({ success: true, data: apiKey }, { status: 200 });
+};
+
+// Revoke a key; it stays listed with its usage but is refused from now on
+export const DELETE = async (request: NextRequest, { params }: RouteContext): Promise<NextResponse> => {
+    const denied = checkAdminAccess(request.headers);
+    if (denied) {
+        return createErrorResponse(denied.message, denied.status);
+    }
+
+    const { id } = await params;
+    const apiKey = await revokeApiKey(id);
+    if (!apiKey) {
+        return createErrorResponse(`API key ${id} not found`, 404);
+    }
+
+    return NextResponse.json<ApiKeyResponse>({ success: true, data: apiKey }, { status: 200 });
+};
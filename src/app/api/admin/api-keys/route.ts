@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { checkAdminAccess, issueApiKey, listApiKeys } from '@/lib/api-keys';
+import { apiKeyCreateRequestSchema } from '@/lib/schema/api-key';
+import { ApiKeyListResponse, ApiKeyResponse } from '@/lib/types';
+
+const createErrorResponse = (message: string, status = 400): NextResponse => {
+    return NextResponse.json(
+        { success: false, error: message },
+        { status }
+    );
+};
+
+// Issued keys with their limits and usage this month; requires the admin token
+export const GET = async (request: NextRequest): Promise<NextResponse> => {
+    const denied = checkAdminAccess(request.headers);
+    if (denied) {
+        return createErrorResponse(denied.message, denied.status);
+    }
+
+    return NextResponse.json<ApiKeyListResponse>({ success: true, data: await listApiKeys() }, { status: 200 });
+};
+
+// Issue a key; body { name, limits? }. The key is only ever returned here
+export const POST = async (request: NextRequest): Promise<NextResponse> => {
+    const denied = checkAdminAccess(request.headers);
+    if (denied) {
+        return createErrorResponse(denied.message, denied.status);
+    }
+
+    let body: unknown;
+    try {
+        body = await request.json();
+    } catch {
+        return createErrorResponse('Request body must be valid JSON');
+    }
+
+    const parsed = apiKeyCreateRequestSchema.safeParse(body);
+    if (!parsed.success) {
+        const issue = parsed.error.errors[0];
+        return createErrorResponse(
+            issue ? `Invalid request: ${issue.path.join('.') || 'body'} ${issue.message}` : 'Invalid request'
+        );
+    }
+
+    const { apiKey, key } = await issueApiKey(parsed.data);
+    return NextResponse.json<ApiKeyResponse>(
+        { success: true, data: apiKey, key },
+        { status: 201, headers: { Location: `/api/admin/api-keys/${apiKey.id}`, 'Cache-Control': 'no-store' } }
+    );
+};
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withApiAccess } from '@/lib/api-keys';
+import { batchStore, buildBatchArchive } from '@/lib/jobs';
+import { getExporter, listExporters } from '@/lib/output-formatter';
+import { toProcessingError } from '@/lib/processing-errors';
+
+const ROUTE = '/api/batches/:id/archive';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Helper functions
+const createErrorResponse = (message: string, status = 400): NextResponse => {
+    return NextResponse.json(
+        { success: false, error: message },
+        { status }
+    );
+};
+
+// Download the batch results as one ZIP archive; ?format=markdown (or pdf, html, docx) adds rendered documents
+export const GET = withApiAccess(ROUTE, async (request: NextRequest, { client, tracker }, { params }: RouteContext): Promise<NextResponse> => {
+    const { id } = await params;
+    const batch = batchStore.get(id, client.id);
+    if (!batch) {
+        return tracker.respond(createErrorResponse(`Batch ${id} not found`, 404));
+    }
+
+    const format = request.nextUrl.searchParams.get('format');
+    const exporter = format ? getExporter(format) : undefined;
+    if (format && !exporter) {
+        const formats = listExporters().map(entry => entry.format).join(', ');
+        return tracker.respond(createErrorResponse(`Unsupported export format "${format}". Supported formats: ${formats}`));
+    }
+
+    try {
+        const archive = await tracker.time('render', () => buildBatchArchive(batch, client.id, exporter));
+
+        return tracker.respond(new NextResponse(Buffer.from(archive), {
+            status: 200,
+            headers: {
+                'Content-Type': 'application/zip',
+                'Content-Disposition': `attachment; filename="batch-${id}.zip"`,
+                'Content-Length': String(archive.byteLength),
+            },
+        }));
+    } catch (error) {
+        tracker.log.error('Batch archive error', { batchId: id, error });
+
+        const { message, status } = toProcessingError(error);
+        return tracker.respond(createErrorResponse(message, status));
+    }
+});
@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server';
+import { withApiAccess } from '@/lib/api-keys';
+import { batchStore } from '@/lib/jobs';
+import { BatchResponse } from '@/lib/types';
+
+const ROUTE = '/api/batches/:id';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const createNotFoundResponse = (id: string): NextResponse => {
+    return NextResponse.json(
+        { success: false, error: `Batch ${id} not found` },
+        { status: 404 }
+    );
+};
+
+// Report the status of every file in the batch and the totals
+export const GET = withApiAccess(ROUTE, async (_request, { client, tracker }, { params }: RouteContext): Promise<NextResponse> => {
+    const { id } = await params;
+    const batch = batchStore.get(id, client.id);
+    if (!batch) {
+        return tracker.respond(createNotFoundResponse(id));
+    }
+
+    return tracker.respond(NextResponse.json<BatchResponse>({ success: true, data: batch }, { status: 200 }));
+}, { uiRead: true });
+
+// Cancel the files that are still queued or being parsed
+export const DELETE = withApiAccess(ROUTE, async (_request, { client, tracker }, { params }: RouteContext): Promise<NextResponse> => {
+    const { id } = await params;
+    const batch = batchStore.cancel(id, client.id);
+    if (!batch) {
+        return tracker.respond(createNotFoundResponse(id));
+    }
+
+    return tracker.respond(NextResponse.json<BatchResponse>({ success: true, data: batch }, { status: 200 }));
+});
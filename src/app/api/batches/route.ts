@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { meterModel, recordParsedPages, withApiAccess } from '@/lib/api-keys';
+import type { DocumentInput } from '@/lib/document-parser';
+import { readUpload, validateFile } from '@/lib/file-validation';
+import { glossaryStore } from '@/lib/glossary';
+import { BatchItem, expandUploads, startBatch } from '@/lib/jobs';
+import { resolveModel, ResolvedModel } from '@/lib/models';
+import { DocumentProcessingError } from '@/lib/processing-errors';
+import { BatchResponse, BatchSummary } from '@/lib/types';
+
+const ROUTE = '/api/batches';
+
+// Helper functions
+const createErrorResponse = (message: string, status = 400): NextResponse => {
+    return NextResponse.json(
+        { success: false, error: message },
+        { status }
+    );
+};
+
+const createAcceptedResponse = (data: BatchSummary): NextResponse<BatchResponse> => {
+    return NextResponse.json(
+        { success: true, data },
+        { status: 202, headers: { Location: `/api/batches/${data.id}` } }
+    );
+};
+
+// force=true parses again even when a cached result exists
+const isForced = (formData: FormData): boolean => /^(true|1)$/i.test((formData.get('force') as string | null) ?? '');
+
+// Submit several documents, or ZIP archives of documents, for asynchronous parsing
+export const POST = withApiAccess(ROUTE, async (request: NextRequest, { client, tracker }): Promise<NextResponse> => {
+    try {
+        // Parse form data; every 'files' (or 'file') field is one upload
+        const formData = await request.formData();
+        const files = [...formData.getAll('files'), ...formData.getAll('file')]
+            .filter((entry): entry is File => typeof entry !== 'string');
+
+        if (files.length === 0) {
+            return tracker.respond(createErrorResponse('No files provided. Please upload documents or a ZIP archive.'));
+        }
+
+        // Unpacks ZIP archives; more files than a batch can hold refuses the upload
+        const uploads = await expandUploads(files);
+        if (uploads.length === 0) {
+            return tracker.respond(createErrorResponse('The uploaded archives contain no files'));
+        }
+
+        // Glossary the documents are translated with later on
+        const glossaryId = (formData.get('glossaryId') as string | null) || undefined;
+        if (glossaryId && !glossaryStore.get(glossaryId)) {
+            return tracker.respond(createErrorResponse(`Glossary ${glossaryId} not found`, 404));
+        }
+
+        // The requested (or default) parse model, resolved once for the files parsed by a model
+        const modelId = (formData.get('model') as string | null) || undefined;
+        let model: ResolvedModel | undefined;
+
+        // One password for the protected PDFs of the batch
+        const password = (formData.get('password') as string | null) || undefined;
+
+        // Rejected files stay in the batch with their reason instead of failing the upload
+        const items: BatchItem[] = [];
+        for (const upload of uploads) {
+            if ('error' in upload) {
+                items.push(upload);
+                continue;
+            }
+
+            const { file } = upload;
+            const validation = validateFile(file);
+            if (!validation.isValid) {
+                items.push({ filename: file.name, error: validation.error, status: validation.status, code: validation.code });
+                continue;
+            }
+
+            // Content that does not match its format, or a PDF that cannot be opened, rejects the file
+            let input: DocumentInput;
+            try {
+                input = await tracker.time('validate', () => readUpload(file, validation, { password }));
+            } catch (error) {
+                if (!(error instanceof DocumentProcessingError)) throw error;
+                items.push({ filename: file.name, error: error.message, status: error.status, code: error.code });
+                continue;
+            }
+
+            if (validation.adapter.requiresModel) {
+                model ??= meterModel(client, resolveModel(modelId, 'parse'));
+            }
+            items.push({ input, model: validation.adapter.requiresModel ? model : undefined });
+        }
+
+        const batch = startBatch(items, {
+            clientId: client.id,
+            glossaryId,
+            force: isForced(formData),
+            onResult: (result, cache) => recordParsedPages(client, result, cache),
+            requestId: tracker.requestId,
+        });
+
+        return tracker.respond(createAcceptedResponse(batch));
+
+    } catch (error) {
+        tracker.log.error('Batch submission error', { error });
+
+        // Too many files, unknown model or missing provider credentials
+        if (error instanceof DocumentProcessingError) {
+            return tracker.respond(createErrorResponse(error.message, error.status));
+        }
+        return tracker.respond(createErrorResponse('An unexpected error occurred while submitting the documents', 500));
+    }
+});
+
+// Handle unsupported methods
+export const GET = async (): Promise<NextResponse> => {
+    return NextResponse.json(
+        { success: false, error: 'Method not allowed. Use POST to submit documents.' },
+        { status: 405 }
+    );
+};
@@ -0,0 +1,67 @@
+import { describe, expect, it } from '@jest/globals';
+import { NextRequest } from 'next/server';
+import { registerInputAdapter } from '@/lib/input-adapters';
+import { createTestDocument } from '@/test/documents';
+import { POST } from './route';
+
+const document = createTestDocument([
+  { type: 'heading', level: 1, content: 'Annual report' },
+  { type: 'paragraph', content: 'Revenue grew in every region.' },
+]);
+
+// Reports its result in steps, as the PDF adapter does while the model streams
+registerInputAdapter({
+  id: 'streaming-test',
+  label: 'Streaming test format',
+  mimeTypes: [],
+  extensions: ['.streamtest'],
+  requiresModel: false,
+  parse: async (_input, { onPartial }) => {
+    onPartial?.({ structure: { sections: document.structure.sections.slice(0, 1) } });
+    onPartial?.({ structure: { sections: document.structure.sections } });
+    return document;
+  },
+});
+
+const upload = (fields: Record<string, string>, headers: Record<string, string> = {}) => {
+  const formData = new FormData();
+  formData.set('file', new File(['streamed document'], 'report.streamtest'));
+  for (const [name, value] of Object.entries(fields)) formData.set(name, value);
+  return POST(new NextRequest('http://localhost/api/document-parser', { method: 'POST', body: formData, headers }));
+};
+
+const readLines = async (response: Response) =>
+  (await response.text()).split('\n').filter(Boolean).map(line => JSON.parse(line));
+
+describe('POST /api/document-parser with streaming', () => {
+  it('streams throttled partial results followed by the result', async () => {
+    const response = await upload({ stream: 'true' });
+
+    expect(response.headers.get('Content-Type')).toBe('application/x-ndjson; charset=utf-8');
+    const events = await readLines(response);
+    // The second partial follows the first within the throttle interval and is dropped
+    expect(events.map(event => event.type)).toEqual(['partial', 'result']);
+    expect(events[0].data.structure.sections).toHaveLength(1);
+    expect(events[1].data.extractedText).toBe(document.extractedText);
+    expect(events[1].metrics.requestId).toBe(response.headers.get('X-Request-Id'));
+  });
+
+  it('streams when the client accepts NDJSON and reports errors as the last line', async () => {
+    const response = await upload({}, { Accept: 'application/x-ndjson' });
+    expect((await readLines(response)).map(event => event.type)).toEqual(['partial', 'result']);
+
+    const formData = new FormData();
+    formData.set('file', new File(['  '], 'empty.txt', { type: 'text/plain' }));
+    formData.set('stream', 'true');
+    const failed = await readLines(await POST(new NextRequest('http://localhost/api/document-parser', { method: 'POST', body: formData })));
+    expect(failed.at(-1)).toMatchObject({ type: 'error', status: 422 });
+  });
+
+  it('answers with one JSON body without streaming', async () => {
+    const response = await upload({});
+    const body = await response.json();
+
+    expect(response.headers.get('Content-Type')).toContain('application/json');
+    expect(body).toMatchObject({ success: true, data: { extractedText: document.extractedText } });
+  });
+});
@@ -1,219 +1,187 @@
-import { google } from '@ai-sdk/google';
-import { generateObject } from 'ai';
 import { NextRequest, NextResponse } from 'next/server';
-import { z } from 'zod';
-import { documentParserSchema } from '@/lib/schema/document-parser';
-import { DocumentParserResult, DocumentParserResponse } from '@/lib/types';
-
-// Constants
-const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
-const ALLOWED_MIME_TYPES = ['application/pdf'];
-const SUPPORTED_FILE_EXTENSIONS = ['.pdf'];
-
-// Validation schema
-const fileValidationSchema = z.object({
-    name: z.string().min(1, 'Filename is required'),
-    size: z.number().max(MAX_FILE_SIZE, `File size must be less than ${MAX_FILE_SIZE / 1024 / 1024}MB`),
-    type: z.string().refine(
-        (type) => ALLOWED_MIME_TYPES.includes(type),
-        'Only PDF files are supported'
-    ),
-});
+import { meterModel, recordParsedPages, withApiAccess } from '@/lib/api-keys';
+import { throttle } from '@/lib/concurrency';
+import {
+    assertMeaningfulText,
+    CachedParseResult,
+    PARTIAL_RESULT_INTERVAL_MS,
+    parseDocumentCached,
+} from '@/lib/document-parser';
+import { readUpload, validateFile } from '@/lib/file-validation';
+import { resolveModel } from '@/lib/models';
+import { RequestTracker } from '@/lib/observability';
+import { toProcessingError } from '@/lib/processing-errors';
+import {
+    DocumentParserResult,
+    DocumentParserResponse,
+    DocumentParserStreamEvent,
+    ParseCacheInfo,
+    PartialDocumentParserResult,
+    RequestMetrics,
+    UploadErrorCode,
+} from '@/lib/types';
+
+const ROUTE = '/api/document-parser';
 
 // Helper functions
-const validateFile = (file: File): { isValid: boolean; error?: string } => {
-    try {
-        fileValidationSchema.parse({
-            name: file.name,
-            size: file.size,
-            type: file.type,
-        });
-
-        // Additional extension check
-        const hasValidExtension = SUPPORTED_FILE_EXTENSIONS.some(ext =>
-            file.name.toLowerCase().endsWith(ext)
-        );
-
-        if (!hasValidExtension) {
-            return {
-                isValid: false,
-                error: 'File must have a .pdf extension',
-            };
-        }
-
-        return { isValid: true };
-    } catch (error) {
-        if (error instanceof z.ZodError) {
-            return {
-                isValid: false,
-                error: error.errors[0]?.message || 'File validation failed',
-            };
-        }
-        return {
-            isValid: false,
-            error: 'Unknown validation error',
-        };
-    }
-};
-
-const createErrorResponse = (message: string, status = 400): NextResponse => {
+const createErrorResponse = (message: string, status = 400, code?: UploadErrorCode): NextResponse => {
     return NextResponse.json(
-        { success: false, error: message },
+        { success: false, error: message, ...(code && { code }) },
         { status }
     );
 };
 
-const createSuccessResponse = (data: DocumentParserResult): NextResponse<DocumentParserResponse> => {
+const createSuccessResponse = (
+    data: DocumentParserResult,
+    cache: ParseCacheInfo | undefined,
+    metrics: RequestMetrics
+): NextResponse<DocumentParserResponse> => {
     return NextResponse.json(
-        { success: true, data },
-        { status: 200 }
+        { success: true, data, ...(cache && { cache }), metrics },
+        { status: 200, headers: cache ? { 'X-Cache': cache.hit ? 'HIT' : 'MISS' } : undefined }
     );
 };
 
+const encoder = new TextEncoder();
+
+// Newline-delimited JSON: partial results while the model streams, then the
+// checked result or an error; a client that goes away aborts the parse
+const createStreamResponse = (
+    tracker: RequestTracker,
+    parse: (onPartial: (partial: PartialDocumentParserResult) => void) => Promise<CachedParseResult>
+): Response => {
+    let closed = false;
+
+    const stream = new ReadableStream<Uint8Array>({
+        start: async (controller) => {
+            const send = (event: DocumentParserStreamEvent) => {
+                if (!closed) controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`));
+            };
+
+            try {
+                const { result, cache } = await parse(
+                    throttle(partial => send({ type: 'partial', data: partial }), PARTIAL_RESULT_INTERVAL_MS)
+                );
+
+                // Final validation runs on the complete result only
+                await tracker.time('finalize', () => assertMeaningfulText(result));
+                send({ type: 'result', data: result, ...(cache && { cache }), metrics: tracker.getMetrics() });
+                tracker.end(200);
+            } catch (error) {
+                tracker.log.error('Document parser error', { error });
+
+                const { message, status, code } = toProcessingError(error);
+                send({ type: 'error', error: message, status, ...(code && { code }) });
+                tracker.end(status, code);
+            } finally {
+                if (!closed) {
+                    closed = true;
+                    controller.close();
+                }
+            }
+        },
+        cancel: () => {
+            closed = true;
+        },
+    });
+
+    return tracker.withRequestId(new Response(stream, {
+        headers: {
+            'Content-Type': 'application/x-ndjson; charset=utf-8',
+            'Cache-Control': 'no-cache, no-transform',
+        },
+    }));
+};
+
+// force=true parses again even when a cached result exists
+const isForced = (formData: FormData): boolean => /^(true|1)$/i.test((formData.get('force') as string | null) ?? '');
+
+// stream=true or Accept: application/x-ndjson streams partial results
+const isStreamed = (request: NextRequest, formData: FormData): boolean =>
+    /^(true|1)$/i.test((formData.get('stream') as string | null) ?? '')
+    || (request.headers.get('accept') ?? '').includes('application/x-ndjson');
+
 // Main POST handler
-export const POST = async (request: NextRequest): Promise<NextResponse> => {
+export const POST = withApiAccess(ROUTE, async (request: NextRequest, { client, tracker }): Promise<Response> => {
     try {
-        // Check if API key is configured
-        if (!process.env.GOOGLE_GENERATIVE_AI_API_KEY) {
-            return createErrorResponse('Google Generative AI API key not configured', 500);
-        }
-
         // Parse form data
         const formData = await request.formData();
-        const file = formData.get('pdf') as File;
+        // 'pdf' is the original field name and stays supported for existing clients
+        const file = (formData.get('file') ?? formData.get('pdf')) as File | null;
 
         // Validate file presence
         if (!file) {
-            return createErrorResponse('No PDF file provided. Please upload a PDF file.');
+            return tracker.respond(createErrorResponse('No file provided. Please upload a document.'));
         }
 
         // Validate file
         const validation = validateFile(file);
         if (!validation.isValid) {
-            return createErrorResponse(validation.error!);
+            return tracker.respond(createErrorResponse(validation.error, validation.status, validation.code), validation.code);
         }
 
-        // Convert file to ArrayBuffer
-        const fileBuffer = await file.arrayBuffer();
-
-        // Extract comprehensive document data using Google Gemini
-        const result = await generateObject({
-            model: google('gemini-2.5-flash'),
-            schema: documentParserSchema,
-            messages: [
-                {
-                    role: 'user',
-                    content: [
-                        {
-                            type: 'text',
-                            text: `Please analyze this PDF document comprehensively and extract:
-
-1. **Text Content**: Complete text extraction preserving structure
-2. **Document Structure**: Identify headings, paragraphs, lists, tables, images, headers, footers
-3. **Formatting Information**: Fonts, text styles (bold, italic, etc.), layout details
-4. **Metadata**: Language detection, title, author, page count, creation date, quality assessment
-
-Extract all content while preserving:
-- Hierarchical structure (headings levels, section organization)
-- Page layout information (columns, margins, orientation)
-- Text formatting (fonts, styles, emphasis)
-- Document properties and metadata
-
-For each section, identify its type, content, and position within the document. Analyze the document quality and provide confidence scores for the extraction.
-
-Filename: ${file.name}
-File size: ${file.size} bytes`,
-                        },
-                        {
-                            type: 'file',
-                            data: fileBuffer,
-                            mimeType: 'application/pdf',
-                            filename: file.name,
-                        },
-                    ],
-                },
-            ],
-            temperature: 0, // Deterministic for document parsing
-        });
-
-        // Enhance the result with additional metadata
-        const enhancedResult: DocumentParserResult = {
-            ...result.object,
-            metadata: {
-                ...result.object.metadata,
-                filename: file.name,
-                fileSize: file.size,
-                extractedAt: new Date().toISOString(),
-            }
-        };
-
-        // Validate that we got meaningful text
-        if (!enhancedResult.extractedText || enhancedResult.extractedText.length < 10) {
-            return createErrorResponse(
-                'Could not extract meaningful text from the PDF. The document may be empty, corrupted, or contain only images.',
-                422
-            );
+        // Resolve the requested (or default) parse model for formats parsed by a model;
+        // its tokens count against the caller's quota and into the request metrics
+        const modelId = (formData.get('model') as string | null) || undefined;
+        const model = validation.adapter.requiresModel
+            ? tracker.meter(meterModel(client, resolveModel(modelId, 'parse')))
+            : undefined;
+
+        // Check the bytes match the format, decrypting protected PDFs with the optional password
+        const password = (formData.get('password') as string | null) || undefined;
+        const input = await tracker.time('validate', () => readUpload(file, validation, { password }));
+
+        if (isStreamed(request, formData)) {
+            return createStreamResponse(tracker, async onPartial => {
+                const parsed = await tracker.time('parse', () => parseDocumentCached(input, {
+                    model,
+                    force: isForced(formData),
+                    abortSignal: request.signal,
+                    onPartial,
+                }));
+                recordParsedPages(client, parsed.result, parsed.cache);
+                return parsed;
+            });
         }
 
-        return createSuccessResponse(enhancedResult);
-
-    } catch (error) {
-        console.error('Document parser error:', error);
-
-        // Handle specific error types
-        if (error instanceof Error) {
-            // Check for generateObject specific errors
-            if (error.name === 'AI_NoObjectGeneratedError') {
-                return createErrorResponse(
-                    'Failed to parse document structure. The document may be too complex or corrupted.',
-                    422
-                );
-            }
-
-            // Check for common API errors
-            if (error.message.includes('API key')) {
-                return createErrorResponse('API authentication failed', 401);
-            }
+        // Extract comprehensive document data with the input adapter and parse model,
+        // reusing the cached result for a byte-identical file unless forced
+        const { result: enhancedResult, cache } = await tracker.time('parse', () =>
+            parseDocumentCached(input, { model, force: isForced(formData) })
+        );
+        recordParsedPages(client, enhancedResult, cache);
 
-            if (error.message.includes('quota') || error.message.includes('rate limit')) {
-                return createErrorResponse('Service temporarily unavailable. Please try again later.', 503);
-            }
+        // Validate that we got meaningful text
+        await tracker.time('finalize', () => assertMeaningfulText(enhancedResult));
 
-            if (error.message.includes('timeout')) {
-                return createErrorResponse('Document processing timed out. Please try with a smaller file.', 408);
-            }
+        return tracker.respond(createSuccessResponse(enhancedResult, cache, tracker.getMetrics()));
 
-            if (error.message.includes('token')) {
-                return createErrorResponse('Document is too large to process. Please try with a smaller file.', 413);
-            }
-
-            // Generic error with message
-            return createErrorResponse(`Processing failed: ${error.message}`, 500);
-        }
+    } catch (error) {
+        tracker.log.error('Document parser error', { error });
 
-        // Fallback error
-        return createErrorResponse('An unexpected error occurred while processing the document', 500);
+        const { message, status, code } = toProcessingError(error);
+        return tracker.respond(createErrorResponse(message, status, code), code);
     }
-};
+});
 
 // Handle unsupported methods
 export const GET = async (): Promise<NextResponse> => {
     return NextResponse.json(
-        { success: false, error: 'Method not allowed. Use POST to upload a PDF file.' },
+        { success: false, error: 'Method not allowed. Use POST to upload a document.' },
         { status: 405 }
     );
 };
 
 export const PUT = async (): Promise<NextResponse> => {
     return NextResponse.json(
-        { success: false, error: 'Method not allowed. Use POST to upload a PDF file.' },
+        { success: false, error: 'Method not allowed. Use POST to upload a document.' },
         { status: 405 }
     );
 };
 
 export const DELETE = async (): Promise<NextResponse> => {
     return NextResponse.json(
-        { success: false, error: 'Method not allowed. Use POST to upload a PDF file.' },
+        { success: false, error: 'Method not allowed. Use POST to upload a document.' },
         { status: 405 }
     );
 };
\ No newline at end of file
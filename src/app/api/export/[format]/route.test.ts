@@ -0,0 +1,36 @@
+import { describe, expect, it } from '@jest/globals';
+import { NextRequest } from 'next/server';
+import { createTestDocument } from '@/test/documents';
+import { POST } from './route';
+
+const exportDocument = (format: string, body: unknown) =>
+  POST(
+    new NextRequest(`http://localhost/api/export/${format}`, {
+      method: 'POST',
+      body: JSON.stringify(body),
+      headers: { 'Content-Type': 'application/json', 'X-Request-Id': 'export-test' },
+    }),
+    { params: Promise.resolve({ format }) }
+  );
+
+describe('POST /api/export/:format', () => {
+  it('names the download in UTF-8 with an ASCII fallback', async () => {
+    const document = createTestDocument([{ type: 'paragraph', content: 'Hello' }]);
+    const response = await exportDocument('markdown', {
+      document: { ...document, metadata: { ...document.metadata, filename: 'R\u00E9sum\u00E9 \u65E5\u672C.pdf', language: 'ja' } },
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Disposition')).toBe(
+      `attachment; filename="Resume __-ja.md"; filename*=UTF-8''R%C3%A9sum%C3%A9%20%E6%97%A5%E6%9C%AC-ja.md`
+    );
+    expect(response.headers.get('X-Request-Id')).toBe('export-test');
+  });
+
+  it('reports unknown formats', async () => {
+    const response = await exportDocument('rtf', { document: createTestDocument([]) });
+
+    expect(response.status).toBe(404);
+    expect(response.headers.get('X-Request-Id')).toBe('export-test');
+  });
+});
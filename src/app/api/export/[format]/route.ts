@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withApiAccess } from '@/lib/api-keys';
+import { getAttachmentDisposition } from '@/lib/content-disposition';
+import { jobStore } from '@/lib/jobs';
+import { RequestTracker } from '@/lib/observability';
+import { DocumentExporter, getExporter, listExporters } from '@/lib/output-formatter';
+import { toProcessingError } from '@/lib/processing-errors';
+import { reviewStore } from '@/lib/review';
+import { exportRequestSchema } from '@/lib/schema/export';
+import { DocumentParserResult } from '@/lib/types';
+
+const ROUTE = '/api/export/:format';
+
+type RouteContext = { params: Promise<{ format: string }> };
+
+// Helper functions
+const createErrorResponse = (message: string, status = 400): NextResponse => {
+    return NextResponse.json(
+        { success: false, error: message },
+        { status }
+    );
+};
+
+const createUnknownFormatResponse = (format: string): NextResponse => {
+    const formats = listExporters().map(exporter => exporter.format).join(', ');
+    return createErrorResponse(`Unsupported export format "${format}". Supported formats: ${formats}`, 404);
+};
+
+const getDownloadFilename = (document: DocumentParserResult, exporter: DocumentExporter): string => {
+    const baseName = document.metadata.filename.replace(/\.[^.]+$/, '') || 'document';
+    const suffix = document.metadata.language ? `-${document.metadata.language}` : '';
+    return `${baseName}${suffix}.${exporter.extension}`;
+};
+
+const createExportResponse = async (
+    document: DocumentParserResult,
+    exporter: DocumentExporter,
+    tracker: RequestTracker
+): Promise<NextResponse> => {
+    try {
+        const content = await tracker.time('render', () => exporter.render(document));
+
+        return tracker.respond(new NextResponse(Buffer.from(content), {
+            status: 200,
+            headers: {
+                'Content-Type': exporter.contentType,
+                'Content-Disposition': getAttachmentDisposition(getDownloadFilename(document, exporter)),
+                'Content-Length': String(content.byteLength),
+            },
+        }));
+    } catch (error) {
+        tracker.log.error(`${exporter.label} export error`, { error });
+
+        const { message, status } = toProcessingError(error);
+        return tracker.respond(createErrorResponse(message, status));
+    }
+};
+
+// Render a document supplied in the request body
+export const POST = withApiAccess(ROUTE, async (request: NextRequest, { client, tracker }, { params }: RouteContext): Promise<NextResponse> => {
+    const { format } = await params;
+    const exporter = getExporter(format);
+    if (!exporter) {
+        return tracker.respond(createUnknownFormatResponse(format));
+    }
+
+    let body: unknown;
+    try {
+        body = await request.json();
+    } catch {
+        return tracker.respond(createErrorResponse('Request body must be valid JSON'));
+    }
+
+    const parsed = exportRequestSchema.safeParse(body);
+    if (!parsed.success) {
+        const issue = parsed.error.errors[0];
+        return tracker.respond(createErrorResponse(
+            issue ? `Invalid request: ${issue.path.join('.') || 'body'} ${issue.message}` : 'Invalid request'
+        ));
+    }
+
+    const { jobId, reviewId } = parsed.data;
+    const document = reviewId ? reviewStore.get(reviewId, client.id)?.translation : jobId ? jobStore.getResult(jobId, client.id) : parsed.data.document;
+    if (!document) {
+        return tracker.respond(createErrorResponse(reviewId ? `Review ${reviewId} not found` : `No completed parse job found for ${jobId}`, 404));
+    }
+
+    return createExportResponse(document, exporter, tracker);
+});
+
+// Download link for a completed job or a review: /api/export/{pdf,markdown,html,docx}?jobId=... or ?reviewId=...
+export const GET = withApiAccess(ROUTE, async (request: NextRequest, { client, tracker }, { params }: RouteContext): Promise<NextResponse> => {
+    const { format } = await params;
+    const exporter = getExporter(format);
+    if (!exporter) {
+        return tracker.respond(createUnknownFormatResponse(format));
+    }
+
+    const reviewId = request.nextUrl.searchParams.get('reviewId');
+    if (reviewId) {
+        const review = reviewStore.get(reviewId, client.id);
+        if (!review) {
+            return tracker.respond(createErrorResponse(`Review ${reviewId} not found`, 404));
+        }
+        return createExportResponse(review.translation, exporter, tracker);
+    }
+
+    const jobId = request.nextUrl.searchParams.get('jobId');
+    if (!jobId) {
+        return tracker.respond(createErrorResponse('Missing jobId or reviewId query parameter'));
+    }
+
+    const document = jobStore.getResult(jobId, client.id);
+    if (!document) {
+        return tracker.respond(createErrorResponse(`No completed parse job found for ${jobId}`, 404));
+    }
+
+    return createExportResponse(document, exporter, tracker);
+});
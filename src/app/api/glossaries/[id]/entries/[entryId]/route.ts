@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withApiAccess } from '@/lib/api-keys';
+import { glossaryStore } from '@/lib/glossary';
+import { glossaryEntryInputSchema } from '@/lib/schema/glossary';
+import { GlossaryResponse } from '@/lib/types';
+
+const ROUTE = '/api/glossaries/:id/entries/:entryId';
+
+type RouteContext = { params: Promise<{ id: string; entryId: string }> };
+
+const createNotFoundResponse = (id: string, entryId: string): NextResponse => {
+    return NextResponse.json(
+        { success: false, error: `Entry ${entryId} not found in glossary ${id}` },
+        { status: 404 }
+    );
+};
+
+// Replace an entry
+export const PATCH = withApiAccess(ROUTE, async (request: NextRequest, { tracker }, { params }: RouteContext): Promise<NextResponse> => {
+    const { id, entryId } = await params;
+
+    let body: unknown;
+    try {
+        body = await request.json();
+    } catch {
+        return tracker.respond(NextResponse.json({ success: false, error: 'Request body must be valid JSON' }, { status: 400 }));
+    }
+
+    const parsed = glossaryEntryInputSchema.safeParse(body);
+    if (!parsed.success) {
+        const issue = parsed.error.errors[0];
+        return tracker.respond(NextResponse.json(
+            { success: false, error: `Invalid entry: ${issue?.path.join('.') || 'body'} ${issue?.message}` },
+            { status: 400 }
+        ));
+    }
+
+    const glossary = glossaryStore.updateEntry(id, entryId, parsed.data);
+    if (!glossary) {
+        return tracker.respond(createNotFoundResponse(id, entryId));
+    }
+
+    return tracker.respond(NextResponse.json<GlossaryResponse>({ success: true, data: glossary }, { status: 200 }));
+});
+
+export const DELETE = withApiAccess(ROUTE, async (_request, { tracker }, { params }: RouteContext): Promise<NextResponse> => {
+    const { id, entryId } = await params;
+    const glossary = glossaryStore.removeEntry(id, entryId);
+    if (!glossary) {
+        return tracker.respond(createNotFoundResponse(id, entryId));
+    }
+
+    return tracker.respond(NextResponse.json<GlossaryResponse>({ success: true, data: glossary }, { status: 200 }));
+});
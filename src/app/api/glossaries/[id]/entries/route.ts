@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withApiAccess } from '@/lib/api-keys';
+import { z } from 'zod';
+import { glossaryStore } from '@/lib/glossary';
+import { glossaryEntryInputSchema } from '@/lib/schema/glossary';
+import { GlossaryResponse } from '@/lib/types';
+
+const ROUTE = '/api/glossaries/:id/entries';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// A single entry or a list of entries
+const entriesRequestSchema = z.union([glossaryEntryInputSchema, z.array(glossaryEntryInputSchema)]);
+
+// Add entries; an existing entry for the same term and language pair is replaced
+export const POST = withApiAccess(ROUTE, async (request: NextRequest, { tracker }, { params }: RouteContext): Promise<NextResponse> => {
+    const { id } = await params;
+
+    let body: unknown;
+    try {
+        body = await request.json();
+    } catch {
+        return tracker.respond(NextResponse.json({ success: false, error: 'Request body must be valid JSON' }, { status: 400 }));
+    }
+
+    const parsed = entriesRequestSchema.safeParse(body);
+    if (!parsed.success) {
+        const issue = parsed.error.errors[0];
+        return tracker.respond(NextResponse.json(
+            { success: false, error: `Invalid entry: ${issue?.path.join('.') || 'body'} ${issue?.message}` },
+            { status: 400 }
+        ));
+    }
+
+    const glossary = glossaryStore.addEntries(id, Array.isArray(parsed.data) ? parsed.data : [parsed.data]);
+    if (!glossary) {
+        return tracker.respond(NextResponse.json({ success: false, error: `Glossary ${id} not found` }, { status: 404 }));
+    }
+
+    return tracker.respond(NextResponse.json<GlossaryResponse>({ success: true, data: glossary }, { status: 201 }));
+});
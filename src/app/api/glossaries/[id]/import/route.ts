@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withApiAccess } from '@/lib/api-keys';
+import { glossaryStore, importGlossaryFile } from '@/lib/glossary';
+import { GlossaryImportResponse } from '@/lib/types';
+
+const ROUTE = '/api/glossaries/:id/import';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const createErrorResponse = (message: string, status = 400): NextResponse => {
+    return NextResponse.json(
+        { success: false, error: message },
+        { status }
+    );
+};
+
+// Import entries from a CSV or TBX file
+// Form fields: file, sourceLanguage and targetLanguage (used when the file does not
+// state them) and mode=append|replace
+export const POST = withApiAccess(ROUTE, async (request: NextRequest, { tracker }, { params }: RouteContext): Promise<NextResponse> => {
+    const { id } = await params;
+    if (!glossaryStore.get(id)) {
+        return tracker.respond(createErrorResponse(`Glossary ${id} not found`, 404));
+    }
+
+    const formData = await request.formData();
+    const file = formData.get('file') as File | null;
+    if (!file) {
+        return tracker.respond(createErrorResponse('No file provided. Please upload a CSV or TBX file.'));
+    }
+
+    const mode = (formData.get('mode') as string | null) || 'append';
+    if (mode !== 'append' && mode !== 'replace') {
+        return tracker.respond(createErrorResponse('mode must be append or replace'));
+    }
+
+    const result = importGlossaryFile(file.name, await file.text(), {
+        sourceLanguage: (formData.get('sourceLanguage') as string | null) || undefined,
+        targetLanguage: (formData.get('targetLanguage') as string | null) || undefined,
+    });
+    if (!result) {
+        return tracker.respond(createErrorResponse('Unsupported glossary format. Use .csv, .tsv or .tbx', 415));
+    }
+
+    if (result.entries.length === 0) {
+        return tracker.respond(NextResponse.json<GlossaryImportResponse>(
+            { success: false, imported: 0, skipped: result.skipped, error: 'No valid entries found in the file' },
+            { status: 422 }
+        ));
+    }
+
+    const glossary = glossaryStore.addEntries(id, result.entries, { replace: mode === 'replace' });
+    return tracker.respond(NextResponse.json<GlossaryImportResponse>(
+        { success: true, data: glossary, imported: result.entries.length, skipped: result.skipped },
+        { status: 200 }
+    ));
+});
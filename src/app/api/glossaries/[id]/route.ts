@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withApiAccess } from '@/lib/api-keys';
+import { glossaryStore } from '@/lib/glossary';
+import { glossaryUpdateSchema } from '@/lib/schema/glossary';
+import { GlossaryResponse } from '@/lib/types';
+
+const ROUTE = '/api/glossaries/:id';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const createNotFoundResponse = (id: string): NextResponse => {
+    return NextResponse.json(
+        { success: false, error: `Glossary ${id} not found` },
+        { status: 404 }
+    );
+};
+
+// Glossary with all of its entries
+export const GET = withApiAccess(ROUTE, async (_request, { tracker }, { params }: RouteContext): Promise<NextResponse> => {
+    const { id } = await params;
+    const glossary = glossaryStore.get(id);
+    if (!glossary) {
+        return tracker.respond(createNotFoundResponse(id));
+    }
+
+    return tracker.respond(NextResponse.json<GlossaryResponse>({ success: true, data: glossary }, { status: 200 }));
+}, { uiRead: true });
+
+// Rename or describe a glossary
+export const PATCH = withApiAccess(ROUTE, async (request: NextRequest, { tracker }, { params }: RouteContext): Promise<NextResponse> => {
+    const { id } = await params;
+
+    let body: unknown;
+    try {
+        body = await request.json();
+    } catch {
+        return tracker.respond(NextResponse.json({ success: false, error: 'Request body must be valid JSON' }, { status: 400 }));
+    }
+
+    const parsed = glossaryUpdateSchema.safeParse(body);
+    if (!parsed.success) {
+        const issue = parsed.error.errors[0];
+        return tracker.respond(NextResponse.json(
+            { success: false, error: `Invalid glossary: ${issue?.path.join('.') || 'body'} ${issue?.message}` },
+            { status: 400 }
+        ));
+    }
+
+    const glossary = glossaryStore.update(id, parsed.data);
+    if (!glossary) {
+        return tracker.respond(createNotFoundResponse(id));
+    }
+
+    return tracker.respond(NextResponse.json<GlossaryResponse>({ success: true, data: glossary }, { status: 200 }));
+});
+
+export const DELETE = withApiAccess(ROUTE, async (_request, { tracker }, { params }: RouteContext): Promise<NextResponse> => {
+    const { id } = await params;
+    if (!glossaryStore.remove(id)) {
+        return tracker.respond(createNotFoundResponse(id));
+    }
+
+    return tracker.respond(NextResponse.json({ success: true }, { status: 200 }));
+});
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withApiAccess } from '@/lib/api-keys';
+import { glossaryStore } from '@/lib/glossary';
+import { glossaryInputSchema } from '@/lib/schema/glossary';
+import { GlossaryListResponse, GlossaryResponse } from '@/lib/types';
+
+const ROUTE = '/api/glossaries';
+
+const createErrorResponse = (message: string, status = 400): NextResponse => {
+    return NextResponse.json(
+        { success: false, error: message },
+        { status }
+    );
+};
+
+// List glossaries without their entries
+export const GET = withApiAccess(ROUTE, async (_request, { tracker }): Promise<NextResponse> => {
+    return tracker.respond(NextResponse.json<GlossaryListResponse>({ success: true, data: glossaryStore.list() }, { status: 200 }));
+}, { uiRead: true });
+
+// Create a glossary, optionally with initial entries
+export const POST = withApiAccess(ROUTE, async (request: NextRequest, { tracker }): Promise<NextResponse> => {
+    let body: unknown;
+    try {
+        body = await request.json();
+    } catch {
+        return tracker.respond(createErrorResponse('Request body must be valid JSON'));
+    }
+
+    const parsed = glossaryInputSchema.safeParse(body);
+    if (!parsed.success) {
+        const issue = parsed.error.errors[0];
+        return tracker.respond(createErrorResponse(
+            issue ? `Invalid glossary: ${issue.path.join('.') || 'body'} ${issue.message}` : 'Invalid glossary'
+        ));
+    }
+
+    const glossary = glossaryStore.create(parsed.data);
+    return tracker.respond(NextResponse.json<GlossaryResponse>(
+        { success: true, data: glossary },
+        { status: 201, headers: { Location: `/api/glossaries/${glossary.id}` } }
+    ));
+});
@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { withApiAccess } from '@/lib/api-keys';
+import { MAX_FILE_SIZE } from '@/lib/file-validation';
+import { getInputAdapters } from '@/lib/input-adapters';
+import { InputFormatsResponse } from '@/lib/types';
+
+const ROUTE = '/api/input-formats';
+
+// Formats accepted for upload, derived from the registered input adapters
+export const GET = withApiAccess(ROUTE, async (_request, { tracker }): Promise<NextResponse<InputFormatsResponse>> => {
+    const formats = getInputAdapters().map(({ id, label, mimeTypes, extensions }) => ({
+        id,
+        label,
+        mimeTypes,
+        extensions,
+    }));
+
+    return tracker.respond(NextResponse.json(
+        { success: true, data: { formats, maxFileSize: MAX_FILE_SIZE } },
+        { status: 200 }
+    ));
+}, { uiRead: true });
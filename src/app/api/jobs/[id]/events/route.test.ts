@@ -0,0 +1,44 @@
+import { describe, expect, it } from '@jest/globals';
+import { NextRequest } from 'next/server';
+import { jobStore } from '@/lib/jobs';
+import { createTestDocument } from '@/test/documents';
+import { GET } from './route';
+
+const openEvents = (id: string) =>
+  GET(new NextRequest(`http://localhost/api/jobs/${id}/events`), { params: Promise.resolve({ id }) });
+
+// Splits Server-Sent Events into their names and data
+const readEvents = async (response: Response): Promise<{ event: string; data: Record<string, unknown> }[]> =>
+  (await response.text()).split('\n\n').filter(block => block.startsWith('event:')).map(block => {
+    const [event, data] = block.split('\n');
+    return { event: event.slice('event: '.length), data: JSON.parse(data.slice('data: '.length)) };
+  });
+
+describe('GET /api/jobs/:id/events', () => {
+  it('sends the current state, partial results while parsing and closes once the job finishes', async () => {
+    const { job } = jobStore.create('report.pdf', { clientId: 'anonymous' });
+    jobStore.setStage(job.id, 'parsing');
+    const document = createTestDocument([{ type: 'heading', content: 'Annual report' }, { type: 'paragraph', content: 'Revenue grew.' }]);
+    jobStore.setPartial(job.id, { structure: { sections: document.structure.sections.slice(0, 1) } });
+
+    const response = await openEvents(job.id);
+    jobStore.setPartial(job.id, { structure: { sections: document.structure.sections } });
+    jobStore.complete(job.id, document);
+
+    expect(response.headers.get('Content-Type')).toBe('text/event-stream');
+    const events = await readEvents(response);
+    expect(events.map(({ event }) => event)).toEqual(['progress', 'partial', 'partial', 'completed']);
+    expect(events[0].data).toMatchObject({ stage: 'parsing', progress: 30 });
+    expect(events.filter(({ event }) => event === 'partial').map(({ data }) => (data.structure as { sections: unknown[] }).sections.length))
+      .toEqual([1, 2]);
+    expect(events[3].data).toMatchObject({ status: 'completed', progress: 100 });
+  });
+
+  it('does not stream jobs of other clients', async () => {
+    const { job } = jobStore.create('report.pdf', { clientId: 'key:other' });
+
+    const response = await openEvents(job.id);
+
+    expect(response.status).toBe(404);
+  });
+});
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withApiAccess } from '@/lib/api-keys';
+import { isTerminalJobStatus, jobStore } from '@/lib/jobs';
+import { JobSummary, PartialDocumentParserResult } from '@/lib/types';
+
+const ROUTE = '/api/jobs/:id/events';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Keeps proxies from closing idle connections during long model calls
+const HEARTBEAT_INTERVAL_MS = 15_000;
+
+const encoder = new TextEncoder();
+
+const formatEvent = (event: string, data: JobSummary | PartialDocumentParserResult): Uint8Array =>
+    encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+
+// Stream stage and progress updates, and the partial result while the model
+// streams it, as Server-Sent Events
+export const GET = withApiAccess(ROUTE, async (request: NextRequest, { client, tracker }, { params }: RouteContext): Promise<Response> => {
+    const { id } = await params;
+    const job = jobStore.get(id, client.id);
+    if (!job) {
+        return tracker.respond(NextResponse.json(
+            { success: false, error: `Job ${id} not found` },
+            { status: 404 }
+        ));
+    }
+
+    let cleanup = () => {};
+
+    const stream = new ReadableStream<Uint8Array>({
+        start: (controller) => {
+            let closed = false;
+
+            const close = () => {
+                if (closed) return;
+                closed = true;
+                cleanup();
+                controller.close();
+            };
+
+            const send = (current: JobSummary) => {
+                if (closed) return;
+                const terminal = isTerminalJobStatus(current.status);
+                controller.enqueue(formatEvent(terminal ? current.status : 'progress', current));
+                if (terminal) close();
+            };
+
+            const sendPartial = (partial: PartialDocumentParserResult) => {
+                if (!closed) controller.enqueue(formatEvent('partial', partial));
+            };
+
+            const unsubscribe = jobStore.subscribe(id, send);
+            const unsubscribePartial = jobStore.subscribePartial(id, sendPartial);
+            const heartbeat = setInterval(() => {
+                if (!closed) controller.enqueue(encoder.encode(': heartbeat\n\n'));
+            }, HEARTBEAT_INTERVAL_MS);
+
+            cleanup = () => {
+                unsubscribe();
+                unsubscribePartial();
+                clearInterval(heartbeat);
+                request.signal.removeEventListener('abort', close);
+            };
+            request.signal.addEventListener('abort', close);
+
+            // Send the current snapshot first so late subscribers are in sync
+            send(jobStore.get(id, client.id) ?? job);
+            const partial = jobStore.getPartial(id, client.id);
+            if (partial) sendPartial(partial);
+        },
+        cancel: () => cleanup(),
+    });
+
+    return tracker.respond(new Response(stream, {
+        headers: {
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache, no-transform',
+            Connection: 'keep-alive',
+        },
+    }));
+}, { uiRead: true });
@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server';
+import { withApiAccess } from '@/lib/api-keys';
+import { jobStore } from '@/lib/jobs';
+import { JobResultResponse } from '@/lib/types';
+
+const ROUTE = '/api/jobs/:id/result';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Fetch the parse result of a finished job
+export const GET = withApiAccess(ROUTE, async (_request, { client, tracker }, { params }: RouteContext): Promise<NextResponse> => {
+    const { id } = await params;
+    const job = jobStore.get(id, client.id);
+    if (!job) {
+        return tracker.respond(NextResponse.json(
+            { success: false, error: `Job ${id} not found` },
+            { status: 404 }
+        ));
+    }
+
+    if (job.status === 'failed') {
+        return tracker.respond(NextResponse.json<JobResultResponse>(
+            { success: false, job, error: job.error?.message ?? 'Job failed' },
+            { status: job.error?.status ?? 500 }
+        ));
+    }
+
+    const result = jobStore.getResult(id, client.id);
+    if (job.status !== 'completed' || !result) {
+        return tracker.respond(NextResponse.json<JobResultResponse>(
+            { success: false, job, error: `Job is ${job.status}, no result available yet` },
+            { status: 409 }
+        ));
+    }
+
+    return tracker.respond(NextResponse.json<JobResultResponse>({ success: true, data: result, job }, { status: 200 }));
+}, { uiRead: true });
@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server';
+import { withApiAccess } from '@/lib/api-keys';
+import { jobStore } from '@/lib/jobs';
+import { JobResponse } from '@/lib/types';
+
+const ROUTE = '/api/jobs/:id';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const createNotFoundResponse = (id: string): NextResponse => {
+    return NextResponse.json(
+        { success: false, error: `Job ${id} not found` },
+        { status: 404 }
+    );
+};
+
+// Report job status and current stage
+export const GET = withApiAccess(ROUTE, async (_request, { client, tracker }, { params }: RouteContext): Promise<NextResponse> => {
+    const { id } = await params;
+    const job = jobStore.get(id, client.id);
+    if (!job) {
+        return tracker.respond(createNotFoundResponse(id));
+    }
+
+    return tracker.respond(NextResponse.json<JobResponse>({ success: true, data: job }, { status: 200 }));
+}, { uiRead: true });
+
+// Cancel a running job
+export const DELETE = withApiAccess(ROUTE, async (_request, { client, tracker }, { params }: RouteContext): Promise<NextResponse> => {
+    const { id } = await params;
+    const job = jobStore.cancel(id, client.id);
+    if (!job) {
+        return tracker.respond(createNotFoundResponse(id));
+    }
+
+    if (job.status !== 'cancelled') {
+        return tracker.respond(NextResponse.json<JobResponse>(
+            { success: false, data: job, error: `Job already ${job.status}` },
+            { status: 409 }
+        ));
+    }
+
+    return tracker.respond(NextResponse.json<JobResponse>({ success: true, data: job }, { status: 200 }));
+});
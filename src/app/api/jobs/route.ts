@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { meterModel, recordParsedPages, withApiAccess } from '@/lib/api-keys';
+import { readUpload, validateFile } from '@/lib/file-validation';
+import { glossaryStore } from '@/lib/glossary';
+import { startParseJob } from '@/lib/jobs';
+import { resolveModel } from '@/lib/models';
+import { DocumentProcessingError } from '@/lib/processing-errors';
+import { JobResponse, JobSummary, UploadErrorCode } from '@/lib/types';
+
+const ROUTE = '/api/jobs';
+
+// Helper functions
+const createErrorResponse = (message: string, status = 400, code?: UploadErrorCode): NextResponse => {
+    return NextResponse.json(
+        { success: false, error: message, ...(code && { code }) },
+        { status }
+    );
+};
+
+const createAcceptedResponse = (data: JobSummary): NextResponse<JobResponse> => {
+    return NextResponse.json(
+        { success: true, data },
+        { status: 202, headers: { Location: `/api/jobs/${data.id}` } }
+    );
+};
+
+// force=true parses again even when a cached result exists
+const isForced = (formData: FormData): boolean => /^(true|1)$/i.test((formData.get('force') as string | null) ?? '');
+
+// Submit a document for asynchronous parsing
+export const POST = withApiAccess(ROUTE, async (request: NextRequest, { client, tracker }): Promise<NextResponse> => {
+    try {
+        // Parse form data
+        const formData = await request.formData();
+        // 'pdf' is the original field name and stays supported for existing clients
+        const file = (formData.get('file') ?? formData.get('pdf')) as File | null;
+
+        // Validate file presence
+        if (!file) {
+            return tracker.respond(createErrorResponse('No file provided. Please upload a document.'));
+        }
+
+        // Validate file
+        const validation = validateFile(file);
+        if (!validation.isValid) {
+            return tracker.respond(createErrorResponse(validation.error, validation.status, validation.code), validation.code);
+        }
+
+        // Resolve the requested (or default) parse model for formats parsed by a model
+        const modelId = (formData.get('model') as string | null) || undefined;
+        const model = validation.adapter.requiresModel ? meterModel(client, resolveModel(modelId, 'parse')) : undefined;
+
+        // Glossary the document is translated with later on
+        const glossaryId = (formData.get('glossaryId') as string | null) || undefined;
+        if (glossaryId && !glossaryStore.get(glossaryId)) {
+            return tracker.respond(createErrorResponse(`Glossary ${glossaryId} not found`, 404));
+        }
+
+        // Check the bytes match the format, decrypting protected PDFs with the optional password
+        const password = (formData.get('password') as string | null) || undefined;
+        const input = await tracker.time('validate', () => readUpload(file, validation, { password }));
+
+        const job = startParseJob(input, {
+            clientId: client.id,
+            model,
+            glossaryId,
+            force: isForced(formData),
+            onResult: (result, cache) => recordParsedPages(client, result, cache),
+            requestId: tracker.requestId,
+        });
+
+        return tracker.respond(createAcceptedResponse(job));
+
+    } catch (error) {
+        tracker.log.error('Job submission error', { error });
+
+        // Rejected file content, unknown model or missing provider credentials
+        if (error instanceof DocumentProcessingError) {
+            return tracker.respond(createErrorResponse(error.message, error.status, error.code), error.code);
+        }
+        return tracker.respond(createErrorResponse('An unexpected error occurred while submitting the document', 500));
+    }
+});
+
+// Handle unsupported methods
+export const GET = async (): Promise<NextResponse> => {
+    return NextResponse.json(
+        { success: false, error: 'Method not allowed. Use POST to submit a document.' },
+        { status: 405 }
+    );
+};
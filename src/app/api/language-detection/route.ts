@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiClient, meterModel, withApiAccess } from '@/lib/api-keys';
+import { jobStore } from '@/lib/jobs';
+import { createModelLanguageDetector, createStatisticalLanguageDetector, LanguageDetector } from '@/lib/language-detection';
+import { resolveModel } from '@/lib/models';
+import { RequestTracker } from '@/lib/observability';
+import { toProcessingError } from '@/lib/processing-errors';
+import { languageDetectionRequestSchema } from '@/lib/schema/language-detection';
+import { LanguageDetectionResponse, LanguageDetectionResult, RequestMetrics } from '@/lib/types';
+
+const ROUTE = '/api/language-detection';
+
+// Helper functions
+const createErrorResponse = (message: string, status = 400): NextResponse => {
+    return NextResponse.json(
+        { success: false, error: message },
+        { status }
+    );
+};
+
+const createSuccessResponse = (
+    data: LanguageDetectionResult,
+    metrics: RequestMetrics
+): NextResponse<LanguageDetectionResponse> => {
+    return NextResponse.json({ success: true, data, metrics }, { status: 200 });
+};
+
+// TRANSLATOR=fake detects with the offline statistics only, for local testing without network
+const getDetector = (modelId: string | undefined, client: ApiClient, tracker: RequestTracker): LanguageDetector => {
+    if (process.env.TRANSLATOR === 'fake') {
+        return createStatisticalLanguageDetector();
+    }
+    return createModelLanguageDetector(tracker.meter(meterModel(client, resolveModel(modelId, 'detectLanguage'))).model);
+};
+
+// Detect the primary and per-section languages of a parsed document; body { document | jobId, model? }
+export const POST = withApiAccess(ROUTE, async (request: NextRequest, { client, tracker }): Promise<NextResponse> => {
+    try {
+        let body: unknown;
+        try {
+            body = await request.json();
+        } catch {
+            return tracker.respond(createErrorResponse('Request body must be valid JSON'));
+        }
+
+        const parsed = languageDetectionRequestSchema.safeParse(body);
+        if (!parsed.success) {
+            const issue = parsed.error.errors[0];
+            return tracker.respond(createErrorResponse(
+                issue ? `Invalid request: ${issue.path.join('.') || 'body'} ${issue.message}` : 'Invalid request'
+            ));
+        }
+
+        const { jobId } = parsed.data;
+        const document = jobId ? jobStore.getResult(jobId, client.id) : parsed.data.document;
+        if (!document) {
+            return tracker.respond(createErrorResponse(`No completed parse job found for ${jobId}`, 404));
+        }
+
+        const detector = getDetector(parsed.data.model, client, tracker);
+        const detection = await tracker.time('detect', () => detector.detect(document));
+        return tracker.respond(createSuccessResponse(detection, tracker.getMetrics()));
+
+    } catch (error) {
+        tracker.log.error('Language detection error', { error });
+
+        const { message, status } = toProcessingError(error);
+        return tracker.respond(createErrorResponse(message, status));
+    }
+});
+
+// Handle unsupported methods
+export const GET = async (): Promise<NextResponse> => {
+    return NextResponse.json(
+        { success: false, error: 'Method not allowed. Use POST to detect the languages of a parsed document.' },
+        { status: 405 }
+    );
+};
+
+export const PUT = async (): Promise<NextResponse> => {
+    return NextResponse.json(
+        { success: false, error: 'Method not allowed. Use POST to detect the languages of a parsed document.' },
+        { status: 405 }
+    );
+};
+
+export const DELETE = async (): Promise<NextResponse> => {
+    return NextResponse.json(
+        { success: false, error: 'Method not allowed. Use POST to detect the languages of a parsed document.' },
+        { status: 405 }
+    );
+};
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { checkMetricsAccess } from '@/lib/api-keys';
+import { metrics } from '@/lib/observability';
+
+// Prometheus text exposition format
+const METRICS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+// Request counts, latencies, stage timings and model tokens since the server started
+export const GET = async (request: NextRequest): Promise<Response> => {
+    const denied = checkMetricsAccess(request.headers);
+    if (denied) {
+        return NextResponse.json(
+            { success: false, error: denied.message },
+            { status: denied.status, headers: { 'WWW-Authenticate': 'Bearer' } }
+        );
+    }
+
+    return new Response(metrics.render(), {
+        status: 200,
+        headers: { 'Content-Type': METRICS_CONTENT_TYPE, 'Cache-Control': 'no-store' },
+    });
+};
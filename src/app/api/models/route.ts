@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server';
+import { withApiAccess } from '@/lib/api-keys';
+import { getModelRegistry } from '@/lib/models';
+import { ModelsResponse } from '@/lib/types';
+
+const ROUTE = '/api/models';
+
+// Registered models with their capabilities and the default model of each pipeline stage
+export const GET = withApiAccess(ROUTE, async (_request, { tracker }): Promise<NextResponse> => {
+    try {
+        const registry = getModelRegistry();
+
+        return tracker.respond(NextResponse.json<ModelsResponse>(
+            { success: true, data: { models: registry.list(), defaults: registry.getDefaults() } },
+            { status: 200 }
+        ));
+    } catch (error) {
+        tracker.log.error('Model registry error', { error });
+        return tracker.respond(NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Failed to load model registry' },
+            { status: 500 }
+        ));
+    }
+});
@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import { withApiAccess } from '@/lib/api-keys';
+import { getPipelinePdf } from '@/langgraph';
+
+const ROUTE = '/api/pipelines/:id/pdf';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Download the PDF rendered by the Output Formatter Agent once the run completes
+export const GET = withApiAccess(ROUTE, async (_request, { tracker }, { params }: RouteContext): Promise<NextResponse> => {
+    const { id } = await params;
+    const pdf = await getPipelinePdf(id);
+    if (!pdf) {
+        return tracker.respond(NextResponse.json(
+            { success: false, error: `Pipeline run ${id} has no translated PDF yet` },
+            { status: 404 }
+        ));
+    }
+
+    return tracker.respond(new NextResponse(Buffer.from(pdf), {
+        status: 200,
+        headers: {
+            'Content-Type': 'application/pdf',
+            'Content-Disposition': `attachment; filename="translation-${id}.pdf"`,
+        },
+    }));
+});
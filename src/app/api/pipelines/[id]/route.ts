@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { withApiAccess } from '@/lib/api-keys';
+import { PipelineResponse } from '@/lib/types';
+import { getPipelineRun } from '@/langgraph';
+
+const ROUTE = '/api/pipelines/:id';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Report the stage of a run, the target language request while it is paused and the translation once it completes
+export const GET = withApiAccess(ROUTE, async (_request, { tracker }, { params }: RouteContext): Promise<NextResponse> => {
+    const { id } = await params;
+    const run = await getPipelineRun(id);
+    if (!run) {
+        return tracker.respond(NextResponse.json(
+            { success: false, error: `Pipeline run ${id} not found` },
+            { status: 404 }
+        ));
+    }
+
+    return tracker.respond(NextResponse.json<PipelineResponse>({ success: true, data: run }, { status: 200 }));
+});
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { meterModel, withApiAccess } from '@/lib/api-keys';
+import { isSupportedLanguage } from '@/lib/languages';
+import { toProcessingError } from '@/lib/processing-errors';
+import { pipelineResumeRequestSchema } from '@/lib/schema/pipeline';
+import { PipelineResponse, PipelineRun, RequestMetrics } from '@/lib/types';
+import { createPipelineGraph, getPipelineRun, resumePipelineRun } from '@/langgraph';
+
+const ROUTE = '/api/pipelines/:id/target-language';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Helper functions
+const createErrorResponse = (message: string, status = 400): NextResponse => {
+    return NextResponse.json(
+        { success: false, error: message },
+        { status }
+    );
+};
+
+const createSuccessResponse = (data: PipelineRun, metrics: RequestMetrics): NextResponse<PipelineResponse> => {
+    return NextResponse.json({ success: true, data, metrics }, { status: 200 });
+};
+
+// Answer the target language selection of a paused run and continue it; body { targetLanguage, model? }
+export const POST = withApiAccess(ROUTE, async (request: NextRequest, { client, tracker }, { params }: RouteContext): Promise<NextResponse> => {
+    try {
+        let body: unknown;
+        try {
+            body = await request.json();
+        } catch {
+            return tracker.respond(createErrorResponse('Request body must be valid JSON'));
+        }
+
+        const parsed = pipelineResumeRequestSchema.safeParse(body);
+        if (!parsed.success) {
+            const issue = parsed.error.errors[0];
+            return tracker.respond(createErrorResponse(
+                issue ? `Invalid request: ${issue.path.join('.') || 'body'} ${issue.message}` : 'Invalid request'
+            ));
+        }
+
+        const { targetLanguage } = parsed.data;
+        if (!isSupportedLanguage(targetLanguage)) {
+            return tracker.respond(createErrorResponse(`Unsupported target language: ${targetLanguage}`));
+        }
+
+        const { id } = await params;
+        const current = await getPipelineRun(id);
+        if (!current) {
+            return tracker.respond(createErrorResponse(`Pipeline run ${id} not found`, 404));
+        }
+
+        if (!current.awaiting) {
+            return tracker.respond(createErrorResponse(`Pipeline run ${id} is not awaiting a target language`, 409));
+        }
+
+        const graph = createPipelineGraph({
+            model: parsed.data.model,
+            meter: (resolved) => tracker.meter(meterModel(client, resolved)),
+        });
+        const run = await tracker.time('pipeline', () => resumePipelineRun(graph, id, targetLanguage));
+        tracker.log.info('Pipeline run resumed', { threadId: id, targetLanguage, stage: run.stage });
+
+        return tracker.respond(createSuccessResponse(run, tracker.getMetrics()));
+
+    } catch (error) {
+        tracker.log.error('Pipeline error', { error });
+
+        const { message, status } = toProcessingError(error);
+        return tracker.respond(createErrorResponse(message, status));
+    }
+});
@@ -0,0 +1,93 @@
+import { afterAll, beforeAll, describe, expect, it } from '@jest/globals';
+import { NextRequest } from 'next/server';
+import { createTestDocument } from '@/test/documents';
+import { setEnv } from '@/test/env';
+import { GET as getRun } from './[id]/route';
+import { GET as getPdf } from './[id]/pdf/route';
+import { POST as selectTargetLanguage } from './[id]/target-language/route';
+import { POST } from './route';
+
+const post = (url: string, body: unknown) =>
+  new NextRequest(url, {
+    method: 'POST',
+    body: JSON.stringify(body),
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+const context = (id: string) => ({ params: Promise.resolve({ id }) });
+
+describe('/api/pipelines with TRANSLATOR=fake', () => {
+  let restoreEnv = () => {};
+  beforeAll(() => {
+    restoreEnv = setEnv({ TRANSLATOR: 'fake' });
+  });
+  afterAll(() => restoreEnv());
+
+  const document = createTestDocument([
+    { type: 'heading', level: 1, content: 'Annual report' },
+    { type: 'paragraph', content: 'The company grew steadily over the last year and hired new staff in every office.' },
+    { type: 'paragraph', content: 'Revenue and profit both rose, while costs stayed within the planned budget.' },
+  ]);
+
+  it('pauses for the target language and completes once it is selected', async () => {
+    const started = await POST(post('http://localhost/api/pipelines', { document }));
+    const run = (await started.json()).data;
+
+    expect(started.status).toBe(201);
+    expect(run.stage).toBe('awaiting-target-language');
+    expect(run.targetLanguage).toBeNull();
+    expect(run.awaiting).toMatchObject({ detectedLanguage: 'en' });
+    expect(run.document).toBeNull();
+
+    const status = await getRun(new NextRequest(`http://localhost/api/pipelines/${run.threadId}`), context(run.threadId));
+    expect((await status.json()).data.awaiting).toEqual(run.awaiting);
+
+    const resumed = await selectTargetLanguage(
+      post(`http://localhost/api/pipelines/${run.threadId}/target-language`, { targetLanguage: 'de' }),
+      context(run.threadId)
+    );
+    const completed = (await resumed.json()).data;
+
+    expect(resumed.status).toBe(200);
+    expect(completed).toMatchObject({ threadId: run.threadId, stage: 'completed', targetLanguage: 'de', awaiting: null });
+    expect(completed.document.structure.sections.map((section: { content: string }) => section.content)).toEqual([
+      '[de] Annual report',
+      '[de] The company grew steadily over the last year and hired new staff in every office.',
+      '[de] Revenue and profit both rose, while costs stayed within the planned budget.',
+    ]);
+
+    const pdf = await getPdf(new NextRequest(`http://localhost/api/pipelines/${run.threadId}/pdf`), context(run.threadId));
+    expect(pdf.headers.get('Content-Type')).toBe('application/pdf');
+    expect(Buffer.from(await pdf.arrayBuffer()).subarray(0, 5).toString()).toBe('%PDF-');
+  });
+
+  it('runs straight through when the target language is given up front', async () => {
+    const response = await POST(post('http://localhost/api/pipelines', { document, targetLanguage: 'fr' }));
+    const run = (await response.json()).data;
+
+    expect(run).toMatchObject({ stage: 'completed', targetLanguage: 'fr', awaiting: null });
+  });
+
+  it('refuses to resume a run that is not paused', async () => {
+    const started = await POST(post('http://localhost/api/pipelines', { document, targetLanguage: 'fr' }));
+    const { threadId } = (await started.json()).data;
+
+    const response = await selectTargetLanguage(
+      post(`http://localhost/api/pipelines/${threadId}/target-language`, { targetLanguage: 'de' }),
+      context(threadId)
+    );
+
+    expect(response.status).toBe(409);
+  });
+
+  it('reports unknown runs', async () => {
+    const status = await getRun(new NextRequest('http://localhost/api/pipelines/missing'), context('missing'));
+    const resumed = await selectTargetLanguage(
+      post('http://localhost/api/pipelines/missing/target-language', { targetLanguage: 'de' }),
+      context('missing')
+    );
+
+    expect(status.status).toBe(404);
+    expect(resumed.status).toBe(404);
+  });
+});
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { meterModel, withApiAccess } from '@/lib/api-keys';
+import { glossaryStore } from '@/lib/glossary';
+import { jobStore } from '@/lib/jobs';
+import { isSupportedLanguage } from '@/lib/languages';
+import { toProcessingError } from '@/lib/processing-errors';
+import { pipelineStartRequestSchema } from '@/lib/schema/pipeline';
+import { PipelineResponse, PipelineRun, RequestMetrics } from '@/lib/types';
+import { createPipelineGraph, startPipelineRun } from '@/langgraph';
+
+const ROUTE = '/api/pipelines';
+
+// Helper functions
+const createErrorResponse = (message: string, status = 400): NextResponse => {
+    return NextResponse.json(
+        { success: false, error: message },
+        { status }
+    );
+};
+
+const createSuccessResponse = (data: PipelineRun, metrics: RequestMetrics): NextResponse<PipelineResponse> => {
+    return NextResponse.json({ success: true, data, metrics }, { status: 201 });
+};
+
+// Start a translation graph run on a parsed document; body { document | jobId, targetLanguage?, glossaryId?, model? }
+// Without a target language the run pauses after language detection, see /api/pipelines/:id/target-language
+export const POST = withApiAccess(ROUTE, async (request: NextRequest, { client, tracker }): Promise<NextResponse> => {
+    try {
+        let body: unknown;
+        try {
+            body = await request.json();
+        } catch {
+            return tracker.respond(createErrorResponse('Request body must be valid JSON'));
+        }
+
+        const parsed = pipelineStartRequestSchema.safeParse(body);
+        if (!parsed.success) {
+            const issue = parsed.error.errors[0];
+            return tracker.respond(createErrorResponse(
+                issue ? `Invalid request: ${issue.path.join('.') || 'body'} ${issue.message}` : 'Invalid request'
+            ));
+        }
+
+        const { jobId, targetLanguage } = parsed.data;
+        const document = jobId ? jobStore.getResult(jobId, client.id) : parsed.data.document;
+        if (!document) {
+            return tracker.respond(createErrorResponse(`No completed parse job found for ${jobId}`, 404));
+        }
+
+        if (document.structure.sections.length === 0) {
+            return tracker.respond(createErrorResponse('Document has no sections to translate', 422));
+        }
+
+        if (targetLanguage && !isSupportedLanguage(targetLanguage)) {
+            return tracker.respond(createErrorResponse(`Unsupported target language: ${targetLanguage}`));
+        }
+
+        // An explicit glossary wins over the one chosen when the job was submitted
+        const glossaryId = parsed.data.glossaryId ?? (jobId ? jobStore.get(jobId, client.id)?.glossaryId : undefined);
+        const glossary = glossaryId ? glossaryStore.get(glossaryId) : undefined;
+        if (glossaryId && !glossary) {
+            return tracker.respond(createErrorResponse(`Glossary ${glossaryId} not found`, 404));
+        }
+
+        const graph = createPipelineGraph({
+            model: parsed.data.model,
+            meter: (resolved) => tracker.meter(meterModel(client, resolved)),
+        });
+        const run = await tracker.time('pipeline', () => startPipelineRun(graph, {
+            document,
+            ...(targetLanguage && { targetLanguage }),
+            ...(glossary && { glossary: glossary.entries }),
+        }));
+        tracker.log.info('Pipeline run started', { threadId: run.threadId, stage: run.stage });
+
+        return tracker.respond(createSuccessResponse(run, tracker.getMetrics()));
+
+    } catch (error) {
+        tracker.log.error('Pipeline error', { error });
+
+        const { message, status } = toProcessingError(error);
+        return tracker.respond(createErrorResponse(message, status));
+    }
+});
+
+// Handle unsupported methods
+export const GET = async (): Promise<NextResponse> => {
+    return NextResponse.json(
+        { success: false, error: 'Method not allowed. Use POST to start a translation run.' },
+        { status: 405 }
+    );
+};
@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server';
+import { withApiAccess } from '@/lib/api-keys';
+import { reviewStore } from '@/lib/review';
+import { ReviewResponse } from '@/lib/types';
+
+const ROUTE = '/api/reviews/:id';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const createNotFoundResponse = (id: string): NextResponse => {
+    return NextResponse.json(
+        { success: false, error: `Review ${id} not found` },
+        { status: 404 }
+    );
+};
+
+// Review with source, reviewed translation, quality report and section states
+export const GET = withApiAccess(ROUTE, async (_request, { client, tracker }, { params }: RouteContext): Promise<NextResponse> => {
+    const { id } = await params;
+    const review = reviewStore.get(id, client.id);
+    if (!review) {
+        return tracker.respond(createNotFoundResponse(id));
+    }
+
+    return tracker.respond(NextResponse.json<ReviewResponse>({ success: true, data: review }, { status: 200 }));
+}, { uiRead: true });
+
+export const DELETE = withApiAccess(ROUTE, async (_request, { client, tracker }, { params }: RouteContext): Promise<NextResponse> => {
+    const { id } = await params;
+    if (!reviewStore.remove(id, client.id)) {
+        return tracker.respond(createNotFoundResponse(id));
+    }
+
+    return tracker.respond(NextResponse.json({ success: true }, { status: 200 }));
+});
@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiClient, meterModel, withApiAccess } from '@/lib/api-keys';
+import { glossaryStore, selectGlossaryEntries } from '@/lib/glossary';
+import { resolveModel } from '@/lib/models';
+import { RequestTracker } from '@/lib/observability';
+import { toProcessingError } from '@/lib/processing-errors';
+import { createFakeQualityJudge, createModelQualityJudge, QualityJudge } from '@/lib/quality';
+import { retranslateReviewSection, reviewStore } from '@/lib/review';
+import { reviewRetranslateRequestSchema } from '@/lib/schema/review';
+import { createFakeTranslator, createModelTranslator, Translator } from '@/lib/translation';
+import { ReviewResponse } from '@/lib/types';
+
+type RouteContext = { params: Promise<{ id: string; index: string }> };
+
+const ROUTE = '/api/reviews/:id/sections/:index/retranslate';
+
+const createErrorResponse = (message: string, status = 400): NextResponse => {
+    return NextResponse.json(
+        { success: false, error: message },
+        { status }
+    );
+};
+
+// TRANSLATOR=fake swaps in the deterministic translator and judge for local testing without network;
+// model calls count against the caller's token quota and into the request metrics
+const getTranslator = (
+    modelId: string | undefined,
+    client: ApiClient,
+    tracker: RequestTracker
+): { translator: Translator; judge: QualityJudge } => {
+    if (process.env.TRANSLATOR === 'fake') {
+        return { translator: createFakeTranslator(), judge: createFakeQualityJudge() };
+    }
+
+    return {
+        translator: createModelTranslator(tracker.meter(meterModel(client, resolveModel(modelId, 'translate'))).model),
+        judge: createModelQualityJudge(tracker.meter(meterModel(client, resolveModel(undefined, 'evaluate'))).model),
+    };
+};
+
+// Translate one section again; body { instructions?, model? }
+export const POST = withApiAccess(ROUTE, async (request: NextRequest, { client, tracker }, { params }: RouteContext): Promise<NextResponse> => {
+    const { id, index } = await params;
+    const sectionIndex = Number(index);
+    if (!Number.isInteger(sectionIndex) || sectionIndex < 0) {
+        return tracker.respond(createErrorResponse(`Invalid section index ${index}`));
+    }
+
+    let body: unknown = {};
+    try {
+        const text = await request.text();
+        if (text) body = JSON.parse(text);
+    } catch {
+        return tracker.respond(createErrorResponse('Request body must be valid JSON'));
+    }
+
+    const parsed = reviewRetranslateRequestSchema.safeParse(body);
+    if (!parsed.success) {
+        const issue = parsed.error.errors[0];
+        return tracker.respond(createErrorResponse(
+            issue ? `Invalid request: ${issue.path.join('.') || 'body'} ${issue.message}` : 'Invalid request'
+        ));
+    }
+
+    const review = reviewStore.get(id, client.id);
+    if (!review) {
+        return tracker.respond(createErrorResponse(`Review ${id} not found`, 404));
+    }
+
+    const section = review.sections[sectionIndex];
+    if (!section) {
+        return tracker.respond(createErrorResponse(`Section ${sectionIndex} not found in review ${id}`, 404));
+    }
+    if (section.status === 'locked') {
+        return tracker.respond(createErrorResponse(`Section ${sectionIndex} is locked. Unlock it before translating it again`, 409));
+    }
+    if (!review.source.structure.sections[sectionIndex]?.content.trim()) {
+        return tracker.respond(createErrorResponse(`Section ${sectionIndex} has no source text to translate`, 422));
+    }
+
+    try {
+        const { translator, judge } = getTranslator(parsed.data.model ?? review.model, client, tracker);
+        const glossary = review.glossaryId ? glossaryStore.get(review.glossaryId) : undefined;
+
+        const { content, quality } = await tracker.time('translate', () => retranslateReviewSection(review, sectionIndex, {
+            translator,
+            judge,
+            instructions: parsed.data.instructions,
+            ...(glossary && { glossary: selectGlossaryEntries(glossary.entries, review.sourceLanguage, review.targetLanguage) }),
+        }));
+
+        const updated = reviewStore.replaceMachineTranslation(id, client.id, sectionIndex, content, quality);
+        if (!updated) {
+            return tracker.respond(createErrorResponse(`Review ${id} not found`, 404));
+        }
+
+        return tracker.respond(NextResponse.json<ReviewResponse>(
+            { success: true, data: updated, metrics: tracker.getMetrics() },
+            { status: 200 }
+        ));
+    } catch (error) {
+        tracker.log.error('Section re-translation error', { error });
+
+        const { message, status } = toProcessingError(error);
+        return tracker.respond(createErrorResponse(message, status));
+    }
+});
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withApiAccess } from '@/lib/api-keys';
+import { toProcessingError } from '@/lib/processing-errors';
+import { reviewStore } from '@/lib/review';
+import { reviewSectionUpdateSchema } from '@/lib/schema/review';
+import { ReviewResponse } from '@/lib/types';
+
+const ROUTE = '/api/reviews/:id/sections/:index';
+
+type RouteContext = { params: Promise<{ id: string; index: string }> };
+
+const createErrorResponse = (message: string, status = 400): NextResponse => {
+    return NextResponse.json(
+        { success: false, error: message },
+        { status }
+    );
+};
+
+// Edit the translated text of a section, change its status or flag it
+export const PATCH = withApiAccess(ROUTE, async (request: NextRequest, { client, tracker }, { params }: RouteContext): Promise<NextResponse> => {
+    const { id, index } = await params;
+    const sectionIndex = Number(index);
+    if (!Number.isInteger(sectionIndex) || sectionIndex < 0) {
+        return tracker.respond(createErrorResponse(`Invalid section index ${index}`));
+    }
+
+    let body: unknown;
+    try {
+        body = await request.json();
+    } catch {
+        return tracker.respond(createErrorResponse('Request body must be valid JSON'));
+    }
+
+    const parsed = reviewSectionUpdateSchema.safeParse(body);
+    if (!parsed.success) {
+        const issue = parsed.error.errors[0];
+        return tracker.respond(createErrorResponse(
+            issue ? `Invalid update: ${issue.path.join('.') || 'body'} ${issue.message}` : 'Invalid update'
+        ));
+    }
+
+    try {
+        const review = reviewStore.updateSection(id, client.id, sectionIndex, parsed.data);
+        if (!review) {
+            return tracker.respond(createErrorResponse(`Review ${id} not found`, 404));
+        }
+
+        return tracker.respond(NextResponse.json<ReviewResponse>({ success: true, data: review }, { status: 200 }));
+    } catch (error) {
+        const { message, status } = toProcessingError(error);
+        return tracker.respond(createErrorResponse(message, status));
+    }
+});
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withApiAccess } from '@/lib/api-keys';
+import { jobStore } from '@/lib/jobs';
+import { reviewStore } from '@/lib/review';
+import { reviewCreateRequestSchema } from '@/lib/schema/review';
+import { ReviewListResponse, ReviewResponse } from '@/lib/types';
+
+const ROUTE = '/api/reviews';
+
+const createErrorResponse = (message: string, status = 400): NextResponse => {
+    return NextResponse.json(
+        { success: false, error: message },
+        { status }
+    );
+};
+
+// List reviews without their documents, most recently changed first
+export const GET = withApiAccess(ROUTE, async (_request, { client, tracker }): Promise<NextResponse> => {
+    return tracker.respond(NextResponse.json<ReviewListResponse>({ success: true, data: reviewStore.list(client.id) }, { status: 200 }));
+}, { uiRead: true });
+
+// Start a review from a translation; body { document | jobId, translation, translationInfo, quality? }
+export const POST = withApiAccess(ROUTE, async (request: NextRequest, { client, tracker }): Promise<NextResponse> => {
+    let body: unknown;
+    try {
+        body = await request.json();
+    } catch {
+        return tracker.respond(createErrorResponse('Request body must be valid JSON'));
+    }
+
+    const parsed = reviewCreateRequestSchema.safeParse(body);
+    if (!parsed.success) {
+        const issue = parsed.error.errors[0];
+        return tracker.respond(createErrorResponse(
+            issue ? `Invalid review: ${issue.path.join('.') || 'body'} ${issue.message}` : 'Invalid review'
+        ));
+    }
+
+    const { jobId, translation, translationInfo, quality } = parsed.data;
+    const source = jobId ? jobStore.getResult(jobId, client.id) : parsed.data.document;
+    if (!source) {
+        return tracker.respond(createErrorResponse(`No completed parse job found for ${jobId}`, 404));
+    }
+
+    if (source.structure.sections.length !== translation.structure.sections.length) {
+        return tracker.respond(createErrorResponse(
+            `Translation has ${translation.structure.sections.length} sections but the source has ${source.structure.sections.length}`,
+            422
+        ));
+    }
+
+    const review = reviewStore.create({ clientId: client.id, jobId, source, translation, translationInfo, quality });
+    return tracker.respond(NextResponse.json<ReviewResponse>(
+        { success: true, data: review },
+        { status: 201, headers: { Location: `/api/reviews/${review.id}` } }
+    ));
+});
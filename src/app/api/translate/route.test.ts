@@ -0,0 +1,60 @@
+import { afterAll, beforeAll, describe, expect, it } from '@jest/globals';
+import { NextRequest } from 'next/server';
+import { createTestDocument } from '@/test/documents';
+import { setEnv } from '@/test/env';
+import { POST } from './route';
+
+const translate = (body: unknown) =>
+  POST(new NextRequest('http://localhost/api/translate', {
+    method: 'POST',
+    body: JSON.stringify(body),
+    headers: { 'Content-Type': 'application/json' },
+  }));
+
+describe('POST /api/translate with TRANSLATOR=fake', () => {
+  let restoreEnv = () => {};
+  beforeAll(() => {
+    restoreEnv = setEnv({ TRANSLATOR: 'fake' });
+  });
+  afterAll(() => restoreEnv());
+
+  const document = createTestDocument([
+    { type: 'heading', level: 1, content: 'Introduction' },
+    { type: 'paragraph', content: 'The first paragraph explains the scope.' },
+    { type: 'paragraph', content: 'The second paragraph lists the results.', position: { page: 2, order: 0 } },
+  ]);
+
+  it('returns the translated document with structure and order preserved', async () => {
+    const response = await translate({ document, sourceLanguage: 'en', targetLanguage: 'fr', useTranslationMemory: false });
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.success).toBe(true);
+    expect(body.data.structure.sections).toEqual([
+      { type: 'heading', level: 1, content: '[fr] Introduction', position: { page: 1, order: 0 } },
+      { type: 'paragraph', content: '[fr] The first paragraph explains the scope.', position: { page: 1, order: 1 } },
+      { type: 'paragraph', content: '[fr] The second paragraph lists the results.', position: { page: 2, order: 0 } },
+    ]);
+    expect(body.translation).toMatchObject({ sourceLanguage: 'en', targetLanguage: 'fr', translatedSections: 3 });
+    expect(body.quality.sections).toHaveLength(3);
+  });
+
+  it('reports an unknown job before resolving the model', async () => {
+    const restoreTranslator = setEnv({ TRANSLATOR: undefined });
+    try {
+      const response = await translate({ jobId: 'missing-job', sourceLanguage: 'en', targetLanguage: 'fr', model: 'no-such-model' });
+      const body = await response.json();
+
+      expect(response.status).toBe(404);
+      expect(body.error).toBe('No completed parse job found for missing-job');
+    } finally {
+      restoreTranslator();
+    }
+  });
+
+  it('rejects documents without sections', async () => {
+    const response = await translate({ document: createTestDocument([]), sourceLanguage: 'en', targetLanguage: 'fr' });
+
+    expect(response.status).toBe(422);
+  });
+});
@@ -0,0 +1,158 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiClient, meterModel, withApiAccess } from '@/lib/api-keys';
+import { glossaryStore, selectGlossaryEntries } from '@/lib/glossary';
+import { jobStore } from '@/lib/jobs';
+import { resolveModel } from '@/lib/models';
+import { RequestTracker } from '@/lib/observability';
+import { toProcessingError } from '@/lib/processing-errors';
+import { createFakeQualityJudge, createModelQualityJudge, QualityJudge, translateWithQualityControl } from '@/lib/quality';
+import { translationRequestSchema } from '@/lib/schema/translation';
+import { createFakeTranslator, createModelTranslator, Translator } from '@/lib/translation';
+import { collectSegmentPairs, translationMemory } from '@/lib/translation-memory';
+import { DocumentParserResult, QualityReport, RequestMetrics, TranslationInfo, TranslationResponse } from '@/lib/types';
+
+const ROUTE = '/api/translate';
+
+// Helper functions
+const createErrorResponse = (message: string, status = 400): NextResponse => {
+    return NextResponse.json(
+        { success: false, error: message },
+        { status }
+    );
+};
+
+const createSuccessResponse = (
+    data: DocumentParserResult,
+    translation: TranslationInfo,
+    quality: QualityReport,
+    metrics: RequestMetrics
+): NextResponse<TranslationResponse> => {
+    return NextResponse.json(
+        { success: true, data, translation, quality, metrics },
+        { status: 200 }
+    );
+};
+
+// TRANSLATOR=fake swaps in the deterministic translator and judge for local testing without network;
+// model calls count against the caller's token quota and into the request metrics
+const getTranslator = (
+    modelId: string | undefined,
+    client: ApiClient,
+    tracker: RequestTracker
+): { translator: Translator; judge: QualityJudge; model?: string } => {
+    if (process.env.TRANSLATOR === 'fake') {
+        return { translator: createFakeTranslator(), judge: createFakeQualityJudge() };
+    }
+
+    const resolved = tracker.meter(meterModel(client, resolveModel(modelId, 'translate')));
+    return {
+        translator: createModelTranslator(resolved.model),
+        judge: createModelQualityJudge(tracker.meter(meterModel(client, resolveModel(undefined, 'evaluate'))).model),
+        model: resolved.id,
+    };
+};
+
+// Main POST handler
+export const POST = withApiAccess(ROUTE, async (request: NextRequest, { client, tracker }): Promise<NextResponse> => {
+    try {
+        // Parse and validate JSON body
+        let body: unknown;
+        try {
+            body = await request.json();
+        } catch {
+            return tracker.respond(createErrorResponse('Request body must be valid JSON'));
+        }
+
+        const parsed = translationRequestSchema.safeParse(body);
+        if (!parsed.success) {
+            const issue = parsed.error.errors[0];
+            return tracker.respond(createErrorResponse(
+                issue ? `Invalid request: ${issue.path.join('.') || 'body'} ${issue.message}` : 'Invalid request'
+            ));
+        }
+
+        const { jobId, sourceLanguage, targetLanguage } = parsed.data;
+        const useMemory = parsed.data.useTranslationMemory ?? true;
+
+        // Resolve the document from a finished parse job when referenced by ID
+        const document = jobId ? jobStore.getResult(jobId, client.id) : parsed.data.document;
+        if (!document) {
+            return tracker.respond(createErrorResponse(`No completed parse job found for ${jobId}`, 404));
+        }
+
+        if (document.structure.sections.length === 0) {
+            return tracker.respond(createErrorResponse('Document has no sections to translate', 422));
+        }
+
+        // An explicit glossary wins over the one chosen when the job was submitted
+        const glossaryId = parsed.data.glossaryId ?? (jobId ? jobStore.get(jobId, client.id)?.glossaryId : undefined);
+        const glossary = glossaryId ? glossaryStore.get(glossaryId) : undefined;
+        if (glossaryId && !glossary) {
+            return tracker.respond(createErrorResponse(`Glossary ${glossaryId} not found`, 404));
+        }
+
+        // Models are resolved once the document is known, so a missing job is reported before a bad model
+        const { translator, judge, model } = getTranslator(parsed.data.model, client, tracker);
+
+        // Failing sections are translated again up to maxRetries times
+        const result = await tracker.time('translate', () => translateWithQualityControl(document, {
+            translator,
+            judge,
+            sourceLanguage,
+            targetLanguage,
+            ...(glossary && { glossary: selectGlossaryEntries(glossary.entries, sourceLanguage, targetLanguage) }),
+            ...(useMemory && { memory: (text: string) => translationMemory.lookup(text, sourceLanguage, targetLanguage) }),
+            sectionLanguages: parsed.data.sectionLanguages,
+            threshold: parsed.data.qualityThreshold,
+            maxRetries: parsed.data.maxRetries,
+        }));
+
+        // Accepted segments feed later translations of similar documents
+        if (useMemory) {
+            translationMemory.add(
+                collectSegmentPairs(document, result.document, {
+                    sourceLanguage,
+                    targetLanguage,
+                    quality: result.quality,
+                    sectionLanguages: parsed.data.sectionLanguages,
+                }),
+                'translation'
+            );
+        }
+
+        return tracker.respond(createSuccessResponse(
+            result.document,
+            { ...result.translation, ...(model && { model }), ...(glossaryId && { glossaryId }) },
+            result.quality,
+            tracker.getMetrics()
+        ));
+
+    } catch (error) {
+        tracker.log.error('Translation error', { error });
+
+        const { message, status } = toProcessingError(error);
+        return tracker.respond(createErrorResponse(message, status));
+    }
+});
+
+// Handle unsupported methods
+export const GET = async (): Promise<NextResponse> => {
+    return NextResponse.json(
+        { success: false, error: 'Method not allowed. Use POST to translate a parsed document.' },
+        { status: 405 }
+    );
+};
+
+export const PUT = async (): Promise<NextResponse> => {
+    return NextResponse.json(
+        { success: false, error: 'Method not allowed. Use POST to translate a parsed document.' },
+        { status: 405 }
+    );
+};
+
+export const DELETE = async (): Promise<NextResponse> => {
+    return NextResponse.json(
+        { success: false, error: 'Method not allowed. Use POST to translate a parsed document.' },
+        { status: 405 }
+    );
+};
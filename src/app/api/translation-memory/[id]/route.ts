@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server';
+import { withApiAccess } from '@/lib/api-keys';
+import { translationMemory } from '@/lib/translation-memory';
+
+const ROUTE = '/api/translation-memory/:id';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export const DELETE = withApiAccess(ROUTE, async (_request, { tracker }, { params }: RouteContext): Promise<NextResponse> => {
+    const { id } = await params;
+    if (!translationMemory.remove(id)) {
+        return tracker.respond(NextResponse.json(
+            { success: false, error: `Translation memory entry ${id} not found` },
+            { status: 404 }
+        ));
+    }
+
+    return tracker.respond(NextResponse.json({ success: true }, { status: 200 }));
+});
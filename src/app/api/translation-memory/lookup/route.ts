@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withApiAccess } from '@/lib/api-keys';
+import { translationMemoryLookupRequestSchema } from '@/lib/schema/translation-memory';
+import { translationMemory } from '@/lib/translation-memory';
+import { TranslationMemoryLookupResponse } from '@/lib/types';
+
+const ROUTE = '/api/translation-memory/lookup';
+
+// Exact and fuzzy matches for one source segment, best first
+export const POST = withApiAccess(ROUTE, async (request: NextRequest, { tracker }): Promise<NextResponse> => {
+    let body: unknown;
+    try {
+        body = await request.json();
+    } catch {
+        return tracker.respond(NextResponse.json({ success: false, error: 'Request body must be valid JSON' }, { status: 400 }));
+    }
+
+    const parsed = translationMemoryLookupRequestSchema.safeParse(body);
+    if (!parsed.success) {
+        const issue = parsed.error.errors[0];
+        return tracker.respond(NextResponse.json(
+            { success: false, error: `Invalid request: ${issue?.path.join('.') || 'body'} ${issue?.message}` },
+            { status: 400 }
+        ));
+    }
+
+    const { text, sourceLanguage, targetLanguage, minScore } = parsed.data;
+    const matches = translationMemory.lookup(text, sourceLanguage, targetLanguage, { minScore, limit: 10 });
+    return tracker.respond(NextResponse.json<TranslationMemoryLookupResponse>({ success: true, data: matches }, { status: 200 }));
+});
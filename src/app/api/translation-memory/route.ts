@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withApiAccess } from '@/lib/api-keys';
+import { translationMemory, TranslationMemoryFilter } from '@/lib/translation-memory';
+import { TranslationMemoryListResponse } from '@/lib/types';
+
+const ROUTE = '/api/translation-memory';
+
+// Filter from the sourceLanguage, targetLanguage and q query parameters
+const getFilter = (request: NextRequest): TranslationMemoryFilter => {
+    const params = request.nextUrl.searchParams;
+    return {
+        sourceLanguage: params.get('sourceLanguage') || undefined,
+        targetLanguage: params.get('targetLanguage') || undefined,
+        query: params.get('q') || undefined,
+    };
+};
+
+// List stored segment pairs, paged with offset and limit (default 100)
+export const GET = withApiAccess(ROUTE, async (request: NextRequest, { tracker }): Promise<NextResponse<TranslationMemoryListResponse>> => {
+    const params = request.nextUrl.searchParams;
+    const offset = Math.max(Number(params.get('offset')) || 0, 0);
+    const limit = Math.min(Math.max(Number(params.get('limit')) || 100, 1), 1000);
+
+    const { entries, total } = translationMemory.list(getFilter(request), { offset, limit });
+    return tracker.respond(NextResponse.json({ success: true, data: entries, total }, { status: 200 }));
+});
+
+// Remove all entries matching the filter; without filters the whole memory is cleared
+export const DELETE = withApiAccess(ROUTE, async (request: NextRequest, { tracker }): Promise<NextResponse> => {
+    const removed = translationMemory.clear(getFilter(request));
+    return tracker.respond(NextResponse.json({ success: true, removed }, { status: 200 }));
+});
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withApiAccess } from '@/lib/api-keys';
+import { exportTmx, parseTmx, translationMemory } from '@/lib/translation-memory';
+import { TranslationMemoryImportResponse } from '@/lib/types';
+
+const ROUTE = '/api/translation-memory/tmx';
+
+const createErrorResponse = (message: string, status = 400): NextResponse => {
+    return NextResponse.json(
+        { success: false, error: message },
+        { status }
+    );
+};
+
+// Download the memory as TMX 1.4, optionally for one language pair
+export const GET = withApiAccess(ROUTE, async (request: NextRequest, { tracker }): Promise<NextResponse> => {
+    const params = request.nextUrl.searchParams;
+    const sourceLanguage = params.get('sourceLanguage') || undefined;
+    const targetLanguage = params.get('targetLanguage') || undefined;
+
+    const entries = translationMemory.entries({ sourceLanguage, targetLanguage });
+    const filename = ['translation-memory', sourceLanguage, targetLanguage].filter(Boolean).join('-');
+
+    return tracker.respond(new NextResponse(exportTmx(entries), {
+        status: 200,
+        headers: {
+            'Content-Type': 'application/x-tmx+xml; charset=utf-8',
+            'Content-Disposition': `attachment; filename="${filename}.tmx"`,
+        },
+    }));
+});
+
+// Import a TMX file (`file` form field); sourceLanguage and targetLanguage
+// restrict the import to one language pair
+export const POST = withApiAccess(ROUTE, async (request: NextRequest, { tracker }): Promise<NextResponse> => {
+    const formData = await request.formData();
+    const file = formData.get('file') as File | null;
+    if (!file) {
+        return tracker.respond(createErrorResponse('No file provided. Please upload a TMX file.'));
+    }
+
+    const { pairs, skipped } = parseTmx(await file.text(), {
+        sourceLanguage: (formData.get('sourceLanguage') as string | null) || undefined,
+        targetLanguage: (formData.get('targetLanguage') as string | null) || undefined,
+    });
+
+    if (pairs.length === 0) {
+        return tracker.respond(NextResponse.json<TranslationMemoryImportResponse>(
+            { success: false, imported: 0, skipped, error: 'No translation units could be imported' },
+            { status: 422 }
+        ));
+    }
+
+    const imported = translationMemory.add(pairs, 'import');
+    return tracker.respond(NextResponse.json<TranslationMemoryImportResponse>({ success: true, imported, skipped }, { status: 200 }));
+});
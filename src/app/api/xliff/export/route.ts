@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withApiAccess } from '@/lib/api-keys';
+import { jobStore } from '@/lib/jobs';
+import { reviewStore } from '@/lib/review';
+import { xliffExportRequestSchema } from '@/lib/schema/xliff';
+import { exportXliff } from '@/lib/xliff';
+
+const ROUTE = '/api/xliff/export';
+
+// Helper functions
+const createErrorResponse = (message: string, status = 400): NextResponse => {
+    return NextResponse.json(
+        { success: false, error: message },
+        { status }
+    );
+};
+
+// Export a translation as XLIFF 2.0
+// Body { document | jobId, translation } or { reviewId }, with optional sourceLanguage and targetLanguage
+export const POST = withApiAccess(ROUTE, async (request: NextRequest, { client, tracker }): Promise<NextResponse> => {
+    let body: unknown;
+    try {
+        body = await request.json();
+    } catch {
+        return tracker.respond(createErrorResponse('Request body must be valid JSON'));
+    }
+
+    const parsed = xliffExportRequestSchema.safeParse(body);
+    if (!parsed.success) {
+        const issue = parsed.error.errors[0];
+        return tracker.respond(createErrorResponse(
+            issue ? `Invalid request: ${issue.path.join('.') || 'body'} ${issue.message}` : 'Invalid request'
+        ));
+    }
+
+    const { jobId, reviewId } = parsed.data;
+    const review = reviewId ? reviewStore.get(reviewId, client.id) : undefined;
+    if (reviewId && !review) {
+        return tracker.respond(createErrorResponse(`Review ${reviewId} not found`, 404));
+    }
+
+    const source = review?.source ?? (jobId ? jobStore.getResult(jobId, client.id) : parsed.data.document);
+    const translation = review?.translation ?? parsed.data.translation;
+    if (!source || !translation) {
+        return tracker.respond(createErrorResponse(`No completed parse job found for ${jobId}`, 404));
+    }
+
+    if (source.structure.sections.length !== translation.structure.sections.length) {
+        return tracker.respond(createErrorResponse(
+            `Translation has ${translation.structure.sections.length} sections but the source has ${source.structure.sections.length}`,
+            422
+        ));
+    }
+
+    const sourceLanguage = parsed.data.sourceLanguage ?? review?.sourceLanguage ?? source.metadata.language;
+    const targetLanguage = parsed.data.targetLanguage ?? review?.targetLanguage ?? translation.metadata.language;
+    if (!sourceLanguage || !targetLanguage) {
+        return tracker.respond(createErrorResponse('sourceLanguage and targetLanguage are required when the documents do not state their language'));
+    }
+
+    const xliff = exportXliff(source, translation, { sourceLanguage, targetLanguage });
+    const baseName = source.metadata.filename.replace(/\.[^.]+$/, '') || 'document';
+
+    return tracker.respond(new NextResponse(xliff, {
+        status: 200,
+        headers: {
+            'Content-Type': 'application/xliff+xml; charset=utf-8',
+            'Content-Disposition': `attachment; filename="${encodeURIComponent(`${baseName}-${sourceLanguage}-${targetLanguage}.xlf`)}"`,
+        },
+    }));
+});
+
+// Handle unsupported methods
+export const GET = async (): Promise<NextResponse> => {
+    return NextResponse.json(
+        { success: false, error: 'Method not allowed. Use POST to export a translation.' },
+        { status: 405 }
+    );
+};
@@ -0,0 +1,17 @@
+import { describe, expect, it } from '@jest/globals';
+import { NextRequest } from 'next/server';
+import { POST } from './route';
+
+describe('POST /api/xliff/import', () => {
+  it('rejects a body that is not multipart form data', async () => {
+    const response = await POST(new NextRequest('http://localhost/api/xliff/import', {
+      method: 'POST',
+      body: 'not a form',
+      headers: { 'Content-Type': 'multipart/form-data; boundary=missing' },
+    }));
+    const body = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(body.error).toBe('Request body must be multipart form data');
+  });
+});
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withApiAccess } from '@/lib/api-keys';
+import { jobStore } from '@/lib/jobs';
+import { toProcessingError } from '@/lib/processing-errors';
+import { documentParserSchema } from '@/lib/schema/document-parser';
+import { DocumentParserResult, XliffImportResponse } from '@/lib/types';
+import { importXliff } from '@/lib/xliff';
+
+const ROUTE = '/api/xliff/import';
+
+// Helper functions
+const createErrorResponse = (message: string, status = 400): NextResponse => {
+    return NextResponse.json(
+        { success: false, error: message },
+        { status }
+    );
+};
+
+// Documents travel as JSON in form fields next to the uploaded file
+const readDocumentField = (formData: FormData, field: string): DocumentParserResult | string | undefined => {
+    const value = formData.get(field);
+    if (typeof value !== 'string' || !value) return undefined;
+
+    try {
+        const parsed = documentParserSchema.safeParse(JSON.parse(value));
+        return parsed.success ? parsed.data : `${field} is not a valid document`;
+    } catch {
+        return `${field} must be valid JSON`;
+    }
+};
+
+// Apply a reviewed XLIFF 2.0 file to a translation
+// Form fields: file, translation (translated document as JSON) and, to check
+// that the source text is unchanged, document (JSON) or jobId of the source
+export const POST = withApiAccess(ROUTE, async (request: NextRequest, { client, tracker }): Promise<NextResponse> => {
+    let formData: FormData;
+    try {
+        formData = await request.formData();
+    } catch {
+        return tracker.respond(createErrorResponse('Request body must be multipart form data'));
+    }
+
+    const file = formData.get('file') as File | null;
+    if (!file) {
+        return tracker.respond(createErrorResponse('No file provided. Please upload an XLIFF file.'));
+    }
+
+    const translation = readDocumentField(formData, 'translation');
+    if (!translation) {
+        return tracker.respond(createErrorResponse('Missing translation field with the translated document'));
+    }
+    if (typeof translation === 'string') {
+        return tracker.respond(createErrorResponse(translation));
+    }
+
+    const jobId = (formData.get('jobId') as string | null) || undefined;
+    const source = jobId ? jobStore.getResult(jobId, client.id) : readDocumentField(formData, 'document');
+    if (jobId && !source) {
+        return tracker.respond(createErrorResponse(`No completed parse job found for ${jobId}`, 404));
+    }
+    if (typeof source === 'string') {
+        return tracker.respond(createErrorResponse(source));
+    }
+
+    try {
+        const xliff = await file.text();
+        const { document, ...summary } = await tracker.time('import', () => importXliff(xliff, translation, { source }));
+        return tracker.respond(
+            NextResponse.json<XliffImportResponse>({ success: true, data: document, import: summary }, { status: 200 })
+        );
+    } catch (error) {
+        tracker.log.error('XLIFF import error', { filename: file.name, error });
+
+        const { message, status } = toProcessingError(error);
+        return tracker.respond(createErrorResponse(message, status));
+    }
+});
+
+// Handle unsupported methods
+export const GET = async (): Promise<NextResponse> => {
+    return NextResponse.json(
+        { success: false, error: 'Method not allowed. Use POST to import a reviewed XLIFF file.' },
+        { status: 405 }
+    );
+};
@@ -0,0 +1,317 @@
+'use client';
+
+import Link from 'next/link';
+import { useEffect, useState } from 'react';
+import { getLanguageName } from '@/lib/languages';
+import { BatchResponse, BatchSummary, InputFormat, InputFormatsResponse } from '@/lib/types';
+
+const secondaryButtonClassName = 'px-3 py-1 text-sm bg-secondary text-secondary-foreground rounded-md hover:bg-secondary/80 disabled:opacity-50 disabled:cursor-not-allowed transition-colors';
+
+// Batch status is polled; one event stream per file would not scale to large batches
+// Every poll counts against the anonymous rate limit of 20 requests per minute
+const POLL_INTERVAL_MS = 5000;
+
+// Rendered documents the archive can include next to the JSON results
+const ARCHIVE_FORMATS = [
+  { format: '', label: 'JSON results only' },
+  { format: 'markdown', label: 'With Markdown' },
+  { format: 'html', label: 'With HTML' },
+  { format: 'pdf', label: 'With PDF' },
+  { format: 'docx', label: 'With Word (DOCX)' },
+];
+
+const STATUS_LABELS: Record<BatchSummary['files'][number]['status'], string> = {
+  queued: 'Queued',
+  running: 'Parsing',
+  completed: 'Done',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+};
+
+export default function BatchesPage() {
+  const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
+  const [inputFormats, setInputFormats] = useState<InputFormat[]>([]);
+  const [forceReparse, setForceReparse] = useState(false);
+  const [pdfPassword, setPdfPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [batch, setBatch] = useState<BatchSummary | null>(null);
+  const [archiveFormat, setArchiveFormat] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  // Accepted formats come from the input adapters registered on the server
+  useEffect(() => {
+    const loadInputFormats = async () => {
+      try {
+        const response = await fetch('/api/input-formats');
+        const data: InputFormatsResponse = await response.json();
+        if (data.success && data.data) {
+          setInputFormats(data.data.formats);
+        }
+      } catch (err) {
+        console.error('Failed to load supported formats:', err);
+      }
+    };
+
+    void loadInputFormats();
+  }, []);
+
+  // Follow the batch until every file has finished
+  const batchId = batch?.id;
+  const isRunning = batch?.status === 'running';
+  useEffect(() => {
+    if (!batchId || !isRunning) return;
+
+    const timer = setInterval(async () => {
+      try {
+        const response = await fetch(`/api/batches/${batchId}`);
+        const data: BatchResponse = await response.json();
+        if (data.success && data.data) {
+          setBatch(data.data);
+        }
+      } catch (err) {
+        console.error('Failed to load batch status:', err);
+      }
+    }, POLL_INTERVAL_MS);
+
+    return () => clearInterval(timer);
+  }, [batchId, isRunning]);
+
+  const acceptedTypes = [
+    ...inputFormats.flatMap(format => [...format.extensions, ...format.mimeTypes]),
+    '.zip',
+    'application/zip',
+  ].join(',');
+
+  const handleSubmit = async () => {
+    if (selectedFiles.length === 0) return;
+
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const formData = new FormData();
+      for (const file of selectedFiles) {
+        formData.append('files', file);
+      }
+      if (forceReparse) {
+        formData.append('force', 'true');
+      }
+      if (pdfPassword) {
+        formData.append('password', pdfPassword);
+      }
+
+      const response = await fetch('/api/batches', { method: 'POST', body: formData });
+      const data: BatchResponse = await response.json();
+      if (data.success && data.data) {
+        setBatch(data.data);
+        setSelectedFiles([]);
+      } else {
+        setError(data.error || 'Could not start the batch');
+      }
+    } catch (err) {
+      setError('Network error. Please try again.');
+      console.error('Batch submission error:', err);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!batch) return;
+
+    try {
+      const response = await fetch(`/api/batches/${batch.id}`, { method: 'DELETE' });
+      const data: BatchResponse = await response.json();
+      if (data.success && data.data) {
+        setBatch(data.data);
+      }
+    } catch (err) {
+      setError('Network error. Please try again.');
+      console.error('Failed to cancel batch:', err);
+    }
+  };
+
+  const archiveUrl = batch
+    ? `/api/batches/${batch.id}/archive${archiveFormat ? `?format=${archiveFormat}` : ''}`
+    : '';
+
+  return (
+    <div className="min-h-screen bg-background text-foreground p-8">
+      <div className="max-w-4xl mx-auto">
+        <div className="flex items-center justify-between mb-8">
+          <div>
+            <h1 className="text-3xl font-bold mb-2">Batch Upload</h1>
+            <p className="text-muted-foreground">Parse many documents at once, or a ZIP archive of them</p>
+          </div>
+          <Link href="/" className="text-sm underline text-muted-foreground hover:text-foreground">
+            Back to documents
+          </Link>
+        </div>
+
+        <div className="bg-card border border-border rounded-lg p-6 mb-6 space-y-4">
+          <div>
+            <label htmlFor="batch-input" className="block text-sm font-medium mb-2">
+              Select Documents
+            </label>
+            <input
+              id="batch-input"
+              type="file"
+              multiple
+              accept={inputFormats.length > 0 ? acceptedTypes : undefined}
+              onChange={(event) => setSelectedFiles(Array.from(event.target.files ?? []))}
+              className="block w-full text-sm text-foreground file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:text-sm file:font-medium file:bg-primary file:text-primary-foreground hover:file:bg-primary/80 border border-border rounded-md"
+              disabled={isSubmitting}
+            />
+            <p className="mt-1 text-xs text-muted-foreground">
+              {inputFormats.length > 0 && `${inputFormats.map(format => format.label).join(', ')} or `}ZIP archives of them
+            </p>
+          </div>
+
+          <div>
+            <label htmlFor="batch-password" className="block text-sm font-medium mb-2">
+              PDF Password
+            </label>
+            <input
+              id="batch-password"
+              type="password"
+              value={pdfPassword}
+              onChange={(event) => setPdfPassword(event.target.value)}
+              autoComplete="off"
+              className="block w-full text-sm bg-background text-foreground border border-border rounded-md px-3 py-2"
+              disabled={isSubmitting}
+            />
+            <p className="mt-1 text-xs text-muted-foreground">
+              Optional; used for every password-protected PDF in the batch
+            </p>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={forceReparse}
+              onChange={(event) => setForceReparse(event.target.checked)}
+              disabled={isSubmitting}
+            />
+            Parse again even if a file was parsed before
+          </label>
+
+          {error && (
+            <div className="text-sm text-destructive bg-destructive/10 border border-destructive/20 rounded-md p-3">
+              {error}
+            </div>
+          )}
+
+          <button
+            onClick={handleSubmit}
+            disabled={selectedFiles.length === 0 || isSubmitting}
+            className="px-4 py-2 bg-primary text-primary-foreground rounded-md hover:bg-primary/80 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {isSubmitting ? 'Uploading...' : `Upload ${selectedFiles.length || ''} ${selectedFiles.length === 1 ? 'File' : 'Files'}`}
+          </button>
+        </div>
+
+        {batch && (
+          <>
+            {/* Summary */}
+            <div className="bg-card border border-border rounded-lg p-6 mb-6">
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="text-lg font-semibold">
+                  {batch.status === 'running' ? 'Processing...' : 'Batch Complete'}
+                </h3>
+                {batch.status === 'running' && (
+                  <button onClick={handleCancel} className={secondaryButtonClassName}>
+                    Cancel Remaining
+                  </button>
+                )}
+              </div>
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-4 text-sm">
+                <div>
+                  <span className="text-muted-foreground">Files:</span>
+                  <div className="font-medium">{batch.totals.files}</div>
+                </div>
+                <div>
+                  <span className="text-muted-foreground">Completed:</span>
+                  <div className="font-medium">{batch.totals.completed}</div>
+                </div>
+                <div>
+                  <span className="text-muted-foreground">Failed:</span>
+                  <div className="font-medium">{batch.totals.failed}</div>
+                </div>
+                <div>
+                  <span className="text-muted-foreground">Cancelled:</span>
+                  <div className="font-medium">{batch.totals.cancelled}</div>
+                </div>
+                <div>
+                  <span className="text-muted-foreground">Pending:</span>
+                  <div className="font-medium">{batch.totals.pending}</div>
+                </div>
+              </div>
+
+              {batch.failures.length > 0 && (
+                <ul className="mt-4 space-y-1 text-sm">
+                  {batch.failures.map(failure => (
+                    <li key={failure.filename} className="text-destructive">
+                      {failure.filename}: {failure.message}
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              {batch.totals.completed > 0 && (
+                <div className="flex items-center gap-3 mt-4">
+                  <select
+                    value={archiveFormat}
+                    onChange={(event) => setArchiveFormat(event.target.value)}
+                    className="text-sm bg-background text-foreground border border-border rounded-md px-3 py-1"
+                  >
+                    {ARCHIVE_FORMATS.map(({ format, label }) => (
+                      <option key={format} value={format}>{label}</option>
+                    ))}
+                  </select>
+                  <a href={archiveUrl} className={secondaryButtonClassName}>
+                    Download Archive
+                  </a>
+                </div>
+              )}
+            </div>
+
+            {/* Files */}
+            <div className="bg-card border border-border rounded-lg p-6">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-muted-foreground border-b border-border">
+                    <th className="py-2">File</th>
+                    <th className="py-2">Status</th>
+                    <th className="py-2">Language</th>
+                    <th className="py-2">Quality</th>
+                    <th className="py-2">Pages</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {batch.files.map((file, index) => (
+                    <tr key={file.jobId ?? `${file.filename}-${index}`} className="border-b border-border">
+                      <td className="py-2 font-medium break-all">{file.filename}</td>
+                      <td className="py-2" title={file.error?.message}>
+                        <span className="px-2 py-1 bg-muted rounded-md text-xs">
+                          {STATUS_LABELS[file.status]}
+                          {file.status === 'running' && ` ${file.progress}%`}
+                        </span>
+                      </td>
+                      <td className="py-2">{file.language ? getLanguageName(file.language) : '-'}</td>
+                      <td className="py-2 capitalize">
+                        {file.textQuality
+                          ? `${file.textQuality} (${Math.round((file.extractionConfidence ?? 0) * 100)}%)`
+                          : '-'}
+                      </td>
+                      <td className="py-2">{file.pageCount ?? '-'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,396 @@
+'use client';
+
+import Link from 'next/link';
+import { useEffect, useState } from 'react';
+import {
+  Glossary,
+  GlossaryImportResponse,
+  GlossaryListResponse,
+  GlossaryResponse,
+  GlossarySummary,
+} from '@/lib/types';
+
+type EntryForm = {
+  sourceLanguage: string;
+  targetLanguage: string;
+  source: string;
+  target: string;
+  doNotTranslate: boolean;
+  caseSensitive: boolean;
+  matchInflections: boolean;
+  note: string;
+};
+
+const EMPTY_ENTRY: EntryForm = {
+  sourceLanguage: '',
+  targetLanguage: '',
+  source: '',
+  target: '',
+  doNotTranslate: false,
+  caseSensitive: false,
+  matchInflections: false,
+  note: '',
+};
+
+const inputClassName = 'block w-full text-sm bg-background text-foreground border border-border rounded-md px-3 py-2';
+const primaryButtonClassName = 'px-4 py-2 bg-primary text-primary-foreground rounded-md hover:bg-primary/80 disabled:opacity-50 disabled:cursor-not-allowed transition-colors';
+const secondaryButtonClassName = 'px-3 py-1 text-sm bg-secondary text-secondary-foreground rounded-md hover:bg-secondary/80 disabled:opacity-50 disabled:cursor-not-allowed transition-colors';
+
+export default function GlossariesPage() {
+  const [glossaries, setGlossaries] = useState<GlossarySummary[]>([]);
+  const [selected, setSelected] = useState<Glossary | null>(null);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [entry, setEntry] = useState<EntryForm>(EMPTY_ENTRY);
+  const [importFile, setImportFile] = useState<File | null>(null);
+  const [importMode, setImportMode] = useState<'append' | 'replace'>('append');
+  const [importSkipped, setImportSkipped] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const loadGlossaries = async () => {
+    try {
+      const response = await fetch('/api/glossaries');
+      const data: GlossaryListResponse = await response.json();
+      if (data.success && data.data) {
+        setGlossaries(data.data);
+      }
+    } catch (err) {
+      console.error('Failed to load glossaries:', err);
+    }
+  };
+
+  useEffect(() => {
+    void loadGlossaries();
+  }, []);
+
+  // Runs a glossary request and shows the updated glossary
+  const request = async (url: string, init: RequestInit): Promise<GlossaryResponse | null> => {
+    setIsBusy(true);
+    setError(null);
+
+    try {
+      const response = await fetch(url, init);
+      const data: GlossaryResponse = await response.json();
+      if (!data.success) {
+        setError(data.error || 'Request failed');
+        return null;
+      }
+
+      if (data.data) {
+        setSelected(data.data);
+      }
+      await loadGlossaries();
+      return data;
+    } catch (err) {
+      setError('Network error. Please try again.');
+      console.error('Glossary request error:', err);
+      return null;
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const sendJson = (method: string, body: unknown): RequestInit => ({
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+
+  const handleSelect = (id: string) => {
+    setImportSkipped([]);
+    void request(`/api/glossaries/${id}`, { method: 'GET' });
+  };
+
+  const handleCreate = async () => {
+    const created = await request('/api/glossaries', sendJson('POST', { name, description: description || undefined }));
+    if (created) {
+      setName('');
+      setDescription('');
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!window.confirm('Delete this glossary and all of its entries?')) return;
+
+    const deleted = await request(`/api/glossaries/${id}`, { method: 'DELETE' });
+    if (deleted && selected?.id === id) {
+      setSelected(null);
+    }
+  };
+
+  const handleAddEntry = async () => {
+    if (!selected) return;
+
+    const added = await request(`/api/glossaries/${selected.id}/entries`, sendJson('POST', {
+      ...entry,
+      target: entry.doNotTranslate ? undefined : entry.target,
+      note: entry.note || undefined,
+    }));
+    if (added) {
+      setEntry({ ...EMPTY_ENTRY, sourceLanguage: entry.sourceLanguage, targetLanguage: entry.targetLanguage });
+    }
+  };
+
+  const handleRemoveEntry = (entryId: string) => {
+    if (!selected) return;
+    void request(`/api/glossaries/${selected.id}/entries/${entryId}`, { method: 'DELETE' });
+  };
+
+  const handleImport = async () => {
+    if (!selected || !importFile) return;
+
+    setIsBusy(true);
+    setError(null);
+    setImportSkipped([]);
+
+    try {
+      const formData = new FormData();
+      formData.append('file', importFile);
+      formData.append('mode', importMode);
+      if (entry.sourceLanguage) formData.append('sourceLanguage', entry.sourceLanguage);
+      if (entry.targetLanguage) formData.append('targetLanguage', entry.targetLanguage);
+
+      const response = await fetch(`/api/glossaries/${selected.id}/import`, { method: 'POST', body: formData });
+      const data: GlossaryImportResponse = await response.json();
+      setImportSkipped(data.skipped ?? []);
+
+      if (!data.success || !data.data) {
+        setError(data.error || 'Import failed');
+        return;
+      }
+
+      setSelected(data.data);
+      setImportFile(null);
+      await loadGlossaries();
+    } catch (err) {
+      setError('Network error. Please try again.');
+      console.error('Glossary import error:', err);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background text-foreground p-8">
+      <div className="max-w-4xl mx-auto">
+        {/* Header */}
+        <div className="text-center mb-8">
+          <h1 className="text-3xl font-bold mb-2">Glossaries</h1>
+          <p className="text-muted-foreground">
+            Required translations and do-not-translate terms applied when documents are translated
+          </p>
+          <Link href="/" className="text-sm underline text-muted-foreground hover:text-foreground">
+            Back to document upload
+          </Link>
+        </div>
+
+        {error && (
+          <div className="text-sm text-destructive bg-destructive/10 border border-destructive/20 rounded-md p-3 mb-6">
+            {error}
+          </div>
+        )}
+
+        {/* Glossary list */}
+        <div className="bg-card border border-border rounded-lg p-6 mb-6">
+          <h3 className="text-lg font-semibold mb-4">Your Glossaries</h3>
+          {glossaries.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No glossaries yet.</p>
+          ) : (
+            <ul className="space-y-2 text-sm">
+              {glossaries.map(glossary => (
+                <li
+                  key={glossary.id}
+                  className={`flex items-center justify-between border rounded-md p-3 ${selected?.id === glossary.id ? 'border-primary' : 'border-border'}`}
+                >
+                  <button onClick={() => handleSelect(glossary.id)} className="text-left flex-1" disabled={isBusy}>
+                    <div className="font-medium">{glossary.name}</div>
+                    <div className="text-muted-foreground">
+                      {glossary.entryCount} {glossary.entryCount === 1 ? 'entry' : 'entries'}
+                      {glossary.description && ` · ${glossary.description}`}
+                    </div>
+                  </button>
+                  <button onClick={() => handleDelete(glossary.id)} className={secondaryButtonClassName} disabled={isBusy}>
+                    Delete
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3 mt-4">
+            <input
+              value={name}
+              onChange={(event) => setName(event.target.value)}
+              placeholder="Glossary name"
+              className={inputClassName}
+            />
+            <input
+              value={description}
+              onChange={(event) => setDescription(event.target.value)}
+              placeholder="Description (optional)"
+              className={inputClassName}
+            />
+            <button onClick={handleCreate} disabled={!name.trim() || isBusy} className={primaryButtonClassName}>
+              Create Glossary
+            </button>
+          </div>
+        </div>
+
+        {selected && (
+          <>
+            {/* Entries */}
+            <div className="bg-card border border-border rounded-lg p-6 mb-6">
+              <h3 className="text-lg font-semibold mb-4">{selected.name}: Entries</h3>
+              {selected.entries.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No entries yet.</p>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-muted-foreground border-b border-border">
+                      <th className="py-2">Languages</th>
+                      <th className="py-2">Source</th>
+                      <th className="py-2">Target</th>
+                      <th className="py-2">Options</th>
+                      <th className="py-2"></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {selected.entries.map(item => (
+                      <tr key={item.id} className="border-b border-border">
+                        <td className="py-2">{item.sourceLanguage} → {item.targetLanguage}</td>
+                        <td className="py-2 font-medium">{item.source}</td>
+                        <td className="py-2">
+                          {item.doNotTranslate ? <span className="text-muted-foreground">do not translate</span> : item.target}
+                        </td>
+                        <td className="py-2 text-xs text-muted-foreground">
+                          {[item.caseSensitive && 'case-sensitive', item.matchInflections && 'inflections', item.note]
+                            .filter(Boolean)
+                            .join(', ')}
+                        </td>
+                        <td className="py-2 text-right">
+                          <button onClick={() => handleRemoveEntry(item.id)} className={secondaryButtonClassName} disabled={isBusy}>
+                            Remove
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+
+            {/* Add entry */}
+            <div className="bg-card border border-border rounded-lg p-6 mb-6">
+              <h3 className="text-lg font-semibold mb-4">Add Entry</h3>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <input
+                  value={entry.sourceLanguage}
+                  onChange={(event) => setEntry({ ...entry, sourceLanguage: event.target.value })}
+                  placeholder="Source language (e.g. en, or * for any)"
+                  className={inputClassName}
+                />
+                <input
+                  value={entry.targetLanguage}
+                  onChange={(event) => setEntry({ ...entry, targetLanguage: event.target.value })}
+                  placeholder="Target language (e.g. de, or * for any)"
+                  className={inputClassName}
+                />
+                <input
+                  value={entry.source}
+                  onChange={(event) => setEntry({ ...entry, source: event.target.value })}
+                  placeholder="Source term"
+                  className={inputClassName}
+                />
+                <input
+                  value={entry.target}
+                  onChange={(event) => setEntry({ ...entry, target: event.target.value })}
+                  placeholder="Target term"
+                  className={inputClassName}
+                  disabled={entry.doNotTranslate}
+                />
+                <input
+                  value={entry.note}
+                  onChange={(event) => setEntry({ ...entry, note: event.target.value })}
+                  placeholder="Note for the translator (optional)"
+                  className={`${inputClassName} md:col-span-2`}
+                />
+              </div>
+              <div className="flex flex-wrap gap-4 mt-3 text-sm">
+                <label className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={entry.doNotTranslate}
+                    onChange={(event) => setEntry({ ...entry, doNotTranslate: event.target.checked })}
+                  />
+                  Do not translate
+                </label>
+                <label className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={entry.caseSensitive}
+                    onChange={(event) => setEntry({ ...entry, caseSensitive: event.target.checked })}
+                  />
+                  Case-sensitive
+                </label>
+                <label className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={entry.matchInflections}
+                    onChange={(event) => setEntry({ ...entry, matchInflections: event.target.checked })}
+                  />
+                  Match inflected forms
+                </label>
+              </div>
+              <button
+                onClick={handleAddEntry}
+                disabled={!entry.sourceLanguage || !entry.targetLanguage || !entry.source || (!entry.doNotTranslate && !entry.target) || isBusy}
+                className={`${primaryButtonClassName} mt-4`}
+              >
+                Add Entry
+              </button>
+            </div>
+
+            {/* Import */}
+            <div className="bg-card border border-border rounded-lg p-6 mb-6">
+              <h3 className="text-lg font-semibold mb-4">Import CSV or TBX</h3>
+              <p className="text-xs text-muted-foreground mb-3">
+                CSV columns: source, target, and optionally sourceLanguage, targetLanguage, doNotTranslate, caseSensitive,
+                matchInflections and note. The languages entered above are used when the file does not state them.
+              </p>
+              <div className="flex flex-wrap items-center gap-3">
+                <input
+                  type="file"
+                  accept=".csv,.tsv,.tbx,.xml"
+                  onChange={(event) => setImportFile(event.target.files?.[0] ?? null)}
+                  className="text-sm"
+                />
+                <select
+                  value={importMode}
+                  onChange={(event) => setImportMode(event.target.value as 'append' | 'replace')}
+                  className="text-sm bg-background text-foreground border border-border rounded-md px-3 py-2"
+                >
+                  <option value="append">Add to existing entries</option>
+                  <option value="replace">Replace all entries</option>
+                </select>
+                <button onClick={handleImport} disabled={!importFile || isBusy} className={primaryButtonClassName}>
+                  Import
+                </button>
+              </div>
+              {importSkipped.length > 0 && (
+                <div className="mt-3 text-sm">
+                  <div className="font-medium">Skipped {importSkipped.length} {importSkipped.length === 1 ? 'row' : 'rows'}:</div>
+                  <ul className="list-disc list-inside text-muted-foreground">
+                    {importSkipped.map((reason, index) => (
+                      <li key={index}>{reason}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
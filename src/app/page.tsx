@@ -1,7 +1,28 @@
 'use client';
 
-import { useState } from 'react';
-import { DocumentParserResult } from '@/lib/types';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { useEffect, useRef, useState } from 'react';
+import { DocumentTableView } from '@/components/document-table';
+import { PartialResultView } from '@/components/partial-result';
+import { JOB_STAGES } from '@/lib/jobs/stages';
+import { getLanguageName, SUPPORTED_LANGUAGES } from '@/lib/languages';
+import { findTableCaption } from '@/lib/tables';
+import {
+  DocumentParserResult,
+  GlossaryListResponse,
+  GlossarySummary,
+  InputFormat,
+  InputFormatsResponse,
+  JobResponse,
+  JobResultResponse,
+  JobSummary,
+  LanguageDetectionResponse,
+  LanguageDetectionResult,
+  PartialDocumentParserResult,
+  ReviewResponse,
+  TranslationResponse,
+} from '@/lib/types';
 
 // Types matching the API response
 type DocumentParserResponse = {
@@ -10,30 +31,104 @@ type DocumentParserResponse = {
   error?: string;
 };
 
+// Download formats served by /api/export/[format]
+const EXPORT_FORMATS = [
+  { format: 'pdf', label: 'PDF' },
+  { format: 'markdown', label: 'Markdown' },
+  { format: 'html', label: 'HTML' },
+  { format: 'docx', label: 'Word (DOCX)' },
+];
+
 export default function Home() {
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [result, setResult] = useState<DocumentParserResponse | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [job, setJob] = useState<JobSummary | null>(null);
+  const [partialResult, setPartialResult] = useState<PartialDocumentParserResult | null>(null);
+  const eventSourceRef = useRef<EventSource | null>(null);
+  const [inputFormats, setInputFormats] = useState<InputFormat[]>([]);
+  const [maxFileSize, setMaxFileSize] = useState(50 * 1024 * 1024);
+  const [glossaries, setGlossaries] = useState<GlossarySummary[]>([]);
+  const [glossaryId, setGlossaryId] = useState('');
+  const [forceReparse, setForceReparse] = useState(false);
+  const [pdfPassword, setPdfPassword] = useState('');
+  const [reviewSourceLanguage, setReviewSourceLanguage] = useState('');
+  const [reviewTargetLanguage, setReviewTargetLanguage] = useState('');
+  const [isTranslating, setIsTranslating] = useState(false);
+  const [languageDetection, setLanguageDetection] = useState<LanguageDetectionResult | null>(null);
+  const router = useRouter();
+
+  const closeEventStream = () => {
+    eventSourceRef.current?.close();
+    eventSourceRef.current = null;
+  };
+
+  // Stop listening for progress when the page unmounts
+  useEffect(() => closeEventStream, []);
+
+  // Accepted formats come from the input adapters registered on the server
+  useEffect(() => {
+    const loadInputFormats = async () => {
+      try {
+        const response = await fetch('/api/input-formats');
+        const data: InputFormatsResponse = await response.json();
+        if (data.success && data.data) {
+          setInputFormats(data.data.formats);
+          setMaxFileSize(data.data.maxFileSize);
+        }
+      } catch (err) {
+        console.error('Failed to load supported formats:', err);
+      }
+    };
+
+    void loadInputFormats();
+  }, []);
+
+  // Glossaries the document can be translated with
+  useEffect(() => {
+    const loadGlossaries = async () => {
+      try {
+        const response = await fetch('/api/glossaries');
+        const data: GlossaryListResponse = await response.json();
+        if (data.success && data.data) {
+          setGlossaries(data.data);
+        }
+      } catch (err) {
+        console.error('Failed to load glossaries:', err);
+      }
+    };
+
+    void loadGlossaries();
+  }, []);
+
+  const acceptedTypes = inputFormats.flatMap(format => [...format.extensions, ...format.mimeTypes]).join(',');
+  const supportedExtensions = inputFormats.flatMap(format => format.extensions);
+  const isPdfSelected = Boolean(selectedFile && (selectedFile.type === 'application/pdf' || /\.pdf$/i.test(selectedFile.name)));
 
   const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file) {
       // Reset previous results
       setResult(null);
+      setPartialResult(null);
       setError(null);
+      setPdfPassword('');
 
-      // Validate file type
-      if (file.type !== 'application/pdf') {
-        setError('Please select a PDF file');
+      // Validate file type against the registered formats
+      const fileName = file.name.toLowerCase();
+      const isSupported = inputFormats.some(format =>
+        format.extensions.some(ext => fileName.endsWith(ext)) || format.mimeTypes.includes(file.type)
+      );
+      if (inputFormats.length > 0 && !isSupported) {
+        setError(`Please select a supported file (${supportedExtensions.join(', ')})`);
         setSelectedFile(null);
         return;
       }
 
-      // Validate file size (10MB max)
-      const maxSize = 10 * 1024 * 1024;
-      if (file.size > maxSize) {
-        setError('File size must be less than 10MB');
+      // Validate file size
+      if (file.size > maxFileSize) {
+        setError(`File size must be less than ${formatFileSize(maxFileSize)}`);
         setSelectedFile(null);
         return;
       }
@@ -42,40 +137,204 @@ export default function Home() {
     }
   };
 
+  // Primary and per-section languages drive the language pickers; the parser's guess is kept on failure
+  const detectLanguages = async (jobId: string) => {
+    try {
+      const response = await fetch('/api/language-detection', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ jobId }),
+      });
+      const data: LanguageDetectionResponse = await response.json();
+      if (data.success && data.data) {
+        setLanguageDetection(data.data);
+      }
+    } catch (err) {
+      console.error('Language detection error:', err);
+    }
+  };
+
+  const fetchJobResult = async (jobId: string) => {
+    try {
+      const response = await fetch(`/api/jobs/${jobId}/result`);
+      const data: JobResultResponse = await response.json();
+      setResult({ success: data.success, data: data.data, error: data.error });
+
+      if (!data.success) {
+        setError(data.error || 'Processing failed');
+      } else {
+        setPartialResult(null);
+        void detectLanguages(jobId);
+      }
+    } catch (err) {
+      setError('Network error while fetching the result. Please try again.');
+      console.error('Result fetch error:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const followJob = (jobId: string) => {
+    closeEventStream();
+    const eventSource = new EventSource(`/api/jobs/${jobId}/events`);
+    eventSourceRef.current = eventSource;
+
+    const handleJobEvent = (event: MessageEvent<string>) => {
+      setJob(JSON.parse(event.data) as JobSummary);
+    };
+
+    eventSource.addEventListener('progress', handleJobEvent);
+
+    // Sections and metadata are shown as the model produces them; a stream
+    // that breaks off leaves the last partial result on screen
+    eventSource.addEventListener('partial', (event) => {
+      setPartialResult(JSON.parse(event.data) as PartialDocumentParserResult);
+    });
+
+    eventSource.addEventListener('completed', (event) => {
+      handleJobEvent(event);
+      closeEventStream();
+      void fetchJobResult(jobId);
+    });
+
+    eventSource.addEventListener('failed', (event) => {
+      handleJobEvent(event);
+      closeEventStream();
+      const failedJob = JSON.parse(event.data) as JobSummary;
+      setError(failedJob.error?.message || 'Processing failed');
+      setIsLoading(false);
+    });
+
+    eventSource.addEventListener('cancelled', (event) => {
+      handleJobEvent(event);
+      closeEventStream();
+      setError('Processing was cancelled');
+      setIsLoading(false);
+    });
+
+    eventSource.onerror = () => {
+      closeEventStream();
+      setError('Lost connection to progress updates. Please try again.');
+      setIsLoading(false);
+    };
+  };
+
   const handleUpload = async () => {
     if (!selectedFile) return;
 
     setIsLoading(true);
     setError(null);
     setResult(null);
+    setJob(null);
+    setPartialResult(null);
+    setLanguageDetection(null);
+    setReviewSourceLanguage('');
 
     try {
       const formData = new FormData();
-      formData.append('pdf', selectedFile);
+      formData.append('file', selectedFile);
+      if (glossaryId) {
+        formData.append('glossaryId', glossaryId);
+      }
+      if (forceReparse) {
+        formData.append('force', 'true');
+      }
+      if (pdfPassword) {
+        formData.append('password', pdfPassword);
+      }
 
-      const response = await fetch('/api/document-parser', {
+      const response = await fetch('/api/jobs', {
         method: 'POST',
         body: formData,
       });
 
-      const data: DocumentParserResponse = await response.json();
-      setResult(data);
+      const data: JobResponse = await response.json();
 
-      if (!data.success) {
+      if (!data.success || !data.data) {
+        setResult({ success: false, error: data.error });
         setError(data.error || 'Upload failed');
+        setIsLoading(false);
+        return;
       }
+
+      setJob(data.data);
+      followJob(data.data.id);
     } catch (err) {
       setError('Network error. Please try again.');
       console.error('Upload error:', err);
-    } finally {
       setIsLoading(false);
     }
   };
 
+  const handleCancel = async () => {
+    if (!job) return;
+
+    try {
+      await fetch(`/api/jobs/${job.id}`, { method: 'DELETE' });
+    } catch (err) {
+      console.error('Cancel error:', err);
+    }
+  };
+
+  // Translates the parsed document and opens the result in the review editor
+  const handleTranslateForReview = async () => {
+    if (!job) return;
+    setIsTranslating(true);
+    setError(null);
+
+    try {
+      const translateResponse = await fetch('/api/translate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          jobId: job.id,
+          sourceLanguage,
+          targetLanguage: reviewTargetLanguage,
+          ...(languageDetection && { sectionLanguages: languageDetection.sections }),
+          ...(glossaryId && { glossaryId }),
+        }),
+      });
+      const translated: TranslationResponse = await translateResponse.json();
+      if (!translated.success || !translated.data || !translated.translation) {
+        setError(translated.error || 'Translation failed');
+        return;
+      }
+
+      const reviewResponse = await fetch('/api/reviews', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          jobId: job.id,
+          translation: translated.data,
+          translationInfo: translated.translation,
+          quality: translated.quality,
+        }),
+      });
+      const review: ReviewResponse = await reviewResponse.json();
+      if (!review.success || !review.data) {
+        setError(review.error || 'Could not start the review');
+        return;
+      }
+
+      router.push(`/review/${review.data.id}`);
+    } catch (err) {
+      setError('Network error while translating. Please try again.');
+      console.error('Translation error:', err);
+    } finally {
+      setIsTranslating(false);
+    }
+  };
+
   const handleReset = () => {
+    closeEventStream();
     setSelectedFile(null);
+    setPdfPassword('');
     setResult(null);
     setError(null);
+    setJob(null);
+    setPartialResult(null);
+    setLanguageDetection(null);
+    setReviewSourceLanguage('');
     // Reset file input
     const fileInput = document.getElementById('file-input') as HTMLInputElement;
     if (fileInput) {
@@ -83,6 +342,13 @@ export default function Home() {
     }
   };
 
+  const sourceLanguage = reviewSourceLanguage || languageDetection?.detectedLanguage || result?.data?.metadata.language || '';
+  // Detected targets exclude the source language; without a detection every other language is offered
+  const targetLanguages = languageDetection?.availableTargets.length
+    ? languageDetection.availableTargets
+    : Object.keys(SUPPORTED_LANGUAGES).filter(code => code !== sourceLanguage);
+  const keptSectionCount = languageDetection?.sections.filter(section => section.language === reviewTargetLanguage).length ?? 0;
+
   const formatFileSize = (bytes: number): string => {
     if (bytes === 0) return '0 Bytes';
     const k = 1024;
@@ -98,7 +364,7 @@ export default function Home() {
         <div className="text-center mb-8">
           <h1 className="text-3xl font-bold mb-2">Document Parser Agent</h1>
           <p className="text-muted-foreground">
-            Advanced PDF analysis with structure preservation, format detection, and comprehensive metadata extraction
+            Document analysis with structure preservation, format detection, and comprehensive metadata extraction
           </p>
         </div>
 
@@ -107,18 +373,79 @@ export default function Home() {
           <div className="space-y-4">
             <div>
               <label htmlFor="file-input" className="block text-sm font-medium mb-2">
-                Select PDF File
+                Select Document
               </label>
               <input
                 id="file-input"
                 type="file"
-                accept=".pdf,application/pdf"
+                accept={acceptedTypes || undefined}
                 onChange={handleFileSelect}
                 className="block w-full text-sm text-foreground file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:text-sm file:font-medium file:bg-primary file:text-primary-foreground hover:file:bg-primary/80 border border-border rounded-md"
                 disabled={isLoading}
               />
+              {supportedExtensions.length > 0 && (
+                <p className="mt-1 text-xs text-muted-foreground">
+                  Supported formats: {inputFormats.map(format => format.label).join(', ')}
+                </p>
+              )}
+              <p className="mt-1 text-xs text-muted-foreground">
+                Many documents? <Link href="/batches" className="underline hover:text-foreground">Upload a batch or ZIP archive</Link>
+              </p>
+            </div>
+
+            <div>
+              <label htmlFor="glossary-select" className="block text-sm font-medium mb-2">
+                Glossary
+              </label>
+              <select
+                id="glossary-select"
+                value={glossaryId}
+                onChange={(event) => setGlossaryId(event.target.value)}
+                className="block w-full text-sm bg-background text-foreground border border-border rounded-md px-3 py-2"
+                disabled={isLoading}
+              >
+                <option value="">None</option>
+                {glossaries.map(glossary => (
+                  <option key={glossary.id} value={glossary.id}>
+                    {glossary.name} ({glossary.entryCount} {glossary.entryCount === 1 ? 'entry' : 'entries'})
+                  </option>
+                ))}
+              </select>
+              <p className="mt-1 text-xs text-muted-foreground">
+                Applied when the document is translated. <Link href="/glossaries" className="underline hover:text-foreground">Manage glossaries</Link>
+              </p>
             </div>
 
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={forceReparse}
+                onChange={(event) => setForceReparse(event.target.checked)}
+                disabled={isLoading}
+              />
+              Parse again even if this file was parsed before
+            </label>
+
+            {isPdfSelected && (
+              <div>
+                <label htmlFor="pdf-password" className="block text-sm font-medium mb-2">
+                  PDF Password
+                </label>
+                <input
+                  id="pdf-password"
+                  type="password"
+                  value={pdfPassword}
+                  onChange={(event) => setPdfPassword(event.target.value)}
+                  autoComplete="off"
+                  className="block w-full text-sm bg-background text-foreground border border-border rounded-md px-3 py-2"
+                  disabled={isLoading}
+                />
+                <p className="mt-1 text-xs text-muted-foreground">
+                  Only needed for password-protected PDFs; the file is decrypted on the server before parsing
+                </p>
+              </div>
+            )}
+
             {selectedFile && (
               <div className="text-sm text-muted-foreground">
                 Selected: {selectedFile.name} ({formatFileSize(selectedFile.size)})
@@ -153,16 +480,58 @@ export default function Home() {
           </div>
         </div>
 
-        {/* Loading State */}
+        {/* Progress State */}
         {isLoading && (
           <div className="bg-card border border-border rounded-lg p-6 mb-6">
-            <div className="flex items-center justify-center space-x-2">
-              <div className="w-4 h-4 border-2 border-primary border-t-transparent rounded-full animate-spin"></div>
-              <span>Extracting text from PDF...</span>
+            <div className="flex items-center justify-between mb-4">
+              <div className="flex items-center space-x-2">
+                <div className="w-4 h-4 border-2 border-primary border-t-transparent rounded-full animate-spin"></div>
+                <span>{JOB_STAGES.find(entry => entry.stage === job?.stage)?.label || 'Uploading document...'}</span>
+              </div>
+              {job && (
+                <button
+                  onClick={handleCancel}
+                  aria-label="Cancel processing"
+                  className="px-3 py-1 text-sm bg-secondary text-secondary-foreground rounded-md hover:bg-secondary/80 transition-colors"
+                >
+                  Cancel
+                </button>
+              )}
+            </div>
+
+            <div
+              className="w-full h-2 bg-muted rounded-full overflow-hidden"
+              role="progressbar"
+              aria-valuemin={0}
+              aria-valuemax={100}
+              aria-valuenow={job?.progress ?? 0}
+            >
+              <div className="h-full bg-primary transition-all" style={{ width: `${job?.progress ?? 0}%` }}></div>
             </div>
+
+            <ol className="mt-4 space-y-1 text-sm">
+              {JOB_STAGES.filter(entry => entry.stage !== 'done').map(entry => {
+                const currentProgress = job?.progress ?? -1;
+                const isCurrent = job?.stage === entry.stage;
+                const isComplete = !isCurrent && currentProgress > entry.progress;
+                return (
+                  <li
+                    key={entry.stage}
+                    className={isCurrent ? 'font-medium text-foreground' : isComplete ? 'text-foreground' : 'text-muted-foreground'}
+                  >
+                    {isComplete ? '✓' : isCurrent ? '•' : '○'} {entry.label}
+                  </li>
+                );
+              })}
+            </ol>
           </div>
         )}
 
+        {/* Partial result while streaming, or what arrived before the stream broke off */}
+        {partialResult && !result?.data && (
+          <PartialResultView partial={partialResult} interrupted={!isLoading} />
+        )}
+
         {/* Results Section */}
         {result && (
           <div className="space-y-6">
@@ -170,7 +539,14 @@ export default function Home() {
               <>
                 {/* Metadata Overview */}
                 <div className="bg-card border border-border rounded-lg p-6">
-                  <h3 className="text-lg font-semibold mb-4">Document Analysis</h3>
+                  <div className="flex items-center justify-between mb-4">
+                    <h3 className="text-lg font-semibold">Document Analysis</h3>
+                    {job?.cache?.hit && (
+                      <span className="px-2 py-1 bg-muted rounded-md text-xs" title={`Cache key ${job.cache.key}`}>
+                        Served from cache
+                      </span>
+                    )}
+                  </div>
                   <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 text-sm">
                     <div>
                       <span className="text-muted-foreground">Filename:</span>
@@ -186,7 +562,23 @@ export default function Home() {
                     </div>
                     <div>
                       <span className="text-muted-foreground">Language:</span>
-                      <div className="font-medium">{result.data.metadata.language || 'Auto-detected'}</div>
+                      <div className="font-medium">
+                        {languageDetection
+                          ? `${getLanguageName(languageDetection.detectedLanguage)} (${Math.round(languageDetection.confidence * 100)}%)`
+                          : result.data.metadata.language || 'Auto-detected'}
+                      </div>
+                      {languageDetection && languageDetection.languages.length > 1 && (
+                        <div className="text-xs text-muted-foreground">
+                          Mixed: {languageDetection.languages
+                            .map(({ language, share }) => `${getLanguageName(language)} ${Math.round(share * 100)}%`)
+                            .join(', ')}
+                        </div>
+                      )}
+                      {languageDetection?.crossCheck && !languageDetection.crossCheck.agrees && (
+                        <div className="text-xs text-muted-foreground">
+                          Statistical check suggests {getLanguageName(languageDetection.crossCheck.language)}
+                        </div>
+                      )}
                     </div>
                     {result.data.metadata.title && (
                       <div className="md:col-span-2">
@@ -208,9 +600,40 @@ export default function Home() {
                       <span className="text-muted-foreground">Confidence:</span>
                       <div className="font-medium">{Math.round(result.data.metadata.extractionConfidence * 100)}%</div>
                     </div>
+                    {result.data.metadata.ocrPages && result.data.metadata.ocrPages.length > 0 && (
+                      <div className="md:col-span-2">
+                        <span className="text-muted-foreground">Read with OCR:</span>
+                        <div className="flex flex-wrap gap-2 mt-1">
+                          {result.data.metadata.ocrPages.map(({ page, confidence }) => (
+                            <span key={page} className="px-2 py-1 bg-muted rounded-md text-xs">
+                              Page {page}: {Math.round(confidence * 100)}%
+                            </span>
+                          ))}
+                        </div>
+                      </div>
+                    )}
                   </div>
                 </div>
 
+                {/* Consistency Warnings */}
+                {result.data.warnings && result.data.warnings.length > 0 && (
+                  <div className="bg-card border border-border rounded-lg p-6">
+                    <h3 className="text-lg font-semibold mb-4">
+                      Consistency Warnings ({result.data.warnings.length})
+                    </h3>
+                    <ul className="space-y-2 text-sm max-h-64 overflow-y-auto">
+                      {result.data.warnings.map((warning, index) => (
+                        <li key={index} className="flex items-start gap-2">
+                          <span className="px-2 py-0.5 bg-muted rounded-md text-xs whitespace-nowrap">
+                            {warning.repaired ? 'Repaired' : 'Check'}
+                          </span>
+                          <span title={warning.path}>{warning.message}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
                 {/* Document Structure */}
                 <div className="bg-card border border-border rounded-lg p-6">
                   <h3 className="text-lg font-semibold mb-4">Document Structure</h3>
@@ -246,6 +669,24 @@ export default function Home() {
                   </div>
                 </div>
 
+                {/* Tables */}
+                {result.data.structure.sections.some(section => section.table) && (
+                  <div className="bg-card border border-border rounded-lg p-6">
+                    <h3 className="text-lg font-semibold mb-4">Tables</h3>
+                    <div className="space-y-6 max-h-96 overflow-y-auto">
+                      {result.data.structure.sections.map((section, index) => section.table && (
+                        <div key={index}>
+                          <div className="text-xs text-muted-foreground mb-1">Page {section.position.page}</div>
+                          <DocumentTableView
+                            table={section.table}
+                            caption={findTableCaption(result.data!.structure.sections, section)}
+                          />
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
                 {/* Formatting Information */}
                 <div className="bg-card border border-border rounded-lg p-6">
                   <h3 className="text-lg font-semibold mb-4">Document Formatting</h3>
@@ -323,6 +764,78 @@ export default function Home() {
                     {result.data.extractedText.length} characters • Extracted at {new Date(result.data.metadata.extractedAt).toLocaleString()}
                   </div>
                 </div>
+
+                {/* Translate for review */}
+                {job?.status === 'completed' && (
+                  <div className="bg-card border border-border rounded-lg p-6">
+                    <div className="flex items-center justify-between mb-4">
+                      <h3 className="text-lg font-semibold">Translate for Review</h3>
+                      <Link href="/review" className="text-sm underline text-muted-foreground hover:text-foreground">
+                        All reviews
+                      </Link>
+                    </div>
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                      <select
+                        aria-label="Source language"
+                        value={sourceLanguage}
+                        onChange={(event) => setReviewSourceLanguage(event.target.value)}
+                        className="text-sm bg-background text-foreground border border-border rounded-md px-3 py-2"
+                        disabled={isTranslating}
+                      >
+                        <option value="">Source language</option>
+                        {sourceLanguage && !(sourceLanguage in SUPPORTED_LANGUAGES) && (
+                          <option value={sourceLanguage}>{getLanguageName(sourceLanguage)}</option>
+                        )}
+                        {Object.entries(SUPPORTED_LANGUAGES).map(([code, name]) => (
+                          <option key={code} value={code}>{name}</option>
+                        ))}
+                      </select>
+                      <select
+                        aria-label="Target language"
+                        value={reviewTargetLanguage}
+                        onChange={(event) => setReviewTargetLanguage(event.target.value)}
+                        className="text-sm bg-background text-foreground border border-border rounded-md px-3 py-2"
+                        disabled={isTranslating}
+                      >
+                        <option value="">Target language</option>
+                        {targetLanguages.map(code => (
+                          <option key={code} value={code}>{getLanguageName(code)}</option>
+                        ))}
+                      </select>
+                      <button
+                        onClick={handleTranslateForReview}
+                        disabled={!sourceLanguage || !reviewTargetLanguage || isTranslating}
+                        className="px-4 py-2 bg-primary text-primary-foreground rounded-md hover:bg-primary/80 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                      >
+                        {isTranslating ? 'Translating...' : 'Translate & Review'}
+                      </button>
+                    </div>
+                    {keptSectionCount > 0 && (
+                      <p className="mt-3 text-sm text-muted-foreground">
+                        {keptSectionCount} section{keptSectionCount === 1 ? ' is' : 's are'} already in {getLanguageName(reviewTargetLanguage)} and will be kept as they are.
+                      </p>
+                    )}
+                  </div>
+                )}
+
+                {/* Export */}
+                {job?.status === 'completed' && (
+                  <div className="bg-card border border-border rounded-lg p-6">
+                    <h3 className="text-lg font-semibold mb-4">Export</h3>
+                    <div className="flex flex-wrap gap-2">
+                      {EXPORT_FORMATS.map(({ format, label }) => (
+                        <a
+                          key={format}
+                          href={`/api/export/${format}?jobId=${encodeURIComponent(job.id)}`}
+                          download
+                          className="px-4 py-2 bg-secondary text-secondary-foreground rounded-md text-sm hover:bg-secondary/80 transition-colors"
+                        >
+                          {label}
+                        </a>
+                      ))}
+                    </div>
+                  </div>
+                )}
               </>
             ) : (
               <div className="bg-destructive/10 border border-destructive/20 rounded-lg p-4">
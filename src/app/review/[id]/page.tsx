@@ -0,0 +1,438 @@
+'use client';
+
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { DocumentTableView } from '@/components/document-table';
+import { getLanguageName } from '@/lib/languages';
+import { DocumentSection, Review, ReviewResponse, ReviewSection, ReviewStatus, SectionQuality } from '@/lib/types';
+
+type Filter = 'all' | 'attention' | ReviewStatus;
+
+type Row = {
+  index: number;
+  source: DocumentSection;
+  translation: DocumentSection;
+  state: ReviewSection;
+  quality?: SectionQuality;
+};
+
+const FILTERS: { value: Filter; label: string }[] = [
+  { value: 'all', label: 'All sections' },
+  { value: 'attention', label: 'Low quality or flagged' },
+  { value: 'draft', label: 'Draft' },
+  { value: 'approved', label: 'Approved' },
+  { value: 'locked', label: 'Locked' },
+];
+
+const EXPORT_FORMATS = [
+  { format: 'pdf', label: 'PDF' },
+  { format: 'markdown', label: 'Markdown' },
+  { format: 'html', label: 'HTML' },
+  { format: 'docx', label: 'DOCX' },
+];
+
+const STATUS_CLASSNAMES: Record<ReviewStatus, string> = {
+  draft: 'bg-muted text-muted-foreground',
+  approved: 'bg-green-500/15 text-green-700 dark:text-green-400',
+  locked: 'bg-blue-500/15 text-blue-700 dark:text-blue-400',
+};
+
+const secondaryButtonClassName = 'px-3 py-1 text-sm bg-secondary text-secondary-foreground rounded-md hover:bg-secondary/80 disabled:opacity-50 disabled:cursor-not-allowed transition-colors';
+const primaryButtonClassName = 'px-3 py-1 text-sm bg-primary text-primary-foreground rounded-md hover:bg-primary/80 disabled:opacity-50 disabled:cursor-not-allowed transition-colors';
+
+const needsAttention = (row: Row): boolean =>
+  row.state.flagged || (row.quality !== undefined && !row.quality.passed && !row.quality.skipped);
+
+const isTypingTarget = (target: EventTarget | null): boolean =>
+  target instanceof HTMLElement && (['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName) || target.isContentEditable);
+
+export default function ReviewPage() {
+  const { id } = useParams<{ id: string }>();
+  const [review, setReview] = useState<Review | null>(null);
+  const [filter, setFilter] = useState<Filter>('all');
+  const [activeIndex, setActiveIndex] = useState<number | null>(null);
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const [draft, setDraft] = useState('');
+  const [busyIndex, setBusyIndex] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const rowRefs = useRef(new Map<number, HTMLDivElement>());
+
+  useEffect(() => {
+    const loadReview = async () => {
+      try {
+        const response = await fetch(`/api/reviews/${id}`);
+        const data: ReviewResponse = await response.json();
+        if (data.success && data.data) {
+          setReview(data.data);
+        } else {
+          setError(data.error || 'Could not load the review');
+        }
+      } catch (err) {
+        setError('Network error. Please try again.');
+        console.error('Failed to load review:', err);
+      }
+    };
+
+    void loadReview();
+  }, [id]);
+
+  // Source and translated sections side by side in reading order
+  const rows = useMemo((): Row[] => {
+    if (!review) return [];
+
+    return review.source.structure.sections
+      .map((source, index) => ({
+        index,
+        source,
+        translation: review.translation.structure.sections[index],
+        state: review.sections[index],
+        quality: review.quality?.sections[index],
+      }))
+      .filter(row => row.translation && row.state)
+      .sort((a, b) => a.source.position.page - b.source.position.page || a.source.position.order - b.source.position.order);
+  }, [review]);
+
+  const visibleRows = useMemo(() => rows.filter(row => {
+    if (filter === 'all') return true;
+    if (filter === 'attention') return needsAttention(row);
+    return row.state.status === filter;
+  }), [rows, filter]);
+
+  // Runs a section request and shows the updated review
+  const updateSection = useCallback(async (index: number, path: string, body: unknown): Promise<boolean> => {
+    setBusyIndex(index);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/reviews/${id}/sections/${index}${path}`, {
+        method: path ? 'POST' : 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const data: ReviewResponse = await response.json();
+      if (!data.success || !data.data) {
+        setError(data.error || 'Request failed');
+        return false;
+      }
+
+      setReview(data.data);
+      return true;
+    } catch (err) {
+      setError('Network error. Please try again.');
+      console.error('Review update error:', err);
+      return false;
+    } finally {
+      setBusyIndex(null);
+    }
+  }, [id]);
+
+  const startEditing = useCallback((row: Row) => {
+    if (row.state.status === 'locked') return;
+    setActiveIndex(row.index);
+    setEditingIndex(row.index);
+    setDraft(row.translation.content);
+  }, []);
+
+  const cancelEditing = () => {
+    setEditingIndex(null);
+    setDraft('');
+  };
+
+  const saveEditing = async () => {
+    if (editingIndex === null) return;
+    if (await updateSection(editingIndex, '', { content: draft })) {
+      cancelEditing();
+    }
+  };
+
+  const setStatus = useCallback((row: Row, status: ReviewStatus) => {
+    void updateSection(row.index, '', { status });
+  }, [updateSection]);
+
+  const toggleFlag = useCallback((row: Row) => {
+    void updateSection(row.index, '', { flagged: !row.state.flagged });
+  }, [updateSection]);
+
+  const revert = (row: Row) => {
+    void updateSection(row.index, '', { content: row.state.machineTranslation });
+  };
+
+  const retranslate = useCallback((row: Row) => {
+    if (row.state.status === 'locked') return;
+    const instructions = window.prompt('Instructions for the translator (optional)');
+    if (instructions === null) return;
+    void updateSection(row.index, '/retranslate', { instructions: instructions || undefined });
+  }, [updateSection]);
+
+  const moveActive = useCallback((step: number) => {
+    if (visibleRows.length === 0) return;
+    const position = visibleRows.findIndex(row => row.index === activeIndex);
+    const next = visibleRows[Math.min(Math.max(position + step, 0), visibleRows.length - 1)];
+    setActiveIndex(next.index);
+    rowRefs.current.get(next.index)?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [visibleRows, activeIndex]);
+
+  // Keyboard navigation outside the editor: j/k or arrows move, Enter edits,
+  // a approves, l locks or unlocks, f flags, r translates again
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (editingIndex !== null || isTypingTarget(event.target) || event.metaKey || event.ctrlKey || event.altKey) return;
+
+      const row = visibleRows.find(item => item.index === activeIndex);
+      switch (event.key) {
+        case 'ArrowDown':
+        case 'j':
+          moveActive(1);
+          break;
+        case 'ArrowUp':
+        case 'k':
+          moveActive(-1);
+          break;
+        case 'Enter':
+        case 'e':
+          if (row) startEditing(row);
+          break;
+        case 'a':
+          if (row && row.state.status !== 'locked') setStatus(row, 'approved');
+          break;
+        case 'l':
+          if (row) setStatus(row, row.state.status === 'locked' ? 'draft' : 'locked');
+          break;
+        case 'f':
+          if (row) toggleFlag(row);
+          break;
+        case 'r':
+          if (row) retranslate(row);
+          break;
+        default:
+          return;
+      }
+      event.preventDefault();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [editingIndex, visibleRows, activeIndex, moveActive, startEditing, setStatus, toggleFlag, retranslate]);
+
+  const handleEditorKeyDown = (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (event.key === 'Enter' && (event.metaKey || event.ctrlKey)) {
+      event.preventDefault();
+      void saveEditing();
+    } else if (event.key === 'Escape') {
+      event.preventDefault();
+      cancelEditing();
+    }
+  };
+
+  const handleXliffDownload = async () => {
+    if (!review) return;
+
+    try {
+      const response = await fetch('/api/xliff/export', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ reviewId: review.id }),
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        setError(data.error || 'XLIFF export failed');
+        return;
+      }
+
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${review.filename.replace(/\.[^.]+$/, '')}-${review.sourceLanguage}-${review.targetLanguage}.xlf`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError('Network error. Please try again.');
+      console.error('XLIFF export error:', err);
+    }
+  };
+
+  if (!review) {
+    return (
+      <div className="min-h-screen bg-background text-foreground p-8">
+        <div className="max-w-6xl mx-auto text-sm text-muted-foreground">
+          {error ?? 'Loading review...'}
+        </div>
+      </div>
+    );
+  }
+
+  const approved = review.sections.filter(section => section.status !== 'draft').length;
+
+  return (
+    <div className="min-h-screen bg-background text-foreground p-8">
+      <div className="max-w-6xl mx-auto">
+        {/* Header */}
+        <div className="flex flex-wrap items-start justify-between gap-4 mb-6">
+          <div>
+            <h1 className="text-2xl font-bold mb-1">{review.filename}</h1>
+            <p className="text-sm text-muted-foreground">
+              {getLanguageName(review.sourceLanguage)} → {getLanguageName(review.targetLanguage)} • {approved}/{review.sections.length} approved
+              {review.quality && ` • quality ${Math.round(review.quality.qualityScore * 100)}%`}
+            </p>
+          </div>
+          <Link href="/review" className="text-sm underline text-muted-foreground hover:text-foreground">
+            All reviews
+          </Link>
+        </div>
+
+        {/* Toolbar */}
+        <div className="bg-card border border-border rounded-lg p-4 mb-4 flex flex-wrap items-center justify-between gap-3">
+          <select
+            aria-label="Filter sections"
+            value={filter}
+            onChange={(event) => setFilter(event.target.value as Filter)}
+            className="text-sm bg-background text-foreground border border-border rounded-md px-3 py-2"
+          >
+            {FILTERS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          <div className="flex flex-wrap gap-2">
+            {EXPORT_FORMATS.map(({ format, label }) => (
+              <a
+                key={format}
+                href={`/api/export/${format}?reviewId=${encodeURIComponent(review.id)}`}
+                download
+                className={secondaryButtonClassName}
+              >
+                {label}
+              </a>
+            ))}
+            <button onClick={handleXliffDownload} className={secondaryButtonClassName}>
+              XLIFF
+            </button>
+          </div>
+        </div>
+
+        <p className="text-xs text-muted-foreground mb-4">
+          Keys: ↑/↓ or j/k move • Enter edit • Ctrl+Enter save • Esc cancel • a approve • l lock/unlock • f flag • r re-translate
+        </p>
+
+        {error && (
+          <div className="text-sm text-destructive bg-destructive/10 border border-destructive/20 rounded-md p-3 mb-4">
+            {error}
+          </div>
+        )}
+
+        {/* Sections */}
+        <div className="space-y-2">
+          {visibleRows.length === 0 && (
+            <p className="text-sm text-muted-foreground">No sections match this filter.</p>
+          )}
+          {visibleRows.map(row => {
+            const isActive = row.index === activeIndex;
+            const isEditing = row.index === editingIndex;
+            const isBusy = busyIndex === row.index;
+            const isLocked = row.state.status === 'locked';
+
+            return (
+              <div
+                key={row.index}
+                ref={(element) => {
+                  if (element) rowRefs.current.set(row.index, element);
+                  else rowRefs.current.delete(row.index);
+                }}
+                onClick={() => setActiveIndex(row.index)}
+                className={`bg-card border rounded-lg p-4 ${isActive ? 'border-primary ring-1 ring-primary' : 'border-border'}`}
+              >
+                <div className="flex flex-wrap items-center gap-2 mb-2 text-xs">
+                  <span className="text-muted-foreground">p{row.source.position.page} • {row.source.type}{row.source.level ? ` ${row.source.level}` : ''}</span>
+                  <span className={`px-2 py-0.5 rounded-md capitalize ${STATUS_CLASSNAMES[row.state.status]}`}>{row.state.status}</span>
+                  {row.state.edited && <span className="px-2 py-0.5 rounded-md bg-muted">edited</span>}
+                  {row.state.flagged && <span className="px-2 py-0.5 rounded-md bg-yellow-500/15 text-yellow-700 dark:text-yellow-400">flagged</span>}
+                  {row.quality && !row.quality.skipped && (
+                    <span className={`px-2 py-0.5 rounded-md ${row.quality.passed ? 'bg-muted' : 'bg-destructive/10 text-destructive'}`}>
+                      score {Math.round(row.quality.score * 100)}%
+                    </span>
+                  )}
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {row.source.table ? (
+                    <div className="text-muted-foreground" lang={review.sourceLanguage}>
+                      <DocumentTableView table={row.source.table} />
+                    </div>
+                  ) : (
+                    <div className="text-sm whitespace-pre-wrap text-muted-foreground" lang={review.sourceLanguage}>
+                      {row.source.content}
+                    </div>
+                  )}
+                  <div lang={review.targetLanguage}>
+                    {isEditing ? (
+                      <textarea
+                        autoFocus
+                        value={draft}
+                        onChange={(event) => setDraft(event.target.value)}
+                        onKeyDown={handleEditorKeyDown}
+                        rows={Math.max(3, draft.split('\n').length + 1)}
+                        className="block w-full text-sm bg-background text-foreground border border-border rounded-md px-3 py-2"
+                      />
+                    ) : (
+                      <div
+                        className={`text-sm whitespace-pre-wrap ${isLocked ? '' : 'cursor-text'}`}
+                        onDoubleClick={() => startEditing(row)}
+                      >
+                        {/* Tables are edited as pipe-separated rows; the grid is kept when the shape does not change */}
+                        {row.translation.table ? <DocumentTableView table={row.translation.table} /> : row.translation.content}
+                      </div>
+                    )}
+                  </div>
+                </div>
+
+                {row.quality && !row.quality.passed && row.quality.issues.length > 0 && (
+                  <ul className="mt-2 text-xs text-destructive list-disc list-inside">
+                    {row.quality.issues.map((issue, index) => (
+                      <li key={index}>{issue}</li>
+                    ))}
+                  </ul>
+                )}
+
+                {(isActive || isEditing) && (
+                  <div className="flex flex-wrap gap-2 mt-3">
+                    {isEditing ? (
+                      <>
+                        <button onClick={saveEditing} disabled={isBusy} className={primaryButtonClassName}>Save</button>
+                        <button onClick={cancelEditing} disabled={isBusy} className={secondaryButtonClassName}>Cancel</button>
+                      </>
+                    ) : (
+                      <>
+                        <button onClick={() => startEditing(row)} disabled={isBusy || isLocked} className={secondaryButtonClassName}>Edit</button>
+                        <button
+                          onClick={() => setStatus(row, row.state.status === 'approved' ? 'draft' : 'approved')}
+                          disabled={isBusy || isLocked}
+                          className={secondaryButtonClassName}
+                        >
+                          {row.state.status === 'approved' ? 'Back to draft' : 'Approve'}
+                        </button>
+                        <button onClick={() => setStatus(row, isLocked ? 'draft' : 'locked')} disabled={isBusy} className={secondaryButtonClassName}>
+                          {isLocked ? 'Unlock' : 'Lock'}
+                        </button>
+                        <button onClick={() => toggleFlag(row)} disabled={isBusy} className={secondaryButtonClassName}>
+                          {row.state.flagged ? 'Unflag' : 'Flag'}
+                        </button>
+                        <button onClick={() => retranslate(row)} disabled={isBusy || isLocked || !row.source.content.trim()} className={secondaryButtonClassName}>
+                          {isBusy ? 'Working...' : 'Re-translate'}
+                        </button>
+                        {row.state.edited && (
+                          <button onClick={() => revert(row)} disabled={isBusy || isLocked} className={secondaryButtonClassName}>
+                            Revert to machine translation
+                          </button>
+                        )}
+                      </>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
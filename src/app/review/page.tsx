@@ -0,0 +1,109 @@
+'use client';
+
+import Link from 'next/link';
+import { useEffect, useState } from 'react';
+import { getLanguageName } from '@/lib/languages';
+import { ReviewListResponse, ReviewSummary } from '@/lib/types';
+
+const secondaryButtonClassName = 'px-3 py-1 text-sm bg-secondary text-secondary-foreground rounded-md hover:bg-secondary/80 disabled:opacity-50 disabled:cursor-not-allowed transition-colors';
+
+export default function ReviewsPage() {
+  const [reviews, setReviews] = useState<ReviewSummary[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadReviews = async () => {
+    try {
+      const response = await fetch('/api/reviews');
+      const data: ReviewListResponse = await response.json();
+      if (data.success && data.data) {
+        setReviews(data.data);
+      } else {
+        setError(data.error || 'Could not load reviews');
+      }
+    } catch (err) {
+      setError('Network error. Please try again.');
+      console.error('Failed to load reviews:', err);
+    }
+  };
+
+  useEffect(() => {
+    void loadReviews();
+  }, []);
+
+  const handleDelete = async (id: string) => {
+    if (!window.confirm('Delete this review and all edits made in it?')) return;
+
+    try {
+      await fetch(`/api/reviews/${id}`, { method: 'DELETE' });
+      await loadReviews();
+    } catch (err) {
+      setError('Network error. Please try again.');
+      console.error('Failed to delete review:', err);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background text-foreground p-8">
+      <div className="max-w-4xl mx-auto">
+        <div className="flex items-center justify-between mb-8">
+          <div>
+            <h1 className="text-3xl font-bold mb-2">Reviews</h1>
+            <p className="text-muted-foreground">Translations under review, most recently changed first</p>
+          </div>
+          <Link href="/" className="text-sm underline text-muted-foreground hover:text-foreground">
+            Back to documents
+          </Link>
+        </div>
+
+        {error && (
+          <div className="text-sm text-destructive bg-destructive/10 border border-destructive/20 rounded-md p-3 mb-6">
+            {error}
+          </div>
+        )}
+
+        <div className="bg-card border border-border rounded-lg p-6">
+          {reviews.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No reviews yet. Translate a parsed document with &quot;Translate &amp; Review&quot; to start one.
+            </p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-muted-foreground border-b border-border">
+                  <th className="py-2">Document</th>
+                  <th className="py-2">Languages</th>
+                  <th className="py-2">Progress</th>
+                  <th className="py-2">Updated</th>
+                  <th className="py-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {reviews.map(review => (
+                  <tr key={review.id} className="border-b border-border">
+                    <td className="py-2 font-medium">
+                      <Link href={`/review/${review.id}`} className="underline hover:text-primary">{review.filename}</Link>
+                    </td>
+                    <td className="py-2">
+                      {getLanguageName(review.sourceLanguage)} → {getLanguageName(review.targetLanguage)}
+                    </td>
+                    <td className="py-2 text-xs text-muted-foreground">
+                      {review.approved}/{review.sectionCount} approved
+                      {review.edited > 0 && `, ${review.edited} edited`}
+                      {review.flagged > 0 && `, ${review.flagged} flagged`}
+                    </td>
+                    <td className="py-2 text-xs text-muted-foreground">{new Date(review.updatedAt).toLocaleString()}</td>
+                    <td className="py-2 text-right">
+                      <button onClick={() => handleDelete(review.id)} className={secondaryButtonClassName}>
+                        Delete
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+import { layoutTable } from '@/lib/tables';
+import { DocumentTable } from '@/lib/types';
+
+type DocumentTableViewProps = {
+  table: DocumentTable;
+  caption?: string;
+  className?: string;
+};
+
+/**
+ * Renders a parsed table with its header rows, header columns and spans
+ */
+export function DocumentTableView({ table, caption, className = '' }: DocumentTableViewProps) {
+  const { cells } = layoutTable(table);
+
+  const renderRow = (rowIndex: number) => (
+    <tr key={rowIndex}>
+      {cells.filter(placed => placed.row === rowIndex).map(({ cell, column, rowSpan, colSpan }) => {
+        const inHeaderRow = rowIndex < table.headerRows;
+        const isHeader = inHeaderRow || column < table.headerColumns || cell.header;
+        const Cell = isHeader ? 'th' : 'td';
+        return (
+          <Cell
+            key={column}
+            rowSpan={rowSpan > 1 ? rowSpan : undefined}
+            colSpan={colSpan > 1 ? colSpan : undefined}
+            scope={isHeader ? (inHeaderRow ? 'col' : 'row') : undefined}
+            className={`border border-border px-2 py-1 text-start align-top ${isHeader ? 'bg-muted font-medium' : ''}`}
+          >
+            {cell.content}
+          </Cell>
+        );
+      })}
+    </tr>
+  );
+
+  const rowIndices = table.rows.map((_, index) => index);
+  const head = rowIndices.slice(0, table.headerRows);
+  const body = rowIndices.slice(table.headerRows);
+
+  return (
+    <div className={`overflow-x-auto ${className}`}>
+      <table className="w-full border-collapse text-sm">
+        {caption && <caption className="caption-bottom pt-1 text-xs italic text-muted-foreground text-start">{caption}</caption>}
+        {head.length > 0 && <thead>{head.map(renderRow)}</thead>}
+        {body.length > 0 && <tbody>{body.map(renderRow)}</tbody>}
+      </table>
+    </div>
+  );
+}
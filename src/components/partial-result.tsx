@@ -0,0 +1,86 @@
+import { getLanguageName } from '@/lib/languages';
+import { PartialDocumentParserResult } from '@/lib/types';
+
+type PartialResultViewProps = {
+  partial: PartialDocumentParserResult;
+  // The stream ended without a complete result
+  interrupted?: boolean;
+};
+
+/**
+ * Renders a parse result while it streams in; metadata, formatting and
+ * sections appear as the model produces them
+ */
+export function PartialResultView({ partial, interrupted = false }: PartialResultViewProps) {
+  const { metadata, formatting, structure } = partial;
+  const sections = (structure?.sections ?? []).filter(section => section?.content);
+  const fonts = (formatting?.fonts ?? []).filter(font => font?.name);
+
+  const facts: [string, string | number | undefined][] = [
+    ['Title', metadata?.title],
+    ['Language', metadata?.language && getLanguageName(metadata.language)],
+    ['Pages', metadata?.pageCount ?? structure?.totalPages],
+    ['Words', metadata?.wordCount],
+  ];
+  const knownFacts = facts.filter(([, value]) => value !== undefined && value !== '');
+
+  return (
+    <div className="space-y-6 mb-6">
+      {interrupted ? (
+        <div className="text-sm bg-muted border border-border rounded-md p-3">
+          Parsing stopped before the result was complete. Showing the {sections.length} {sections.length === 1 ? 'section' : 'sections'} received
+          so far; they have not been checked and cannot be translated or exported.
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">Partial result, updated as the document is read...</p>
+      )}
+
+      {knownFacts.length > 0 && (
+        <div className="bg-card border border-border rounded-lg p-6">
+          <h3 className="text-lg font-semibold mb-4">Document Analysis</h3>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 text-sm">
+            {knownFacts.map(([label, value]) => (
+              <div key={label}>
+                <span className="text-muted-foreground">{label}:</span>
+                <div className="font-medium">{value}</div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {(fonts.length > 0 || formatting?.layout?.columns) && (
+        <div className="bg-card border border-border rounded-lg p-6">
+          <h3 className="text-lg font-semibold mb-4">Document Formatting</h3>
+          <div className="text-sm space-y-1">
+            {formatting?.layout?.columns && <div>Columns: {formatting.layout.columns}</div>}
+            {formatting?.layout?.orientation && <div>Orientation: {formatting.layout.orientation}</div>}
+            {fonts.slice(0, 5).map((font, index) => (
+              <div key={index} className="flex justify-between">
+                <span>{font.name}</span>
+                {font.size && <span className="text-muted-foreground">{font.size}pt</span>}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {sections.length > 0 && (
+        <div className="bg-card border border-border rounded-lg p-6">
+          <h3 className="text-lg font-semibold mb-4">Sections ({sections.length})</h3>
+          <ol className="space-y-3 text-sm max-h-96 overflow-y-auto">
+            {sections.map((section, index) => (
+              <li key={index} className="flex items-start gap-2">
+                <span className="px-2 py-0.5 bg-muted rounded-md text-xs capitalize whitespace-nowrap">
+                  {section.type ?? 'section'}
+                  {section.position?.page !== undefined && ` · p. ${section.position.page}`}
+                </span>
+                <span className={section.type === 'heading' ? 'font-medium' : ''}>{section.content}</span>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+    </div>
+  );
+}
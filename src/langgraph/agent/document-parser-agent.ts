@@ -0,0 +1,31 @@
+import { DocumentInput, parseDocument } from '@/lib/document-parser';
+import { DocumentParserResult } from '@/lib/types';
+import { TranslationGraphStateType, TranslationGraphUpdate } from '../state';
+
+export type DocumentParserFn = (input: DocumentInput) => Promise<DocumentParserResult>;
+
+/**
+ * Document Parser Agent node
+ * Decodes the uploaded file from state and extracts text, structure and formatting
+ */
+export const createDocumentParserNode = (parse: DocumentParserFn = parseDocument) => {
+  return async (state: TranslationGraphStateType): Promise<TranslationGraphUpdate> => {
+    // Documents can be supplied already parsed, e.g. when resuming from the parser API
+    if (state.document) {
+      return { stage: 'detecting-language' };
+    }
+
+    if (!state.input) {
+      throw new Error('No document provided to the translation pipeline');
+    }
+
+    const document = await parse({
+      filename: state.input.filename,
+      fileSize: state.input.fileSize,
+      mimeType: state.input.mimeType,
+      data: Buffer.from(state.input.data, 'base64'),
+    });
+
+    return { document, stage: 'detecting-language' };
+  };
+};
@@ -0,0 +1,45 @@
+import { interrupt } from '@langchain/langgraph';
+import { createModelLanguageDetector, LanguageDetector } from '@/lib/language-detection';
+import { isSupportedLanguage } from '@/lib/languages';
+import { TargetLanguageRequest } from '@/lib/types';
+import { TranslationGraphStateType, TranslationGraphUpdate } from '../state';
+
+/**
+ * Language Detection Agent node
+ */
+export const createLanguageDetectionNode = (detector: LanguageDetector = createModelLanguageDetector()) => {
+  return async (state: TranslationGraphStateType): Promise<TranslationGraphUpdate> => {
+    if (!state.document) {
+      throw new Error('Language detection requires a parsed document');
+    }
+
+    const languageDetection = await detector.detect(state.document);
+
+    return { languageDetection, stage: 'awaiting-target-language' };
+  };
+};
+
+/**
+ * Human-in-the-loop node where the user picks the target language
+ * Pauses the graph with an interrupt unless a target was supplied up front;
+ * resume with `new Command({ resume: '<language code>' })`
+ */
+export const targetLanguageSelectionNode = async (state: TranslationGraphStateType): Promise<TranslationGraphUpdate> => {
+  if (state.targetLanguage) {
+    return { stage: 'translating' };
+  }
+
+  const detection = state.languageDetection;
+  const targetLanguage = interrupt<TargetLanguageRequest, string>({
+    detectedLanguage: detection?.detectedLanguage ?? state.document?.metadata.language ?? 'unknown',
+    confidence: detection?.confidence ?? 0,
+    availableTargets: detection?.availableTargets ?? [],
+    languages: detection?.languages ?? [],
+  });
+
+  if (typeof targetLanguage !== 'string' || !isSupportedLanguage(targetLanguage)) {
+    throw new Error(`Unsupported target language: ${String(targetLanguage)}`);
+  }
+
+  return { targetLanguage, stage: 'translating' };
+};
@@ -0,0 +1,44 @@
+import { renderDocumentPdf } from '@/lib/output-formatter';
+import { collectSegmentPairs, TranslationMemoryStore } from '@/lib/translation-memory';
+import { TranslationGraphStateType, TranslationGraphUpdate } from '../state';
+
+/**
+ * Output Formatter Agent node
+ * Rebuilds the translated PDF from the preserved structure and formatting metadata
+ * and records the accepted segments in the translation memory
+ */
+export const createOutputFormatterNode = (memory: TranslationMemoryStore | null = null) => {
+  return async (state: TranslationGraphStateType): Promise<TranslationGraphUpdate> => {
+    if (!state.document || !state.translatedDocument || !state.translation) {
+      throw new Error('Output formatting requires a translated document');
+    }
+
+    const pdf = await renderDocumentPdf(state.translatedDocument);
+
+    // Segments without a known source language cannot be looked up again
+    const { sourceLanguage, targetLanguage } = state.translation;
+    if (memory && sourceLanguage !== 'auto') {
+      memory.add(
+        collectSegmentPairs(state.document, state.translatedDocument, {
+          sourceLanguage,
+          targetLanguage,
+          quality: state.qualityReport,
+          sectionLanguages: state.languageDetection?.sections,
+        }),
+        'translation'
+      );
+    }
+
+    return {
+      output: {
+        document: state.translatedDocument,
+        pdf: Buffer.from(pdf).toString('base64'),
+        translation: state.translation,
+        qualityScore: state.qualityScore ?? 0,
+        quality: state.qualityReport,
+        completedAt: new Date().toISOString(),
+      },
+      stage: 'completed',
+    };
+  };
+};
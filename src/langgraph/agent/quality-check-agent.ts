@@ -0,0 +1,36 @@
+import { selectGlossaryEntries } from '@/lib/glossary';
+import { evaluateTranslation, getRetryFeedback, QualityJudge } from '@/lib/quality';
+import { TranslationGraphStateType, TranslationGraphUpdate } from '../state';
+
+/**
+ * Quality check node feeding the retry decision
+ * After a retry only the retranslated sections are evaluated again
+ */
+export const createQualityCheckNode = (judge: QualityJudge | undefined, threshold: number) => {
+  return async (state: TranslationGraphStateType): Promise<TranslationGraphUpdate> => {
+    if (!state.document || !state.translatedDocument || !state.targetLanguage) {
+      throw new Error('Quality check requires a translated document');
+    }
+
+    const previous = state.qualityReport ?? undefined;
+    const retried = previous ? Array.from(getRetryFeedback(previous).keys()) : [];
+
+    const sourceLanguage = state.translation?.sourceLanguage ?? state.document.metadata.language ?? 'auto';
+
+    const qualityReport = await evaluateTranslation(state.document, state.translatedDocument, {
+      judge,
+      threshold,
+      sourceLanguage,
+      targetLanguage: state.targetLanguage,
+      ...(state.glossary && { glossary: selectGlossaryEntries(state.glossary, sourceLanguage, state.targetLanguage) }),
+      previous,
+      sections: retried.length ? retried : undefined,
+    });
+
+    return {
+      qualityReport,
+      qualityScore: qualityReport.qualityScore,
+      stage: 'formatting',
+    };
+  };
+};
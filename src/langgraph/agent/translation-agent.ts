@@ -0,0 +1,66 @@
+import { selectGlossaryEntries } from '@/lib/glossary';
+import { getRetryFeedback, recordRetries } from '@/lib/quality';
+import { createModelTranslator, retranslateSections, translateDocument, Translator } from '@/lib/translation';
+import { TranslationMemoryStore } from '@/lib/translation-memory';
+import { TranslationGraphStateType, TranslationGraphUpdate } from '../state';
+
+/**
+ * Translation Agent node
+ * Runs again from the retry edge when the quality check fails; retries only
+ * translate the failing sections, with the quality findings as feedback
+ * Segments with a 100% translation memory match are reused as stored
+ */
+export const createTranslationNode = (
+  translator: Translator = createModelTranslator(),
+  memory: TranslationMemoryStore | null = null
+) => {
+  return async (state: TranslationGraphStateType): Promise<TranslationGraphUpdate> => {
+    if (!state.document || !state.targetLanguage) {
+      throw new Error('Translation requires a parsed document and a target language');
+    }
+
+    const sourceLanguage = state.languageDetection?.detectedLanguage
+      ?? state.document.metadata.language
+      ?? 'auto';
+
+    const targetLanguage = state.targetLanguage;
+    const options = {
+      translator,
+      sourceLanguage,
+      targetLanguage,
+      sectionLanguages: state.languageDetection?.sections,
+      ...(state.glossary && { glossary: selectGlossaryEntries(state.glossary, sourceLanguage, targetLanguage) }),
+      ...(memory && sourceLanguage !== 'auto' && {
+        memory: (text: string) => memory.lookup(text, sourceLanguage, targetLanguage),
+      }),
+    };
+
+    const feedback = state.qualityReport ? getRetryFeedback(state.qualityReport) : new Map<number, string[]>();
+    if (state.translatedDocument && state.translation && feedback.size > 0) {
+      return {
+        translatedDocument: await retranslateSections(state.document, state.translatedDocument, feedback, options),
+        stage: 'quality-check',
+      };
+    }
+
+    const result = await translateDocument(state.document, options);
+
+    return {
+      translatedDocument: result.document,
+      translation: result.translation,
+      stage: 'quality-check',
+    };
+  };
+};
+
+/**
+ * Retry node on the low-quality edge, counts attempts and records which
+ * sections are retried and why before translating again
+ */
+export const retryTranslationNode = async (state: TranslationGraphStateType): Promise<TranslationGraphUpdate> => {
+  const qualityReport = state.qualityReport
+    ? recordRetries(state.qualityReport, getRetryFeedback(state.qualityReport))
+    : null;
+
+  return { retryCount: state.retryCount + 1, qualityReport, stage: 'translating' };
+};
@@ -0,0 +1,41 @@
+import { mkdtempSync, readdirSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { describe, expect, it } from '@jest/globals';
+import { emptyCheckpoint } from '@langchain/langgraph';
+import { FileCheckpointSaver } from './checkpointer';
+
+const createDirectory = () => mkdtempSync(path.join(tmpdir(), 'doctranslator-checkpoints-'));
+
+const saveCheckpoint = async (saver: FileCheckpointSaver, threadId: string, pdf: string) => {
+  const checkpoint = { ...emptyCheckpoint(), channel_values: { pdf } };
+  const config = await saver.put({ configurable: { thread_id: threadId } }, checkpoint, { source: 'loop', step: 0, writes: null, parents: {} });
+  await saver.putWrites(config, [['stage', 'translated']], 'task-1');
+  return config;
+};
+
+describe('FileCheckpointSaver', () => {
+  it('restores checkpoints and pending writes in a new saver', async () => {
+    const directory = createDirectory();
+    const pdf = Buffer.from('%PDF-1.7').toString('base64');
+    const config = await saveCheckpoint(new FileCheckpointSaver(directory), 'run/1', pdf);
+
+    const restored = await new FileCheckpointSaver(directory).getTuple(config);
+
+    expect(restored?.checkpoint.channel_values.pdf).toEqual(pdf);
+    expect(restored?.pendingWrites).toEqual([['task-1', 'stage', 'translated']]);
+  });
+
+  it('keeps each checkpoint in a file of its own under its thread', async () => {
+    const directory = createDirectory();
+    const saver = new FileCheckpointSaver(directory);
+    const { configurable } = await saveCheckpoint(saver, 'run-a', 'a');
+    await saveCheckpoint(saver, 'run-b', 'b');
+
+    expect(readdirSync(directory).sort()).toEqual(['run-a', 'run-b']);
+    expect(readdirSync(path.join(directory, 'run-a')).sort()).toEqual([
+      `${configurable?.checkpoint_id}.json`,
+      `${configurable?.checkpoint_id}.writes.json`,
+    ]);
+  });
+});
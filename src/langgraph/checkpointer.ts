@@ -0,0 +1,102 @@
+import { existsSync, readdirSync, readFileSync } from 'fs';
+import path from 'path';
+import type { RunnableConfig } from '@langchain/core/runnables';
+import { Checkpoint, CheckpointMetadata, MemorySaver } from '@langchain/langgraph';
+import { writeJsonAtomic } from '@/lib/json-file';
+
+const DEFAULT_CHECKPOINT_DIR = path.join(process.cwd(), '.langgraph', 'checkpoints');
+
+type PendingWrites = Parameters<MemorySaver['putWrites']>[1];
+
+type SavedCheckpoint = MemorySaver['storage'][string][string][string];
+
+type SerializedBytes = { $bytes: string };
+
+// A checkpoint as saved by `put`; written once and never rewritten
+type CheckpointFile = { checkpointNs: string; checkpointId: string; saved: SavedCheckpoint };
+
+// Pending writes of one checkpoint under MemorySaver's key for them
+type WritesFile = { key: string; writes: MemorySaver['writes'][string] };
+
+const WRITES_SUFFIX = '.writes.json';
+
+// Uint8Array values are stored as base64 so checkpoints can live in JSON files
+const encodeBytes = (_key: string, value: unknown): unknown => {
+  if (value instanceof Uint8Array) {
+    return { $bytes: Buffer.from(value).toString('base64') } satisfies SerializedBytes;
+  }
+  return value;
+};
+
+const decodeBytes = (_key: string, value: unknown): unknown => {
+  if (value && typeof value === 'object' && '$bytes' in value) {
+    return new Uint8Array(Buffer.from((value as SerializedBytes).$bytes, 'base64'));
+  }
+  return value;
+};
+
+const readJson = <T>(filePath: string): T => JSON.parse(readFileSync(filePath, 'utf8'), decodeBytes);
+
+/**
+ * File-backed checkpointer for local development and testing
+ * Keeps the in-memory layout of MemorySaver and stores each checkpoint in a
+ * file of its own under a directory per thread, next to a file with its
+ * pending writes; a write touches only the checkpoint it belongs to, so
+ * interrupted runs can resume after the human step or a process restart
+ * without rewriting the documents held by earlier checkpoints
+ */
+export class FileCheckpointSaver extends MemorySaver {
+  private readonly directory: string;
+
+  constructor(directory: string = process.env.LANGGRAPH_CHECKPOINT_DIR || DEFAULT_CHECKPOINT_DIR) {
+    super();
+    this.directory = directory;
+    this.load();
+  }
+
+  async put(config: RunnableConfig, checkpoint: Checkpoint, metadata: CheckpointMetadata): Promise<RunnableConfig> {
+    const result = await super.put(config, checkpoint, metadata);
+    const { thread_id: threadId, checkpoint_ns: checkpointNs = '', checkpoint_id: checkpointId } = result.configurable ?? {};
+
+    const file: CheckpointFile = { checkpointNs, checkpointId, saved: this.storage[threadId][checkpointNs][checkpointId] };
+    writeJsonAtomic(this.fileFor(threadId, checkpointId, '.json'), file, { replacer: encodeBytes });
+    return result;
+  }
+
+  async putWrites(config: RunnableConfig, writes: PendingWrites, taskId: string): Promise<void> {
+    await super.putWrites(config, writes, taskId);
+    const { thread_id: threadId, checkpoint_ns: checkpointNs, checkpoint_id: checkpointId } = config.configurable ?? {};
+
+    // Same key MemorySaver files the writes under
+    const key = JSON.stringify([threadId, checkpointNs, checkpointId]);
+    const file: WritesFile = { key, writes: this.writes[key] };
+    writeJsonAtomic(this.fileFor(threadId, checkpointId, WRITES_SUFFIX), file, { replacer: encodeBytes });
+  }
+
+  // Checkpoint IDs are unique across namespaces, so they name the files of a thread
+  private fileFor(threadId: string, checkpointId: string, suffix: string): string {
+    return path.join(this.directory, encodeURIComponent(threadId), `${checkpointId}${suffix}`);
+  }
+
+  private load(): void {
+    if (!existsSync(this.directory)) return;
+
+    for (const threadDir of readdirSync(this.directory)) {
+      const threadId = decodeURIComponent(threadDir);
+      const threadPath = path.join(this.directory, threadDir);
+
+      for (const name of readdirSync(threadPath).filter(entry => entry.endsWith('.json'))) {
+        if (name.endsWith(WRITES_SUFFIX)) {
+          const { key, writes } = readJson<WritesFile>(path.join(threadPath, name));
+          this.writes[key] = writes;
+          continue;
+        }
+
+        const { checkpointNs, checkpointId, saved } = readJson<CheckpointFile>(path.join(threadPath, name));
+        this.storage[threadId] ??= {};
+        this.storage[threadId][checkpointNs] ??= {};
+        this.storage[threadId][checkpointNs][checkpointId] = saved;
+      }
+    }
+  }
+}
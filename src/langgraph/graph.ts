@@ -0,0 +1,93 @@
+import { BaseCheckpointSaver, Command, END, START, StateGraph } from '@langchain/langgraph';
+import { parseDocumentCached } from '@/lib/document-parser';
+import { createModelLanguageDetector, LanguageDetector } from '@/lib/language-detection';
+import { resolveModel } from '@/lib/models';
+import {
+  createModelQualityJudge,
+  DEFAULT_MAX_QUALITY_RETRIES,
+  DEFAULT_QUALITY_THRESHOLD,
+  QualityJudge,
+} from '@/lib/quality';
+import { createModelTranslator, Translator } from '@/lib/translation';
+import { translationMemory, TranslationMemoryStore } from '@/lib/translation-memory';
+import { ModelStage } from '@/lib/types';
+import { createDocumentParserNode, DocumentParserFn } from './agent/document-parser-agent';
+import { createLanguageDetectionNode, targetLanguageSelectionNode } from './agent/language-detection-agent';
+import { createOutputFormatterNode } from './agent/output-formatter-agent';
+import { createQualityCheckNode } from './agent/quality-check-agent';
+import { createTranslationNode, retryTranslationNode } from './agent/translation-agent';
+import { FileCheckpointSaver } from './checkpointer';
+import { TranslationGraphState, TranslationGraphStateType } from './state';
+
+export type TranslationGraphOptions = {
+  // Registry model per stage, used for agents that are not injected
+  models?: Partial<Record<ModelStage, string>>;
+  parse?: DocumentParserFn;
+  detector?: LanguageDetector;
+  translator?: Translator;
+  judge?: QualityJudge;
+  // Reused for 100% and fuzzy matches and updated with each finished translation; null disables it
+  memory?: TranslationMemoryStore | null;
+  checkpointer?: BaseCheckpointSaver;
+  qualityThreshold?: number;
+  maxRetries?: number;
+};
+
+/**
+ * Builds the multi-agent translation pipeline from `flowchart TD.mmd`
+ *
+ * parse -> detectLanguage -> selectTargetLanguage (interrupt) -> translate
+ *   -> qualityCheck -> retryTranslation -> translate (failing sections only, up to maxRetries)
+ *   -> formatOutput -> END
+ *
+ * Agents are injectable so tests can swap model calls for deterministic fakes;
+ * otherwise each stage uses the model chosen in `models` or the registry default.
+ * Runs must be invoked with a `thread_id` so state is checkpointed between steps.
+ */
+export const createTranslationGraph = ({
+  models = {},
+  parse = async (input) => (await parseDocumentCached(input, { model: resolveModel(models.parse, 'parse') })).result,
+  detector = createModelLanguageDetector(resolveModel(models.detectLanguage, 'detectLanguage').model),
+  translator = createModelTranslator(resolveModel(models.translate, 'translate').model),
+  judge = createModelQualityJudge(resolveModel(models.evaluate, 'evaluate').model),
+  memory = translationMemory,
+  checkpointer = new FileCheckpointSaver(),
+  qualityThreshold = DEFAULT_QUALITY_THRESHOLD,
+  maxRetries = DEFAULT_MAX_QUALITY_RETRIES,
+}: TranslationGraphOptions = {}) => {
+  const routeAfterQualityCheck = (state: TranslationGraphStateType) => {
+    if (!state.qualityReport?.passed && state.retryCount < maxRetries) {
+      return 'retryTranslation';
+    }
+    return 'formatOutput';
+  };
+
+  return new StateGraph(TranslationGraphState)
+    .addNode('parse', createDocumentParserNode(parse))
+    .addNode('detectLanguage', createLanguageDetectionNode(detector))
+    .addNode('selectTargetLanguage', targetLanguageSelectionNode)
+    .addNode('translate', createTranslationNode(translator, memory))
+    .addNode('qualityCheck', createQualityCheckNode(judge, qualityThreshold))
+    .addNode('retryTranslation', retryTranslationNode)
+    .addNode('formatOutput', createOutputFormatterNode(memory))
+    .addEdge(START, 'parse')
+    .addEdge('parse', 'detectLanguage')
+    .addEdge('detectLanguage', 'selectTargetLanguage')
+    .addEdge('selectTargetLanguage', 'translate')
+    .addEdge('translate', 'qualityCheck')
+    .addConditionalEdges('qualityCheck', routeAfterQualityCheck, ['retryTranslation', 'formatOutput'])
+    .addEdge('retryTranslation', 'translate')
+    .addEdge('formatOutput', END)
+    .compile({ checkpointer });
+};
+
+export type TranslationGraph = ReturnType<typeof createTranslationGraph>;
+
+/**
+ * Resumes a run paused at the target language selection step
+ */
+export const resumeWithTargetLanguage = (graph: TranslationGraph, threadId: string, targetLanguage: string) => {
+  return graph.invoke(new Command({ resume: targetLanguage }), {
+    configurable: { thread_id: threadId },
+  });
+};
@@ -0,0 +1,4 @@
+export * from './state';
+export * from './graph';
+export * from './checkpointer';
+export * from './runs';
@@ -0,0 +1,111 @@
+import { randomUUID } from 'crypto';
+import { createModelLanguageDetector, createStatisticalLanguageDetector } from '@/lib/language-detection';
+import { resolveModel, ResolvedModel } from '@/lib/models';
+import { createFakeQualityJudge, createModelQualityJudge } from '@/lib/quality';
+import { createFakeTranslator, createModelTranslator } from '@/lib/translation';
+import { PipelineRun, TargetLanguageRequest } from '@/lib/types';
+import { FileCheckpointSaver } from './checkpointer';
+import { createTranslationGraph, resumeWithTargetLanguage, TranslationGraph } from './graph';
+import { TranslationGraphStateType, TranslationGraphUpdate } from './state';
+
+export type PipelineGraphOptions = {
+  // Registry model for the translate stage; the other stages use their defaults
+  model?: string;
+  // Applied to every resolved model, e.g. to meter its token usage
+  meter?: (resolved: ResolvedModel) => ResolvedModel;
+};
+
+// One checkpointer per process, so a run started by one request can be read and resumed by the next
+const globalForCheckpoints = globalThis as unknown as { pipelineCheckpointer?: FileCheckpointSaver };
+
+const getCheckpointer = (): FileCheckpointSaver =>
+  globalForCheckpoints.pipelineCheckpointer ?? (globalForCheckpoints.pipelineCheckpointer = new FileCheckpointSaver());
+
+const threadConfig = (threadId: string) => ({ configurable: { thread_id: threadId } });
+
+// Offline detector, translator and judge; also used to read checkpoints, which runs no agent
+const createOfflineGraph = (): TranslationGraph => createTranslationGraph({
+  detector: createStatisticalLanguageDetector(),
+  translator: createFakeTranslator(),
+  judge: createFakeQualityJudge(),
+  checkpointer: getCheckpointer(),
+});
+
+// A run that was just invoked always has a checkpoint
+const readRun = async (graph: TranslationGraph, threadId: string): Promise<PipelineRun> => {
+  const run = await getPipelineRun(threadId, graph);
+  if (!run) {
+    throw new Error(`No checkpoint found for thread ${threadId}`);
+  }
+  return run;
+};
+
+/**
+ * Translation graph for runs driven through the API
+ * TRANSLATOR=fake swaps in the offline detector, translator and judge for local testing without network
+ */
+export const createPipelineGraph = ({ model, meter = (resolved) => resolved }: PipelineGraphOptions = {}): TranslationGraph => {
+  if (process.env.TRANSLATOR === 'fake') {
+    return createOfflineGraph();
+  }
+
+  return createTranslationGraph({
+    detector: createModelLanguageDetector(meter(resolveModel(undefined, 'detectLanguage')).model),
+    translator: createModelTranslator(meter(resolveModel(model, 'translate')).model),
+    judge: createModelQualityJudge(meter(resolveModel(undefined, 'evaluate')).model),
+    checkpointer: getCheckpointer(),
+  });
+};
+
+/**
+ * Current state of a run from its latest checkpoint, or null for an unknown thread
+ * `awaiting` holds the interrupt payload while the run waits for a target language
+ */
+export const getPipelineRun = async (threadId: string, graph = createOfflineGraph()): Promise<PipelineRun | null> => {
+  const snapshot = await graph.getState(threadConfig(threadId));
+  if (!snapshot.createdAt) return null;
+
+  const state = snapshot.values as TranslationGraphStateType;
+  const interrupt = snapshot.tasks.flatMap((task) => task.interrupts).find((pending) => pending.value !== undefined);
+  const failed = snapshot.tasks.find((task) => task.error);
+
+  return {
+    threadId,
+    stage: state.stage,
+    targetLanguage: state.targetLanguage,
+    languageDetection: state.languageDetection,
+    awaiting: (interrupt?.value as TargetLanguageRequest | undefined) ?? null,
+    document: state.output?.document ?? null,
+    translation: state.output?.translation ?? null,
+    quality: state.output?.quality ?? null,
+    retryCount: state.retryCount,
+    completedAt: state.output?.completedAt ?? null,
+    ...(failed && { error: failed.error instanceof Error ? failed.error.message : String(failed.error) }),
+  };
+};
+
+/**
+ * Rendered PDF of a completed run, or null while it is still running
+ */
+export const getPipelinePdf = async (threadId: string): Promise<Uint8Array | null> => {
+  const snapshot = await createOfflineGraph().getState(threadConfig(threadId));
+  const output = (snapshot.values as Partial<TranslationGraphStateType>).output;
+  return output ? new Uint8Array(Buffer.from(output.pdf, 'base64')) : null;
+};
+
+/**
+ * Starts a run under a new thread ID and returns its state once it completes or pauses
+ */
+export const startPipelineRun = async (graph: TranslationGraph, input: TranslationGraphUpdate): Promise<PipelineRun> => {
+  const threadId = randomUUID();
+  await graph.invoke(input, threadConfig(threadId));
+  return readRun(graph, threadId);
+};
+
+/**
+ * Answers the target language interrupt of a paused run and returns its state once it completes
+ */
+export const resumePipelineRun = async (graph: TranslationGraph, threadId: string, targetLanguage: string): Promise<PipelineRun> => {
+  await resumeWithTargetLanguage(graph, threadId, targetLanguage);
+  return readRun(graph, threadId);
+};
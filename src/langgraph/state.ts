@@ -0,0 +1,64 @@
+import { Annotation } from '@langchain/langgraph';
+import {
+  DocumentParserResult,
+  GlossaryEntry,
+  LanguageDetectionResult,
+  PipelineStage,
+  QualityReport,
+  TranslationInfo,
+} from '@/lib/types';
+
+export type { PipelineStage };
+
+/**
+ * Uploaded file as stored in graph state
+ * File bytes are base64 encoded so checkpoints stay JSON serializable
+ */
+export type SerializedDocumentInput = {
+  filename: string;
+  fileSize: number;
+  mimeType: string;
+  data: string;
+};
+
+/**
+ * Final artefact produced by the Output Formatter Agent
+ */
+export type TranslationOutput = {
+  document: DocumentParserResult;
+  pdf: string; // base64 encoded
+
+  translation: TranslationInfo;
+  qualityScore: number;
+  quality: QualityReport | null;
+  completedAt: string;
+};
+
+// Channel that keeps the latest written value, starting from a default
+const lastValue = <T>(defaultValue: () => T) => Annotation<T>({
+  reducer: (_current, update) => update,
+  default: defaultValue,
+});
+
+/**
+ * Shared state passed between the translation pipeline agents
+ */
+export const TranslationGraphState = Annotation.Root({
+  input: lastValue<SerializedDocumentInput | null>(() => null),
+  document: lastValue<DocumentParserResult | null>(() => null),
+  languageDetection: lastValue<LanguageDetectionResult | null>(() => null),
+  targetLanguage: lastValue<string | null>(() => null),
+  // Entries of the glossary chosen for the run; narrowed to the language pair when translating
+  glossary: lastValue<GlossaryEntry[] | null>(() => null),
+  translatedDocument: lastValue<DocumentParserResult | null>(() => null),
+  translation: lastValue<TranslationInfo | null>(() => null),
+  qualityScore: lastValue<number | null>(() => null),
+  qualityReport: lastValue<QualityReport | null>(() => null),
+  retryCount: lastValue<number>(() => 0),
+  output: lastValue<TranslationOutput | null>(() => null),
+  stage: lastValue<PipelineStage>(() => 'pending'),
+});
+
+export type TranslationGraphStateType = typeof TranslationGraphState.State;
+
+export type TranslationGraphUpdate = typeof TranslationGraphState.Update;
@@ -0,0 +1,131 @@
+import { afterEach, describe, expect, it, jest } from '@jest/globals';
+import { NextRequest, NextResponse } from 'next/server';
+import { setEnv } from '@/test/env';
+import { checkApiAccess, withApiAccess } from './access';
+import { createMemoryApiKeyStore } from './memory-store';
+
+const identify = async (headers: Record<string, string>) => {
+  const access = await checkApiAccess(new Headers(headers), { store: createMemoryApiKeyStore() });
+  if (!access.allowed) throw new Error(access.error.message);
+  return access.client;
+};
+
+describe('checkApiAccess', () => {
+  let restoreEnv: () => void = () => {};
+
+  afterEach(() => restoreEnv());
+
+  it('puts anonymous callers in one shared client unless a proxy is trusted', async () => {
+    restoreEnv = setEnv({ TRUST_PROXY: undefined });
+
+    const client = await identify({ 'x-forwarded-for': '203.0.113.7', 'x-real-ip': '203.0.113.8' });
+
+    expect(client.id).toBe('anonymous');
+  });
+
+  it('takes the address the trusted proxy appended to X-Forwarded-For', async () => {
+    restoreEnv = setEnv({ TRUST_PROXY: 'true' });
+
+    const client = await identify({ 'x-forwarded-for': '198.51.100.1, 203.0.113.7' });
+
+    expect(client.id).toBe('ip:203.0.113.7');
+  });
+
+  it('falls back to X-Real-IP behind a trusted proxy', async () => {
+    restoreEnv = setEnv({ TRUST_PROXY: '1' });
+
+    const client = await identify({ 'x-real-ip': '203.0.113.8' });
+
+    expect(client.id).toBe('ip:203.0.113.8');
+  });
+
+  it('refuses callers over the anonymous rate limit with rate-limit headers', async () => {
+    restoreEnv = setEnv({ TRUST_PROXY: undefined, ANONYMOUS_REQUESTS_PER_MINUTE: '1' });
+    const store = createMemoryApiKeyStore();
+    const now = Date.UTC(2026, 0, 1);
+
+    await checkApiAccess(new Headers({ 'x-forwarded-for': '203.0.113.7' }), { store, now });
+    const access = await checkApiAccess(new Headers({ 'x-forwarded-for': '198.51.100.1' }), { store, now });
+
+    expect(access.allowed).toBe(false);
+    expect(access.headers).toMatchObject({ 'RateLimit-Limit': '1', 'RateLimit-Remaining': '0', 'Retry-After': '60' });
+  });
+});
+
+describe('checkApiAccess for the web UI', () => {
+  let restoreEnv: () => void = () => {};
+
+  afterEach(() => restoreEnv());
+
+  // One minute of the upload page and the batches page, as page.tsx and
+  // batches/page.tsx send them: true marks the status reads passed as uiRead
+  const uiMinute: [string, boolean][] = [
+    ['GET /api/input-formats', true],
+    ['GET /api/glossaries', true],
+    ['POST /api/jobs', false],
+    ['GET /api/jobs/:id/events', true],
+    ['GET /api/jobs/:id/result', true],
+    ['POST /api/language-detection', false],
+    ['POST /api/translate', false],
+    ['POST /api/reviews', false],
+    ['GET /api/input-formats', true],
+    ['POST /api/batches', false],
+    ...Array.from({ length: 12 }, (): [string, boolean] => ['GET /api/batches/:id', true]),
+  ];
+
+  it('keeps anonymous users of the UI under the shared rate limit while it polls', async () => {
+    restoreEnv = setEnv({ TRUST_PROXY: undefined, ANONYMOUS_REQUESTS_PER_MINUTE: undefined });
+    const store = createMemoryApiKeyStore();
+    const now = Date.UTC(2026, 0, 1);
+    const browser = new Headers({ 'sec-fetch-site': 'same-origin' });
+
+    // Three users at once share the anonymous client
+    const refused: string[] = [];
+    for (const [request, uiRead] of [...uiMinute, ...uiMinute, ...uiMinute]) {
+      const access = await checkApiAccess(browser, { store, now, uiRead });
+      if (!access.allowed) refused.push(request);
+    }
+
+    expect(refused).toEqual([]);
+  });
+
+  it('counts status reads that do not come from the UI', async () => {
+    restoreEnv = setEnv({ TRUST_PROXY: undefined, ANONYMOUS_REQUESTS_PER_MINUTE: '20' });
+    const store = createMemoryApiKeyStore();
+    const now = Date.UTC(2026, 0, 1);
+
+    const results = [];
+    for (let poll = 0; poll < 21; poll++) {
+      results.push(await checkApiAccess(new Headers({ 'sec-fetch-site': 'cross-site' }), { store, now, uiRead: true }));
+    }
+
+    expect(results.at(-1)?.allowed).toBe(false);
+  });
+});
+
+describe('withApiAccess', () => {
+  let restoreEnv: () => void = () => {};
+
+  afterEach(() => restoreEnv());
+
+  it('refuses callers before the handler looks anything up', async () => {
+    restoreEnv = setEnv({ API_KEYS_REQUIRED: 'true' });
+    const handler = jest.fn(async () => NextResponse.json({ success: false, error: 'Review r1 not found' }, { status: 404 }));
+
+    const response = await withApiAccess('/test', handler)(new NextRequest('http://localhost/test'));
+
+    expect(response.status).toBe(401);
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('puts the rate-limit headers on the handler response', async () => {
+    restoreEnv = setEnv({ API_KEYS_REQUIRED: undefined, ANONYMOUS_REQUESTS_PER_MINUTE: '5' });
+
+    const response = await withApiAccess('/test', async (_request, { client, tracker }) =>
+      tracker.respond(NextResponse.json({ client: client.id })))(new NextRequest('http://localhost/test'));
+
+    expect(await response.json()).toEqual({ client: 'anonymous' });
+    expect(response.headers.get('RateLimit-Limit')).toBe('5');
+    expect(response.headers.get('X-Request-Id')).toBeTruthy();
+  });
+});
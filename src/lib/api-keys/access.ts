@@ -0,0 +1,310 @@
+import { timingSafeEqual } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { ResolvedModel, trackModelUsage } from '@/lib/models';
+import { RequestTracker, startRequest } from '@/lib/observability';
+import { logger } from '@/lib/observability/logger';
+import { ProcessingErrorInfo } from '@/lib/processing-errors';
+import { ApiKeyLimits, DocumentParserResult, ParseCacheInfo } from '@/lib/types';
+import { getKeyClientId, getUsagePeriod, hashApiKey } from './keys';
+import { getApiKeyStore } from './store';
+import { ApiKeyStore, UsageIncrement } from './types';
+
+const RATE_WINDOW_MS = 60 * 1000;
+
+const DEFAULT_KEY_REQUESTS_PER_MINUTE = 60;
+const DEFAULT_ANONYMOUS_REQUESTS_PER_MINUTE = 20;
+
+export type ResolvedApiKeyLimits = Required<ApiKeyLimits>;
+
+/**
+ * The caller of a public endpoint: an API key, or an anonymous client
+ * identified by its address behind a trusted proxy
+ */
+export type ApiClient = {
+  id: string;
+  name: string;
+  keyId?: string;
+  limits: ResolvedApiKeyLimits;
+};
+
+export type ApiAccess =
+  | { allowed: true; client: ApiClient; headers: Record<string, string> }
+  | { allowed: false; error: ProcessingErrorInfo; headers: Record<string, string> };
+
+// Unset or invalid limits fall back; 0 or "none" lifts the limit
+const readLimit = (value: string | undefined, fallback: number | null): number | null => {
+  if (value === undefined || value === '') return fallback;
+  if (value === '0' || value.toLowerCase() === 'none') return null;
+
+  const parsed = Number.parseInt(value, 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+/**
+ * Whether callers must send an API key (`API_KEYS_REQUIRED`) and the default
+ * limits of keys (`API_KEY_REQUESTS_PER_MINUTE`, `API_KEY_MONTHLY_PAGES`,
+ * `API_KEY_MONTHLY_TOKENS`) and of anonymous callers (`ANONYMOUS_*`)
+ * Monthly quotas are unlimited unless set
+ */
+export const getApiAccessOptions = (): {
+  required: boolean;
+  keyLimits: ResolvedApiKeyLimits;
+  anonymousLimits: ResolvedApiKeyLimits;
+} => ({
+  required: /^(true|1)$/i.test(process.env.API_KEYS_REQUIRED ?? ''),
+  keyLimits: {
+    requestsPerMinute: readLimit(process.env.API_KEY_REQUESTS_PER_MINUTE, DEFAULT_KEY_REQUESTS_PER_MINUTE),
+    monthlyPages: readLimit(process.env.API_KEY_MONTHLY_PAGES, null),
+    monthlyTokens: readLimit(process.env.API_KEY_MONTHLY_TOKENS, null),
+  },
+  anonymousLimits: {
+    requestsPerMinute: readLimit(process.env.ANONYMOUS_REQUESTS_PER_MINUTE, DEFAULT_ANONYMOUS_REQUESTS_PER_MINUTE),
+    monthlyPages: readLimit(process.env.ANONYMOUS_MONTHLY_PAGES, null),
+    monthlyTokens: readLimit(process.env.ANONYMOUS_MONTHLY_TOKENS, null),
+  },
+});
+
+// `Authorization: Bearer <key>` or `X-API-Key: <key>`
+const readApiKey = (headers: Headers): string | undefined => {
+  const authorization = headers.get('authorization')?.match(/^Bearer\s+(\S+)$/i)?.[1];
+  return authorization ?? (headers.get('x-api-key')?.trim() || undefined);
+};
+
+/**
+ * Address of an anonymous caller, only when a proxy in front of the app sets
+ * the forwarding headers (`TRUST_PROXY`); otherwise any caller could pick its
+ * own address, and all anonymous callers share one client instead
+ * The proxy appends the address it saw, so the last hop is the one it vouches for
+ */
+const readClientAddress = (headers: Headers): string | undefined => {
+  if (!/^(true|1)$/i.test(process.env.TRUST_PROXY ?? '')) return undefined;
+
+  const forwarded = headers.get('x-forwarded-for')?.split(',').map(hop => hop.trim()).filter(Boolean);
+  return forwarded?.at(-1) || headers.get('x-real-ip')?.trim() || undefined;
+};
+
+/**
+ * Requests the web UI sends from its own pages; browsers set `Sec-Fetch-Site`
+ * themselves and scripts on other sites cannot change it
+ */
+const isSameOriginRequest = (headers: Headers): boolean => headers.get('sec-fetch-site') === 'same-origin';
+
+const getStartOfNextMonth = (now: number): number => {
+  const date = new Date(now);
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1);
+};
+
+const deny = (message: string, status: number, headers: Record<string, string> = {}): ApiAccess => ({
+  allowed: false,
+  error: { message, status },
+  headers,
+});
+
+const identifyClient = async (headers: Headers, store: ApiKeyStore): Promise<ApiClient | ApiAccess> => {
+  const { required, keyLimits, anonymousLimits } = getApiAccessOptions();
+  const key = readApiKey(headers);
+
+  if (!key) {
+    if (required) {
+      return deny('An API key is required. Send it as a Bearer token or in the X-API-Key header.', 401, {
+        'WWW-Authenticate': 'Bearer',
+      });
+    }
+    const address = readClientAddress(headers);
+    return address
+      ? { id: `ip:${address}`, name: `anonymous (${address})`, limits: anonymousLimits }
+      : { id: 'anonymous', name: 'anonymous', limits: anonymousLimits };
+  }
+
+  const record = await store.findKeyByHash(hashApiKey(key));
+  if (!record || record.revokedAt) {
+    return deny(record ? 'API key has been revoked' : 'Invalid API key', 401, { 'WWW-Authenticate': 'Bearer error="invalid_token"' });
+  }
+
+  return {
+    id: getKeyClientId(record.id),
+    name: record.name,
+    keyId: record.id,
+    limits: { ...keyLimits, ...record.limits },
+  };
+};
+
+/**
+ * Identifies the caller of a public endpoint and applies its limits
+ *
+ * Requests are refused with 401 for unknown or revoked keys (and missing keys
+ * when `API_KEYS_REQUIRED` is set) and with 429 once the client has used up
+ * its monthly page or token quota or sent more requests than it may per
+ * minute. Quotas are checked against what earlier requests consumed, so the
+ * request that crosses a quota still completes. `uiRead` marks the cheap reads
+ * the web UI polls, which anonymous same-origin requests make without counting
+ * towards the per-minute limit.
+ *
+ * The returned headers carry the rate-limit state (`RateLimit-Limit`,
+ * `RateLimit-Remaining`, `RateLimit-Reset`, and `Retry-After` when refused)
+ * and belong on the response either way.
+ */
+export const checkApiAccess = async (
+  headers: Headers,
+  { store = getApiKeyStore(), now = Date.now(), uiRead = false }: { store?: ApiKeyStore; now?: number; uiRead?: boolean } = {}
+): Promise<ApiAccess> => {
+  const identified = await identifyClient(headers, store);
+  if ('allowed' in identified) return identified;
+
+  const client = identified;
+  const { requestsPerMinute, monthlyPages, monthlyTokens } = client.limits;
+
+  const period = getUsagePeriod(new Date(now));
+  const usage = await store.getUsage(client.id, period);
+  const retryNextMonth = { 'Retry-After': String(Math.ceil((getStartOfNextMonth(now) - now) / 1000)) };
+  if (monthlyPages !== null && usage.pages >= monthlyPages) {
+    return deny(`Monthly quota of ${monthlyPages} pages used up`, 429, retryNextMonth);
+  }
+  if (monthlyTokens !== null && usage.tokens >= monthlyTokens) {
+    return deny(`Monthly quota of ${monthlyTokens} tokens used up`, 429, retryNextMonth);
+  }
+
+  // The UI polls job and batch status every few seconds; without a key all of
+  // its users share the anonymous allowance, so its own reads are not counted
+  const rateLimited = requestsPerMinute !== null && !(uiRead && !client.keyId && isSameOriginRequest(headers));
+
+  const rateHeaders: Record<string, string> = {};
+  if (rateLimited) {
+    const windowStart = Math.floor(now / RATE_WINDOW_MS) * RATE_WINDOW_MS;
+    const count = await store.countRequest(client.id, windowStart);
+    const reset = String(Math.ceil((windowStart + RATE_WINDOW_MS - now) / 1000));
+
+    rateHeaders['RateLimit-Limit'] = String(requestsPerMinute);
+    rateHeaders['RateLimit-Remaining'] = String(Math.max(0, requestsPerMinute - count));
+    rateHeaders['RateLimit-Reset'] = reset;
+    if (count > requestsPerMinute) {
+      return deny(`Rate limit of ${requestsPerMinute} requests per minute exceeded`, 429, { ...rateHeaders, 'Retry-After': reset });
+    }
+  }
+
+  await store.addUsage(client.id, period, { requests: 1 });
+  return { allowed: true, client, headers: rateHeaders };
+};
+
+/**
+ * Adds what a request consumed to the client's monthly usage
+ * Accounting runs after the work is done, so failures are logged instead of
+ * failing the request
+ */
+export const recordApiUsage = (
+  client: ApiClient,
+  usage: UsageIncrement,
+  store: ApiKeyStore = getApiKeyStore()
+): void => {
+  if (!usage.pages && !usage.tokens) return;
+
+  store.addUsage(client.id, getUsagePeriod(), usage).catch(error => {
+    logger.error('Failed to record API usage', { client: client.id, usage, error });
+  });
+};
+
+/**
+ * Records the pages of a parsed document; results served from the parse cache
+ * consumed nothing
+ */
+export const recordParsedPages = (
+  client: ApiClient,
+  result: DocumentParserResult,
+  cache?: ParseCacheInfo,
+  store?: ApiKeyStore
+): void => {
+  if (!cache?.hit) recordApiUsage(client, { pages: result.metadata.pageCount }, store);
+};
+
+/**
+ * Counts the tokens of every call made through the model against the client
+ */
+export const meterModel = (client: ApiClient, resolved: ResolvedModel, store?: ApiKeyStore): ResolvedModel => ({
+  ...resolved,
+  model: trackModelUsage(resolved.model, ({ promptTokens, completionTokens }) =>
+    recordApiUsage(client, { tokens: promptTokens + completionTokens }, store)),
+});
+
+export const setAccessHeaders = <T extends Response>(response: T, { headers }: Pick<ApiAccess, 'headers'>): T => {
+  for (const [name, value] of Object.entries(headers)) {
+    response.headers.set(name, value);
+  }
+  return response;
+};
+
+/**
+ * The caller of a public route that passed the access check, and the tracker
+ * of its request
+ */
+export type ApiRequestContext = { client: ApiClient; tracker: RequestTracker };
+
+// Routes without dynamic segments are called without a context
+type RouteArgs<Context> = Context extends undefined ? [] : [context: Context];
+
+/**
+ * Wraps the handler of a public route: starts tracking the request, checks the
+ * caller's access before the handler runs and puts the rate-limit headers on
+ * its response
+ *
+ * Refused requests never reach the handler, so a caller over its limit learns
+ * nothing about the records it asks for. Handlers respond through the tracker,
+ * or end it themselves for streamed responses; `uiRead` is passed on to
+ * `checkApiAccess` for the status reads the web UI polls.
+ */
+export const withApiAccess = <R extends Response, Context = undefined>(
+  route: string,
+  handler: (request: NextRequest, api: ApiRequestContext, context: Context) => Promise<R>,
+  { uiRead }: { uiRead?: boolean } = {}
+) => async (request: NextRequest, ...[context]: RouteArgs<Context>): Promise<R | NextResponse> => {
+  const tracker = startRequest(request, route);
+
+  // Authenticate the caller and apply its rate limit and quotas
+  const access = await tracker.time('access', () => checkApiAccess(request.headers, { uiRead }));
+  if (!access.allowed) {
+    return tracker.respond(setAccessHeaders(NextResponse.json(
+      { success: false, error: access.error.message },
+      { status: access.error.status }
+    ), access));
+  }
+
+  return setAccessHeaders(await handler(request, { client: access.client, tracker }, context as Context), access);
+};
+
+const isSameSecret = (given: string, expected: string): boolean => {
+  const a = Buffer.from(given);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+};
+
+/**
+ * Checks the `Authorization: Bearer <ADMIN_API_TOKEN>` header of admin routes
+ * Returns the error to respond with, or undefined for the admin; the admin
+ * routes are disabled while ADMIN_API_TOKEN is unset
+ */
+export const checkAdminAccess = (headers: Headers): ProcessingErrorInfo | undefined => {
+  const adminToken = process.env.ADMIN_API_TOKEN;
+  if (!adminToken) {
+    return { message: 'Admin API is disabled. Set ADMIN_API_TOKEN to enable it.', status: 403 };
+  }
+
+  const token = headers.get('authorization')?.match(/^Bearer\s+(\S+)$/i)?.[1];
+  if (!token || !isSameSecret(token, adminToken)) {
+    return { message: 'Invalid admin token', status: 401 };
+  }
+  return undefined;
+};
+
+/**
+ * Checks the `Authorization: Bearer <METRICS_TOKEN>` header of the metrics
+ * endpoint, which is open while METRICS_TOKEN is unset
+ */
+export const checkMetricsAccess = (headers: Headers): ProcessingErrorInfo | undefined => {
+  const metricsToken = process.env.METRICS_TOKEN;
+  if (!metricsToken) return undefined;
+
+  const token = headers.get('authorization')?.match(/^Bearer\s+(\S+)$/i)?.[1];
+  if (!token || !isSameSecret(token, metricsToken)) {
+    return { message: 'Invalid metrics token', status: 401 };
+  }
+  return undefined;
+};
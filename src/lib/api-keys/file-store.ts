@@ -0,0 +1,57 @@
+import { existsSync, readFileSync } from 'fs';
+import { writeJsonAtomic } from '@/lib/json-file';
+import { ApiKeyUsage } from '@/lib/types';
+import { addToUsage, createRateWindows, emptyUsage } from './memory-store';
+import { ApiKeyRecord, ApiKeyStore } from './types';
+
+type StoredApiKeys = {
+  keys: ApiKeyRecord[];
+  // Monthly usage per client ID
+  usage: Record<string, ApiKeyUsage[]>;
+};
+
+/**
+ * Store that snapshots keys and monthly usage to a JSON file after every change
+ * Rate-limit windows stay in memory
+ */
+export const createFileApiKeyStore = (filePath: string): ApiKeyStore => {
+  let stored: StoredApiKeys | undefined;
+  const rateWindows = createRateWindows();
+
+  const load = (): StoredApiKeys => {
+    stored ??= existsSync(filePath) ? JSON.parse(readFileSync(filePath, 'utf8')) : { keys: [], usage: {} };
+    return stored!;
+  };
+
+  const persist = () => writeJsonAtomic(filePath, load(), { space: 2 });
+
+  return {
+    backend: 'filesystem',
+
+    listKeys: async () => load().keys,
+
+    getKey: async (id) => load().keys.find(record => record.id === id),
+
+    findKeyByHash: async (hash) => load().keys.find(record => record.hash === hash),
+
+    saveKey: async (record) => {
+      const data = load();
+      data.keys = [...data.keys.filter(existing => existing.id !== record.id), record];
+      persist();
+    },
+
+    countRequest: async (clientId, windowStart) => rateWindows.count(clientId, windowStart),
+
+    getUsage: async (clientId, period) =>
+      load().usage[clientId]?.find(usage => usage.period === period) ?? emptyUsage(period),
+
+    addUsage: async (clientId, period, increment) => {
+      const data = load();
+      const periods = data.usage[clientId] ?? [];
+      const updated = addToUsage(periods.find(usage => usage.period === period) ?? emptyUsage(period), increment);
+      data.usage[clientId] = [...periods.filter(usage => usage.period !== period), updated];
+      persist();
+      return updated;
+    },
+  };
+};
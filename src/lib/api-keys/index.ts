@@ -0,0 +1,6 @@
+export type { ApiKeyRecord, ApiKeyStore, UsageIncrement } from './types';
+export { createMemoryApiKeyStore } from './memory-store';
+export { createFileApiKeyStore } from './file-store';
+export { getApiKeyStore } from './store';
+export * from './keys';
+export * from './access';
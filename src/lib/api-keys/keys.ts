@@ -0,0 +1,68 @@
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import { ApiKey, ApiKeyCreateRequest } from '@/lib/types';
+import { getApiKeyStore } from './store';
+import { ApiKeyRecord, ApiKeyStore } from './types';
+
+const KEY_PREFIX = 'ddt_';
+// Enough of the key to tell keys apart in listings without revealing it
+const VISIBLE_KEY_LENGTH = 12;
+
+export const hashApiKey = (key: string): string => createHash('sha256').update(key).digest('hex');
+
+// Calendar month (UTC) that usage is accounted to
+export const getUsagePeriod = (date: Date = new Date()): string => date.toISOString().slice(0, 7);
+
+export const getKeyClientId = (keyId: string): string => `key:${keyId}`;
+
+const toApiKey = async ({ hash, ...record }: ApiKeyRecord, store: ApiKeyStore): Promise<ApiKey> => ({
+  ...record,
+  usage: await store.getUsage(getKeyClientId(record.id), getUsagePeriod()),
+});
+
+/**
+ * Issues a new API key; only its hash is stored, so the returned key cannot
+ * be recovered later
+ */
+export const issueApiKey = async (
+  { name, limits = {} }: ApiKeyCreateRequest,
+  store: ApiKeyStore = getApiKeyStore()
+): Promise<{ apiKey: ApiKey; key: string }> => {
+  const key = `${KEY_PREFIX}${randomBytes(24).toString('base64url')}`;
+  const record: ApiKeyRecord = {
+    id: randomUUID(),
+    name,
+    prefix: key.slice(0, VISIBLE_KEY_LENGTH),
+    limits,
+    createdAt: new Date().toISOString(),
+    hash: hashApiKey(key),
+  };
+
+  await store.saveKey(record);
+  return { apiKey: await toApiKey(record, store), key };
+};
+
+/**
+ * Issued keys, revoked ones included, with their usage in the current month
+ */
+export const listApiKeys = async (store: ApiKeyStore = getApiKeyStore()): Promise<ApiKey[]> =>
+  Promise.all((await store.listKeys()).map(record => toApiKey(record, store)));
+
+export const getApiKey = async (id: string, store: ApiKeyStore = getApiKeyStore()): Promise<ApiKey | undefined> => {
+  const record = await store.getKey(id);
+  return record && toApiKey(record, store);
+};
+
+/**
+ * Revokes a key; it is kept with its usage but no longer accepted
+ * Revoking a revoked key keeps the original revocation time
+ */
+export const revokeApiKey = async (id: string, store: ApiKeyStore = getApiKeyStore()): Promise<ApiKey | undefined> => {
+  const record = await store.getKey(id);
+  if (!record) return undefined;
+
+  if (record.revokedAt) return toApiKey(record, store);
+
+  const revoked = { ...record, revokedAt: new Date().toISOString() };
+  await store.saveKey(revoked);
+  return toApiKey(revoked, store);
+};
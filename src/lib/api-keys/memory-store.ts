@@ -0,0 +1,68 @@
+import { ApiKeyUsage } from '@/lib/types';
+import { ApiKeyRecord, ApiKeyStore, UsageIncrement } from './types';
+
+export const emptyUsage = (period: string): ApiKeyUsage => ({ period, requests: 0, pages: 0, tokens: 0 });
+
+export const addToUsage = (usage: ApiKeyUsage, { requests = 0, pages = 0, tokens = 0 }: UsageIncrement): ApiKeyUsage => ({
+  ...usage,
+  requests: usage.requests + requests,
+  pages: usage.pages + pages,
+  tokens: usage.tokens + tokens,
+});
+
+/**
+ * Request counters of the current rate-limit window, one per client
+ * Windows are short-lived, so no backend persists them
+ */
+export const createRateWindows = () => {
+  const windows = new Map<string, { windowStart: number; count: number }>();
+
+  return {
+    count: (clientId: string, windowStart: number): number => {
+      const current = windows.get(clientId);
+      const count = current?.windowStart === windowStart ? current.count + 1 : 1;
+      windows.set(clientId, { windowStart, count });
+
+      // Drop the counters of clients that have gone quiet
+      for (const [id, window] of windows) {
+        if (window.windowStart < windowStart) windows.delete(id);
+      }
+      return count;
+    },
+  };
+};
+
+/**
+ * In-process store; keys and usage are lost on restart
+ */
+export const createMemoryApiKeyStore = (): ApiKeyStore => {
+  const keys = new Map<string, ApiKeyRecord>();
+  const usage = new Map<string, ApiKeyUsage>();
+  const rateWindows = createRateWindows();
+  const usageKey = (clientId: string, period: string) => `${clientId}\u0000${period}`;
+
+  return {
+    backend: 'memory',
+
+    listKeys: async () => Array.from(keys.values()),
+
+    getKey: async (id) => keys.get(id),
+
+    findKeyByHash: async (hash) => Array.from(keys.values()).find(record => record.hash === hash),
+
+    saveKey: async (record) => {
+      keys.set(record.id, record);
+    },
+
+    countRequest: async (clientId, windowStart) => rateWindows.count(clientId, windowStart),
+
+    getUsage: async (clientId, period) => usage.get(usageKey(clientId, period)) ?? emptyUsage(period),
+
+    addUsage: async (clientId, period, increment) => {
+      const key = usageKey(clientId, period);
+      const updated = addToUsage(usage.get(key) ?? emptyUsage(period), increment);
+      usage.set(key, updated);
+      return updated;
+    },
+  };
+};
@@ -0,0 +1,25 @@
+import path from 'path';
+import { createFileApiKeyStore } from './file-store';
+import { createMemoryApiKeyStore } from './memory-store';
+import { ApiKeyStore } from './types';
+
+/**
+ * Backend selected with API_KEY_STORE: filesystem (default, `API_KEY_STORE_PATH`)
+ * or memory
+ */
+const createApiKeyStore = (): ApiKeyStore => {
+  switch (process.env.API_KEY_STORE || 'filesystem') {
+    case 'filesystem':
+      return createFileApiKeyStore(process.env.API_KEY_STORE_PATH || path.join(process.cwd(), '.data', 'api-keys.json'));
+    case 'memory':
+      return createMemoryApiKeyStore();
+    default:
+      throw new Error(`Unknown API_KEY_STORE backend: ${process.env.API_KEY_STORE}`);
+  }
+};
+
+// Reuse one store across hot reloads in development
+const globalForApiKeys = globalThis as unknown as { apiKeyStore?: ApiKeyStore };
+
+export const getApiKeyStore = (): ApiKeyStore =>
+  globalForApiKeys.apiKeyStore ?? (globalForApiKeys.apiKeyStore = createApiKeyStore());
@@ -0,0 +1,26 @@
+import { ApiKey, ApiKeyUsage } from '@/lib/types';
+
+/**
+ * A stored API key: its public view plus the SHA-256 hash of the key
+ */
+export type ApiKeyRecord = Omit<ApiKey, 'usage'> & { hash: string };
+
+export type UsageIncrement = Partial<Pick<ApiKeyUsage, 'requests' | 'pages' | 'tokens'>>;
+
+/**
+ * Storage backend for API keys, monthly usage and rate-limit windows
+ * Usage is kept per client ID: `key:<id>` for API keys, `ip:<address>` for
+ * anonymous callers behind a trusted proxy and `anonymous` for the others
+ */
+export type ApiKeyStore = {
+  backend: string;
+  listKeys: () => Promise<ApiKeyRecord[]>;
+  getKey: (id: string) => Promise<ApiKeyRecord | undefined>;
+  findKeyByHash: (hash: string) => Promise<ApiKeyRecord | undefined>;
+  saveKey: (record: ApiKeyRecord) => Promise<void>;
+  // Counts a request in the window starting at `windowStart` and returns the
+  // number of requests counted in that window so far
+  countRequest: (clientId: string, windowStart: number) => Promise<number>;
+  getUsage: (clientId: string, period: string) => Promise<ApiKeyUsage>;
+  addUsage: (clientId: string, period: string, usage: UsageIncrement) => Promise<ApiKeyUsage>;
+};
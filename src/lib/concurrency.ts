@@ -0,0 +1,43 @@
+/**
+ * Maps items through an async function with at most `limit` calls in flight
+ * Results keep the input order; the first rejection stops scheduling new work
+ */
+export const mapWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+  let failed = false;
+
+  const worker = async () => {
+    while (!failed && nextIndex < items.length) {
+      const index = nextIndex++;
+      try {
+        results[index] = await fn(items[index], index);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(limit, items.length));
+  await Promise.all(Array.from({ length: workerCount }, worker));
+  return results;
+};
+
+/**
+ * Wraps a callback so it runs at most once per `intervalMs`; calls in between
+ * are dropped, so only use it where each call supersedes the previous ones
+ */
+export const throttle = <A extends unknown[]>(fn: (...args: A) => void, intervalMs: number): ((...args: A) => void) => {
+  let lastCall = 0;
+  return (...args: A) => {
+    const now = Date.now();
+    if (now - lastCall < intervalMs) return;
+    lastCall = now;
+    fn(...args);
+  };
+};
@@ -0,0 +1,85 @@
+import { describe, expect, it } from '@jest/globals';
+import { createTestDocument } from '@/test/documents';
+import { validateParseResult } from './consistency';
+
+describe('validateParseResult', () => {
+  it('leaves a consistent result without warnings', () => {
+    const document = createTestDocument(
+      [{ type: 'paragraph', content: 'See note [1].' }],
+      { structure: { footnotes: [{ number: 1, content: 'A note.', page: 1 }] } }
+    );
+
+    const validated = validateParseResult(document);
+
+    expect(validated.warnings).toEqual([]);
+    expect(validated.metadata).toMatchObject({ wordCount: 3, characterCount: 13 });
+  });
+
+  it('agrees on the page count and moves sections back into the document', () => {
+    const document = createTestDocument(
+      [
+        { type: 'paragraph', content: 'First', position: { page: 1, order: 0 } },
+        { type: 'paragraph', content: 'Lost', position: { page: 7, order: 0 } },
+      ],
+      { structure: { totalPages: 3, pageBreaks: [1, 2, 5] } }
+    );
+
+    const validated = validateParseResult(document);
+
+    expect(validated.metadata.pageCount).toBe(3);
+    expect(validated.structure.totalPages).toBe(3);
+    expect(validated.structure.sections[1].position.page).toBe(3);
+    expect(validated.structure.pageBreaks).toEqual([1, 2]);
+    expect(validated.warnings?.map(warning => warning.code)).toEqual([
+      'page-count-mismatch',
+      'page-out-of-range',
+      'page-out-of-range',
+    ]);
+  });
+
+  it('trusts the page count read from the file', () => {
+    const document = createTestDocument([{ type: 'paragraph', content: 'Text' }], { structure: { totalPages: 4 } });
+    const validated = validateParseResult({
+      ...document,
+      metadata: { ...document.metadata, pageCount: 2, sources: { pageCount: 'file' } },
+    });
+
+    expect(validated.structure.totalPages).toBe(2);
+  });
+
+  it('renumbers duplicate orders and keeps caption links', () => {
+    const document = createTestDocument([
+      { type: 'heading', level: 9, content: 'Staff', position: { page: 1, order: 0 } },
+      {
+        type: 'table',
+        content: '| Name |\n| Ana |',
+        table: { rows: [[{ content: 'Name', header: true }], [{ content: 'Ana' }]], headerRows: 1, headerColumns: 0, captionOrder: 1 },
+        position: { page: 1, order: 0 },
+      },
+      { type: 'caption', content: 'Table 1', position: { page: 1, order: 1 } },
+    ]);
+
+    const { structure, warnings } = validateParseResult(document);
+
+    expect(structure.sections.map(section => section.position.order)).toEqual([0, 1, 2]);
+    expect(structure.sections[1].table?.captionOrder).toBe(2);
+    expect(structure.sections[0].level).toBe(6);
+    expect(warnings?.map(warning => warning.code)).toEqual(['duplicate-order', 'heading-level-out-of-range']);
+  });
+
+  it('reports unreferenced footnotes without changing them and recomputes counts', () => {
+    const document = createTestDocument(
+      [{ type: 'paragraph', content: 'Revenue grew\u00B2 this year.' }],
+      { structure: { footnotes: [{ number: 1, content: 'Unused.', page: 1 }, { number: 2, content: 'Used.', page: 1 }] } }
+    );
+
+    const validated = validateParseResult({ ...document, metadata: { ...document.metadata, wordCount: 40 } });
+
+    expect(validated.structure.footnotes).toEqual(document.structure.footnotes);
+    expect(validated.metadata.wordCount).toBe(4);
+    expect(validated.warnings).toEqual([
+      expect.objectContaining({ code: 'unreferenced-footnote', path: 'structure.footnotes.0', repaired: false }),
+      expect.objectContaining({ code: 'word-count-mismatch', repaired: true }),
+    ]);
+  });
+});
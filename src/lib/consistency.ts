@@ -0,0 +1,203 @@
+import { countWords } from '@/lib/input-adapters/build-result';
+import { DocumentParserResult, DocumentSection, ParseWarning, ParseWarningCode } from '@/lib/types';
+
+const MAX_HEADING_LEVEL = 6;
+
+// Footnote references as parsers write them: [1], [^1], ^1 or superscript digits
+const FOOTNOTE_REFERENCE = /\[\^?(\d+)\]|\^(\d+)|([\u2070\u00B9\u00B2\u00B3\u2074-\u2079]+)/g;
+const SUPERSCRIPT_DIGITS = '\u2070\u00B9\u00B2\u00B3\u2074\u2075\u2076\u2077\u2078\u2079';
+
+const readSuperscript = (text: string): number =>
+  Number(Array.from(text).map(char => SUPERSCRIPT_DIGITS.indexOf(char)).join(''));
+
+const clampPage = (page: number, pageCount: number): number => Math.min(Math.max(Math.round(page) || 1, 1), pageCount);
+
+const isValidPage = (page: number, pageCount: number): boolean => Number.isInteger(page) && page >= 1 && page <= pageCount;
+
+/**
+ * Footnote numbers referenced from section text, by marker or by a
+ * superscript run of digits
+ */
+const findFootnoteReferences = (sections: DocumentSection[]): Set<number> => {
+  const numbers = new Set<number>();
+  for (const section of sections) {
+    for (const match of section.content.matchAll(FOOTNOTE_REFERENCE)) {
+      numbers.add(match[3] ? readSuperscript(match[3]) : Number(match[1] ?? match[2]));
+    }
+    for (const run of section.runs ?? []) {
+      const text = section.content.slice(run.start, run.end).trim();
+      if (run.superscript && /^\d+$/.test(text)) numbers.add(Number(text));
+    }
+  }
+  return numbers;
+};
+
+/**
+ * Checks the invariants a parse result should hold and repairs what can be
+ * repaired; every issue found is listed in `warnings`
+ *
+ * - `metadata.pageCount` and `structure.totalPages` agree, on the count read
+ *   from the file when there is one, or else on the larger of the two
+ * - section, footnote and page break pages fall within the document
+ * - `position.order` is unique within a page (duplicates are renumbered in
+ *   document order, keeping table caption links)
+ * - heading levels are within 1-6
+ * - word and character counts are recomputed from the extracted text
+ * - footnotes are referenced from the text (reported only)
+ */
+export const validateParseResult = (result: DocumentParserResult): DocumentParserResult => {
+  const warnings: ParseWarning[] = [];
+  const warn = (code: ParseWarningCode, message: string, path?: string, repaired = true) => {
+    warnings.push({ code, message, ...(path && { path }), repaired });
+  };
+  const sources = { ...result.metadata.sources };
+
+  // Page count
+  const { pageCount: reportedPages } = result.metadata;
+  const { totalPages } = result.structure;
+  const pageCount = sources.pageCount === 'file'
+    ? reportedPages
+    : Math.max(Math.round(reportedPages) || 0, Math.round(totalPages) || 0, 1);
+  if (reportedPages !== pageCount || totalPages !== pageCount) {
+    warn(
+      'page-count-mismatch',
+      `metadata.pageCount (${reportedPages}) and structure.totalPages (${totalPages}) disagree; both set to ${pageCount}`,
+      'metadata.pageCount'
+    );
+    if (sources.pageCount !== 'file') sources.pageCount = 'computed';
+  }
+
+  // Pages
+  let sections = result.structure.sections.map((section, index): DocumentSection => {
+    const { page } = section.position;
+    if (isValidPage(page, pageCount)) return section;
+
+    const repaired = clampPage(page, pageCount);
+    warn(
+      'page-out-of-range',
+      `Section ${index} is on page ${page} of a ${pageCount}-page document; moved to page ${repaired}`,
+      `structure.sections.${index}.position.page`
+    );
+    return { ...section, position: { ...section.position, page: repaired } };
+  });
+
+  const footnotes = result.structure.footnotes?.map((footnote, index) => {
+    if (isValidPage(footnote.page, pageCount)) return footnote;
+
+    const repaired = clampPage(footnote.page, pageCount);
+    warn(
+      'page-out-of-range',
+      `Footnote ${footnote.number} is on page ${footnote.page} of a ${pageCount}-page document; moved to page ${repaired}`,
+      `structure.footnotes.${index}.page`
+    );
+    return { ...footnote, page: repaired };
+  });
+
+  const pageBreaks = result.structure.pageBreaks.filter(page => isValidPage(page, pageCount));
+  if (pageBreaks.length < result.structure.pageBreaks.length) {
+    const dropped = result.structure.pageBreaks.filter(page => !isValidPage(page, pageCount));
+    warn('page-out-of-range', `Page breaks outside the document dropped: ${dropped.join(', ')}`, 'structure.pageBreaks');
+  }
+
+  // Order within each page
+  const pages = new Map<number, number[]>();
+  sections.forEach((section, index) => {
+    pages.set(section.position.page, [...(pages.get(section.position.page) ?? []), index]);
+  });
+
+  for (const [page, indices] of pages) {
+    const orders = indices.map(index => sections[index].position.order);
+    if (new Set(orders).size === orders.length) continue;
+
+    const duplicates = Array.from(new Set(orders.filter((order, index) => orders.indexOf(order) !== index)));
+    const ordered = [...indices].sort((a, b) => sections[a].position.order - sections[b].position.order || a - b);
+    const renumbered = new Map<number, number>();
+    const captionOrders = new Map<number, number>();
+    let previous = -Infinity;
+    for (const index of ordered) {
+      const { order } = sections[index].position;
+      const next = Math.max(order, previous + 1);
+      renumbered.set(index, next);
+      if (sections[index].type === 'caption' && !captionOrders.has(order)) captionOrders.set(order, next);
+      previous = next;
+    }
+
+    sections = sections.map((section, index) => {
+      const order = renumbered.get(index);
+      if (order === undefined) return section;
+      const captionOrder = section.table?.captionOrder;
+      return {
+        ...section,
+        position: { ...section.position, order },
+        ...(section.table && captionOrder !== undefined && {
+          table: { ...section.table, captionOrder: captionOrders.get(captionOrder) ?? captionOrder },
+        }),
+      };
+    });
+    warn(
+      'duplicate-order',
+      `Sections on page ${page} share order ${duplicates.join(', ')}; renumbered in document order`,
+      'structure.sections'
+    );
+  }
+
+  // Heading levels
+  sections = sections.map((section, index) => {
+    const { level } = section;
+    if (section.type !== 'heading' || level === undefined) return section;
+    if (Number.isInteger(level) && level >= 1 && level <= MAX_HEADING_LEVEL) return section;
+
+    const repaired = Math.min(Math.max(Math.round(level) || 1, 1), MAX_HEADING_LEVEL);
+    warn(
+      'heading-level-out-of-range',
+      `Heading ${index} has level ${level}; set to ${repaired}`,
+      `structure.sections.${index}.level`
+    );
+    return { ...section, level: repaired };
+  });
+
+  // Footnote references
+  const references = findFootnoteReferences(sections);
+  footnotes?.forEach((footnote, index) => {
+    if (references.has(footnote.number)) return;
+    warn(
+      'unreferenced-footnote',
+      `Footnote ${footnote.number} is not referenced from the text`,
+      `structure.footnotes.${index}`,
+      false
+    );
+  });
+
+  // Counts
+  const wordCount = countWords(result.extractedText);
+  const characterCount = result.extractedText.length;
+  if (result.metadata.wordCount !== undefined && result.metadata.wordCount !== wordCount) {
+    warn(
+      'word-count-mismatch',
+      `metadata.wordCount (${result.metadata.wordCount}) does not match the extracted text; recomputed as ${wordCount}`,
+      'metadata.wordCount'
+    );
+  }
+  if (result.metadata.characterCount !== undefined && result.metadata.characterCount !== characterCount) {
+    warn(
+      'character-count-mismatch',
+      `metadata.characterCount (${result.metadata.characterCount}) does not match the extracted text; recomputed as ${characterCount}`,
+      'metadata.characterCount'
+    );
+  }
+  sources.wordCount = 'computed';
+  sources.characterCount = 'computed';
+
+  return {
+    ...result,
+    structure: {
+      ...result.structure,
+      sections,
+      pageBreaks,
+      totalPages: pageCount,
+      ...(footnotes && { footnotes }),
+    },
+    metadata: { ...result.metadata, pageCount, wordCount, characterCount, sources },
+    warnings,
+  };
+};
@@ -0,0 +1,20 @@
+import { describe, expect, it } from '@jest/globals';
+import { getAttachmentDisposition } from './content-disposition';
+
+describe('getAttachmentDisposition', () => {
+  it('keeps ASCII names as they are', () => {
+    expect(getAttachmentDisposition('report-de.pdf')).toBe(`attachment; filename="report-de.pdf"; filename*=UTF-8''report-de.pdf`);
+  });
+
+  it('encodes non-ASCII names in filename* with an ASCII fallback', () => {
+    expect(getAttachmentDisposition('R\u00E9sum\u00E9 \u65E5\u672C-ja.docx')).toBe(
+      `attachment; filename="Resume __-ja.docx"; filename*=UTF-8''R%C3%A9sum%C3%A9%20%E6%97%A5%E6%9C%AC-ja.docx`
+    );
+  });
+
+  it('escapes quotes and characters RFC 5987 reserves', () => {
+    expect(getAttachmentDisposition(`it's "final" (v2).md`)).toBe(
+      `attachment; filename="it's _final_ (v2).md"; filename*=UTF-8''it%27s%20%22final%22%20%28v2%29.md`
+    );
+  });
+});
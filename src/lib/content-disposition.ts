@@ -0,0 +1,18 @@
+// Characters encodeURIComponent leaves alone but RFC 5987 does not allow in ext-value
+const encodeExtValue = (value: string): string =>
+  encodeURIComponent(value).replace(/['()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+
+// Accents are dropped and anything else outside printable ASCII, quotes and backslashes become underscores
+const toAsciiFilename = (filename: string): string =>
+  filename
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036F]/g, '')
+    .replace(/[^\x20-\x7E]|["\\]/g, '_');
+
+/**
+ * Content-Disposition header for a file download (RFC 6266)
+ * `filename*` carries the name in UTF-8; `filename` is an ASCII fallback for
+ * clients that do not read the extended parameter
+ */
+export const getAttachmentDisposition = (filename: string): string =>
+  `attachment; filename="${toAsciiFilename(filename)}"; filename*=UTF-8''${encodeExtValue(filename)}`;
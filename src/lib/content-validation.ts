@@ -0,0 +1,46 @@
+import type { DocumentInput } from '@/lib/document-parser';
+import { DocumentProcessingError } from '@/lib/processing-errors';
+
+export type ContentValidationOptions = {
+  // Password of an encrypted PDF
+  password?: string;
+};
+
+// Enough of a text file to tell it from a binary one
+const TEXT_SAMPLE_LENGTH = 8192;
+
+export const ZIP_SIGNATURE = 'PK\u0003\u0004';
+// OLE compound files: legacy Office documents and password-protected Office Open XML files
+export const OLE_SIGNATURE = '\u00d0\u00cf\u0011\u00e0\u00a1\u00b1\u001a\u00e1';
+
+// Signatures of binary formats that are sometimes renamed to a text extension
+const BINARY_SIGNATURES: { label: string; signature: string }[] = [
+  { label: 'a PDF', signature: '%PDF-' },
+  { label: 'a ZIP archive or Office document', signature: ZIP_SIGNATURE },
+  { label: 'an Office document', signature: OLE_SIGNATURE },
+];
+
+export const toBytes = (data: ArrayBuffer | Uint8Array): Uint8Array =>
+  data instanceof Uint8Array ? data : new Uint8Array(data);
+
+// Signatures are compared as latin1 strings, one character per byte
+export const hasSignature = (bytes: Uint8Array, signature: string, offset = 0): boolean =>
+  Buffer.from(bytes.subarray(offset, offset + signature.length)).toString('latin1') === signature;
+
+export const rejectContent = (message: string, code: 'content_mismatch' | 'file_truncated' | 'file_malformed'): never => {
+  throw new DocumentProcessingError(message, code === 'content_mismatch' ? 415 : 422, code);
+};
+
+/**
+ * Checks that a file declared as text is not a binary file under a text extension
+ */
+export const assertTextContent = (input: DocumentInput, label: string): void => {
+  const bytes = toBytes(input.data);
+  const binary = BINARY_SIGNATURES.find(({ signature }) => hasSignature(bytes, signature));
+  if (binary) {
+    rejectContent(`${input.filename} is ${binary.label}, not a ${label} file`, 'content_mismatch');
+  }
+  if (bytes.subarray(0, TEXT_SAMPLE_LENGTH).includes(0)) {
+    rejectContent(`${input.filename} contains binary data and is not a ${label} file`, 'content_mismatch');
+  }
+};
@@ -0,0 +1,81 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import { MockLanguageModelV1 } from 'ai/test';
+import { registerInputAdapter } from '@/lib/input-adapters';
+import type { ResolvedModel } from '@/lib/models';
+import { createMemoryParseCache, ParseCache } from '@/lib/parse-cache';
+import { createTestDocument } from '@/test/documents';
+import { DocumentInput, parseDocumentCached } from './document-parser';
+
+const parse = jest.fn(async (input: DocumentInput) => createTestDocument(
+  [{ type: 'paragraph', content: `Parsed text of ${input.filename}` }],
+));
+
+// Stands in for a model-parsed format such as PDF
+registerInputAdapter({
+  id: 'model-test',
+  label: 'Model test format',
+  mimeTypes: [],
+  extensions: ['.modeltest'],
+  requiresModel: true,
+  cacheVersion: 'prompt-v1',
+  parse,
+});
+
+const model = (id: string): ResolvedModel => ({
+  id,
+  provider: 'test',
+  modelName: id,
+  capabilities: { pdfInput: true, structuredOutput: true },
+  model: new MockLanguageModelV1(),
+});
+
+const toInput = (filename: string, text: string): DocumentInput => {
+  const data = new TextEncoder().encode(text);
+  return { filename, mimeType: 'application/octet-stream', fileSize: data.byteLength, data };
+};
+
+describe('parseDocumentCached', () => {
+  it('reuses the result for the same bytes and model under another name', async () => {
+    parse.mockClear();
+    const cache = createMemoryParseCache();
+
+    const first = await parseDocumentCached(toInput('a.modeltest', 'same bytes'), { cache, model: model('m1') });
+    const second = await parseDocumentCached(toInput('b.modeltest', 'same bytes'), { cache, model: model('m1') });
+
+    expect(parse).toHaveBeenCalledTimes(1);
+    expect(first.cache).toMatchObject({ hit: false, backend: 'memory' });
+    expect(second.cache).toEqual({ ...first.cache, hit: true });
+    expect(second.result.metadata.filename).toBe('b.modeltest');
+    expect(second.result.extractedText).toBe('Parsed text of a.modeltest');
+  });
+
+  it('parses again for another model or when forced', async () => {
+    parse.mockClear();
+    const cache = createMemoryParseCache();
+    const input = toInput('a.modeltest', 'bytes');
+
+    await parseDocumentCached(input, { cache, model: model('m1') });
+    await parseDocumentCached(input, { cache, model: model('m2') });
+    const forced = await parseDocumentCached(input, { cache, model: model('m1'), force: true });
+
+    expect(parse).toHaveBeenCalledTimes(3);
+    expect(forced.cache).toMatchObject({ hit: false, forced: true });
+  });
+
+  it('parses when the cache fails and skips formats converted locally', async () => {
+    parse.mockClear();
+    const broken: ParseCache = {
+      backend: 'memory',
+      get: async () => { throw new Error('disk full'); },
+      set: async () => { throw new Error('disk full'); },
+      delete: async () => {},
+      clear: async () => {},
+    };
+
+    const { result } = await parseDocumentCached(toInput('a.modeltest', 'bytes'), { cache: broken, model: model('m1') });
+    const local = await parseDocumentCached(toInput('notes.txt', 'Plain text notes'), { cache: createMemoryParseCache() });
+
+    expect(result.extractedText).toBe('Parsed text of a.modeltest');
+    expect(local.cache).toBeUndefined();
+  });
+});
@@ -0,0 +1,115 @@
+import { findInputAdapter, InputAdapter } from '@/lib/input-adapters';
+import { resolveModel, ResolvedModel } from '@/lib/models';
+import { logger } from '@/lib/observability/logger';
+import { getParseCache, getParseCacheKey, ParseCache, sha256 } from '@/lib/parse-cache';
+import { DocumentProcessingError } from '@/lib/processing-errors';
+import { DocumentParserResult, ParseCacheInfo, PartialDocumentParserResult } from '@/lib/types';
+
+// Partial results are large, so streams pass on at most a few per second
+export const PARTIAL_RESULT_INTERVAL_MS = 250;
+
+/**
+ * Raw document handed to the Document Parser Agent
+ */
+export type DocumentInput = {
+  filename: string;
+  fileSize: number;
+  mimeType: string;
+  data: ArrayBuffer | Uint8Array;
+};
+
+export type ParseDocumentOptions = {
+  // Parse model from the registry; defaults to the `parse` stage model
+  model?: ResolvedModel;
+  abortSignal?: AbortSignal;
+  // Called as page-range chunks of a large document finish parsing
+  onProgress?: (completed: number, total: number) => void;
+  // Called with the result so far while the model streams it; formats converted
+  // locally and cached results only deliver the final result
+  onPartial?: (partial: PartialDocumentParserResult) => void;
+};
+
+export type CachedParseOptions = ParseDocumentOptions & {
+  // Parse again even when a cached result exists; the fresh result replaces it
+  force?: boolean;
+  // Defaults to the backend selected with PARSE_CACHE; null disables caching
+  cache?: ParseCache | null;
+};
+
+export type CachedParseResult = {
+  result: DocumentParserResult;
+  // Absent when the format is converted locally or caching is disabled
+  cache?: ParseCacheInfo;
+};
+
+const getAdapter = (input: DocumentInput): InputAdapter => {
+  const adapter = findInputAdapter(input.mimeType, input.filename);
+  if (!adapter) {
+    throw new DocumentProcessingError(`Unsupported document format: ${input.filename}`, 415);
+  }
+  return adapter;
+};
+
+const hasMeaningfulText = (result: DocumentParserResult): boolean =>
+  Boolean(result.extractedText) && result.extractedText.length >= 10;
+
+/**
+ * Parses a document with the input adapter registered for its format
+ * PDFs go through the model; structured formats are converted locally
+ */
+export const parseDocument = async (
+  input: DocumentInput,
+  options: ParseDocumentOptions = {}
+): Promise<DocumentParserResult> => getAdapter(input).parse(input, options);
+
+/**
+ * Parses a document, reusing an earlier result for byte-identical files
+ * parsed with the same model, schema and prompt
+ * Only model-parsed formats are cached; cache failures fall back to parsing
+ */
+export const parseDocumentCached = async (
+  input: DocumentInput,
+  { force = false, cache = getParseCache(), ...options }: CachedParseOptions = {}
+): Promise<CachedParseResult> => {
+  const adapter = getAdapter(input);
+  if (!cache || !adapter.requiresModel) {
+    return { result: await adapter.parse(input, options) };
+  }
+
+  const model = options.model ?? resolveModel(undefined, 'parse');
+  const key = getParseCacheKey(sha256(input.data), model.id, adapter.cacheVersion);
+  const info = { key, backend: cache.backend, ...(force && { forced: true }) };
+
+  if (!force) {
+    const cached = await cache.get(key).catch(error => {
+      logger.warn('Parse cache read failed', { key, backend: cache.backend, error });
+      return undefined;
+    });
+    if (cached) {
+      // The same bytes may arrive under another name
+      const metadata = { ...cached.metadata, filename: input.filename, fileSize: input.fileSize };
+      return { result: { ...cached, metadata }, cache: { ...info, hit: true } };
+    }
+  }
+
+  const result = await adapter.parse(input, { ...options, model });
+
+  // Results the caller will reject are not worth keeping
+  if (hasMeaningfulText(result)) {
+    await cache.set(key, result).catch(error => logger.warn('Parse cache write failed', { key, backend: cache.backend, error }));
+  }
+
+  return { result, cache: { ...info, hit: false } };
+};
+
+/**
+ * Rejects parse results without meaningful text (empty, corrupted or image-only documents)
+ */
+export const assertMeaningfulText = (result: DocumentParserResult): void => {
+  if (!hasMeaningfulText(result)) {
+    throw new DocumentProcessingError(
+      'Could not extract meaningful text from the document. It may be empty, corrupted, or contain only images.',
+      422
+    );
+  }
+};
@@ -0,0 +1,31 @@
+import { describe, expect, it } from '@jest/globals';
+import { MAX_FILE_SIZE, validateFile } from './file-validation';
+
+// Only the name, size and type are checked, so no bytes are needed
+const createUpload = (name: string, type: string, size = 1024): File => ({ name, type, size }) as File;
+
+describe('validateFile', () => {
+  it('accepts a supported file with its adapter and MIME type', () => {
+    const validation = validateFile(createUpload('report.pdf', 'application/pdf'));
+
+    expect(validation).toMatchObject({ isValid: true, mimeType: 'application/pdf' });
+  });
+
+  it('rejects a file over the upload limit with 413', () => {
+    const validation = validateFile(createUpload('report.pdf', 'application/pdf', MAX_FILE_SIZE + 1));
+
+    expect(validation).toMatchObject({ isValid: false, status: 413, code: 'file_too_large' });
+  });
+
+  it('rejects a format no adapter parses with 415', () => {
+    const validation = validateFile(createUpload('slides.pptx', 'application/vnd.openxmlformats-officedocument.presentationml.presentation'));
+
+    expect(validation).toMatchObject({ isValid: false, status: 415, code: 'unsupported_type' });
+  });
+
+  it('rejects an extension that contradicts the declared type with 415', () => {
+    const validation = validateFile(createUpload('report.pdf', 'text/html'));
+
+    expect(validation).toMatchObject({ isValid: false, status: 415, code: 'unsupported_type' });
+  });
+});
@@ -0,0 +1,113 @@
+import { ContentValidationOptions } from '@/lib/content-validation';
+import type { DocumentInput } from '@/lib/document-parser';
+import { findInputAdapter, getInputAdapters, InputAdapter } from '@/lib/input-adapters';
+import { DocumentProcessingError } from '@/lib/processing-errors';
+import { UploadErrorCode } from '@/lib/types';
+
+// Constants
+const DEFAULT_MAX_UPLOAD_SIZE_MB = 50;
+
+// Upload limit in megabytes, configurable through MAX_UPLOAD_SIZE_MB
+const readMaxUploadSize = (): number => {
+  const megabytes = Number(process.env.MAX_UPLOAD_SIZE_MB);
+  return (Number.isFinite(megabytes) && megabytes > 0 ? megabytes : DEFAULT_MAX_UPLOAD_SIZE_MB) * 1024 * 1024;
+};
+
+export const MAX_FILE_SIZE = readMaxUploadSize();
+
+// MIME types browsers send when they do not recognise a file
+const GENERIC_MIME_TYPES = ['', 'application/octet-stream'];
+
+export const getSupportedExtensions = (): string[] =>
+  getInputAdapters().flatMap(adapter => adapter.extensions);
+
+export const getSupportedMimeTypes = (): string[] =>
+  getInputAdapters().flatMap(adapter => adapter.mimeTypes);
+
+export type FileValidationResult =
+  | {
+    isValid: true;
+    // Adapter that will parse the file and the canonical MIME type to hand it
+    adapter: InputAdapter;
+    mimeType: string;
+  }
+  | { isValid: false; error: string; status: number; code?: UploadErrorCode };
+
+/**
+ * Checks the name, size and type of an upload before it is read
+ * Rejected files carry the status to answer with: 413 (`file_too_large`) over
+ * the upload limit, 415 (`unsupported_type`) for formats no adapter parses or
+ * an extension that contradicts the declared type, 400 without a filename
+ */
+export const validateFile = (file: File): FileValidationResult => {
+  if (!file.name) {
+    return { isValid: false, error: 'Filename is required', status: 400 };
+  }
+
+  if (file.size > MAX_FILE_SIZE) {
+    return {
+      isValid: false,
+      error: `File size must be less than ${MAX_FILE_SIZE / 1024 / 1024}MB`,
+      status: 413,
+      code: 'file_too_large',
+    };
+  }
+
+  const adapter = findInputAdapter(file.type, file.name);
+  if (!adapter) {
+    return {
+      isValid: false,
+      error: `Unsupported file type. Supported formats: ${getSupportedExtensions().join(', ')}`,
+      status: 415,
+      code: 'unsupported_type',
+    };
+  }
+
+  // Extension and declared MIME type must agree when the browser sends a specific type
+  const hasValidExtension = adapter.extensions.some(ext => file.name.toLowerCase().endsWith(ext));
+  const declaredType = file.type.split(';')[0].trim().toLowerCase();
+  const typeMatches = GENERIC_MIME_TYPES.includes(declaredType)
+    || adapter.mimeTypes.includes(declaredType)
+    || !getSupportedMimeTypes().includes(declaredType);
+
+  if (!hasValidExtension || !typeMatches) {
+    return {
+      isValid: false,
+      error: `File extension does not match its type (${file.type || 'unknown'})`,
+      status: 415,
+      code: 'unsupported_type',
+    };
+  }
+
+  return {
+    isValid: true,
+    adapter,
+    mimeType: adapter.mimeTypes.includes(declaredType) ? declaredType : adapter.mimeTypes[0],
+  };
+};
+
+/**
+ * Reads an upload that passed `validateFile` and checks its bytes against the
+ * format its name and type claim
+ * Throws a DocumentProcessingError with an upload error code for content that
+ * is empty, of another format, truncated or malformed, and for PDFs that are
+ * encrypted without the right password or carry JavaScript or attachments;
+ * an encrypted PDF opened with its password is returned decrypted
+ */
+export const readUpload = async (
+  file: File,
+  validation: Extract<FileValidationResult, { isValid: true }>,
+  options: ContentValidationOptions = {}
+): Promise<DocumentInput> => {
+  const input: DocumentInput = {
+    filename: file.name,
+    fileSize: file.size,
+    mimeType: validation.mimeType,
+    data: await file.arrayBuffer(),
+  };
+
+  if (input.data.byteLength === 0) {
+    throw new DocumentProcessingError(`${file.name} is empty`, 400, 'file_truncated');
+  }
+  return validation.adapter.validateContent ? validation.adapter.validateContent(input, options) : input;
+};
@@ -0,0 +1,69 @@
+import { describe, expect, it } from '@jest/globals';
+import { importGlossaryFile, parseGlossaryCsv, parseGlossaryTbx } from './import';
+
+describe('parseGlossaryCsv', () => {
+  it('reads named columns, quoted fields and yes/no flags', () => {
+    const csv = [
+      'Term;Translation;DNT;Notes',
+      'invoice;Rechnung;no;"Finance; billing"',
+      'Acme;;yes;"Brand ""Acme"""',
+      'order;;no;',
+    ].join('\r\n');
+
+    expect(parseGlossaryCsv(csv, { sourceLanguage: 'en', targetLanguage: 'de' })).toEqual({
+      entries: [
+        { sourceLanguage: 'en', targetLanguage: 'de', source: 'invoice', target: 'Rechnung', doNotTranslate: false, caseSensitive: false, matchInflections: false, note: 'Finance; billing' },
+        { sourceLanguage: 'en', targetLanguage: 'de', source: 'Acme', doNotTranslate: true, caseSensitive: false, matchInflections: false, note: 'Brand "Acme"' },
+      ],
+      skipped: ['Row 4: target is required unless doNotTranslate is set'],
+    });
+  });
+
+  it('takes source and target from the first two columns without a header', () => {
+    const { entries } = parseGlossaryCsv('invoice,Rechnung\ndelivery note,Lieferschein', { sourceLanguage: 'en', targetLanguage: 'de' });
+
+    expect(entries.map(({ source, target }) => [source, target])).toEqual([['invoice', 'Rechnung'], ['delivery note', 'Lieferschein']]);
+  });
+});
+
+describe('parseGlossaryTbx', () => {
+  const tbx = `<?xml version="1.0"?>
+<martif type="TBX"><text><body>
+  <termEntry id="t1">
+    <descrip type="definition">Bill sent to a customer</descrip>
+    <langSet xml:lang="en-US"><tig><term>invoice</term></tig></langSet>
+    <langSet xml:lang="de-DE"><tig><term>Rechnung</term></tig></langSet>
+    <langSet xml:lang="fr"><tig><term>facture</term></tig></langSet>
+  </termEntry>
+  <termEntry id="t2">
+    <langSet xml:lang="en"><tig><term>Acme Cloud</term></tig></langSet>
+  </termEntry>
+  <termEntry id="t3">
+    <langSet xml:lang="de"><tig><term>Lieferschein</term></tig></langSet>
+  </termEntry>
+</body></text></martif>`;
+
+  it('creates an entry per target language and protects source-only terms', () => {
+    const { entries, skipped } = parseGlossaryTbx(tbx, { sourceLanguage: 'en', targetLanguage: 'de' });
+
+    expect(entries).toEqual([
+      expect.objectContaining({ sourceLanguage: 'en', targetLanguage: 'de', source: 'invoice', target: 'Rechnung', note: 'Bill sent to a customer' }),
+      expect.objectContaining({ sourceLanguage: 'en', targetLanguage: 'de', source: 'Acme Cloud', doNotTranslate: true }),
+    ]);
+    expect(skipped).toEqual(['Term entry t3: no term in source language en']);
+  });
+
+  it('keeps every target language when none is requested', () => {
+    const { entries } = parseGlossaryTbx(tbx, { sourceLanguage: 'en' });
+
+    expect(entries.filter(entry => entry.source === 'invoice').map(entry => entry.targetLanguage)).toEqual(['de', 'fr']);
+  });
+});
+
+describe('importGlossaryFile', () => {
+  it('picks the importer by file extension', () => {
+    expect(importGlossaryFile('terms.TSV', 'source\ttarget\ninvoice\tRechnung', { sourceLanguage: 'en', targetLanguage: 'de' })?.entries)
+      .toHaveLength(1);
+    expect(importGlossaryFile('terms.xlsx', '')).toBeUndefined();
+  });
+});
@@ -0,0 +1,210 @@
+import { HTMLElement, parse } from 'node-html-parser';
+import { glossaryEntryInputSchema } from '@/lib/schema/glossary';
+import { GlossaryEntryInput } from '@/lib/types';
+
+export type GlossaryImportOptions = {
+  // Used for rows and term entries that do not state their languages
+  sourceLanguage?: string;
+  targetLanguage?: string;
+};
+
+export type GlossaryImportResult = {
+  entries: GlossaryEntryInput[];
+  skipped: string[];
+};
+
+// Accepted CSV header names per entry field
+const CSV_COLUMNS: Record<string, string[]> = {
+  source: ['source', 'term', 'source_term', 'source term'],
+  target: ['target', 'translation', 'target_term', 'target term'],
+  sourceLanguage: ['sourcelanguage', 'source_language', 'source language', 'source_lang', 'src'],
+  targetLanguage: ['targetlanguage', 'target_language', 'target language', 'target_lang', 'tgt'],
+  doNotTranslate: ['donottranslate', 'do_not_translate', 'do not translate', 'dnt', 'protected'],
+  caseSensitive: ['casesensitive', 'case_sensitive', 'case sensitive'],
+  matchInflections: ['matchinflections', 'match_inflections', 'inflections'],
+  note: ['note', 'notes', 'comment', 'description'],
+};
+
+const BOOLEAN_COLUMNS = ['doNotTranslate', 'caseSensitive', 'matchInflections'];
+
+const parseBoolean = (value: string): boolean => /^(true|yes|y|1|x)$/i.test(value.trim());
+
+const detectDelimiter = (headerLine: string): string => {
+  const counts = [',', ';', '\t'].map(delimiter => ({ delimiter, count: headerLine.split(delimiter).length }));
+  return counts.sort((a, b) => b.count - a.count)[0].delimiter;
+};
+
+// RFC 4180 rows: quoted fields may contain delimiters, doubled quotes and line breaks
+const parseCsvRows = (text: string, delimiter: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(cells => cells.some(cell => cell.trim()));
+};
+
+const validateEntry = (candidate: Record<string, unknown>, label: string, result: GlossaryImportResult) => {
+  const parsed = glossaryEntryInputSchema.safeParse(candidate);
+  if (parsed.success) {
+    result.entries.push(parsed.data);
+  } else {
+    const issue = parsed.error.errors[0];
+    result.skipped.push(`${label}: ${issue?.path.join('.') || 'entry'} ${issue?.message}`);
+  }
+};
+
+/**
+ * Imports glossary entries from CSV (comma, semicolon or tab separated)
+ * A header row names the columns; without one, columns are source and target
+ */
+export const parseGlossaryCsv = (text: string, options: GlossaryImportOptions = {}): GlossaryImportResult => {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? '';
+  const rows = parseCsvRows(text, detectDelimiter(firstLine));
+  const result: GlossaryImportResult = { entries: [], skipped: [] };
+  if (rows.length === 0) return result;
+
+  const header = rows[0].map(cell => cell.trim().toLowerCase());
+  const columns = Object.fromEntries(
+    Object.entries(CSV_COLUMNS)
+      .map(([field, names]) => [field, header.findIndex(cell => names.includes(cell))] as const)
+      .filter(([, index]) => index >= 0)
+  );
+  const hasHeader = columns.source !== undefined;
+  const columnIndex: Record<string, number> = hasHeader ? columns : { source: 0, target: 1 };
+
+  rows.slice(hasHeader ? 1 : 0).forEach((cells, rowIndex) => {
+    const candidate: Record<string, unknown> = {
+      sourceLanguage: options.sourceLanguage,
+      targetLanguage: options.targetLanguage,
+    };
+
+    for (const [field, index] of Object.entries(columnIndex)) {
+      const value = cells[index]?.trim();
+      if (!value) continue;
+      candidate[field] = BOOLEAN_COLUMNS.includes(field) ? parseBoolean(value) : value;
+    }
+
+    validateEntry(candidate, `Row ${rowIndex + (hasHeader ? 2 : 1)}`, result);
+  });
+
+  return result;
+};
+
+const baseCode = (language: string): string => language.toLowerCase().split(/[-_]/)[0];
+
+const languageOf = (element: HTMLElement): string | undefined =>
+  (element.getAttribute('xml:lang') ?? element.getAttribute('lang'))?.trim() || undefined;
+
+const textOf = (element: HTMLElement | null): string | undefined =>
+  element?.text.replace(/\s+/g, ' ').trim() || undefined;
+
+/**
+ * Imports glossary entries from TBX (TermBase eXchange, v2 termEntry/langSet
+ * and v3 conceptEntry/langSec)
+ * Terms present only in the source language, or identical in both languages,
+ * become do-not-translate entries
+ */
+export const parseGlossaryTbx = (xml: string, options: GlossaryImportOptions = {}): GlossaryImportResult => {
+  const root = parse(xml, { lowerCaseTagName: true });
+  const result: GlossaryImportResult = { entries: [], skipped: [] };
+  const concepts = [...root.querySelectorAll('termentry'), ...root.querySelectorAll('conceptentry')];
+
+  concepts.forEach((concept, conceptIndex) => {
+    const label = `Term entry ${concept.getAttribute('id') ?? conceptIndex + 1}`;
+    const terms = new Map<string, string>();
+
+    for (const languageSet of [...concept.querySelectorAll('langset'), ...concept.querySelectorAll('langsec')]) {
+      const language = languageOf(languageSet);
+      const term = textOf(languageSet.querySelector('term'));
+      if (language && term && !terms.has(language)) terms.set(language, term);
+    }
+
+    const languages = Array.from(terms.keys());
+    const sourceLanguage = languages.find(language =>
+      options.sourceLanguage && language.toLowerCase().startsWith(options.sourceLanguage.toLowerCase())
+    ) ?? (options.sourceLanguage ? undefined : languages[0]);
+
+    if (!sourceLanguage) {
+      result.skipped.push(`${label}: no term in source language ${options.sourceLanguage}`);
+      return;
+    }
+
+    const source = terms.get(sourceLanguage)!;
+    const note = textOf(concept.querySelector('descrip')) ?? textOf(concept.querySelector('note'));
+    const targets = languages.filter(language =>
+      language !== sourceLanguage
+      && (!options.targetLanguage || language.toLowerCase().startsWith(options.targetLanguage.toLowerCase()))
+    );
+
+    if (targets.length === 0) {
+      validateEntry({
+        sourceLanguage: baseCode(sourceLanguage),
+        targetLanguage: options.targetLanguage ?? '*',
+        source,
+        doNotTranslate: true,
+        note,
+      }, label, result);
+      return;
+    }
+
+    for (const targetLanguage of targets) {
+      const target = terms.get(targetLanguage)!;
+      validateEntry({
+        sourceLanguage: baseCode(sourceLanguage),
+        targetLanguage: baseCode(targetLanguage),
+        source,
+        target,
+        doNotTranslate: target === source,
+        note,
+      }, label, result);
+    }
+  });
+
+  return result;
+};
+
+/**
+ * Picks the importer from the file name (.csv, .tsv, .tbx, .xml)
+ */
+export const importGlossaryFile = (
+  filename: string,
+  content: string,
+  options: GlossaryImportOptions = {}
+): GlossaryImportResult | undefined => {
+  const extension = filename.toLowerCase().split('.').pop();
+  if (extension === 'csv' || extension === 'tsv' || extension === 'txt') return parseGlossaryCsv(content, options);
+  if (extension === 'tbx' || extension === 'xml') return parseGlossaryTbx(content, options);
+  return undefined;
+};
@@ -0,0 +1,3 @@
+export * from './store';
+export * from './matching';
+export * from './import';
@@ -0,0 +1,65 @@
+import { describe, expect, it } from '@jest/globals';
+import { GlossaryEntry } from '@/lib/types';
+import { checkGlossaryCompliance, findGlossaryTerms, selectGlossaryEntries } from './matching';
+
+const entry = (overrides: Partial<GlossaryEntry> & Pick<GlossaryEntry, 'id' | 'source'>): GlossaryEntry => ({
+  sourceLanguage: 'en',
+  targetLanguage: 'de',
+  doNotTranslate: false,
+  caseSensitive: false,
+  matchInflections: false,
+  ...overrides,
+});
+
+describe('selectGlossaryEntries', () => {
+  it('matches regional variants and wildcard languages', () => {
+    const entries = [
+      entry({ id: 'de', source: 'invoice', target: 'Rechnung' }),
+      entry({ id: 'fr', source: 'invoice', target: 'facture', targetLanguage: 'fr' }),
+      entry({ id: 'any', source: 'Acme', doNotTranslate: true, targetLanguage: '*' }),
+    ];
+
+    expect(selectGlossaryEntries(entries, 'en-GB', 'de_AT').map(({ id }) => id)).toEqual(['de', 'any']);
+  });
+});
+
+describe('findGlossaryTerms', () => {
+  it('matches whole words only, longest terms first', () => {
+    const entries = [
+      entry({ id: 'cloud', source: 'cloud', target: 'Cloud' }),
+      entry({ id: 'acme-cloud', source: 'Acme Cloud', doNotTranslate: true }),
+      entry({ id: 'app', source: 'app', target: 'App' }),
+    ];
+
+    expect(findGlossaryTerms(entries, 'Sign in to Acme Cloud on any cloud-ready device.').map(({ id }) => id))
+      .toEqual(['acme-cloud', 'cloud']);
+  });
+
+  it('respects case sensitivity and matches inflections only when asked', () => {
+    const entries = [
+      entry({ id: 'exact', source: 'Order', target: 'Bestellung', caseSensitive: true }),
+      entry({ id: 'inflected', source: 'invoice', target: 'Rechnung', matchInflections: true }),
+    ];
+
+    expect(findGlossaryTerms(entries, 'Check the order and both invoices.').map(({ id }) => id)).toEqual(['inflected']);
+  });
+
+  it('finds terms inside unspaced scripts', () => {
+    const entries = [entry({ id: 'ja', source: '\u8ACB\u6C42\u66F8', target: 'Rechnung', sourceLanguage: 'ja' })];
+
+    expect(findGlossaryTerms(entries, '\u3053\u306E\u8ACB\u6C42\u66F8\u3092\u78BA\u8A8D')).toHaveLength(1);
+  });
+});
+
+describe('checkGlossaryCompliance', () => {
+  it('accepts inflected targets and flags a protected term that was translated', () => {
+    const entries = [
+      entry({ id: 'invoice', source: 'invoice', target: 'Rechnung', matchInflections: true }),
+      entry({ id: 'acme', source: 'Acme', doNotTranslate: true, caseSensitive: true }),
+    ];
+
+    expect(checkGlossaryCompliance('Acme sends an invoice.', 'Acme sendet Rechnungen.', entries)).toEqual([]);
+    expect(checkGlossaryCompliance('Acme sends an invoice. Ask Acme.', 'Akme sendet Rechnungen. Fragen Sie Acme.', entries))
+      .toEqual(['protected term "Acme" was altered or dropped']);
+  });
+});
@@ -0,0 +1,71 @@
+import { GlossaryEntry } from '@/lib/types';
+
+// Scripts that separate words with spaces; terms in other scripts (CJK, Thai) match anywhere
+const WORD_CHARACTER = '[\\p{Script=Latin}\\p{Script=Cyrillic}\\p{Script=Greek}\\p{Script=Arabic}\\p{Script=Hebrew}\\p{N}]';
+// Short suffixes such as plural, possessive and case endings
+const INFLECTION_SUFFIX = "(?:['\\u2019]?\\p{L}{1,4})?";
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const baseLanguage = (code: string): string => code.toLowerCase().split(/[-_]/)[0];
+
+const languageMatches = (entryLanguage: string, language: string): boolean =>
+  entryLanguage === '*' || baseLanguage(entryLanguage) === baseLanguage(language);
+
+const termPattern = (term: string, { caseSensitive, matchInflections }: Pick<GlossaryEntry, 'caseSensitive' | 'matchInflections'>) =>
+  new RegExp(
+    `(?<!${WORD_CHARACTER})${escapeRegExp(term)}${matchInflections ? INFLECTION_SUFFIX : ''}(?!${WORD_CHARACTER})`,
+    caseSensitive ? 'gu' : 'giu'
+  );
+
+const findMatches = (text: string, term: string, options: Pick<GlossaryEntry, 'caseSensitive' | 'matchInflections'>): string[] =>
+  text.match(termPattern(term, options)) ?? [];
+
+const countMatches = (text: string, term: string, options: Pick<GlossaryEntry, 'caseSensitive' | 'matchInflections'>): number =>
+  findMatches(text, term, options).length;
+
+/**
+ * Entries that apply to a language pair
+ */
+export const selectGlossaryEntries = (
+  entries: GlossaryEntry[],
+  sourceLanguage: string,
+  targetLanguage: string
+): GlossaryEntry[] =>
+  entries.filter(entry =>
+    languageMatches(entry.sourceLanguage, sourceLanguage) && languageMatches(entry.targetLanguage, targetLanguage)
+  );
+
+/**
+ * Entries whose source term occurs in the text, longest terms first
+ */
+export const findGlossaryTerms = (entries: GlossaryEntry[], text: string): GlossaryEntry[] =>
+  entries
+    .filter(entry => countMatches(text, entry.source, entry) > 0)
+    .sort((a, b) => b.source.length - a.source.length);
+
+/**
+ * Flags glossary violations in a translated text
+ * Protected terms must appear exactly as written in the source, as often as
+ * in the source; other terms must be rendered with their glossary translation
+ * at least once
+ */
+export const checkGlossaryCompliance = (
+  sourceText: string,
+  translatedText: string,
+  entries: GlossaryEntry[]
+): string[] =>
+  findGlossaryTerms(entries, sourceText).flatMap(entry => {
+    if (entry.doNotTranslate) {
+      const occurrences = findMatches(sourceText, entry.source, { ...entry, matchInflections: false });
+      const altered = Array.from(new Set(occurrences)).some(form =>
+        countMatches(translatedText, form, { caseSensitive: true, matchInflections: false })
+          < occurrences.filter(occurrence => occurrence === form).length
+      );
+      return altered ? [`protected term "${entry.source}" was altered or dropped`] : [];
+    }
+
+    return entry.target && countMatches(translatedText, entry.target, entry) === 0
+      ? [`glossary term "${entry.source}" must be translated as "${entry.target}"`]
+      : [];
+  });
@@ -0,0 +1,125 @@
+import { existsSync, readFileSync } from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { writeJsonAtomic } from '@/lib/json-file';
+import { Glossary, GlossaryEntry, GlossaryEntryInput, GlossaryInput, GlossarySummary, GlossaryUpdate } from '@/lib/types';
+
+const DEFAULT_GLOSSARY_PATH = path.join(process.cwd(), '.data', 'glossaries.json');
+
+// Entries for the same term and language pair replace each other
+const entryKey = (entry: GlossaryEntryInput): string =>
+  [
+    entry.sourceLanguage.toLowerCase(),
+    entry.targetLanguage.toLowerCase(),
+    entry.caseSensitive ? entry.source : entry.source.toLowerCase(),
+  ].join('\u0000');
+
+const toEntry = (input: GlossaryEntryInput, id: string = randomUUID()): GlossaryEntry => ({
+  id,
+  sourceLanguage: input.sourceLanguage,
+  targetLanguage: input.targetLanguage,
+  source: input.source,
+  ...(input.target && !input.doNotTranslate && { target: input.target }),
+  doNotTranslate: input.doNotTranslate,
+  caseSensitive: input.caseSensitive,
+  matchInflections: input.matchInflections,
+  ...(input.note && { note: input.note }),
+});
+
+/**
+ * File-backed glossary store
+ * Keeps all glossaries in memory and snapshots them to a JSON file after every change
+ */
+const createGlossaryStore = (filePath: string = process.env.GLOSSARY_STORE_PATH || DEFAULT_GLOSSARY_PATH) => {
+  let glossaries: Map<string, Glossary> | undefined;
+
+  const load = (): Map<string, Glossary> => {
+    if (!glossaries) {
+      const stored: Glossary[] = existsSync(filePath) ? JSON.parse(readFileSync(filePath, 'utf8')) : [];
+      glossaries = new Map(stored.map(glossary => [glossary.id, glossary]));
+    }
+    return glossaries;
+  };
+
+  const persist = () => writeJsonAtomic(filePath, Array.from(load().values()), { space: 2 });
+
+  const save = (glossary: Glossary): Glossary => {
+    const updated = { ...glossary, updatedAt: new Date().toISOString() };
+    load().set(updated.id, updated);
+    persist();
+    return updated;
+  };
+
+  const mergeEntries = (existing: GlossaryEntry[], inputs: GlossaryEntryInput[]): GlossaryEntry[] => {
+    const entries = new Map(existing.map(entry => [entryKey(entry), entry]));
+    for (const input of inputs) {
+      const key = entryKey(input);
+      entries.set(key, toEntry(input, entries.get(key)?.id));
+    }
+    return Array.from(entries.values());
+  };
+
+  return {
+    list: (): GlossarySummary[] =>
+      Array.from(load().values()).map(({ entries, ...glossary }) => ({ ...glossary, entryCount: entries.length })),
+
+    get: (id: string): Glossary | undefined => load().get(id),
+
+    create: ({ name, description, entries = [] }: GlossaryInput): Glossary => {
+      const now = new Date().toISOString();
+      return save({
+        id: randomUUID(),
+        name,
+        ...(description && { description }),
+        entries: mergeEntries([], entries),
+        createdAt: now,
+        updatedAt: now,
+      });
+    },
+
+    update: (id: string, patch: GlossaryUpdate): Glossary | undefined => {
+      const glossary = load().get(id);
+      return glossary && save({ ...glossary, ...patch });
+    },
+
+    remove: (id: string): boolean => {
+      const removed = load().delete(id);
+      if (removed) persist();
+      return removed;
+    },
+
+    /**
+     * Adds entries, replacing existing ones for the same term and language pair
+     * With `replace` the glossary's current entries are dropped first
+     */
+    addEntries: (id: string, inputs: GlossaryEntryInput[], { replace = false } = {}): Glossary | undefined => {
+      const glossary = load().get(id);
+      return glossary && save({ ...glossary, entries: mergeEntries(replace ? [] : glossary.entries, inputs) });
+    },
+
+    updateEntry: (id: string, entryId: string, input: GlossaryEntryInput): Glossary | undefined => {
+      const glossary = load().get(id);
+      if (!glossary?.entries.some(entry => entry.id === entryId)) return undefined;
+
+      return save({
+        ...glossary,
+        entries: glossary.entries.map(entry => (entry.id === entryId ? toEntry(input, entryId) : entry)),
+      });
+    },
+
+    removeEntry: (id: string, entryId: string): Glossary | undefined => {
+      const glossary = load().get(id);
+      if (!glossary?.entries.some(entry => entry.id === entryId)) return undefined;
+
+      return save({ ...glossary, entries: glossary.entries.filter(entry => entry.id !== entryId) });
+    },
+  };
+};
+
+export type GlossaryStore = ReturnType<typeof createGlossaryStore>;
+
+// Reuse one store across hot reloads in development
+const globalForGlossaries = globalThis as unknown as { glossaryStore?: GlossaryStore };
+
+export const glossaryStore = globalForGlossaries.glossaryStore
+  ?? (globalForGlossaries.glossaryStore = createGlossaryStore());
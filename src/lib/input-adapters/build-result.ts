@@ -0,0 +1,116 @@
+import type { DocumentInput } from '@/lib/document-parser';
+import { normalizeTableSections } from '@/lib/tables';
+import { DocumentParserResult, DocumentSection, MetadataFieldSource } from '@/lib/types';
+
+type Formatting = DocumentParserResult['formatting'];
+type Metadata = DocumentParserResult['metadata'];
+
+/**
+ * Content extracted locally from a structured format (HTML, DOCX, Markdown, text)
+ */
+export type LocalExtraction = {
+  sections: DocumentSection[];
+  footnotes?: NonNullable<DocumentParserResult['structure']['footnotes']>;
+  fonts?: Formatting['fonts'];
+  styles?: Partial<Formatting['styles']>;
+  pageCount?: number;
+  // Document properties read from the file itself
+  properties?: Partial<Pick<Metadata,
+    'title' | 'author' | 'subject' | 'keywords' | 'language' | 'creationDate' | 'lastModified' | 'producer'>>;
+};
+
+const EMPTY_STYLES: Formatting['styles'] = {
+  hasBold: false,
+  hasItalic: false,
+  hasUnderline: false,
+  hasStrikethrough: false,
+  hasHighlight: false,
+  hasSuperscript: false,
+  hasSubscript: false,
+};
+
+export const countWords = (text: string): number =>
+  text.split(/\s+/).filter(Boolean).length;
+
+/**
+ * Assembles a DocumentParserResult from locally extracted content
+ * Formats without pagination report a single page; the table of contents is
+ * derived from headings
+ */
+export const buildLocalResult = (input: DocumentInput, extraction: LocalExtraction): DocumentParserResult => {
+  const { footnotes, fonts = [], styles, properties = {} } = extraction;
+  const sections = normalizeTableSections(extraction.sections);
+  const pageCount = Math.max(extraction.pageCount ?? 1, 1);
+  const extractedText = sections.map(section => section.content).filter(Boolean).join('\n\n');
+
+  const headings = sections.filter(section => section.type === 'heading');
+  const title = properties.title ?? headings[0]?.content;
+
+  const sources: Record<string, MetadataFieldSource> = {
+    filename: 'file',
+    fileSize: 'file',
+    extractedAt: 'computed',
+    pageCount: extraction.pageCount ? 'file' : 'computed',
+    wordCount: 'computed',
+    characterCount: 'computed',
+    hasImages: 'computed',
+    hasCharts: 'computed',
+    hasTables: 'computed',
+    hasFormFields: 'computed',
+    isScanned: 'computed',
+    textQuality: 'computed',
+    extractionConfidence: 'computed',
+  };
+  for (const key of Object.keys(properties)) {
+    sources[key] = 'file';
+  }
+  if (title && !properties.title) {
+    sources.title = 'computed';
+  }
+
+  return {
+    extractedText,
+    structure: {
+      sections,
+      pageBreaks: Array.from({ length: pageCount - 1 }, (_, index) => index + 1),
+      totalPages: pageCount,
+      tableOfContents: headings.length
+        ? headings.map(heading => ({ title: heading.content, level: heading.level ?? 1, page: heading.position.page }))
+        : undefined,
+      footnotes: footnotes?.length ? footnotes : undefined,
+    },
+    formatting: {
+      fonts,
+      styles: { ...EMPTY_STYLES, ...styles },
+      layout: {
+        columns: 1,
+        hasHeaders: sections.some(section => section.type === 'header'),
+        hasFooters: sections.some(section => section.type === 'footer'),
+        hasWatermarks: false,
+        orientation: 'portrait',
+      },
+    },
+    metadata: {
+      ...properties,
+      title,
+      filename: input.filename,
+      fileSize: input.fileSize,
+      extractedAt: new Date().toISOString(),
+      pageCount,
+      wordCount: countWords(extractedText),
+      characterCount: extractedText.length,
+      hasImages: sections.some(section => section.type === 'image'),
+      hasCharts: false,
+      hasTables: sections.some(section => section.type === 'table'),
+      hasFormFields: false,
+      isScanned: false,
+      textQuality: 'excellent',
+      extractionConfidence: 1,
+      sources,
+    },
+  };
+};
+
+// TextDecoder strips a leading byte order mark
+export const decodeText = (data: ArrayBuffer | Uint8Array): string =>
+  new TextDecoder('utf-8').decode(data instanceof Uint8Array ? data : new Uint8Array(data));
@@ -0,0 +1,202 @@
+import JSZip from 'jszip';
+import mammoth from 'mammoth';
+import { hasSignature, OLE_SIGNATURE, rejectContent, toBytes, ZIP_SIGNATURE } from '@/lib/content-validation';
+import type { DocumentInput } from '@/lib/document-parser';
+import { logger } from '@/lib/observability/logger';
+import { DocumentParserResult, DocumentSection } from '@/lib/types';
+import { buildLocalResult, LocalExtraction } from './build-result';
+import { extractFromHtml } from './html-adapter';
+import { InputAdapter } from './types';
+
+type Font = DocumentParserResult['formatting']['fonts'][number];
+
+// Keep underline, which mammoth drops by default
+const STYLE_MAP = ['u => u'];
+
+const decodeXmlEntities = (text: string): string =>
+  text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+
+const readXml = async (zip: JSZip, path: string): Promise<string | undefined> =>
+  zip.file(path)?.async('string');
+
+const readTag = (xml: string | undefined, tag: string): string | undefined => {
+  const value = xml?.match(new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`))?.[1];
+  return value ? decodeXmlEntities(value).trim() || undefined : undefined;
+};
+
+// Text of all runs (<w:t>) in a WordprocessingML part, one line per paragraph
+const readParagraphText = (xml: string): string =>
+  xml
+    .split(/<\/w:p>/)
+    .map(paragraph => Array.from(paragraph.matchAll(/<w:t(?:\s[^>]*)?>([^<]*)<\/w:t>/g)).map(match => decodeXmlEntities(match[1])).join(''))
+    .map(line => line.trim())
+    .filter(Boolean)
+    .join('\n');
+
+// docProps/core.xml and app.xml hold the Office document properties
+const readProperties = async (zip: JSZip): Promise<{ properties: LocalExtraction['properties']; pageCount?: number }> => {
+  const core = await readXml(zip, 'docProps/core.xml');
+  const app = await readXml(zip, 'docProps/app.xml');
+  const keywords = readTag(core, 'cp:keywords')?.split(/[,;]/).map(keyword => keyword.trim()).filter(Boolean);
+  const language = readTag(core, 'dc:language')?.split('-')[0];
+  const pages = Number(readTag(app, 'Pages'));
+
+  const properties: LocalExtraction['properties'] = {
+    title: readTag(core, 'dc:title'),
+    author: readTag(core, 'dc:creator'),
+    subject: readTag(core, 'dc:subject') ?? readTag(core, 'dc:description'),
+    keywords: keywords?.length ? keywords : undefined,
+    language,
+    creationDate: readTag(core, 'dcterms:created'),
+    lastModified: readTag(core, 'dcterms:modified'),
+    producer: readTag(app, 'Application'),
+  };
+
+  return {
+    properties: Object.fromEntries(Object.entries(properties).filter(([, value]) => value !== undefined)),
+    pageCount: Number.isInteger(pages) && pages > 0 ? pages : undefined,
+  };
+};
+
+const readRunFont = (xml: string): { name?: string; size?: number; bold: boolean; italic: boolean } => ({
+  name: xml.match(/<w:rFonts[^>]*w:ascii="([^"]+)"/)?.[1],
+  // Sizes are stored in half-points
+  size: xml.match(/<w:sz w:val="(\d+)"/) ? Number(xml.match(/<w:sz w:val="(\d+)"/)![1]) / 2 : undefined,
+  bold: /<w:b\/>|<w:b w:val="(1|true)"\/>/.test(xml),
+  italic: /<w:i\/>|<w:i w:val="(1|true)"\/>/.test(xml),
+});
+
+/**
+ * Reads the default and heading fonts from word/styles.xml and the theme
+ */
+const readFonts = async (zip: JSZip): Promise<Font[]> => {
+  const styles = await readXml(zip, 'word/styles.xml');
+  if (!styles) return [];
+
+  const theme = await readXml(zip, 'word/theme/theme1.xml');
+  const themeMinor = theme?.match(/<a:minorFont>\s*<a:latin typeface="([^"]+)"/)?.[1];
+  const themeMajor = theme?.match(/<a:majorFont>\s*<a:latin typeface="([^"]+)"/)?.[1];
+
+  const defaults = readRunFont(styles.match(/<w:docDefaults>([\s\S]*?)<\/w:docDefaults>/)?.[1] ?? '');
+  const bodyName = defaults.name ?? themeMinor;
+  const bodySize = defaults.size ?? 11;
+  const fonts = new Map<string, Font>();
+
+  if (bodyName) {
+    fonts.set(`${bodyName}:${bodySize}`, { name: bodyName, size: bodySize, isUsedForHeadings: false, isUsedForBody: true });
+  }
+
+  for (const [, styleId, body] of styles.matchAll(/<w:style [^>]*w:styleId="(Heading\d|Title)"[^>]*>([\s\S]*?)<\/w:style>/g)) {
+    const run = readRunFont(body);
+    const name = run.name ?? themeMajor ?? bodyName;
+    if (!name) continue;
+
+    const size = run.size ?? (styleId === 'Title' ? 28 : bodySize);
+    const key = `${name}:${size}`;
+    const existing = fonts.get(key);
+    fonts.set(key, {
+      name,
+      size,
+      isUsedForHeadings: true,
+      isUsedForBody: existing?.isUsedForBody ?? false,
+      ...(run.bold && { weight: 'bold' as const }),
+      ...(run.italic && { style: 'italic' as const }),
+    });
+  }
+
+  return Array.from(fonts.values());
+};
+
+// Headers and footers live in separate parts that mammoth does not convert
+const readHeaderFooterSections = async (zip: JSZip, type: 'header' | 'footer'): Promise<string[]> => {
+  const parts = Object.keys(zip.files).filter(path => new RegExp(`^word/${type}\\d*\\.xml$`).test(path)).sort();
+  const texts = await Promise.all(parts.map(async path => readParagraphText((await readXml(zip, path)) ?? '')));
+  return Array.from(new Set(texts.filter(Boolean)));
+};
+
+const withHeadersAndFooters = (sections: DocumentSection[], headers: string[], footers: string[]): DocumentSection[] => {
+  const ordered: Omit<DocumentSection, 'position'>[] = [
+    ...headers.map(content => ({ type: 'header' as const, content })),
+    ...sections.map(({ position: _position, ...section }) => section),
+    ...footers.map(content => ({ type: 'footer' as const, content })),
+  ];
+  return ordered.map((section, index) => ({ ...section, position: { page: 1, order: index + 1 } }));
+};
+
+// Every ZIP file ends with the end of central directory record, followed by a comment of up to 64 KB
+const ZIP_END_SIGNATURE = 'PK\u0005\u0006';
+const ZIP_END_SEARCH_LENGTH = 22 + 0xffff;
+
+// A .docx file is a ZIP package with a main document part
+const validateDocx = async (input: DocumentInput): Promise<DocumentInput> => {
+  const bytes = toBytes(input.data);
+  const { filename } = input;
+
+  if (hasSignature(bytes, OLE_SIGNATURE)) {
+    rejectContent(`${filename} is password-protected or a legacy .doc file; save it as an unprotected .docx`, 'content_mismatch');
+  }
+  if (!hasSignature(bytes, ZIP_SIGNATURE)) {
+    rejectContent(`${filename} is not a Word document`, 'content_mismatch');
+  }
+
+  const tail = Buffer.from(bytes.subarray(Math.max(0, bytes.length - ZIP_END_SEARCH_LENGTH))).toString('latin1');
+  if (!tail.includes(ZIP_END_SIGNATURE)) {
+    rejectContent(`${filename} is incomplete: the end of the document is missing`, 'file_truncated');
+  }
+
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(bytes);
+  } catch (error) {
+    logger.warn('Could not read the Word package', { filename, error });
+    return rejectContent(`${filename} is damaged and cannot be read as a Word document`, 'file_malformed');
+  }
+  if (!zip.file('word/document.xml')) {
+    rejectContent(`${filename} is a ZIP package without a Word document in it`, 'content_mismatch');
+  }
+
+  return input;
+};
+
+export const docxAdapter: InputAdapter = {
+  id: 'docx',
+  label: 'Word document',
+  mimeTypes: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+  extensions: ['.docx'],
+  requiresModel: false,
+  validateContent: validateDocx,
+  parse: async (input) => {
+    const buffer = Buffer.from(input.data instanceof Uint8Array ? input.data : new Uint8Array(input.data));
+    const zip = await JSZip.loadAsync(buffer);
+    const documentXml = (await readXml(zip, 'word/document.xml')) ?? '';
+
+    const { value: html } = await mammoth.convertToHtml({ buffer }, { styleMap: STYLE_MAP });
+    const extraction = extractFromHtml(html);
+    const { properties, pageCount } = await readProperties(zip);
+    const [headers, footers, fonts] = await Promise.all([
+      readHeaderFooterSections(zip, 'header'),
+      readHeaderFooterSections(zip, 'footer'),
+      readFonts(zip),
+    ]);
+
+    return buildLocalResult(input, {
+      ...extraction,
+      sections: withHeadersAndFooters(extraction.sections, headers, footers),
+      fonts,
+      styles: {
+        ...extraction.styles,
+        // Formatting mammoth does not map to HTML is read from the run properties
+        hasUnderline: Boolean(extraction.styles?.hasUnderline) || /<w:u w:val="(?!none)/.test(documentXml),
+        hasStrikethrough: Boolean(extraction.styles?.hasStrikethrough) || /<w:(d)?strike\/>/.test(documentXml),
+        hasHighlight: /<w:highlight /.test(documentXml) || /<w:shd [^>]*w:fill="(?!auto|FFFFFF)/.test(documentXml),
+      },
+      properties,
+      pageCount,
+    });
+  },
+};
@@ -0,0 +1,365 @@
+import { HTMLElement, Node, NodeType, parse } from 'node-html-parser';
+import { assertTextContent } from '@/lib/content-validation';
+import { collapseStyledText, hasStyle, normalizeStyleRuns, RunStyle, StyledText } from '@/lib/style-runs';
+import { tableToText } from '@/lib/tables';
+import { DocumentParserResult, DocumentSection, DocumentTable, StyleRun } from '@/lib/types';
+import { buildLocalResult, decodeText, LocalExtraction } from './build-result';
+import { InputAdapter } from './types';
+
+type Font = DocumentParserResult['formatting']['fonts'][number];
+
+const HEADING_TAGS = ['h1', 'h2', 'h3', 'h4', 'h5', 'h6'];
+const SKIPPED_TAGS = ['script', 'style', 'noscript', 'template', 'head', 'svg', 'button', 'form'];
+const BLOCK_TAGS = [
+  ...HEADING_TAGS,
+  'p', 'div', 'section', 'article', 'main', 'aside', 'nav', 'header', 'footer', 'blockquote', 'pre',
+  'ul', 'ol', 'li', 'table', 'figure', 'figcaption', 'img', 'hr', 'body', 'dl', 'address',
+];
+
+// Inline elements that format their text
+const INLINE_STYLES: Record<string, RunStyle> = {
+  b: { bold: true },
+  strong: { bold: true },
+  i: { italic: true },
+  em: { italic: true },
+  u: { underline: true },
+  ins: { underline: true },
+  s: { strikethrough: true },
+  del: { strikethrough: true },
+  strike: { strikethrough: true },
+  sup: { superscript: true },
+  sub: { subscript: true },
+};
+
+// Default browser sizes in points (16px body text)
+const DEFAULT_FONT_SIZE = 12;
+const HEADING_FONT_SIZES = [24, 18, 14, 12, 10, 8];
+
+const collapseWhitespace = (text: string): string => text.replace(/\s+/g, ' ').trim();
+
+const tagOf = (node: Node): string =>
+  node.nodeType === NodeType.ELEMENT_NODE ? (node as HTMLElement).rawTagName?.toLowerCase() ?? '' : '';
+
+const hasBlockChildren = (element: HTMLElement): boolean =>
+  element.childNodes.some(child => BLOCK_TAGS.includes(tagOf(child)));
+
+// List items keep their nesting as indentation; ordered lists are numbered
+const listToLines = (list: HTMLElement, depth = 0): string[] => {
+  const ordered = tagOf(list) === 'ol';
+  const items = list.childNodes.filter(child => tagOf(child) === 'li') as HTMLElement[];
+
+  return items.flatMap((item, index) => {
+    const nested = item.childNodes.filter(child => ['ul', 'ol'].includes(tagOf(child))) as HTMLElement[];
+    const ownText = collapseWhitespace(
+      item.childNodes.filter(child => !['ul', 'ol'].includes(tagOf(child))).map(child => child.text).join(' ')
+    );
+    const marker = ordered ? `${index + 1}.` : '-';
+    return [
+      `${'  '.repeat(depth)}${marker} ${ownText}`,
+      ...nested.flatMap(child => listToLines(child, depth + 1)),
+    ];
+  });
+};
+
+const readSpan = (cell: HTMLElement, name: string): number | undefined => {
+  const span = Number.parseInt(cell.getAttribute(name) ?? '', 10);
+  return span > 1 ? span : undefined;
+};
+
+/**
+ * Reads a table's rows and cells, leaving out those of nested tables
+ * Rows in <thead>, or leading rows of <th> cells only, are header rows; the
+ * first column is a header column when every other row starts with a <th>
+ */
+const extractTable = (table: HTMLElement): DocumentTable => {
+  const rows = table.querySelectorAll('tr').filter(row => row.closest('table') === table);
+  const cellsOf = (row: HTMLElement) => row.childNodes.filter(cell => ['td', 'th'].includes(tagOf(cell))) as HTMLElement[];
+
+  const headRows = rows.filter(row => row.parentNode && tagOf(row.parentNode) === 'thead').length;
+  const leadingHeaderRows = rows.findIndex(row => !cellsOf(row).every(cell => tagOf(cell) === 'th'));
+  const headerRows = headRows || (leadingHeaderRows === -1 ? 0 : leadingHeaderRows);
+  const bodyRows = rows.slice(headerRows);
+  const headerColumns = bodyRows.length && bodyRows.every(row => cellsOf(row).length > 0 && tagOf(cellsOf(row)[0]) === 'th') ? 1 : 0;
+
+  return {
+    rows: rows.map(row => cellsOf(row).map(cell => {
+      const rowSpan = readSpan(cell, 'rowspan');
+      const colSpan = readSpan(cell, 'colspan');
+      return {
+        content: collapseWhitespace(cell.text),
+        ...(tagOf(cell) === 'th' && { header: true }),
+        ...(rowSpan && { rowSpan }),
+        ...(colSpan && { colSpan }),
+      };
+    })),
+    headerRows,
+    headerColumns,
+  };
+};
+
+// Footnote lists as produced by mammoth and most Markdown renderers
+const isFootnoteList = (element: HTMLElement): boolean => {
+  const items = element.childNodes.filter(child => tagOf(child) === 'li') as HTMLElement[];
+  return items.length > 0 && items.every(item => /^(footnote|fn)/i.test(item.getAttribute('id') ?? ''));
+};
+
+const extractFootnotes = (list: HTMLElement) =>
+  (list.childNodes.filter(child => tagOf(child) === 'li') as HTMLElement[]).map((item, index) => {
+    // Drop back-reference links ("↑", "↩")
+    item.querySelectorAll('a[href^="#"]').forEach(link => {
+      if (/^\W*$/.test(link.text)) link.remove();
+    });
+    const number = Number(item.getAttribute('id')?.match(/(\d+)/)?.[1] ?? index + 1);
+    return { number, content: collapseWhitespace(item.text), page: 1 };
+  });
+
+const parseFontSize = (value: string | undefined): number | undefined => {
+  const match = value?.match(/([\d.]+)\s*(pt|px|em|rem)?/);
+  if (!match) return undefined;
+
+  const size = Number(match[1]);
+  switch (match[2]) {
+    case 'px': return Math.round(size * 0.75 * 10) / 10;
+    case 'em':
+    case 'rem': return size * DEFAULT_FONT_SIZE;
+    default: return size;
+  }
+};
+
+const parseDeclarations = (css: string): Record<string, string> =>
+  Object.fromEntries(css.split(';').map(declaration => {
+    const [property, ...value] = declaration.split(':');
+    return [property?.trim().toLowerCase(), value.join(':').trim()];
+  }).filter(([property, value]) => property && value));
+
+const styleFromCss = (css: string): RunStyle => {
+  const declarations = parseDeclarations(css);
+  const decoration = declarations['text-decoration'] ?? '';
+  const verticalAlign = declarations['vertical-align'];
+
+  return {
+    ...(/bold|[6-9]00/.test(declarations['font-weight'] ?? '') && { bold: true }),
+    ...(declarations['font-style'] === 'italic' && { italic: true }),
+    ...(decoration.includes('underline') && { underline: true }),
+    ...(decoration.includes('line-through') && { strikethrough: true }),
+    ...(verticalAlign === 'super' && { superscript: true }),
+    ...(verticalAlign === 'sub' && { subscript: true }),
+  };
+};
+
+/**
+ * Text of inline content with its formatting: emphasis elements, inline
+ * styles and links to other documents become runs, and whitespace collapses
+ * as in collapseWhitespace
+ */
+const readStyledText = (nodes: Node[]): StyledText => {
+  let text = '';
+  const runs: StyleRun[] = [];
+
+  const visit = (node: Node, style: RunStyle) => {
+    if (node.nodeType === NodeType.TEXT_NODE) {
+      const start = text.length;
+      text += node.text;
+      if (hasStyle(style) && text.length > start) runs.push({ start, end: text.length, ...style });
+      return;
+    }
+    if (node.nodeType !== NodeType.ELEMENT_NODE) return;
+
+    const element = node as HTMLElement;
+    const tag = tagOf(element);
+    // Links within the page (footnote references, anchors) are not kept
+    const href = tag === 'a' ? element.getAttribute('href')?.trim() : undefined;
+    const nested: RunStyle = {
+      ...style,
+      ...INLINE_STYLES[tag],
+      ...styleFromCss(element.getAttribute('style') ?? ''),
+      ...(href && !href.startsWith('#') && { link: href }),
+    };
+    element.childNodes.forEach(child => visit(child, nested));
+  };
+
+  nodes.forEach(node => visit(node, {}));
+  const collapsed = collapseStyledText({ text, runs });
+  return { text: collapsed.text, runs: normalizeStyleRuns(collapsed.runs, collapsed.text.length) };
+};
+
+/**
+ * Collects fonts from <style> rules and inline style attributes
+ * Rules targeting h1-h6 count as heading fonts; everything else as body fonts
+ */
+const extractFonts = (root: HTMLElement): Font[] => {
+  const fonts = new Map<string, Font>();
+
+  const addFont = (declarations: Record<string, string>, isHeading: boolean, headingLevel?: number) => {
+    const family = declarations['font-family']?.split(',')[0]?.replace(/['"]/g, '').trim();
+    if (!family) return;
+
+    const size = parseFontSize(declarations['font-size'])
+      ?? (isHeading ? HEADING_FONT_SIZES[(headingLevel ?? 1) - 1] : DEFAULT_FONT_SIZE);
+    const key = `${family}:${size}`;
+    const existing = fonts.get(key);
+    const weight = /bold|[6-9]00/.test(declarations['font-weight'] ?? '') ? 'bold' : undefined;
+    const style = declarations['font-style'] === 'italic' ? 'italic' : undefined;
+
+    fonts.set(key, {
+      name: family,
+      size,
+      isUsedForHeadings: (existing?.isUsedForHeadings ?? false) || isHeading,
+      isUsedForBody: (existing?.isUsedForBody ?? false) || !isHeading,
+      ...(weight && { weight }),
+      ...(style && { style }),
+    });
+  };
+
+  for (const styleTag of root.querySelectorAll('style')) {
+    for (const [, selector, body] of styleTag.text.matchAll(/([^{}]+)\{([^}]*)\}/g)) {
+      const headingLevel = selector.match(/\bh([1-6])\b/)?.[1];
+      addFont(parseDeclarations(body), Boolean(headingLevel), headingLevel ? Number(headingLevel) : undefined);
+    }
+  }
+
+  for (const element of root.querySelectorAll('[style]')) {
+    const headingLevel = HEADING_TAGS.indexOf(tagOf(element)) + 1;
+    addFont(parseDeclarations(element.getAttribute('style') ?? ''), headingLevel > 0, headingLevel || undefined);
+  }
+
+  return Array.from(fonts.values());
+};
+
+const extractStyles = (root: HTMLElement): LocalExtraction['styles'] => {
+  const has = (selector: string) => root.querySelector(selector) !== null;
+  const inlineCss = root.querySelectorAll('[style]').map(element => element.getAttribute('style') ?? '').join(';');
+
+  return {
+    hasBold: has('b, strong') || /font-weight:\s*(bold|[6-9]00)/.test(inlineCss),
+    hasItalic: has('i, em') || /font-style:\s*italic/.test(inlineCss),
+    hasUnderline: has('u, ins') || /text-decoration[^;]*underline/.test(inlineCss),
+    hasStrikethrough: has('s, del, strike') || /text-decoration[^;]*line-through/.test(inlineCss),
+    hasHighlight: has('mark') || /background(-color)?:\s*(yellow|#ff0)/i.test(inlineCss),
+    hasSuperscript: has('sup'),
+    hasSubscript: has('sub'),
+  };
+};
+
+const extractProperties = (root: HTMLElement): LocalExtraction['properties'] => {
+  const meta = (name: string) =>
+    root.querySelector(`meta[name="${name}"]`)?.getAttribute('content')?.trim() || undefined;
+  const keywords = meta('keywords')?.split(',').map(keyword => keyword.trim()).filter(Boolean);
+  const language = root.querySelector('html')?.getAttribute('lang')?.split('-')[0];
+
+  const properties: LocalExtraction['properties'] = {
+    title: collapseWhitespace(root.querySelector('title')?.text ?? '') || undefined,
+    author: meta('author'),
+    subject: meta('description'),
+    keywords: keywords?.length ? keywords : undefined,
+    language: language || undefined,
+    producer: meta('generator'),
+  };
+
+  return Object.fromEntries(Object.entries(properties).filter(([, value]) => value !== undefined));
+};
+
+/**
+ * Walks an HTML document and maps semantic elements onto parser sections
+ */
+export const extractFromHtml = (html: string): LocalExtraction => {
+  const root = parse(html, { blockTextElements: { script: false, style: true, pre: true, noscript: false } });
+  const sections: DocumentSection[] = [];
+  const footnotes: NonNullable<LocalExtraction['footnotes']> = [];
+
+  const addSection = (type: DocumentSection['type'], content: string, level?: number): DocumentSection | undefined => {
+    if (!content.trim() && type !== 'image') return undefined;
+    const section: DocumentSection = {
+      type,
+      ...(level !== undefined && { level }),
+      content,
+      position: { page: 1, order: sections.length + 1 },
+    };
+    sections.push(section);
+    return section;
+  };
+
+  const addStyledSection = (type: DocumentSection['type'], { text, runs }: StyledText, level?: number) => {
+    const section = addSection(type, text, level);
+    if (section && runs.length) section.runs = runs;
+    return section;
+  };
+
+  const walk = (element: HTMLElement) => {
+    let inlineNodes: Node[] = [];
+    const flushInline = () => {
+      addStyledSection('paragraph', readStyledText(inlineNodes));
+      inlineNodes = [];
+    };
+
+    for (const child of element.childNodes) {
+      const tag = tagOf(child);
+
+      if (child.nodeType === NodeType.TEXT_NODE || (tag && !BLOCK_TAGS.includes(tag) && !SKIPPED_TAGS.includes(tag))) {
+        inlineNodes.push(child);
+        continue;
+      }
+      if (!tag || SKIPPED_TAGS.includes(tag)) continue;
+
+      flushInline();
+      const node = child as HTMLElement;
+
+      if (HEADING_TAGS.includes(tag)) {
+        addStyledSection('heading', readStyledText([node]), Number(tag[1]));
+      } else if (tag === 'ul' || tag === 'ol') {
+        if (isFootnoteList(node)) {
+          footnotes.push(...extractFootnotes(node));
+        } else {
+          addSection('list', listToLines(node).join('\n'));
+        }
+      } else if (tag === 'table') {
+        const table = extractTable(node);
+        const section = addSection('table', tableToText(table));
+        const caption = node.querySelector('caption');
+        const captionSection = caption && addStyledSection('caption', readStyledText([caption]));
+        if (section) {
+          section.table = captionSection ? { ...table, captionOrder: captionSection.position.order } : table;
+        }
+      } else if (tag === 'img') {
+        addSection('image', node.getAttribute('alt')?.trim() ?? '');
+      } else if (tag === 'figcaption') {
+        addStyledSection('caption', readStyledText([node]));
+      } else if ((tag === 'header' || tag === 'footer') && !hasBlockChildren(node)) {
+        addStyledSection(tag, readStyledText([node]));
+      } else if (tag === 'pre') {
+        addSection('paragraph', node.text.replace(/\n+$/, ''));
+      } else if (tag === 'hr') {
+        continue;
+      } else if (hasBlockChildren(node)) {
+        walk(node);
+      } else {
+        addStyledSection('paragraph', readStyledText([node]));
+      }
+    }
+
+    flushInline();
+  };
+
+  walk(root.querySelector('body') ?? root);
+
+  return {
+    sections,
+    footnotes,
+    fonts: extractFonts(root),
+    styles: extractStyles(root),
+    properties: extractProperties(root),
+  };
+};
+
+export const htmlAdapter: InputAdapter = {
+  id: 'html',
+  label: 'HTML',
+  mimeTypes: ['text/html', 'application/xhtml+xml'],
+  extensions: ['.html', '.htm', '.xhtml'],
+  requiresModel: false,
+  validateContent: async (input) => {
+    assertTextContent(input, 'HTML');
+    return input;
+  },
+  parse: async (input) => buildLocalResult(input, extractFromHtml(decodeText(input.data))),
+};
@@ -0,0 +1,95 @@
+import { describe, expect, it } from '@jest/globals';
+import type { DocumentInput } from '@/lib/document-parser';
+import { renderDocumentDocx } from '@/lib/output-formatter';
+import { createTestDocument } from '@/test/documents';
+import { findInputAdapter } from './index';
+
+const toInput = (filename: string, mimeType: string, data: string | Uint8Array): DocumentInput => {
+  const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+  return { filename, mimeType, fileSize: bytes.byteLength, data: bytes };
+};
+
+const parse = async (input: DocumentInput) => {
+  const adapter = findInputAdapter(input.mimeType, input.filename);
+  if (!adapter) throw new Error(`No adapter for ${input.filename}`);
+  return adapter.parse(input, {});
+};
+
+describe('findInputAdapter', () => {
+  it('prefers the file extension over a generic MIME type', () => {
+    expect(findInputAdapter('application/octet-stream', 'notes.MD')?.id).toBe('markdown');
+    expect(findInputAdapter('text/plain', 'page.html')?.id).toBe('html');
+  });
+
+  it('falls back to the MIME type without its parameters', () => {
+    expect(findInputAdapter('text/html; charset=utf-8', 'upload')?.id).toBe('html');
+    expect(findInputAdapter('application/zip', 'archive')).toBeUndefined();
+  });
+});
+
+describe('local input adapters', () => {
+  it('reads headings, lists and paragraphs from plain text', async () => {
+    const result = await parse(toInput('notes.txt', 'text/plain', 'Release notes\n=============\n\n- Faster parsing\n- New exports\n\nThanks for\nupdating.'));
+
+    expect(result.structure.sections.map(({ type, level, content }) => ({ type, level, content }))).toEqual([
+      { type: 'heading', level: 1, content: 'Release notes' },
+      { type: 'list', level: undefined, content: '- Faster parsing\n- New exports' },
+      { type: 'paragraph', level: undefined, content: 'Thanks for\nupdating.' },
+    ]);
+    expect(result.metadata).toMatchObject({ title: 'Release notes', pageCount: 1 });
+  });
+
+  it('takes Markdown front matter as properties and keeps emphasis and tables', async () => {
+    const markdown = [
+      '---',
+      'title: Quarterly update',
+      'lang: en',
+      '---',
+      '# Results',
+      '',
+      'Sales were **strong** this quarter.',
+      '',
+      '| Region | Sales |',
+      '| --- | --- |',
+      '| North | 120 |',
+    ].join('\n');
+    const result = await parse(toInput('update.md', '', markdown));
+
+    const [heading, paragraph, table] = result.structure.sections;
+    expect(result.metadata).toMatchObject({ title: 'Quarterly update', language: 'en' });
+    expect(heading).toMatchObject({ type: 'heading', level: 1, content: 'Results' });
+    expect(paragraph.content).toBe('Sales were strong this quarter.');
+    expect(paragraph.runs).toEqual([{ start: 11, end: 17, bold: true }]);
+    expect(table.table?.rows.map(row => row.map(cell => cell.content))).toEqual([['Region', 'Sales'], ['North', '120']]);
+    expect(table.table?.headerRows).toBe(1);
+  });
+
+  it('maps HTML blocks and skips scripts and styles', async () => {
+    const html = '<html><head><title>Guide</title><style>p { color: red }</style></head><body>'
+      + '<h2>Setup</h2><p>Run the <em>installer</em> first.</p><script>alert(1)</script>'
+      + '<ol><li>Download</li><li>Install<ul><li>Restart</li></ul></li></ol></body></html>';
+    const result = await parse(toInput('guide.html', 'text/html', html));
+
+    expect(result.structure.sections.map(({ type, content }) => [type, content])).toEqual([
+      ['heading', 'Setup'],
+      ['paragraph', 'Run the installer first.'],
+      ['list', '1. Download\n2. Install\n  - Restart'],
+    ]);
+    expect(result.structure.sections[1].runs).toEqual([{ start: 8, end: 17, italic: true }]);
+    expect(result.extractedText).not.toContain('alert');
+  });
+
+  it('reads back headings and bold text from a Word document', async () => {
+    const document = createTestDocument([
+      { type: 'heading', level: 1, content: 'Contract' },
+      { type: 'paragraph', content: 'Payment is due within 30 days.', runs: [{ start: 22, end: 29, bold: true }] },
+    ]);
+    const docx = await renderDocumentDocx(document);
+    const result = await parse(toInput('contract.docx', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document', docx));
+
+    const [heading, paragraph] = result.structure.sections;
+    expect(heading).toMatchObject({ type: 'heading', level: 1, content: 'Contract' });
+    expect(paragraph).toMatchObject({ type: 'paragraph', content: 'Payment is due within 30 days.' });
+    expect(paragraph.runs).toEqual([{ start: 22, end: 29, bold: true }]);
+  });
+});
@@ -0,0 +1,38 @@
+import { docxAdapter } from './docx-adapter';
+import { htmlAdapter } from './html-adapter';
+import { markdownAdapter } from './markdown-adapter';
+import { pdfAdapter } from './pdf-adapter';
+import { textAdapter } from './text-adapter';
+import { InputAdapter } from './types';
+
+export type { InputAdapter } from './types';
+
+const adapters: InputAdapter[] = [pdfAdapter, docxAdapter, htmlAdapter, markdownAdapter, textAdapter];
+
+/**
+ * Adds an input adapter; later registrations win for shared extensions or MIME types
+ */
+export const registerInputAdapter = (adapter: InputAdapter): void => {
+  const existing = adapters.findIndex(registered => registered.id === adapter.id);
+  if (existing >= 0) {
+    adapters.splice(existing, 1);
+  }
+  adapters.unshift(adapter);
+};
+
+export const getInputAdapters = (): readonly InputAdapter[] => adapters;
+
+const getExtension = (filename: string): string => {
+  const dot = filename.lastIndexOf('.');
+  return dot >= 0 ? filename.slice(dot).toLowerCase() : '';
+};
+
+/**
+ * Finds the adapter for a file; the extension wins because browsers often send
+ * generic or empty MIME types for Markdown and text files
+ */
+export const findInputAdapter = (mimeType: string, filename: string): InputAdapter | undefined => {
+  const extension = getExtension(filename);
+  return adapters.find(adapter => adapter.extensions.includes(extension))
+    ?? adapters.find(adapter => adapter.mimeTypes.includes(mimeType.split(';')[0].trim().toLowerCase()));
+};
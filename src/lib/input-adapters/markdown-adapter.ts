@@ -0,0 +1,50 @@
+import { marked } from 'marked';
+import { assertTextContent } from '@/lib/content-validation';
+import { buildLocalResult, decodeText } from './build-result';
+import { extractFromHtml } from './html-adapter';
+import { InputAdapter } from './types';
+
+// YAML front matter holds document properties rather than content
+const FRONT_MATTER_PATTERN = /^---\r?\n([\s\S]*?)\r?\n---\r?\n/;
+
+const readFrontMatter = (markdown: string): { body: string; properties: Record<string, string> } => {
+  const match = markdown.match(FRONT_MATTER_PATTERN);
+  if (!match) return { body: markdown, properties: {} };
+
+  const properties = Object.fromEntries(match[1].split('\n').map(line => {
+    const [key, ...value] = line.split(':');
+    return [key.trim().toLowerCase(), value.join(':').trim().replace(/^['"]|['"]$/g, '')];
+  }).filter(([key, value]) => key && value));
+
+  return { body: markdown.slice(match[0].length), properties };
+};
+
+/**
+ * Markdown is rendered to HTML (GitHub flavoured) and mapped by the HTML walker
+ */
+export const markdownAdapter: InputAdapter = {
+  id: 'markdown',
+  label: 'Markdown',
+  mimeTypes: ['text/markdown', 'text/x-markdown'],
+  extensions: ['.md', '.markdown'],
+  requiresModel: false,
+  validateContent: async (input) => {
+    assertTextContent(input, 'Markdown');
+    return input;
+  },
+  parse: async (input) => {
+    const { body, properties } = readFrontMatter(decodeText(input.data));
+    const extraction = extractFromHtml(marked.parse(body, { async: false, gfm: true }));
+
+    return buildLocalResult(input, {
+      ...extraction,
+      properties: {
+        ...extraction.properties,
+        ...(properties.title && { title: properties.title }),
+        ...(properties.author && { author: properties.author }),
+        ...(properties.description && { subject: properties.description }),
+        ...(properties.lang && { language: properties.lang }),
+      },
+    });
+  },
+};
@@ -0,0 +1,305 @@
+import { streamObject, type CoreUserMessage } from 'ai';
+import { mapWithConcurrency } from '@/lib/concurrency';
+import { validateParseResult } from '@/lib/consistency';
+import type { DocumentInput, ParseDocumentOptions } from '@/lib/document-parser';
+import { resolveModel, ResolvedModel } from '@/lib/models';
+import { logger } from '@/lib/observability/logger';
+import { sha256 } from '@/lib/parse-cache/key';
+import { getPageRanges, getPdfChunkingOptions, mergeChunkResults, PageRange, PdfChunkResult, splitPdf } from '@/lib/pdf-chunking';
+import { applyPdfInspection, describePdfInspection, inspectPdf, PdfInspection } from '@/lib/pdf-inspection';
+import { findScannedPages, getOcrOptions, mergeOcrPages, OcrPage, recognizePdfPages, summarizeOcrPages } from '@/lib/pdf-ocr';
+import { extractPdfPageTexts } from '@/lib/pdf-text';
+import { validatePdf } from '@/lib/pdf-validation';
+import { DocumentProcessingError } from '@/lib/processing-errors';
+import { normalizeSectionLayout } from '@/lib/sections';
+import { normalizeTableSections } from '@/lib/tables';
+import { documentParserModelSchema } from '@/lib/schema/document-parser';
+import { DocumentParserModelResult, DocumentParserResult, PartialDocumentParserResult } from '@/lib/types';
+import { buildLocalResult, LocalExtraction } from './build-result';
+import { InputAdapter } from './types';
+
+/**
+ * What the model receives for one page range: the PDF itself, or its text
+ * layer for text-only models
+ */
+type ExtractionPart = {
+  range: PageRange;
+  content: { type: 'file'; data: ArrayBuffer | Uint8Array } | { type: 'text'; text: string };
+};
+
+// Page numbers in a chunk are reported relative to the chunk and shifted when merging
+const describeChunk = (chunk: PageRange, totalPages: number): string => `
+
+This file contains pages ${chunk.startPage}-${chunk.endPage} of a ${totalPages}-page document.
+Report section, footnote and page break page numbers relative to this file (its first page is page 1).
+Only report a table of contents if one is printed in these pages, keeping its page numbers as printed.`;
+
+const TEXT_ONLY_NOTE = `
+
+The PDF file is not attached; its text layer is given below, one block per page.
+Infer structure from the text, and estimate fonts and layout conservatively.`;
+
+const buildExtractionPrompt = (
+  { filename, fileSize }: DocumentInput,
+  inspection: PdfInspection | null,
+  chunk?: PageRange,
+  textOnly = false
+): string => {
+  const facts = inspection && chunk ? { ...inspection, pageCount: chunk.pageCount } : inspection;
+  const knownFacts = facts
+    ? `\n\nFacts read directly from the file (authoritative):\n${describePdfInspection(facts)}`
+    : '';
+  const chunkNote = chunk && inspection ? describeChunk(chunk, inspection.pageCount) : '';
+
+  return `Please analyze this PDF document comprehensively and extract:
+
+1. **Text Content**: Complete text extraction preserving structure
+2. **Document Structure**: Identify headings, paragraphs, lists, tables, images, headers, footers
+3. **Formatting Information**: Fonts, text styles (bold, italic, etc.), layout details
+4. **Metadata**: Language detection, title, author, page count, creation date, quality assessment
+
+Extract all content while preserving:
+- Hierarchical structure (headings levels, section organization)
+- Page layout information (columns, margins, orientation)
+- Text formatting (fonts, styles, emphasis)
+- Document properties and metadata
+
+For each section, identify its type, content, and position within the document. For tables, also fill in the table with every row and cell, marking header cells, row and column spans and the number of header rows and columns, and write the rows as pipe-separated lines in the content. Give each section its bounding box in points from the top-left corner of the page, the index of its font in the fonts list, and runs for bold, italic, underlined, struck-through, superscript, subscript and linked text, with character offsets into the section content. Analyze the document quality and provide confidence scores for the extraction.
+
+Filename: ${filename}
+File size: ${fileSize} bytes${knownFacts}${chunkNote}${textOnly ? TEXT_ONLY_NOTE : ''}`;
+};
+
+// Local pre-pass; a file pdf-lib cannot read is still handed to the model
+const inspectInput = async (input: DocumentInput): Promise<PdfInspection | null> => {
+  try {
+    return await inspectPdf(input.data);
+  } catch (error) {
+    logger.warn('PDF inspection failed', { filename: input.filename, error });
+    return null;
+  }
+};
+
+// Document properties taken over from the file when the result is built without the model
+const FILE_PROPERTIES = ['title', 'author', 'subject', 'keywords', 'creationDate', 'lastModified', 'producer'] as const;
+
+/**
+ * Reads the text layer of every page
+ * Models with native PDF input can still read a file pdf.js cannot, so for
+ * them a failure only skips the OCR fallback (null)
+ */
+const readPageTexts = async (input: DocumentInput, { capabilities }: ResolvedModel): Promise<string[] | null> => {
+  try {
+    return await extractPdfPageTexts(input.data);
+  } catch (error) {
+    if (!capabilities.pdfInput) {
+      throw new DocumentProcessingError('Could not read the text of this PDF. The file may be damaged or password-protected.', 422);
+    }
+    logger.warn('Text layer extraction failed', { filename: input.filename, error });
+    return null;
+  }
+};
+
+const formatPageTexts = (pages: string[], range: PageRange): string =>
+  pages
+    .slice(range.startPage - 1, range.endPage)
+    .map((text, index) => `--- Page ${index + 1} ---\n${text}`)
+    .join('\n\n');
+
+/**
+ * Splits the document into the parts sent to the model
+ * Text-only models get the text layer, with OCR text on scanned pages; PDFs
+ * longer than the chunk size are split into page ranges, except encrypted
+ * files which are always sent whole
+ */
+const prepareParts = async (
+  input: DocumentInput,
+  inspection: PdfInspection | null,
+  { capabilities }: ResolvedModel,
+  chunkPages: number,
+  pageTexts: string[] | null,
+  ocrPages: OcrPage[]
+): Promise<ExtractionPart[]> => {
+  if (!capabilities.pdfInput && pageTexts) {
+    const ocrTexts = new Map(ocrPages.map(ocr => [ocr.page, ocr.text]));
+    const pages = pageTexts.map((text, index) => ocrTexts.get(index + 1) ?? text);
+    return getPageRanges(pages.length, chunkPages).map(range => ({
+      range,
+      content: { type: 'text', text: formatPageTexts(pages, range) },
+    }));
+  }
+
+  if (inspection && !inspection.isEncrypted && inspection.pageCount > chunkPages) {
+    const chunks = await splitPdf(input.data, chunkPages);
+    return chunks.map(({ data, ...range }) => ({ range, content: { type: 'file', data } }));
+  }
+
+  const pageCount = inspection?.pageCount ?? 1;
+  return [{ range: { startPage: 1, endPage: pageCount, pageCount }, content: { type: 'file', data: input.data } }];
+};
+
+/**
+ * Assembles the result of a document without any text layer from OCR alone,
+ * without calling the model
+ */
+const buildOcrResult = (input: DocumentInput, inspection: PdfInspection | null, ocrPages: OcrPage[]): DocumentParserResult => {
+  const properties = Object.fromEntries(
+    FILE_PROPERTIES.flatMap(key => (inspection?.[key] !== undefined ? [[key, inspection[key]]] : []))
+  ) as LocalExtraction['properties'];
+
+  const result = buildLocalResult(input, {
+    sections: ocrPages.flatMap(ocr => ocr.sections),
+    pageCount: inspection?.pageCount ?? ocrPages.length,
+    properties,
+  });
+  const pageSize = inspection?.pageSize;
+
+  return mergeOcrPages({
+    ...result,
+    formatting: { ...result.formatting, layout: { ...result.formatting.layout, ...(pageSize && { pageSize }) } },
+    metadata: {
+      ...result.metadata,
+      ...summarizeOcrPages(ocrPages),
+      ...(inspection && { pdfVersion: inspection.pdfVersion, hasFormFields: inspection.hasFormFields }),
+      hasImages: true,
+      sources: { ...result.metadata.sources, ...(inspection && { pdfVersion: 'file', hasFormFields: 'file' }) },
+    },
+  }, ocrPages);
+};
+
+/**
+ * Streams the structured result of one part from the model
+ * Partial objects are passed on as they grow; the finished object is
+ * validated against the schema, and errors that break the stream are thrown
+ */
+const extractWithModel = async (
+  input: DocumentInput,
+  inspection: PdfInspection | null,
+  { model, capabilities }: ResolvedModel,
+  part: ExtractionPart,
+  chunked: boolean,
+  abortSignal?: AbortSignal,
+  onPartial?: (partial: PartialDocumentParserResult) => void
+): Promise<DocumentParserModelResult> => {
+  const chunk = chunked ? part.range : undefined;
+  const prompt = buildExtractionPrompt(input, inspection, chunk, part.content.type === 'text');
+
+  const content: CoreUserMessage['content'] = part.content.type === 'file'
+    ? [
+      { type: 'text', text: prompt },
+      { type: 'file', data: part.content.data, mimeType: input.mimeType, filename: input.filename },
+    ]
+    : [
+      { type: 'text', text: prompt },
+      { type: 'text', text: part.content.text },
+    ];
+
+  const result = streamObject({
+    model,
+    schema: documentParserModelSchema,
+    // Models without schema-constrained decoding are prompted for JSON instead
+    mode: capabilities.structuredOutput ? 'auto' : 'json',
+    messages: [{ role: 'user', content }],
+    temperature: 0, // Deterministic for document parsing
+    abortSignal,
+  });
+
+  for await (const event of result.fullStream) {
+    if (event.type === 'error') throw event.error;
+    // Partial JSON parsing never leaves holes in arrays, unlike what the SDK's type allows
+    if (event.type === 'object') onPartial?.(event.object as PartialDocumentParserResult);
+  }
+  return result.object;
+};
+
+/**
+ * Extracts comprehensive document data with the configured parse model
+ * (Gemini by default), sending the PDF natively or its text layer depending
+ * on the model's capabilities
+ * Large documents are parsed in page-range chunks, in parallel (bounded), and merged
+ * Pages without a text layer are read with local OCR: a document with no
+ * text layer at all is built from OCR alone, and on mixed documents the OCR
+ * text fills in the scanned pages (in the prompt for text-only models, and
+ * wherever the model returned no text)
+ * File-level metadata (filename, size, extraction time) is filled in locally,
+ * facts readable from the PDF itself override the model's guesses, tables
+ * the model only wrote out as text are read into rows and cells, and style
+ * runs, font references and bounding boxes are checked against the result
+ * Finally the consistency check repairs page numbers, orders, heading levels
+ * and counts, and reports what it changed in `warnings`
+ */
+export const parsePdfWithModel = async (
+  input: DocumentInput,
+  { model, abortSignal, onProgress, onPartial }: ParseDocumentOptions = {}
+): Promise<DocumentParserResult> => {
+  const resolved = model ?? resolveModel(undefined, 'parse');
+  const inspection = await inspectInput(input);
+  const { chunkPages, concurrency } = getPdfChunkingOptions();
+
+  const pageTexts = await readPageTexts(input, resolved);
+  const scannedPages = pageTexts ? findScannedPages(pageTexts) : [];
+  const ocrPages = await recognizePdfPages(input.data, scannedPages, abortSignal);
+
+  if (pageTexts?.length && scannedPages.length === pageTexts.length) {
+    return validateParseResult(buildOcrResult(input, inspection, ocrPages));
+  }
+
+  const parts = await prepareParts(input, inspection, resolved, chunkPages, pageTexts, ocrPages);
+  const chunked = parts.length > 1;
+  let completed = 0;
+
+  // A single part streams its partial object; chunked parses report the
+  // merged chunks finished so far, since chunk page numbers are relative
+  const finished: PdfChunkResult[] = [];
+  const results = await mapWithConcurrency(parts, concurrency, async part => {
+    abortSignal?.throwIfAborted();
+    const result = await extractWithModel(
+      input, inspection, resolved, part, chunked, abortSignal, chunked ? undefined : onPartial
+    );
+    if (chunked) {
+      onProgress?.(++completed, parts.length);
+      finished.push({ chunk: part.range, result });
+      onPartial?.(mergeChunkResults([...finished].sort((a, b) => a.chunk.startPage - b.chunk.startPage)));
+    }
+    return { chunk: part.range, result };
+  });
+  const object = chunked ? mergeChunkResults(results) : results[0].result;
+
+  const sections = normalizeSectionLayout(object.structure.sections, object.formatting.fonts.length);
+  const pageSize = inspection?.pageSize ?? object.formatting.layout.pageSize;
+
+  return validateParseResult(mergeOcrPages({
+    ...object,
+    structure: { ...object.structure, sections: normalizeTableSections(sections) },
+    formatting: { ...object.formatting, layout: { ...object.formatting.layout, ...(pageSize && { pageSize }) } },
+    metadata: applyPdfInspection({
+      ...object.metadata,
+      filename: input.filename,
+      fileSize: input.fileSize,
+      extractedAt: new Date().toISOString(),
+    }, inspection),
+  }, ocrPages));
+};
+
+// Prompt for a fixed sample that includes every optional part: file facts, chunk note and text-only note
+const SAMPLE_PROMPT = buildExtractionPrompt(
+  { filename: 'document.pdf', fileSize: 1024, mimeType: 'application/pdf', data: new Uint8Array() },
+  { pageCount: 2, pdfVersion: '1.7', title: 'Title', author: 'Author', hasFormFields: true, isEncrypted: false, pageSize: { width: 612, height: 792 } },
+  { startPage: 1, endPage: 1, pageCount: 1 },
+  true
+);
+
+// Hashes the rendered prompt rather than the source of the functions building it, so rebuilds
+// and minification keep the cache; editing the prompt or changing the OCR languages invalidates it
+const PROMPT_VERSION = sha256(SAMPLE_PROMPT + getOcrOptions().languages.join('+'));
+
+export const pdfAdapter: InputAdapter = {
+  id: 'pdf',
+  label: 'PDF',
+  mimeTypes: ['application/pdf'],
+  extensions: ['.pdf'],
+  requiresModel: true,
+  cacheVersion: PROMPT_VERSION,
+  validateContent: validatePdf,
+  parse: parsePdfWithModel,
+};
@@ -0,0 +1,52 @@
+import { assertTextContent } from '@/lib/content-validation';
+import { DocumentSection } from '@/lib/types';
+import { buildLocalResult, decodeText, LocalExtraction } from './build-result';
+import { InputAdapter } from './types';
+
+const LIST_ITEM_PATTERN = /^\s*([-*•]|\d+[.)])\s+/;
+
+/**
+ * Splits plain text into blocks separated by blank lines
+ * Setext-style underlines (=== / ---) mark headings and bulleted blocks become lists
+ */
+export const extractFromText = (text: string): LocalExtraction => {
+  const sections: DocumentSection[] = [];
+  const blocks = text.replace(/\r\n?/g, '\n').split(/\n\s*\n/).map(block => block.replace(/\s+$/, '')).filter(Boolean);
+
+  const addSection = (type: DocumentSection['type'], content: string, level?: number) => {
+    sections.push({
+      type,
+      ...(level !== undefined && { level }),
+      content,
+      position: { page: 1, order: sections.length + 1 },
+    });
+  };
+
+  for (const block of blocks) {
+    const lines = block.split('\n');
+    const underline = lines[1]?.trim();
+
+    if (lines.length === 2 && underline && /^(=+|-+)$/.test(underline)) {
+      addSection('heading', lines[0].trim(), underline.startsWith('=') ? 1 : 2);
+    } else if (lines.every(line => LIST_ITEM_PATTERN.test(line))) {
+      addSection('list', lines.map(line => line.trim()).join('\n'));
+    } else {
+      addSection('paragraph', lines.map(line => line.trim()).join('\n'));
+    }
+  }
+
+  return { sections };
+};
+
+export const textAdapter: InputAdapter = {
+  id: 'text',
+  label: 'Plain text',
+  mimeTypes: ['text/plain'],
+  extensions: ['.txt', '.text'],
+  requiresModel: false,
+  validateContent: async (input) => {
+    assertTextContent(input, 'text');
+    return input;
+  },
+  parse: async (input) => buildLocalResult(input, extractFromText(decodeText(input.data))),
+};
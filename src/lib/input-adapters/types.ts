@@ -0,0 +1,22 @@
+import type { ContentValidationOptions } from '@/lib/content-validation';
+import type { DocumentInput, ParseDocumentOptions } from '@/lib/document-parser';
+import { DocumentParserResult } from '@/lib/types';
+
+/**
+ * Converts one input format into a DocumentParserResult
+ * Adapters are registered by MIME type and file extension
+ */
+export type InputAdapter = {
+  id: string;
+  label: string;
+  mimeTypes: string[];
+  extensions: string[];
+  // Whether parsing calls a language model (and therefore needs provider credentials)
+  requiresModel: boolean;
+  // Fingerprint of the prompt sent to the model; model-parsed results are cached per version
+  cacheVersion?: string;
+  // Checks an upload's bytes before it is accepted for parsing; may return the
+  // input to parse in its place, such as the decrypted copy of a PDF
+  validateContent?: (input: DocumentInput, options: ContentValidationOptions) => Promise<DocumentInput>;
+  parse: (input: DocumentInput, options: ParseDocumentOptions) => Promise<DocumentParserResult>;
+};
@@ -0,0 +1,79 @@
+import JSZip from 'jszip';
+import { logger } from '@/lib/observability/logger';
+import type { DocumentExporter } from '@/lib/output-formatter';
+import { BatchSummary } from '@/lib/types';
+import { jobStore } from './job-store';
+
+const CSV_COLUMNS = ['filename', 'status', 'language', 'textQuality', 'extractionConfidence', 'pageCount', 'error'] as const;
+
+const escapeCsv = (value: unknown): string => {
+  const text = value === undefined ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (batch: BatchSummary): string =>
+  [
+    CSV_COLUMNS.join(','),
+    ...batch.files.map(file => CSV_COLUMNS
+      .map(column => escapeCsv(column === 'error' ? file.error?.message : file[column]))
+      .join(',')),
+  ].join('\n') + '\n';
+
+// Archive paths keep the folders of unpacked files but never climb out of the archive
+const toArchivePath = (filename: string): string =>
+  filename
+    .replace(/\\/g, '/')
+    .split('/')
+    .filter(segment => segment && segment !== '.' && segment !== '..')
+    .join('/')
+    .replace(/\.[^./]+$/, '') || 'document';
+
+/**
+ * Packs the results of a batch into one ZIP archive, reading the results as
+ * the client the batch belongs to
+ *
+ * - `summary.json` and `summary.csv`: the batch summary and one row per file
+ * - `results/<name>.json`: the parse result of every completed file
+ * - `<format>/<name>.<ext>`: each result rendered with the exporter, if given
+ *
+ * Files that share a name apart from the extension get a numeric suffix; a
+ * result the exporter fails on is listed in `summary.json` under
+ * `exportFailures` and left out
+ */
+export const buildBatchArchive = async (
+  batch: BatchSummary,
+  clientId: string,
+  exporter?: DocumentExporter
+): Promise<Uint8Array> => {
+  const zip = new JSZip();
+  const usedPaths = new Set<string>();
+  const exportFailures: { filename: string; message: string }[] = [];
+
+  for (const file of batch.files) {
+    const result = file.jobId && file.status === 'completed' ? jobStore.getResult(file.jobId, clientId) : undefined;
+    if (!result) continue;
+
+    const basePath = toArchivePath(file.filename);
+    let archivePath = basePath;
+    for (let suffix = 2; usedPaths.has(archivePath); suffix++) {
+      archivePath = `${basePath}-${suffix}`;
+    }
+    usedPaths.add(archivePath);
+
+    zip.file(`results/${archivePath}.json`, JSON.stringify(result, null, 2));
+
+    if (exporter) {
+      try {
+        zip.file(`${exporter.format}/${archivePath}.${exporter.extension}`, await exporter.render(result));
+      } catch (error) {
+        logger.error('Batch archive export failed', { format: exporter.format, filename: file.filename, error });
+        exportFailures.push({ filename: file.filename, message: error instanceof Error ? error.message : String(error) });
+      }
+    }
+  }
+
+  zip.file('summary.json', JSON.stringify({ ...batch, ...(exportFailures.length && { exportFailures }) }, null, 2));
+  zip.file('summary.csv', toCsv(batch));
+
+  return zip.generateAsync({ type: 'uint8array', compression: 'DEFLATE' });
+};
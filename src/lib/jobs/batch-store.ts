@@ -0,0 +1,157 @@
+import { randomUUID } from 'crypto';
+import { detectTextLanguage } from '@/lib/language-statistics';
+import { ProcessingErrorInfo } from '@/lib/processing-errors';
+import { BatchFile, BatchSummary, DocumentParserResult } from '@/lib/types';
+import { jobStore } from './job-store';
+import { isTerminalJobStatus } from './stages';
+
+// Finished batches are kept as long as their jobs
+const FINISHED_BATCH_TTL_MS = 60 * 60 * 1000;
+// Enough text to tell the language of documents whose format does not declare it
+const LANGUAGE_SAMPLE_LENGTH = 4000;
+
+/**
+ * A file of a batch: its parse job, or why it was rejected before parsing
+ */
+export type BatchEntry = {
+  filename: string;
+  jobId?: string;
+  error?: ProcessingErrorInfo;
+  // Language of the result, detected once it is available
+  language?: string | null;
+};
+
+type BatchRecord = {
+  id: string;
+  // API client that submitted the batch, and its jobs
+  clientId: string;
+  entries: BatchEntry[];
+  createdAt: string;
+};
+
+// The declared or parsed language, else the statistical guess from the text
+const getResultLanguage = (entry: BatchEntry, result: DocumentParserResult): string | undefined => {
+  if (entry.language === undefined) {
+    entry.language = result.metadata.language
+      ?? detectTextLanguage(result.extractedText.slice(0, LANGUAGE_SAMPLE_LENGTH))?.language
+      ?? null;
+  }
+  return entry.language ?? undefined;
+};
+
+// Jobs are evicted an hour after finishing, so a missing job has expired
+const toBatchFile = (entry: BatchEntry, clientId: string): BatchFile => {
+  const { filename, jobId, error } = entry;
+  if (!jobId) {
+    return { filename, status: 'failed', progress: 0, error };
+  }
+
+  const job = jobStore.get(jobId, clientId);
+  if (!job) {
+    return { filename, jobId, status: 'failed', progress: 0, error: { message: 'Job expired', status: 410 } };
+  }
+
+  const result = job.status === 'completed' ? jobStore.getResult(jobId, clientId) : undefined;
+  return {
+    filename,
+    jobId,
+    status: job.status,
+    progress: job.progress,
+    ...(job.error && { error: job.error }),
+    ...(result && {
+      language: getResultLanguage(entry, result),
+      textQuality: result.metadata.textQuality,
+      extractionConfidence: result.metadata.extractionConfidence,
+      pageCount: result.metadata.pageCount,
+    }),
+  };
+};
+
+const summarize = ({ id, clientId, entries, createdAt }: BatchRecord): BatchSummary => {
+  const files = entries.map(entry => toBatchFile(entry, clientId));
+  const count = (status: BatchFile['status']) => files.filter(file => file.status === status).length;
+  const pending = files.filter(file => !isTerminalJobStatus(file.status)).length;
+
+  const updatedAt = entries
+    .map(entry => (entry.jobId && jobStore.get(entry.jobId, clientId)?.updatedAt) || createdAt)
+    .reduce((latest, timestamp) => (timestamp > latest ? timestamp : latest), createdAt);
+
+  return {
+    id,
+    status: pending ? 'running' : 'completed',
+    files,
+    totals: {
+      files: files.length,
+      completed: count('completed'),
+      failed: count('failed'),
+      cancelled: count('cancelled'),
+      pending,
+    },
+    failures: files.flatMap(file => (file.status === 'failed'
+      ? [{ filename: file.filename, message: file.error?.message ?? 'Processing failed' }]
+      : [])),
+    createdAt,
+    updatedAt,
+  };
+};
+
+/**
+ * In-memory registry of batch uploads
+ * A batch only records its files; their status and results are read from the
+ * job store whenever the batch is summarised
+ * Like jobs, batches belong to the client that submitted them and read as
+ * missing for other clients
+ */
+const createBatchStore = () => {
+  const batches = new Map<string, BatchRecord>();
+
+  const evictExpired = () => {
+    const cutoff = Date.now() - FINISHED_BATCH_TTL_MS;
+    for (const [id, record] of batches) {
+      const summary = summarize(record);
+      if (summary.status === 'completed' && Date.parse(summary.updatedAt) < cutoff) {
+        batches.delete(id);
+      }
+    }
+  };
+
+  const findOwned = (id: string, clientId: string): BatchRecord | undefined => {
+    const record = batches.get(id);
+    return record?.clientId === clientId ? record : undefined;
+  };
+
+  return {
+    create: (entries: BatchEntry[], clientId: string): BatchSummary => {
+      evictExpired();
+
+      const record: BatchRecord = { id: randomUUID(), clientId, entries, createdAt: new Date().toISOString() };
+      batches.set(record.id, record);
+      return summarize(record);
+    },
+
+    get: (id: string, clientId: string): BatchSummary | undefined => {
+      const record = findOwned(id, clientId);
+      return record && summarize(record);
+    },
+
+    /**
+     * Cancels every file that is still queued or being parsed
+     */
+    cancel: (id: string, clientId: string): BatchSummary | undefined => {
+      const record = findOwned(id, clientId);
+      if (!record) return undefined;
+
+      for (const { jobId } of record.entries) {
+        if (jobId) jobStore.cancel(jobId, clientId);
+      }
+      return summarize(record);
+    },
+  };
+};
+
+export type BatchStore = ReturnType<typeof createBatchStore>;
+
+// Reuse one store across hot reloads in development
+const globalForBatches = globalThis as unknown as { batchStore?: BatchStore };
+
+export const batchStore = globalForBatches.batchStore ?? (globalForBatches.batchStore = createBatchStore());
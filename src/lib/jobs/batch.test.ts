@@ -0,0 +1,85 @@
+import { afterEach, describe, expect, it } from '@jest/globals';
+import JSZip from 'jszip';
+import { setEnv } from '@/test/env';
+import { batchStore } from './batch-store';
+import { expandUploads, startBatch } from './batch';
+
+const createArchive = async (entries: Record<string, string | Uint8Array>): Promise<File> => {
+  const zip = new JSZip();
+  for (const [name, content] of Object.entries(entries)) {
+    zip.file(name, content);
+  }
+  const data = await zip.generateAsync({ type: 'uint8array', compression: 'DEFLATE' });
+  return new File([data], 'documents.zip', { type: 'application/zip' });
+};
+
+describe('expandUploads', () => {
+  let restoreEnv: () => void = () => {};
+
+  afterEach(() => restoreEnv());
+
+  it('unpacks the documents of an archive, keeping their folder', async () => {
+    const archive = await createArchive({ 'notes/a.txt': 'first', 'b.txt': 'second', '.DS_Store': 'hidden' });
+
+    const uploads = await expandUploads([archive]);
+
+    expect(uploads.map(upload => ('file' in upload ? upload.file.name : upload.filename)).sort()).toEqual(['b.txt', 'notes/a.txt']);
+  });
+
+  it('refuses a batch whose archives hold more files than it can', async () => {
+    restoreEnv = setEnv({ BATCH_MAX_FILES: '2' });
+    const archive = await createArchive({ 'a.txt': 'a', 'b.txt': 'b', 'c.txt': 'c' });
+
+    await expect(expandUploads([archive])).rejects.toMatchObject({ status: 413, message: 'A batch can hold at most 2 files' });
+  });
+
+  it('counts archives that cannot be read towards the file limit', async () => {
+    restoreEnv = setEnv({ BATCH_MAX_FILES: '2' });
+    const damaged = new File([new Uint8Array([1, 2, 3])], 'damaged.zip', { type: 'application/zip' });
+    const archive = await createArchive({ 'a.txt': 'a', 'b.txt': 'b' });
+
+    await expect(expandUploads([damaged, archive])).rejects.toMatchObject({ status: 413 });
+  });
+
+  it('refuses an archive unpacking to more than the total limit', async () => {
+    restoreEnv = setEnv({ BATCH_MAX_UNPACKED_MB: '1' });
+    // 600 kilobytes of zeros each, compressing to a few kilobytes
+    const archive = await createArchive({ 'a.txt': new Uint8Array(600 * 1024), 'b.txt': new Uint8Array(600 * 1024) });
+    expect(archive.size).toBeLessThan(64 * 1024);
+
+    const uploads = await expandUploads([archive]);
+
+    expect(uploads).toEqual([expect.objectContaining({ filename: 'documents.zip', status: 413 })]);
+    expect('error' in uploads[0] && uploads[0].error).toMatch(/documents\.zip unpacks to more than 1MB in total/);
+  });
+
+  it('stops unpacking an entry that grows past the limit despite its declared size', async () => {
+    restoreEnv = setEnv({ BATCH_MAX_UNPACKED_MB: '1' });
+    const archive = await createArchive({ 'zeros.txt': new Uint8Array(2 * 1024 * 1024) });
+    // Declare one byte in the local and central directory headers
+    const data = new Uint8Array(await archive.arrayBuffer());
+    const view = new DataView(data.buffer);
+    for (let offset = 0; offset < data.length - 4; offset++) {
+      const signature = view.getUint32(offset, true);
+      if (signature === 0x04034b50) view.setUint32(offset + 22, 1, true);
+      if (signature === 0x02014b50) view.setUint32(offset + 24, 1, true);
+    }
+
+    const uploads = await expandUploads([new File([data], 'documents.zip')]);
+
+    expect(uploads).toEqual([expect.objectContaining({ filename: 'documents.zip', status: 413 })]);
+    expect('error' in uploads[0] && uploads[0].error).toMatch(/more than 1MB in total/);
+  });
+});
+
+describe('startBatch', () => {
+  it('hides a batch from clients other than the one that submitted it', () => {
+    const batch = startBatch([{ filename: 'notes.rtf', error: 'Unsupported file type', status: 415 }], { clientId: 'key:owner' });
+
+    expect(batchStore.get(batch.id, 'key:owner')?.files).toEqual([
+      expect.objectContaining({ filename: 'notes.rtf', status: 'failed' }),
+    ]);
+    expect(batchStore.get(batch.id, 'key:other')).toBeUndefined();
+    expect(batchStore.cancel(batch.id, 'key:other')).toBeUndefined();
+  });
+});
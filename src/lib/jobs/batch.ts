@@ -0,0 +1,182 @@
+import path from 'path';
+import type { Readable } from 'stream';
+import JSZip from 'jszip';
+import { mapWithConcurrency } from '@/lib/concurrency';
+import type { DocumentInput } from '@/lib/document-parser';
+import { MAX_FILE_SIZE } from '@/lib/file-validation';
+import { ResolvedModel } from '@/lib/models';
+import { logger } from '@/lib/observability/logger';
+import { DocumentProcessingError } from '@/lib/processing-errors';
+import { BatchSummary, UploadErrorCode } from '@/lib/types';
+import { BatchEntry, batchStore } from './batch-store';
+import { createParseJob, ParseJobOptions } from './parse-job';
+
+const DEFAULT_BATCH_CONCURRENCY = 2;
+const DEFAULT_BATCH_MAX_FILES = 100;
+const DEFAULT_BATCH_MAX_UNPACKED_MB = 500;
+
+const ZIP_MIME_TYPES = ['application/zip', 'application/x-zip-compressed'];
+
+const readPositiveInt = (value: string | undefined, fallback: number): number => {
+  const parsed = Number.parseInt(value ?? '', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+/**
+ * Files parsed at the same time (`BATCH_CONCURRENCY`), files accepted per
+ * batch after ZIP archives are unpacked (`BATCH_MAX_FILES`) and bytes ZIP
+ * archives may unpack to in total (`BATCH_MAX_UNPACKED_MB`)
+ */
+export const getBatchOptions = (): { concurrency: number; maxFiles: number; maxUnpackedSize: number } => ({
+  concurrency: readPositiveInt(process.env.BATCH_CONCURRENCY, DEFAULT_BATCH_CONCURRENCY),
+  maxFiles: readPositiveInt(process.env.BATCH_MAX_FILES, DEFAULT_BATCH_MAX_FILES),
+  maxUnpackedSize: readPositiveInt(process.env.BATCH_MAX_UNPACKED_MB, DEFAULT_BATCH_MAX_UNPACKED_MB) * 1024 * 1024,
+});
+
+/**
+ * An uploaded file, or an archive that could not be unpacked
+ */
+export type BatchUpload = { file: File } | { filename: string; error: string; status?: number };
+
+// An archive over the unpacked size limits; it is refused as a whole while unpacking
+class ArchiveLimitError extends Error {}
+
+const toMegabytes = (bytes: number): string => `${Math.round(bytes / 1024 / 1024)}MB`;
+
+/**
+ * Unpacks an entry, stopping once it grows past `maxBytes`
+ * The sizes an archive declares are written by whoever built it, so the
+ * limits are applied to the bytes actually unpacked; resolves to undefined
+ * for an entry over the limit
+ */
+const readEntry = (entry: JSZip.JSZipObject, maxBytes: number): Promise<Uint8Array | undefined> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    // A stream.Readable, though JSZip types it as the bare stream interface
+    const stream = entry.nodeStream('nodebuffer') as Readable;
+
+    stream.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        stream.destroy();
+        resolve(undefined);
+        return;
+      }
+      chunks.push(chunk);
+    });
+    stream.on('error', reject);
+    stream.on('end', () => resolve(new Uint8Array(Buffer.concat(chunks))));
+  });
+
+export const isZipFile = (file: File): boolean =>
+  file.name.toLowerCase().endsWith('.zip') || ZIP_MIME_TYPES.includes(file.type);
+
+// Folders, macOS resource forks and hidden files are not documents
+const isDocumentEntry = (entry: JSZip.JSZipObject): boolean =>
+  !entry.dir && !entry.name.startsWith('__MACOSX/') && !path.posix.basename(entry.name).startsWith('.');
+
+/**
+ * Replaces ZIP archives by the files they contain, which keep their folder in
+ * the name; an archive that cannot be read becomes a failed upload of its own
+ * Nested archives are not unpacked
+ *
+ * Every upload counts towards `BATCH_MAX_FILES`, failed ones included, and
+ * archives are counted before anything is unpacked; a batch over the limit is
+ * refused as a whole with 413. An archive with a file over `MAX_UPLOAD_SIZE_MB`
+ * once unpacked, or that takes the batch over `BATCH_MAX_UNPACKED_MB` unpacked
+ * in total, is refused with 413 as soon as unpacking passes the limit.
+ */
+export const expandUploads = async (files: File[]): Promise<BatchUpload[]> => {
+  const { maxFiles, maxUnpackedSize } = getBatchOptions();
+  const uploads: BatchUpload[] = [];
+  let unpackedSize = 0;
+
+  const checkFileCount = (added: number): void => {
+    if (uploads.length + added > maxFiles) {
+      throw new DocumentProcessingError(`A batch can hold at most ${maxFiles} files`, 413);
+    }
+  };
+
+  for (const file of files) {
+    if (!isZipFile(file)) {
+      checkFileCount(1);
+      uploads.push({ file });
+      continue;
+    }
+
+    let entries: JSZip.JSZipObject[];
+    try {
+      const zip = await JSZip.loadAsync(await file.arrayBuffer());
+      entries = Object.values(zip.files).filter(isDocumentEntry);
+    } catch (error) {
+      logger.warn('Could not unpack ZIP archive', { filename: file.name, error });
+      checkFileCount(1);
+      uploads.push({ filename: file.name, error: 'Could not read the ZIP archive. It may be damaged or encrypted.' });
+      continue;
+    }
+    checkFileCount(entries.length);
+
+    try {
+      const archiveUploads: BatchUpload[] = [];
+      for (const entry of entries) {
+        const remaining = maxUnpackedSize - unpackedSize;
+        const data = await readEntry(entry, Math.min(MAX_FILE_SIZE, remaining));
+        if (!data) {
+          throw new ArchiveLimitError(remaining < MAX_FILE_SIZE
+            ? `${file.name} unpacks to more than ${toMegabytes(maxUnpackedSize)} in total`
+            : `${entry.name} unpacks to more than ${toMegabytes(MAX_FILE_SIZE)}; files must be less than that`);
+        }
+        unpackedSize += data.byteLength;
+        archiveUploads.push({ file: new File([data], entry.name) });
+      }
+      uploads.push(...archiveUploads);
+    } catch (error) {
+      if (error instanceof ArchiveLimitError) {
+        uploads.push({ filename: file.name, error: `The ZIP archive is too large to unpack: ${error.message}`, status: 413 });
+        continue;
+      }
+
+      logger.warn('Could not unpack ZIP archive', { filename: file.name, error });
+      uploads.push({ filename: file.name, error: 'Could not read the ZIP archive. It may be damaged or encrypted.' });
+    }
+  }
+  return uploads;
+};
+
+/**
+ * A file of a batch ready to parse, or one rejected before parsing
+ */
+export type BatchItem =
+  | { input: DocumentInput; model?: ResolvedModel }
+  | { filename: string; error: string; status?: number; code?: UploadErrorCode };
+
+/**
+ * Registers one parse job per file and parses at most `BATCH_CONCURRENCY`
+ * files at a time in the background
+ * Each file fails on its own; the batch always runs to the end
+ */
+export const startBatch = (
+  items: BatchItem[],
+  { clientId, force, glossaryId, onResult, requestId }: Pick<ParseJobOptions, 'clientId' | 'force' | 'glossaryId' | 'onResult' | 'requestId'>
+): BatchSummary => {
+  const entries: BatchEntry[] = [];
+  const runs: (() => Promise<void>)[] = [];
+
+  for (const item of items) {
+    if ('error' in item) {
+      const { filename, error, status = 400, code } = item;
+      entries.push({ filename, error: { message: error, status, ...(code && { code }) } });
+      continue;
+    }
+
+    const { job, run } = createParseJob(item.input, { clientId, model: item.model, force, glossaryId, onResult, requestId });
+    entries.push({ filename: item.input.filename, jobId: job.id });
+    runs.push(run);
+  }
+
+  const batch = batchStore.create(entries, clientId);
+  void mapWithConcurrency(runs, getBatchOptions().concurrency, run => run());
+
+  return batch;
+};
@@ -0,0 +1,6 @@
+export * from './job-store';
+export * from './parse-job';
+export * from './stages';
+export * from './batch-store';
+export * from './batch';
+export * from './batch-archive';
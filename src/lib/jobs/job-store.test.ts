@@ -0,0 +1,61 @@
+import { describe, expect, it } from '@jest/globals';
+import { createTestDocument } from '@/test/documents';
+import { JobSummary } from '@/lib/types';
+import { jobStore } from './job-store';
+
+describe('jobStore', () => {
+  it('hides a job from clients other than the one that submitted it', () => {
+    const { job } = jobStore.create('report.pdf', { clientId: 'key:owner' });
+
+    expect(jobStore.get(job.id, 'key:owner')).toEqual(job);
+    expect(jobStore.get(job.id, 'key:other')).toBeUndefined();
+    expect(jobStore.getResult(job.id, 'key:other')).toBeUndefined();
+  });
+
+  it('lets only the owner cancel a job', () => {
+    const { job, signal } = jobStore.create('report.pdf', { clientId: 'key:owner' });
+
+    expect(jobStore.cancel(job.id, 'key:other')).toBeUndefined();
+    expect(signal.aborted).toBe(false);
+
+    expect(jobStore.cancel(job.id, 'key:owner')?.status).toBe('cancelled');
+    expect(signal.aborted).toBe(true);
+  });
+
+  it('notifies subscribers of each stage with its progress', () => {
+    const { job } = jobStore.create('report.pdf', { clientId: 'key:owner' });
+    const updates: JobSummary[] = [];
+    const unsubscribe = jobStore.subscribe(job.id, update => updates.push(update));
+
+    jobStore.setStage(job.id, 'validating');
+    jobStore.setStage(job.id, 'parsing');
+    jobStore.setProgress(job.id, 54.6);
+    jobStore.complete(job.id, createTestDocument([{ type: 'paragraph', content: 'Done' }]));
+    unsubscribe();
+    jobStore.setProgress(job.id, 10);
+
+    expect(updates.map(({ status, stage, progress }) => [status, stage, progress])).toEqual([
+      ['running', 'validating', 10],
+      ['running', 'parsing', 30],
+      ['running', 'parsing', 55],
+      ['completed', 'done', 100],
+    ]);
+    expect(jobStore.getResult(job.id, 'key:owner')?.structure.sections[0].content).toBe('Done');
+  });
+
+  it('ignores updates once a job has finished and drops its partial result', () => {
+    const { job } = jobStore.create('report.pdf', { clientId: 'key:owner' });
+    const document = createTestDocument([{ type: 'paragraph', content: 'Partial' }]);
+
+    jobStore.setPartial(job.id, { structure: { sections: document.structure.sections } });
+    expect(jobStore.getPartial(job.id, 'key:owner')?.structure?.sections).toHaveLength(1);
+
+    jobStore.fail(job.id, { message: 'Model unavailable', status: 503 });
+    jobStore.setStage(job.id, 'finalizing');
+    jobStore.complete(job.id, document);
+
+    expect(jobStore.get(job.id, 'key:owner')).toMatchObject({ status: 'failed', error: { message: 'Model unavailable' } });
+    expect(jobStore.getResult(job.id, 'key:owner')).toBeUndefined();
+    expect(jobStore.getPartial(job.id, 'key:owner')).toBeUndefined();
+  });
+});
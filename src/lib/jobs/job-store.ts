@@ -0,0 +1,154 @@
+import { EventEmitter } from 'events';
+import { randomUUID } from 'crypto';
+import { ProcessingErrorInfo } from '@/lib/processing-errors';
+import {
+  DocumentParserResult,
+  JobStage,
+  JobSummary,
+  ParseCacheInfo,
+  PartialDocumentParserResult,
+  RequestMetrics,
+} from '@/lib/types';
+import { getStageProgress, isTerminalJobStatus } from './stages';
+
+// Finished jobs are kept for an hour so clients can still fetch results
+const FINISHED_JOB_TTL_MS = 60 * 60 * 1000;
+
+type JobRecord = {
+  summary: JobSummary;
+  // API client that submitted the job; other clients cannot see it
+  clientId: string;
+  result?: DocumentParserResult;
+  // Latest partial result while the model streams, dropped once the job finishes
+  partial?: PartialDocumentParserResult;
+  controller: AbortController;
+};
+
+export type JobListener = (job: JobSummary) => void;
+
+export type PartialResultListener = (partial: PartialDocumentParserResult) => void;
+
+// Partial results are emitted under their own event name next to the job updates
+const partialEvent = (id: string): string => `${id}:partial`;
+
+/**
+ * In-memory registry of asynchronous jobs with change notifications
+ * Jobs belong to the client that submitted them: reads and cancellation take
+ * the caller's client ID, and a job of another client reads as missing
+ */
+const createJobStore = () => {
+  const jobs = new Map<string, JobRecord>();
+  const events = new EventEmitter();
+  events.setMaxListeners(0);
+
+  const update = (id: string, patch: Partial<JobSummary>): JobSummary | undefined => {
+    const record = jobs.get(id);
+    if (!record || isTerminalJobStatus(record.summary.status)) return record?.summary;
+
+    record.summary = { ...record.summary, ...patch, updatedAt: new Date().toISOString() };
+    if (isTerminalJobStatus(record.summary.status)) {
+      record.partial = undefined;
+    }
+    events.emit(id, record.summary);
+    return record.summary;
+  };
+
+  const findOwned = (id: string, clientId: string): JobRecord | undefined => {
+    const record = jobs.get(id);
+    return record?.clientId === clientId ? record : undefined;
+  };
+
+  const evictExpired = () => {
+    const cutoff = Date.now() - FINISHED_JOB_TTL_MS;
+    for (const [id, record] of jobs) {
+      if (isTerminalJobStatus(record.summary.status) && Date.parse(record.summary.updatedAt) < cutoff) {
+        jobs.delete(id);
+      }
+    }
+  };
+
+  return {
+    create: (
+      filename: string,
+      { clientId, glossaryId }: { clientId: string; glossaryId?: string }
+    ): { job: JobSummary; signal: AbortSignal } => {
+      evictExpired();
+
+      const now = new Date().toISOString();
+      const summary: JobSummary = {
+        id: randomUUID(),
+        status: 'queued',
+        stage: 'queued',
+        progress: 0,
+        filename,
+        ...(glossaryId && { glossaryId }),
+        createdAt: now,
+        updatedAt: now,
+      };
+      const controller = new AbortController();
+      jobs.set(summary.id, { summary, clientId, controller });
+
+      return { job: summary, signal: controller.signal };
+    },
+
+    get: (id: string, clientId: string): JobSummary | undefined => findOwned(id, clientId)?.summary,
+
+    getResult: (id: string, clientId: string): DocumentParserResult | undefined => findOwned(id, clientId)?.result,
+
+    setStage: (id: string, stage: JobStage) =>
+      update(id, { status: 'running', stage, progress: getStageProgress(stage) }),
+
+    setProgress: (id: string, progress: number) => update(id, { progress: Math.round(progress) }),
+
+    getPartial: (id: string, clientId: string): PartialDocumentParserResult | undefined => findOwned(id, clientId)?.partial,
+
+    setPartial: (id: string, partial: PartialDocumentParserResult) => {
+      const record = jobs.get(id);
+      if (!record || isTerminalJobStatus(record.summary.status)) return;
+
+      record.partial = partial;
+      events.emit(partialEvent(id), partial);
+    },
+
+    complete: (id: string, result: DocumentParserResult, cache?: ParseCacheInfo, metrics?: RequestMetrics) => {
+      const record = jobs.get(id);
+      if (!record || isTerminalJobStatus(record.summary.status)) return;
+
+      record.result = result;
+      update(id, { status: 'completed', stage: 'done', progress: 100, ...(cache && { cache }), ...(metrics && { metrics }) });
+    },
+
+    fail: (id: string, error: ProcessingErrorInfo, metrics?: RequestMetrics) =>
+      update(id, { status: 'failed', error, ...(metrics && { metrics }) }),
+
+    cancel: (id: string, clientId: string): JobSummary | undefined => {
+      const record = findOwned(id, clientId);
+      if (!record || isTerminalJobStatus(record.summary.status)) return record?.summary;
+
+      const summary = update(id, { status: 'cancelled' });
+      record.controller.abort();
+      return summary;
+    },
+
+    subscribe: (id: string, listener: JobListener): (() => void) => {
+      events.on(id, listener);
+      return () => {
+        events.off(id, listener);
+      };
+    },
+
+    subscribePartial: (id: string, listener: PartialResultListener): (() => void) => {
+      events.on(partialEvent(id), listener);
+      return () => {
+        events.off(partialEvent(id), listener);
+      };
+    },
+  };
+};
+
+export type JobStore = ReturnType<typeof createJobStore>;
+
+// Reuse one store across hot reloads in development
+const globalForJobs = globalThis as unknown as { jobStore?: JobStore };
+
+export const jobStore = globalForJobs.jobStore ?? (globalForJobs.jobStore = createJobStore());
@@ -0,0 +1,112 @@
+import { throttle } from '@/lib/concurrency';
+import {
+  assertMeaningfulText,
+  CachedParseOptions,
+  DocumentInput,
+  PARTIAL_RESULT_INTERVAL_MS,
+  parseDocumentCached,
+} from '@/lib/document-parser';
+import { createOperationMetrics, getErrorClass, logger, metrics } from '@/lib/observability';
+import { ProcessingErrorInfo, toProcessingError } from '@/lib/processing-errors';
+import { DocumentParserResult, JobStatus, JobSummary, ParseCacheInfo } from '@/lib/types';
+import { jobStore } from './job-store';
+import { getStageProgress } from './stages';
+
+// Chunked parses advance progress between the parsing and finalizing checkpoints
+const getChunkProgress = (completed: number, total: number): number => {
+  const start = getStageProgress('parsing');
+  return start + ((getStageProgress('finalizing') - start) * completed) / total;
+};
+
+const runParseJob = async (
+  jobId: string,
+  input: DocumentInput,
+  { model, force, onResult, requestId }: Omit<ParseJobOptions, 'clientId' | 'glossaryId'>,
+  signal: AbortSignal
+): Promise<void> => {
+  // Jobs cancelled while waiting in a batch are never started
+  if (signal.aborted) return;
+
+  const operation = createOperationMetrics('parse_job');
+  const log = logger.child({ jobId, ...(requestId && { requestId }) });
+  const finish = (status: JobStatus, error?: ProcessingErrorInfo) => {
+    metrics.recordParseJob(status, error ? getErrorClass(error.status, error.code) : 'none');
+    return operation.report(requestId ?? jobId);
+  };
+
+  try {
+    jobStore.setStage(jobId, 'validating');
+    await operation.time('validate', () => {
+      if (input.data.byteLength === 0) {
+        throw new Error('Uploaded file is empty');
+      }
+    });
+
+    jobStore.setStage(jobId, 'parsing');
+    const { result, cache } = await operation.time('parse', () => parseDocumentCached(input, {
+      model: model && operation.meter(model),
+      force,
+      abortSignal: signal,
+      onProgress: (completed, total) => jobStore.setProgress(jobId, getChunkProgress(completed, total)),
+      onPartial: throttle(partial => jobStore.setPartial(jobId, partial), PARTIAL_RESULT_INTERVAL_MS),
+    }));
+    if (signal.aborted) {
+      finish('cancelled');
+      return;
+    }
+
+    jobStore.setStage(jobId, 'finalizing');
+    await operation.time('finalize', () => assertMeaningfulText(result));
+
+    const report = finish('completed');
+    jobStore.complete(jobId, result, cache, report);
+    const { durationMs, stages, totalTokens, estimatedCost } = report;
+    log.info('Parse job completed', { durationMs, stages, totalTokens, estimatedCost });
+    onResult?.(result, cache);
+  } catch (error) {
+    // Cancelled jobs already carry their final status
+    if (signal.aborted) {
+      finish('cancelled');
+      return;
+    }
+
+    log.error('Parse job failed', { error });
+    const info = toProcessingError(error);
+    jobStore.fail(jobId, info, finish('failed', info));
+  }
+};
+
+export type ParseJobOptions = Pick<CachedParseOptions, 'model' | 'force'> & {
+  // API client the job belongs to
+  clientId: string;
+  glossaryId?: string;
+  // Called once the job has completed with its result
+  onResult?: (result: DocumentParserResult, cache?: ParseCacheInfo) => void;
+  // ID of the submitting request, logged with the job and reported in its metrics
+  requestId?: string;
+};
+
+/**
+ * Registers a parse job without starting it
+ * `run` processes the job and never rejects; failures end up in the job status
+ */
+export const createParseJob = (
+  input: DocumentInput,
+  { clientId, glossaryId, ...options }: ParseJobOptions
+): { job: JobSummary; run: () => Promise<void> } => {
+  const { job, signal } = jobStore.create(input.filename, { clientId, glossaryId });
+
+  return { job, run: () => runParseJob(job.id, input, options, signal) };
+};
+
+/**
+ * Registers a parse job and starts it in the background
+ * Returns immediately with the queued job so the client can follow its progress
+ */
+export const startParseJob = (input: DocumentInput, options: ParseJobOptions): JobSummary => {
+  const { job, run } = createParseJob(input, options);
+
+  void run();
+
+  return job;
+};
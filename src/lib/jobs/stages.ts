@@ -0,0 +1,20 @@
+import { JobStage, JobStatus } from '@/lib/types';
+
+/**
+ * Ordered pipeline stages with their display labels and progress checkpoints
+ * Safe to import from client components
+ */
+export const JOB_STAGES: { stage: JobStage; label: string; progress: number }[] = [
+  { stage: 'queued', label: 'Queued', progress: 0 },
+  { stage: 'validating', label: 'Validating file', progress: 10 },
+  { stage: 'parsing', label: 'Extracting text and structure', progress: 30 },
+  { stage: 'finalizing', label: 'Checking extraction results', progress: 90 },
+  { stage: 'done', label: 'Done', progress: 100 },
+];
+
+export const TERMINAL_JOB_STATUSES: JobStatus[] = ['completed', 'failed', 'cancelled'];
+
+export const isTerminalJobStatus = (status: JobStatus): boolean => TERMINAL_JOB_STATUSES.includes(status);
+
+export const getStageProgress = (stage: JobStage): number =>
+  JOB_STAGES.find(entry => entry.stage === stage)?.progress ?? 0;
@@ -0,0 +1,20 @@
+import { mkdirSync, renameSync, writeFileSync } from 'fs';
+import path from 'path';
+
+type JsonReplacer = (key: string, value: unknown) => unknown;
+
+/**
+ * Writes a value as JSON through a temporary file and a rename, so a crash
+ * never leaves a truncated file behind
+ */
+export const writeJsonAtomic = (
+  filePath: string,
+  value: unknown,
+  { replacer, space }: { replacer?: JsonReplacer; space?: number } = {}
+): void => {
+  mkdirSync(path.dirname(filePath), { recursive: true });
+
+  const tempPath = `${filePath}.tmp`;
+  writeFileSync(tempPath, JSON.stringify(value, replacer, space));
+  renameSync(tempPath, filePath);
+};
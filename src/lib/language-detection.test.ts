@@ -0,0 +1,52 @@
+import { describe, expect, it } from '@jest/globals';
+import { createTestDocument } from '@/test/documents';
+import { combineLanguageDetection } from './language-detection';
+
+const english = 'The committee approved the annual budget after a long discussion about the costs of the new building and the schedule for its construction.';
+const german = 'Der Ausschuss hat den Jahreshaushalt nach einer langen Diskussion \u00FCber die Kosten des neuen Geb\u00E4udes und den Zeitplan f\u00FCr seinen Bau genehmigt.';
+
+const moreEnglish = 'Members of the public may attend the meetings of the committee and read the minutes, which are published on the website of the council every month.';
+
+const document = createTestDocument([
+  { type: 'paragraph', content: english },
+  { type: 'paragraph', content: german },
+  { type: 'paragraph', content: '2024' },
+  { type: 'paragraph', content: moreEnglish },
+  { type: 'paragraph', content: english },
+]);
+
+describe('combineLanguageDetection', () => {
+  it('detects every section from the statistics alone', () => {
+    const result = combineLanguageDetection(document);
+
+    expect(result.detectedLanguage).toBe('en');
+    expect(result.sections.map(({ index, language }) => [index, language])).toEqual([[0, 'en'], [1, 'de'], [3, 'en'], [4, 'en']]);
+    expect(result.languages.map(entry => entry.language)).toEqual(['en', 'de']);
+    expect(result.crossCheck).toMatchObject({ language: 'en', agrees: true });
+    expect(result.availableTargets).not.toContain('en');
+  });
+
+  it('takes the sections the model named and normalizes its codes', () => {
+    const result = combineLanguageDetection(document, {
+      detectedLanguage: 'EN-us',
+      confidence: 0.9,
+      availableTargets: ['de', 'FR', 'en', 'xx'],
+      otherSections: [{ index: 3, language: 'fr' }],
+    });
+
+    expect(result.detectedLanguage).toBe('en');
+    expect(result.confidence).toBeGreaterThanOrEqual(0.9);
+    expect(result.sections[2]).toEqual({ index: 3, language: 'fr', confidence: 0.9 });
+    expect(result.languages.map(entry => entry.language)).toEqual(['en', 'de', 'fr']);
+    expect(result.availableTargets).toEqual(['de', 'fr']);
+  });
+
+  it('lets confident statistics overrule the model with the lower confidence', () => {
+    const englishOnly = createTestDocument([{ type: 'paragraph', content: english }, { type: 'paragraph', content: moreEnglish }]);
+    const result = combineLanguageDetection(englishOnly, { detectedLanguage: 'es', confidence: 0.4, availableTargets: [], otherSections: [] });
+
+    expect(result.detectedLanguage).toBe('en');
+    expect(result.confidence).toBe(0.4);
+    expect(result.crossCheck?.agrees).toBe(true);
+  });
+});
@@ -0,0 +1,140 @@
+import { generateObject, type LanguageModel } from 'ai';
+import { countLetters, detectTextLanguage, StatisticalDetection } from '@/lib/language-statistics';
+import { SUPPORTED_LANGUAGES } from '@/lib/languages';
+import { resolveModel } from '@/lib/models';
+import { languageDetectionModelSchema } from '@/lib/schema/language-detection';
+import { DocumentParserResult, LanguageDetectionModelResult, LanguageDetectionResult, SectionLanguage } from '@/lib/types';
+
+// Enough text for a reliable detection without sending the whole document
+const DETECTION_SAMPLE_LENGTH = 4000;
+// Each section contributes at most this much to the sample
+const EXCERPT_LENGTH = 300;
+// Statistical results from this confidence may place a section in another language than the model
+const SECTION_CONFIDENCE = 0.5;
+
+/**
+ * Language detector abstraction used by the Language Detection Agent
+ */
+export interface LanguageDetector {
+  detect(document: DocumentParserResult): Promise<LanguageDetectionResult>;
+}
+
+// Language codes as ISO 639-1: lower case, without region
+const normalizeCode = (code: string): string => code.trim().toLowerCase().split(/[-_]/)[0];
+
+// Numbered section excerpts, so the model can name the sections in another language
+const buildExcerpts = (document: DocumentParserResult): string => {
+  const excerpts: string[] = [];
+  let length = 0;
+
+  for (const [index, section] of document.structure.sections.entries()) {
+    const text = section.content.replace(/\s+/g, ' ').trim().slice(0, EXCERPT_LENGTH);
+    if (!countLetters(text)) continue;
+    if (length + text.length > DETECTION_SAMPLE_LENGTH) break;
+
+    excerpts.push(`[${index}] ${text}`);
+    length += text.length;
+  }
+  return excerpts.join('\n');
+};
+
+// The primary language: where model and statistics disagree, the more confident one
+// wins with the lower confidence of the two
+const resolvePrimary = (
+  model: LanguageDetectionModelResult | undefined,
+  statistical: StatisticalDetection | undefined,
+  fallback: string | undefined
+): { language: string; confidence: number } => {
+  if (!model) return statistical ?? { language: fallback ?? 'und', confidence: 0 };
+
+  const language = normalizeCode(model.detectedLanguage);
+  if (!statistical) return { language, confidence: model.confidence };
+  if (statistical.language === language) return { language, confidence: Math.max(model.confidence, statistical.confidence) };
+
+  const confidence = Math.min(model.confidence, statistical.confidence);
+  return statistical.confidence > model.confidence ? { language: statistical.language, confidence } : { language, confidence };
+};
+
+/**
+ * Combines the model's answer with offline statistics into the detection result
+ *
+ * The statistical detector cross-checks the primary language and detects every
+ * section; a section takes the language the model named for it, else the
+ * statistical one when it is confident enough, else the primary language.
+ * Without a model answer the statistics alone decide.
+ */
+export const combineLanguageDetection = (
+  document: DocumentParserResult,
+  model?: LanguageDetectionModelResult
+): LanguageDetectionResult => {
+  const statistical = detectTextLanguage(document.extractedText.slice(0, DETECTION_SAMPLE_LENGTH));
+  const primary = resolvePrimary(model, statistical, document.metadata.language);
+  const modelSections = new Map((model?.otherSections ?? []).map(entry => [entry.index, normalizeCode(entry.language)]));
+
+  const sections = document.structure.sections.flatMap((section, index): SectionLanguage[] => {
+    if (!countLetters(section.content)) return [];
+
+    const detected = detectTextLanguage(section.content);
+    const named = modelSections.get(index);
+    if (named) {
+      const confidence = detected?.language === named ? Math.max(detected.confidence, model!.confidence) : model!.confidence;
+      return [{ index, language: named, confidence }];
+    }
+    if (detected && detected.confidence >= SECTION_CONFIDENCE) return [{ index, ...detected }];
+    return [{ index, language: primary.language, confidence: primary.confidence }];
+  });
+
+  // Share of the section text per language, by letters
+  const letters = new Map<string, number>();
+  for (const { index, language } of sections) {
+    letters.set(language, (letters.get(language) ?? 0) + countLetters(document.structure.sections[index].content));
+  }
+  const total = Array.from(letters.values()).reduce((sum, count) => sum + count, 0);
+  const languages = Array.from(letters, ([language, count]) => ({ language, share: Math.round((count / total) * 100) / 100 }))
+    .sort((a, b) => b.share - a.share);
+
+  const suggested = (model?.availableTargets ?? []).map(normalizeCode);
+  const targets = suggested.length ? suggested : Object.keys(SUPPORTED_LANGUAGES);
+
+  return {
+    detectedLanguage: primary.language,
+    confidence: primary.confidence,
+    availableTargets: Array.from(new Set(targets)).filter(code => code !== primary.language && code in SUPPORTED_LANGUAGES),
+    sections,
+    languages,
+    ...(statistical && { crossCheck: { ...statistical, agrees: statistical.language === primary.language } }),
+  };
+};
+
+/**
+ * Language detector backed by a language model through the Vercel AI SDK,
+ * cross-checked by the offline statistical detector
+ * Defaults to the registry's `detectLanguage` stage model
+ */
+export const createModelLanguageDetector = (model: LanguageModel = resolveModel(undefined, 'detectLanguage').model): LanguageDetector => ({
+  detect: async (document) => {
+    const result = await generateObject({
+      model,
+      schema: languageDetectionModelSchema,
+      prompt: `Identify the primary language of the following document excerpts.
+Return an ISO 639-1 code, a confidence score between 0 and 1, and the target languages
+from this list that the document could be translated into: ${Object.keys(SUPPORTED_LANGUAGES).join(', ')}.
+Documents may mix languages (bilingual contracts, quoted passages): list every excerpt written
+in a language other than the primary one with its number and language.
+
+Excerpts:
+${buildExcerpts(document)}`,
+      temperature: 0,
+    });
+
+    return combineLanguageDetection(document, result.object);
+  },
+});
+
+/**
+ * Language detector that only uses the offline statistical detector
+ * Runs without network access, for local testing and as a fallback
+ */
+export const createStatisticalLanguageDetector = (): LanguageDetector => ({
+  detect: async (document) => combineLanguageDetection(document),
+});
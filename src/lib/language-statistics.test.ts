@@ -0,0 +1,26 @@
+import { describe, expect, it } from '@jest/globals';
+import { countLetters, detectTextLanguage } from './language-statistics';
+
+const english = 'The committee approved the annual budget after a long discussion about the costs of the new building and the schedule for its construction.';
+const german = 'Der Ausschuss hat den Jahreshaushalt nach einer langen Diskussion \u00FCber die Kosten des neuen Geb\u00E4udes und den Zeitplan f\u00FCr seinen Bau genehmigt.';
+
+describe('detectTextLanguage', () => {
+  it('reports ISO 639-1 codes with high confidence for longer passages', () => {
+    expect(detectTextLanguage(english)).toMatchObject({ language: 'en' });
+    expect(detectTextLanguage(english)!.confidence).toBeGreaterThan(0.9);
+    expect(detectTextLanguage(german)).toMatchObject({ language: 'de' });
+    expect(detectTextLanguage(german)!.confidence).toBeGreaterThan(0.5);
+  });
+
+  it('is less confident about short passages', () => {
+    const short = detectTextLanguage('The budget was approved today.');
+
+    expect(short?.language).toBe('en');
+    expect(short!.confidence).toBeLessThan(detectTextLanguage(english)!.confidence);
+  });
+
+  it('gives no result for text with too few letters', () => {
+    expect(detectTextLanguage('Q3 2024: 1,250.00')).toBeUndefined();
+    expect(countLetters('Q3 2024: \u00C4rger')).toBe(6);
+  });
+});
@@ -0,0 +1,54 @@
+import { francAll } from 'franc-min';
+
+/**
+ * Language found from the statistics of a text
+ */
+export type StatisticalDetection = {
+  language: string;
+  confidence: number;
+};
+
+// ISO 639-3 codes reported by the trigram detector -> ISO 639-1; codes without
+// a two-letter equivalent are passed through
+const ISO_639_1: Record<string, string> = {
+  amh: 'am', arb: 'ar', azj: 'az', bel: 'be', ben: 'bn', bos: 'bs', bul: 'bg', ces: 'cs', ckb: 'ku',
+  cmn: 'zh', deu: 'de', ell: 'el', eng: 'en', fra: 'fr', guj: 'gu', hau: 'ha', hin: 'hi', hrv: 'hr',
+  hun: 'hu', ibo: 'ig', ind: 'id', ita: 'it', jav: 'jv', jpn: 'ja', kan: 'kn', kaz: 'kk', kin: 'rw',
+  kor: 'ko', lin: 'ln', mal: 'ml', mar: 'mr', mya: 'my', nld: 'nl', npi: 'ne', nya: 'ny', pan: 'pa',
+  pbu: 'ps', pes: 'fa', plt: 'mg', pol: 'pl', por: 'pt', ron: 'ro', run: 'rn', rus: 'ru', sin: 'si',
+  som: 'so', spa: 'es', srp: 'sr', sun: 'su', swe: 'sv', swh: 'sw', tam: 'ta', tel: 'te', tgl: 'tl',
+  tha: 'th', tur: 'tr', ukr: 'uk', urd: 'ur', uzn: 'uz', vie: 'vi', yor: 'yo', zlm: 'ms', zul: 'zu',
+};
+
+const LETTERS = new RegExp('\\p{L}', 'gu');
+// Below this many letters trigram statistics say little
+const MIN_LETTERS = 20;
+// Letters from which the amount of text no longer limits the confidence
+const CONFIDENT_LETTERS = 100;
+// Languages told apart by their script alone (Chinese, Korean, Greek...) need less text
+const CONFIDENT_SCRIPT_LETTERS = 40;
+// Margin over the runner-up language that counts as certain
+const CONFIDENT_MARGIN = 0.2;
+
+export const countLetters = (text: string): number => (text.match(LETTERS) ?? []).length;
+
+/**
+ * Detects the language of a text offline, from its character trigrams
+ *
+ * The confidence grows with the distance to the runner-up language and with
+ * the amount of text, so short passages and closely related languages score
+ * low; undefined when the text is too short or matches no language
+ */
+export const detectTextLanguage = (text: string): StatisticalDetection | undefined => {
+  const letters = countLetters(text);
+  if (letters < MIN_LETTERS) return undefined;
+
+  const [best, runnerUp] = francAll(text, { minLength: MIN_LETTERS });
+  if (!best || best[0] === 'und') return undefined;
+
+  const confidence = runnerUp
+    ? Math.min((best[1] - runnerUp[1]) / CONFIDENT_MARGIN, 1) * Math.min(letters / CONFIDENT_LETTERS, 1)
+    : Math.min(letters / CONFIDENT_SCRIPT_LETTERS, 1);
+
+  return { language: ISO_639_1[best[0]] ?? best[0], confidence: Math.round(confidence * 100) / 100 };
+};
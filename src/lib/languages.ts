@@ -0,0 +1,20 @@
+/**
+ * Languages offered as translation targets (ISO 639-1 code -> English name)
+ */
+export const SUPPORTED_LANGUAGES: Record<string, string> = {
+  en: 'English',
+  es: 'Spanish',
+  fr: 'French',
+  de: 'German',
+  it: 'Italian',
+  pt: 'Portuguese',
+  ru: 'Russian',
+  ar: 'Arabic',
+  zh: 'Chinese',
+  ja: 'Japanese',
+  ko: 'Korean',
+};
+
+export const isSupportedLanguage = (code: string): boolean => code in SUPPORTED_LANGUAGES;
+
+export const getLanguageName = (code: string): string => SUPPORTED_LANGUAGES[code] ?? code;
@@ -0,0 +1,113 @@
+import fs from 'fs';
+import path from 'path';
+import { modelConfigSchema } from '@/lib/schema/model';
+import { ModelCapabilities, ModelConfig, ModelProviderType, ModelStage } from '@/lib/types';
+
+const DEFAULT_CONFIG_FILE = 'models.config.json';
+export const DEFAULT_MODEL_ID = 'gemini-2.5-flash';
+
+// Environment variables selecting the model of each pipeline stage
+export const STAGE_MODEL_ENV: Record<ModelStage, string> = {
+  parse: 'MODEL_PARSE',
+  detectLanguage: 'MODEL_DETECT_LANGUAGE',
+  translate: 'MODEL_TRANSLATE',
+  evaluate: 'MODEL_EVALUATE',
+};
+
+/**
+ * Capabilities assumed for models that are not listed in the registry
+ * OpenAI-compatible servers are treated as text-only unless configured otherwise
+ */
+export const PROVIDER_DEFAULT_CAPABILITIES: Record<ModelProviderType, ModelCapabilities> = {
+  google: { pdfInput: true, structuredOutput: true },
+  openai: { pdfInput: true, structuredOutput: true },
+  'openai-compatible': { pdfInput: false, structuredOutput: false },
+};
+
+const BUILT_IN_CONFIG: ModelConfig = {
+  providers: {
+    google: { type: 'google', apiKeyEnv: 'GOOGLE_GENERATIVE_AI_API_KEY' },
+    openai: { type: 'openai', apiKeyEnv: 'OPENAI_API_KEY' },
+  },
+  // List prices in USD per million tokens; override them in the config file
+  models: {
+    'gemini-2.5-flash': {
+      provider: 'google',
+      model: 'gemini-2.5-flash',
+      label: 'Gemini 2.5 Flash',
+      pricing: { input: 0.3, output: 2.5 },
+    },
+    'gemini-2.5-pro': {
+      provider: 'google',
+      model: 'gemini-2.5-pro',
+      label: 'Gemini 2.5 Pro',
+      pricing: { input: 1.25, output: 10 },
+    },
+    'gpt-4o': { provider: 'openai', model: 'gpt-4o', label: 'GPT-4o', pricing: { input: 2.5, output: 10 } },
+    'gpt-4o-mini': { provider: 'openai', model: 'gpt-4o-mini', label: 'GPT-4o mini', pricing: { input: 0.15, output: 0.6 } },
+  },
+  defaults: {},
+};
+
+const readConfigFile = (): Partial<ModelConfig> => {
+  const filePath = process.env.MODEL_CONFIG_PATH
+    || path.join(process.cwd(), DEFAULT_CONFIG_FILE);
+
+  if (!fs.existsSync(filePath)) {
+    if (process.env.MODEL_CONFIG_PATH) {
+      throw new Error(`Model config file not found: ${filePath}`);
+    }
+    return {};
+  }
+
+  const parsed = modelConfigSchema.safeParse(JSON.parse(fs.readFileSync(filePath, 'utf8')));
+  if (!parsed.success) {
+    const issue = parsed.error.errors[0];
+    throw new Error(`Invalid model config ${filePath}: ${issue?.path.join('.')} ${issue?.message}`);
+  }
+  return parsed.data;
+};
+
+// A single OpenAI-compatible server (e.g. a local model server) can be set up from env alone
+const readEnvProviders = (): ModelConfig['providers'] => {
+  const providers: ModelConfig['providers'] = {};
+
+  if (process.env.OPENAI_BASE_URL) {
+    providers.openai = { type: 'openai', baseURL: process.env.OPENAI_BASE_URL, apiKeyEnv: 'OPENAI_API_KEY' };
+  }
+  if (process.env.OPENAI_COMPATIBLE_BASE_URL) {
+    providers.local = {
+      type: 'openai-compatible',
+      baseURL: process.env.OPENAI_COMPATIBLE_BASE_URL,
+      apiKeyEnv: 'OPENAI_COMPATIBLE_API_KEY',
+    };
+  }
+
+  return providers;
+};
+
+const readEnvDefaults = (): ModelConfig['defaults'] => {
+  const defaults: ModelConfig['defaults'] = {};
+  if (process.env.MODEL_DEFAULT) defaults.default = process.env.MODEL_DEFAULT;
+
+  for (const [stage, name] of Object.entries(STAGE_MODEL_ENV) as [ModelStage, string][]) {
+    if (process.env[name]) defaults[stage] = process.env[name];
+  }
+
+  return defaults;
+};
+
+/**
+ * Loads the registry configuration
+ * Built-in Gemini and OpenAI entries are extended by the config file, and
+ * environment variables take precedence over both
+ */
+export const loadModelConfig = (): ModelConfig => {
+  const file = readConfigFile();
+
+  return {
+    providers: { ...BUILT_IN_CONFIG.providers, ...file.providers, ...readEnvProviders() },
+    models: { ...BUILT_IN_CONFIG.models, ...file.models },
+    defaults: { ...BUILT_IN_CONFIG.defaults, ...file.defaults, ...readEnvDefaults() },
+  };
+};
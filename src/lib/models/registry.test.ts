@@ -0,0 +1,117 @@
+import { describe, expect, it } from '@jest/globals';
+import { generateText } from 'ai';
+import { MockLanguageModelV1 } from 'ai/test';
+import { setEnv } from '@/test/env';
+import { ModelConfig } from '@/lib/types';
+import { loadModelConfig } from './config';
+import { createModelRegistry } from './registry';
+import { ModelUsage, trackModelUsage } from './usage';
+
+const config: ModelConfig = {
+  providers: {
+    google: { type: 'google', apiKey: 'test-key' },
+    openai: { type: 'openai', apiKeyEnv: 'TEST_MISSING_OPENAI_KEY' },
+    local: { type: 'openai-compatible', baseURL: 'http://localhost:11434/v1' },
+  },
+  models: {
+    'gemini-2.5-flash': { provider: 'google', model: 'gemini-2.5-flash', pricing: { input: 0.3, output: 2.5 } },
+    'gpt-4o': { provider: 'openai', model: 'gpt-4o' },
+    'local-vision': { provider: 'local', model: 'llava', capabilities: { pdfInput: true } },
+  },
+  defaults: { default: 'gemini-2.5-flash', translate: 'local:llama3.1' },
+};
+
+describe('createModelRegistry', () => {
+  const registry = createModelRegistry(config);
+
+  it('resolves registry IDs and ad hoc provider:model references', () => {
+    expect(registry.resolve('gemini-2.5-flash')).toMatchObject({
+      id: 'gemini-2.5-flash',
+      provider: 'google',
+      capabilities: { pdfInput: true, structuredOutput: true },
+      pricing: { input: 0.3, output: 2.5 },
+    });
+    expect(registry.resolve('local:mistral')).toMatchObject({
+      provider: 'local',
+      modelName: 'mistral',
+      capabilities: { pdfInput: false, structuredOutput: false },
+    });
+    expect(registry.resolve('local-vision').capabilities).toEqual({ pdfInput: true, structuredOutput: false });
+  });
+
+  it('falls back to the stage default, then the general default', () => {
+    expect(registry.resolve(undefined, 'translate').id).toBe('local:llama3.1');
+    expect(registry.resolve(undefined, 'parse').id).toBe('gemini-2.5-flash');
+    expect(registry.getDefaults()).toEqual({
+      parse: 'gemini-2.5-flash',
+      detectLanguage: 'gemini-2.5-flash',
+      translate: 'local:llama3.1',
+      evaluate: 'gemini-2.5-flash',
+    });
+  });
+
+  it('rejects unknown models with 400 and models without credentials with 500', () => {
+    expect(() => registry.resolve('claude-x')).toThrow(expect.objectContaining({ message: 'Unknown model: claude-x', status: 400 }));
+    expect(() => registry.resolve('unknown:model')).toThrow(expect.objectContaining({ status: 400 }));
+    expect(() => registry.resolve('gpt-4o')).toThrow(expect.objectContaining({
+      message: 'API key not configured for provider openai (TEST_MISSING_OPENAI_KEY)',
+      status: 500,
+    }));
+  });
+
+  it('lists configured models with their availability', () => {
+    expect(registry.list().map(({ id, available }) => [id, available])).toEqual([
+      ['gemini-2.5-flash', true],
+      ['gpt-4o', false],
+      ['local-vision', true],
+    ]);
+  });
+});
+
+describe('loadModelConfig', () => {
+  it('lets environment variables override the built-in defaults', () => {
+    const restore = setEnv({
+      MODEL_CONFIG_PATH: undefined,
+      MODEL_DEFAULT: 'gpt-4o',
+      MODEL_PARSE: 'gemini-2.5-pro',
+      OPENAI_COMPATIBLE_BASE_URL: 'http://localhost:8080/v1',
+    });
+    try {
+      const loaded = loadModelConfig();
+
+      expect(loaded.defaults).toMatchObject({ default: 'gpt-4o', parse: 'gemini-2.5-pro' });
+      expect(loaded.providers.local).toEqual({ type: 'openai-compatible', baseURL: 'http://localhost:8080/v1', apiKeyEnv: 'OPENAI_COMPATIBLE_API_KEY' });
+      expect(loaded.models['gemini-2.5-flash'].provider).toBe('google');
+    } finally {
+      restore();
+    }
+  });
+
+  it('fails when the configured file does not exist', () => {
+    const restore = setEnv({ MODEL_CONFIG_PATH: '/nonexistent/models.config.json' });
+    try {
+      expect(() => loadModelConfig()).toThrow('Model config file not found: /nonexistent/models.config.json');
+    } finally {
+      restore();
+    }
+  });
+});
+
+describe('trackModelUsage', () => {
+  it('reports the tokens of each call and zero for counts the provider left out', async () => {
+    const usages: ModelUsage[] = [];
+    const model = trackModelUsage(new MockLanguageModelV1({
+      doGenerate: async () => ({
+        rawCall: { rawPrompt: null, rawSettings: {} },
+        finishReason: 'stop',
+        usage: { promptTokens: 12, completionTokens: NaN },
+        text: 'Hallo',
+      }),
+    }), usage => usages.push(usage));
+
+    const { text } = await generateText({ model, prompt: 'Hello' });
+
+    expect(text).toBe('Hallo');
+    expect(usages).toEqual([{ promptTokens: 12, completionTokens: 0 }]);
+  });
+});
@@ -0,0 +1,149 @@
+import { createGoogleGenerativeAI } from '@ai-sdk/google';
+import { createOpenAI } from '@ai-sdk/openai';
+import type { LanguageModel } from 'ai';
+import { DocumentProcessingError } from '@/lib/processing-errors';
+import {
+  ModelCapabilities,
+  ModelConfig,
+  ModelDefinition,
+  ModelInfo,
+  ModelPricing,
+  ModelProviderConfig,
+  ModelStage,
+} from '@/lib/types';
+import { DEFAULT_MODEL_ID, loadModelConfig, PROVIDER_DEFAULT_CAPABILITIES } from './config';
+
+/**
+ * A registry entry bound to a ready-to-call AI SDK model
+ */
+export type ResolvedModel = {
+  id: string;
+  provider: string;
+  modelName: string;
+  capabilities: ModelCapabilities;
+  // Absent for models without an entry in the price table
+  pricing?: ModelPricing;
+  model: LanguageModel;
+};
+
+const getApiKey = (provider: ModelProviderConfig): string | undefined =>
+  provider.apiKey ?? (provider.apiKeyEnv ? process.env[provider.apiKeyEnv] : undefined);
+
+// Local OpenAI-compatible servers often run without authentication
+const hasCredentials = (provider: ModelProviderConfig): boolean =>
+  provider.type === 'openai-compatible' || Boolean(getApiKey(provider));
+
+const createProviderModel = (providerId: string, provider: ModelProviderConfig, modelName: string): LanguageModel => {
+  const apiKey = getApiKey(provider);
+
+  switch (provider.type) {
+    case 'google':
+      return createGoogleGenerativeAI({ apiKey, baseURL: provider.baseURL })(modelName);
+    case 'openai':
+      return createOpenAI({ apiKey, baseURL: provider.baseURL, compatibility: 'strict' })(modelName);
+    case 'openai-compatible':
+      return createOpenAI({
+        apiKey: apiKey ?? '',
+        baseURL: provider.baseURL,
+        compatibility: 'compatible',
+        name: providerId,
+      })(modelName);
+  }
+};
+
+/**
+ * Provider/model registry
+ * Models are referenced by registry ID (`gemini-2.5-flash`) or ad hoc as
+ * `provider:model` (`local:llama3.1`), which takes the provider's default capabilities
+ */
+export const createModelRegistry = (config: ModelConfig = loadModelConfig()) => {
+  const findDefinition = (ref: string): { id: string; definition: ModelDefinition } | undefined => {
+    if (config.models[ref]) {
+      return { id: ref, definition: config.models[ref] };
+    }
+
+    const separator = ref.indexOf(':');
+    if (separator > 0 && config.providers[ref.slice(0, separator)]) {
+      return { id: ref, definition: { provider: ref.slice(0, separator), model: ref.slice(separator + 1) } };
+    }
+
+    return undefined;
+  };
+
+  const getCapabilities = (definition: ModelDefinition): ModelCapabilities => ({
+    ...PROVIDER_DEFAULT_CAPABILITIES[config.providers[definition.provider].type],
+    ...definition.capabilities,
+  });
+
+  const getDefaultModelId = (stage?: ModelStage): string =>
+    (stage && config.defaults[stage]) || config.defaults.default || DEFAULT_MODEL_ID;
+
+  return {
+    getDefaultModelId,
+
+    getDefaults: (): Record<ModelStage, string> => ({
+      parse: getDefaultModelId('parse'),
+      detectLanguage: getDefaultModelId('detectLanguage'),
+      translate: getDefaultModelId('translate'),
+      evaluate: getDefaultModelId('evaluate'),
+    }),
+
+    list: (): ModelInfo[] =>
+      Object.entries(config.models)
+        .filter(([, definition]) => config.providers[definition.provider])
+        .map(([id, definition]) => ({
+          id,
+          provider: definition.provider,
+          model: definition.model,
+          ...(definition.label && { label: definition.label }),
+          capabilities: getCapabilities(definition),
+          ...(definition.pricing && { pricing: definition.pricing }),
+          available: hasCredentials(config.providers[definition.provider]),
+        })),
+
+    /**
+     * Resolves a model reference, falling back to the stage default
+     * Throws 400 for unknown models and 500 when provider credentials are missing
+     */
+    resolve: (ref: string | undefined, stage?: ModelStage): ResolvedModel => {
+      const id = ref || getDefaultModelId(stage);
+      const found = findDefinition(id);
+      if (!found) {
+        throw new DocumentProcessingError(`Unknown model: ${id}`, 400);
+      }
+
+      const { definition } = found;
+      const provider = config.providers[definition.provider];
+      if (!provider) {
+        throw new DocumentProcessingError(`Model ${id} refers to unknown provider ${definition.provider}`, 500);
+      }
+      if (!hasCredentials(provider)) {
+        throw new DocumentProcessingError(
+          `API key not configured for provider ${definition.provider}${provider.apiKeyEnv ? ` (${provider.apiKeyEnv})` : ''}`,
+          500
+        );
+      }
+
+      return {
+        id,
+        provider: definition.provider,
+        modelName: definition.model,
+        capabilities: getCapabilities(definition),
+        ...(definition.pricing && { pricing: definition.pricing }),
+        model: createProviderModel(definition.provider, provider, definition.model),
+      };
+    },
+  };
+};
+
+export type ModelRegistry = ReturnType<typeof createModelRegistry>;
+
+let registry: ModelRegistry | undefined;
+
+/**
+ * Registry built from env and the config file on first use
+ */
+export const getModelRegistry = (): ModelRegistry => registry ?? (registry = createModelRegistry());
+
+export const resolveModel = (ref: string | undefined, stage?: ModelStage): ResolvedModel =>
+  getModelRegistry().resolve(ref, stage);
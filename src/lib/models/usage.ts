@@ -0,0 +1,44 @@
+import { LanguageModel, LanguageModelV1StreamPart, wrapLanguageModel } from 'ai';
+
+/**
+ * Tokens one model call consumed, as reported by the provider
+ */
+export type ModelUsage = {
+  promptTokens: number;
+  completionTokens: number;
+};
+
+// Providers that do not report usage leave the counts undefined or NaN
+const toModelUsage = (usage: { promptTokens: number; completionTokens: number }): ModelUsage => ({
+  promptTokens: Number.isFinite(usage.promptTokens) ? usage.promptTokens : 0,
+  completionTokens: Number.isFinite(usage.completionTokens) ? usage.completionTokens : 0,
+});
+
+/**
+ * Wraps a model so `onUsage` receives the tokens of every call made through it,
+ * generated or streamed; failed calls report nothing
+ */
+export const trackModelUsage = (model: LanguageModel, onUsage: (usage: ModelUsage) => void): LanguageModel =>
+  wrapLanguageModel({
+    model,
+    middleware: {
+      wrapGenerate: async ({ doGenerate }) => {
+        const result = await doGenerate();
+        onUsage(toModelUsage(result.usage));
+        return result;
+      },
+
+      wrapStream: async ({ doStream }) => {
+        const { stream, ...rest } = await doStream();
+        return {
+          ...rest,
+          stream: stream.pipeThrough(new TransformStream<LanguageModelV1StreamPart, LanguageModelV1StreamPart>({
+            transform: (part, controller) => {
+              if (part.type === 'finish') onUsage(toModelUsage(part.usage));
+              controller.enqueue(part);
+            },
+          })),
+        };
+      },
+    },
+  });
@@ -0,0 +1,4 @@
+export * from './logger';
+export * from './metrics';
+export * from './operation';
+export * from './request';
@@ -0,0 +1,61 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { DocumentProcessingError } from '@/lib/processing-errors';
+import { setEnv } from '@/test/env';
+import { createLogger } from './logger';
+
+describe('createLogger', () => {
+  let restoreEnv = () => {};
+  const lines: { stream: 'out' | 'err'; entry: Record<string, unknown> }[] = [];
+
+  beforeEach(() => {
+    lines.length = 0;
+    jest.spyOn(console, 'log').mockImplementation(line => lines.push({ stream: 'out', entry: JSON.parse(String(line)) }));
+    jest.spyOn(console, 'error').mockImplementation(line => lines.push({ stream: 'err', entry: JSON.parse(String(line)) }));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    restoreEnv();
+  });
+
+  it('writes JSON lines with the context of the logger and its children', () => {
+    restoreEnv = setEnv({ LOG_LEVEL: 'info' });
+    const log = createLogger({ requestId: 'req-1' }).child({ jobId: 'job-1' });
+
+    log.info('Job started', { stage: 'parsing', skipped: undefined });
+    log.warn('Job slow');
+
+    expect(lines.map(({ stream, entry: { time, ...entry } }) => [stream, typeof time, entry])).toEqual([
+      ['out', 'string', { level: 'info', msg: 'Job started', requestId: 'req-1', jobId: 'job-1', stage: 'parsing' }],
+      ['err', 'string', { level: 'warn', msg: 'Job slow', requestId: 'req-1', jobId: 'job-1' }],
+    ]);
+  });
+
+  it('drops entries below LOG_LEVEL and logs from info up for unknown levels', () => {
+    const log = createLogger();
+
+    restoreEnv = setEnv({ LOG_LEVEL: 'WARN' });
+    log.info('hidden');
+    log.error('shown');
+    restoreEnv();
+
+    restoreEnv = setEnv({ LOG_LEVEL: 'verbose' });
+    log.debug('hidden');
+    log.info('shown too');
+
+    expect(lines.map(({ entry }) => entry.msg)).toEqual(['shown', 'shown too']);
+  });
+
+  it('serialises errors with their status and code', () => {
+    restoreEnv = setEnv({ LOG_LEVEL: 'error' });
+    createLogger().error('Upload rejected', { error: new DocumentProcessingError('File too large', 413, 'file_too_large') });
+
+    expect(lines[0].entry.error).toMatchObject({
+      name: 'DocumentProcessingError',
+      message: 'File too large',
+      status: 413,
+      code: 'file_too_large',
+      stack: expect.stringContaining('File too large'),
+    });
+  });
+});
@@ -0,0 +1,66 @@
+import { DocumentProcessingError } from '@/lib/processing-errors';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogFields = Record<string, unknown>;
+
+/**
+ * Writes one JSON object per line, carrying the fields of its context
+ * (request ID, route, job ID) on every entry
+ */
+export type Logger = {
+  debug: (message: string, fields?: LogFields) => void;
+  info: (message: string, fields?: LogFields) => void;
+  warn: (message: string, fields?: LogFields) => void;
+  error: (message: string, fields?: LogFields) => void;
+  child: (fields: LogFields) => Logger;
+};
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+// LOG_LEVEL drops entries below it; unset or unknown levels log from info up
+const getMinimumLevel = (): number => LEVELS[process.env.LOG_LEVEL?.toLowerCase() as LogLevel] ?? LEVELS.info;
+
+// Errors have no enumerable properties and would serialise to {}
+const serializeError = (error: Error): LogFields => ({
+  name: error.name,
+  message: error.message,
+  ...(error instanceof DocumentProcessingError && { status: error.status, ...(error.code && { code: error.code }) }),
+  ...(error.stack && { stack: error.stack }),
+});
+
+const serializeFields = (fields: LogFields): LogFields =>
+  Object.fromEntries(
+    Object.entries(fields)
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => [key, value instanceof Error ? serializeError(value) : value])
+  );
+
+export const createLogger = (context: LogFields = {}): Logger => {
+  const write = (level: LogLevel, message: string, fields: LogFields = {}) => {
+    if (LEVELS[level] < getMinimumLevel()) return;
+
+    const line = JSON.stringify({
+      time: new Date().toISOString(),
+      level,
+      msg: message,
+      ...serializeFields(context),
+      ...serializeFields(fields),
+    });
+    if (LEVELS[level] >= LEVELS.warn) {
+      console.error(line);
+    } else {
+      console.log(line);
+    }
+  };
+
+  return {
+    debug: (message, fields) => write('debug', message, fields),
+    info: (message, fields) => write('info', message, fields),
+    warn: (message, fields) => write('warn', message, fields),
+    error: (message, fields) => write('error', message, fields),
+    child: fields => createLogger({ ...context, ...fields }),
+  };
+};
+
+export const logger = createLogger();
@@ -0,0 +1,92 @@
+import { describe, expect, it } from '@jest/globals';
+import { MockLanguageModelV1 } from 'ai/test';
+import { generateText } from 'ai';
+import type { ResolvedModel } from '@/lib/models';
+import { getErrorClass, metrics } from './metrics';
+import { createOperationMetrics, estimateCost } from './operation';
+import { startRequest } from './request';
+
+const createModel = (id: string, pricing?: ResolvedModel['pricing']): ResolvedModel => ({
+  id,
+  provider: 'test',
+  modelName: id,
+  capabilities: { pdfInput: false, structuredOutput: true },
+  ...(pricing && { pricing }),
+  model: new MockLanguageModelV1({
+    doGenerate: async () => ({
+      rawCall: { rawPrompt: null, rawSettings: {} },
+      finishReason: 'stop',
+      usage: { promptTokens: 1000, completionTokens: 200 },
+      text: 'ok',
+    }),
+  }),
+});
+
+describe('metrics', () => {
+  it('renders counters and cumulative histogram buckets in the Prometheus text format', () => {
+    metrics.recordRequest({ route: '/api/metrics-test', method: 'POST', status: 422, errorClass: 'unprocessable' }, 300);
+    metrics.recordRequest({ route: '/api/metrics-test', method: 'POST', status: 422, errorClass: 'unprocessable' }, 7000);
+
+    const lines = metrics.render().split('\n');
+    expect(lines).toContain('# TYPE doctranslator_http_requests_total counter');
+    expect(lines).toContain('doctranslator_http_requests_total{route="/api/metrics-test",method="POST",status="422",error_class="unprocessable"} 2');
+    expect(lines).toContain('doctranslator_http_request_duration_seconds_bucket{route="/api/metrics-test",method="POST",le="0.25"} 0');
+    expect(lines).toContain('doctranslator_http_request_duration_seconds_bucket{route="/api/metrics-test",method="POST",le="0.5"} 1');
+    expect(lines).toContain('doctranslator_http_request_duration_seconds_bucket{route="/api/metrics-test",method="POST",le="10"} 2');
+    expect(lines).toContain('doctranslator_http_request_duration_seconds_bucket{route="/api/metrics-test",method="POST",le="+Inf"} 2');
+    expect(lines).toContain('doctranslator_http_request_duration_seconds_sum{route="/api/metrics-test",method="POST"} 7.3');
+  });
+
+  it('classifies failures by upload code or HTTP status', () => {
+    expect([200, 404, 429, 502].map(status => getErrorClass(status))).toEqual(['none', 'not_found', 'rate_limited', 'server_error']);
+    expect(getErrorClass(415, 'content_mismatch')).toBe('content_mismatch');
+  });
+});
+
+describe('createOperationMetrics', () => {
+  it('sums stage timings, tokens and costs per model', async () => {
+    const operation = createOperationMetrics('metrics-test');
+    const priced = operation.meter(createModel('priced-model', { input: 2, output: 10 }));
+    const unpriced = operation.meter(createModel('unpriced-model'));
+
+    await operation.time('translate', () => generateText({ model: priced.model, prompt: 'a' }));
+    await operation.time('translate', () => generateText({ model: priced.model, prompt: 'b' }));
+    await expect(operation.time('detect', () => Promise.reject(new Error('failed')))).rejects.toThrow('failed');
+    await generateText({ model: unpriced.model, prompt: 'c' });
+
+    const report = operation.report('req-1');
+    expect(Object.keys(report.stages)).toEqual(['translate', 'detect']);
+    expect(report.usage).toEqual([
+      { model: 'priced-model', calls: 2, promptTokens: 2000, completionTokens: 400, totalTokens: 2400, estimatedCost: 0.008 },
+      { model: 'unpriced-model', calls: 1, promptTokens: 1000, completionTokens: 200, totalTokens: 1200, estimatedCost: null },
+    ]);
+    expect(report).toMatchObject({ requestId: 'req-1', totalTokens: 3600, estimatedCost: 0.008 });
+    expect(metrics.render()).toContain('doctranslator_model_tokens_total{model="priced-model",type="prompt"} 2000');
+  });
+
+  it('estimates no cost without a price', () => {
+    expect(estimateCost({ input: 0.3, output: 2.5 }, { promptTokens: 1_000_000, completionTokens: 0 })).toBe(0.3);
+    expect(estimateCost(undefined, { promptTokens: 10, completionTokens: 10 })).toBeNull();
+  });
+});
+
+describe('startRequest', () => {
+  it('keeps a safe request ID from the caller and replaces others', () => {
+    const given = startRequest(new Request('http://localhost/api/x', { headers: { 'X-Request-Id': 'trace-42' } }), '/api/x');
+    const unsafe = startRequest(new Request('http://localhost/api/x', { headers: { 'X-Request-Id': 'bad id\n' } }), '/api/x');
+
+    expect(given.requestId).toBe('trace-42');
+    expect(unsafe.requestId).toMatch(/^[0-9a-f-]{36}$/);
+  });
+
+  it('records a request once and sets the ID header on the response', () => {
+    const tracker = startRequest(new Request('http://localhost/api/metrics-once', { method: 'DELETE' }), '/api/metrics-once');
+
+    const response = tracker.respond(new Response(null, { status: 204 }));
+    tracker.end(500);
+
+    expect(response.headers.get('X-Request-Id')).toBe(tracker.requestId);
+    expect(metrics.render()).toContain('doctranslator_http_requests_total{route="/api/metrics-once",method="DELETE",status="204",error_class="none"} 1');
+    expect(metrics.render()).not.toContain('route="/api/metrics-once",method="DELETE",status="500"');
+  });
+});
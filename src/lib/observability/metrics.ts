@@ -0,0 +1,175 @@
+type Labels = Record<string, string>;
+
+type CounterSeries = { labels: Labels; value: number };
+
+type HistogramSeries = { labels: Labels; buckets: number[]; sum: number; count: number };
+
+// Seconds; parses run from milliseconds (cache hits) to minutes (large PDFs)
+export const DURATION_BUCKETS = [0.01, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300];
+
+const seriesKey = (labels: Labels): string =>
+  JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+
+const escapeLabelValue = (value: string): string =>
+  value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+
+const formatLabels = (labels: Labels): string => {
+  const entries = Object.entries(labels);
+  return entries.length === 0
+    ? ''
+    : `{${entries.map(([name, value]) => `${name}="${escapeLabelValue(value)}"`).join(',')}}`;
+};
+
+const formatValue = (value: number): string => (Number.isFinite(value) ? String(value) : value > 0 ? '+Inf' : '-Inf');
+
+const createCounter = (name: string, help: string) => {
+  const series = new Map<string, CounterSeries>();
+
+  return {
+    inc: (labels: Labels, by = 1) => {
+      if (!(by > 0)) return;
+
+      const key = seriesKey(labels);
+      const entry = series.get(key) ?? { labels, value: 0 };
+      entry.value += by;
+      series.set(key, entry);
+    },
+
+    render: (): string[] => [
+      `# HELP ${name} ${help}`,
+      `# TYPE ${name} counter`,
+      ...[...series.values()].map(({ labels, value }) => `${name}${formatLabels(labels)} ${formatValue(value)}`),
+    ],
+  };
+};
+
+const createHistogram = (name: string, help: string, bounds: number[] = DURATION_BUCKETS) => {
+  const series = new Map<string, HistogramSeries>();
+
+  return {
+    observe: (labels: Labels, value: number) => {
+      const key = seriesKey(labels);
+      const entry = series.get(key) ?? { labels, buckets: bounds.map(() => 0), sum: 0, count: 0 };
+      bounds.forEach((bound, index) => {
+        if (value <= bound) entry.buckets[index] += 1;
+      });
+      entry.sum += value;
+      entry.count += 1;
+      series.set(key, entry);
+    },
+
+    // Buckets are cumulative, ending with +Inf, as the exposition format expects
+    render: (): string[] => [
+      `# HELP ${name} ${help}`,
+      `# TYPE ${name} histogram`,
+      ...[...series.values()].flatMap(({ labels, buckets, sum, count }) => [
+        ...bounds.map((bound, index) => `${name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${buckets[index]}`),
+        `${name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`,
+        `${name}_sum${formatLabels(labels)} ${formatValue(sum)}`,
+        `${name}_count${formatLabels(labels)} ${count}`,
+      ]),
+    ],
+  };
+};
+
+/**
+ * In-process metrics of the API, rendered in the Prometheus text format
+ * Counts start over when the server restarts, which Prometheus handles as a
+ * counter reset
+ */
+const createMetricsRegistry = () => {
+  const requests = createCounter(
+    'doctranslator_http_requests_total',
+    'API requests by route, method, status and error class'
+  );
+  const requestDuration = createHistogram(
+    'doctranslator_http_request_duration_seconds',
+    'API request latency by route and method'
+  );
+  const stageDuration = createHistogram(
+    'doctranslator_stage_duration_seconds',
+    'Time spent in each pipeline stage by operation'
+  );
+  const parseJobs = createCounter(
+    'doctranslator_parse_jobs_total',
+    'Finished parse jobs by status and error class'
+  );
+  const modelTokens = createCounter(
+    'doctranslator_model_tokens_total',
+    'Model tokens consumed by model and type (prompt or completion)'
+  );
+  const modelCost = createCounter(
+    'doctranslator_model_cost_usd_total',
+    'Estimated model cost in USD by model, for models with a price'
+  );
+
+  return {
+    recordRequest: (
+      { route, method, status, errorClass }: { route: string; method: string; status: number; errorClass: string },
+      durationMs: number
+    ) => {
+      requests.inc({ route, method, status: String(status), error_class: errorClass });
+      requestDuration.observe({ route, method }, durationMs / 1000);
+    },
+
+    recordStage: (operation: string, stage: string, durationMs: number) =>
+      stageDuration.observe({ operation, stage }, durationMs / 1000),
+
+    recordParseJob: (status: string, errorClass: string) => parseJobs.inc({ status, error_class: errorClass }),
+
+    recordModelUsage: (
+      model: string,
+      { promptTokens, completionTokens }: { promptTokens: number; completionTokens: number },
+      cost: number | null
+    ) => {
+      modelTokens.inc({ model, type: 'prompt' }, promptTokens);
+      modelTokens.inc({ model, type: 'completion' }, completionTokens);
+      if (cost !== null) modelCost.inc({ model }, cost);
+    },
+
+    render: (): string =>
+      [requests, requestDuration, stageDuration, parseJobs, modelTokens, modelCost]
+        .flatMap(metric => metric.render())
+        .join('\n') + '\n',
+  };
+};
+
+export type MetricsRegistry = ReturnType<typeof createMetricsRegistry>;
+
+// Reuse one registry across hot reloads in development
+const globalForMetrics = globalThis as unknown as { metricsRegistry?: MetricsRegistry };
+
+export const metrics = globalForMetrics.metricsRegistry ?? (globalForMetrics.metricsRegistry = createMetricsRegistry());
+
+/**
+ * Label value summarising why a request or job failed: the upload error code
+ * when the file was rejected, otherwise a class derived from the HTTP status
+ */
+export const getErrorClass = (status: number, code?: string): string => {
+  if (status < 400) return 'none';
+  if (code) return code;
+
+  switch (status) {
+    case 400:
+      return 'invalid_request';
+    case 401:
+    case 403:
+      return 'unauthorized';
+    case 404:
+      return 'not_found';
+    case 408:
+      return 'timeout';
+    case 413:
+      return 'too_large';
+    case 415:
+      return 'unsupported_format';
+    case 422:
+      return 'unprocessable';
+    case 429:
+      return 'rate_limited';
+    case 503:
+      return 'unavailable';
+    default:
+      return status >= 500 ? 'server_error' : 'client_error';
+  }
+};
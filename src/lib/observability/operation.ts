@@ -0,0 +1,86 @@
+import { ModelUsage, ResolvedModel, trackModelUsage } from '@/lib/models';
+import { ModelPricing, ModelUsageReport, RequestMetrics } from '@/lib/types';
+import { metrics } from './metrics';
+
+type ModelUsageTotals = ModelUsage & { calls: number; pricing?: ModelPricing };
+
+// Costs are summed from fractions of a cent; rounding hides float noise
+const roundCost = (cost: number): number => Math.round(cost * 1e8) / 1e8;
+
+/**
+ * Estimated cost in USD of the tokens at the model's price, or null without one
+ */
+export const estimateCost = (pricing: ModelPricing | undefined, { promptTokens, completionTokens }: ModelUsage): number | null =>
+  pricing ? (promptTokens * pricing.input + completionTokens * pricing.output) / 1_000_000 : null;
+
+/**
+ * Collects the stage timings and model usage of one operation, a request or a
+ * parse job, and feeds them into the metrics registry as they happen
+ */
+export const createOperationMetrics = (operation: string) => {
+  const startedAt = performance.now();
+  const stages: Record<string, number> = {};
+  const usage = new Map<string, ModelUsageTotals>();
+
+  const getDurationMs = (): number => Math.round(performance.now() - startedAt);
+
+  return {
+    getDurationMs,
+
+    /**
+     * Runs one stage and adds its duration, also when it fails; stages run
+     * more than once accumulate
+     */
+    time: async <T>(stage: string, run: () => Promise<T> | T): Promise<T> => {
+      const start = performance.now();
+      try {
+        return await run();
+      } finally {
+        const duration = performance.now() - start;
+        stages[stage] = (stages[stage] ?? 0) + duration;
+        metrics.recordStage(operation, stage, duration);
+      }
+    },
+
+    /**
+     * Counts the tokens of every call made through the model
+     */
+    meter: (resolved: ResolvedModel): ResolvedModel => ({
+      ...resolved,
+      model: trackModelUsage(resolved.model, callUsage => {
+        const totals = usage.get(resolved.id) ?? { calls: 0, promptTokens: 0, completionTokens: 0, pricing: resolved.pricing };
+        totals.calls += 1;
+        totals.promptTokens += callUsage.promptTokens;
+        totals.completionTokens += callUsage.completionTokens;
+        usage.set(resolved.id, totals);
+
+        metrics.recordModelUsage(resolved.id, callUsage, estimateCost(resolved.pricing, callUsage));
+      }),
+    }),
+
+    report: (requestId: string): RequestMetrics => {
+      const reports: ModelUsageReport[] = [...usage].map(([model, { calls, promptTokens, completionTokens, pricing }]) => {
+        const cost = estimateCost(pricing, { promptTokens, completionTokens });
+        return {
+          model,
+          calls,
+          promptTokens,
+          completionTokens,
+          totalTokens: promptTokens + completionTokens,
+          estimatedCost: cost === null ? null : roundCost(cost),
+        };
+      });
+
+      return {
+        requestId,
+        durationMs: getDurationMs(),
+        stages: Object.fromEntries(Object.entries(stages).map(([stage, duration]) => [stage, Math.round(duration)])),
+        usage: reports,
+        totalTokens: reports.reduce((total, report) => total + report.totalTokens, 0),
+        estimatedCost: roundCost(reports.reduce((total, report) => total + (report.estimatedCost ?? 0), 0)),
+      };
+    },
+  };
+};
+
+export type OperationMetrics = ReturnType<typeof createOperationMetrics>;
@@ -0,0 +1,67 @@
+import { randomUUID } from 'crypto';
+import { logger } from './logger';
+import { getErrorClass, metrics } from './metrics';
+import { createOperationMetrics } from './operation';
+
+export const REQUEST_ID_HEADER = 'X-Request-Id';
+
+// IDs set by a proxy or the caller are kept when they are safe to log
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+const readRequestId = (headers: Headers): string => {
+  const given = headers.get(REQUEST_ID_HEADER)?.trim();
+  return given && REQUEST_ID_PATTERN.test(given) ? given : randomUUID();
+};
+
+/**
+ * Starts tracking an API request: its ID, a logger carrying it, stage timings
+ * and model usage
+ *
+ * `respond` (or `end`, for streamed responses that finish later) records the
+ * request in the metrics registry and logs its outcome once.
+ */
+export const startRequest = (request: Request, route: string) => {
+  const requestId = readRequestId(request.headers);
+  const { method } = request;
+  const operation = createOperationMetrics(route);
+  const log = logger.child({ requestId, route, method });
+  let ended = false;
+
+  const end = (status: number, code?: string) => {
+    if (ended) return;
+    ended = true;
+
+    const errorClass = getErrorClass(status, code);
+    const { durationMs, stages, totalTokens, estimatedCost } = operation.report(requestId);
+    metrics.recordRequest({ route, method, status, errorClass }, durationMs);
+
+    (status >= 400 ? log.warn : log.info)('Request completed', {
+      status,
+      ...(errorClass !== 'none' && { errorClass }),
+      durationMs,
+      stages,
+      ...(totalTokens > 0 && { totalTokens, estimatedCost }),
+    });
+  };
+
+  const withRequestId = <T extends Response>(response: T): T => {
+    response.headers.set(REQUEST_ID_HEADER, requestId);
+    return response;
+  };
+
+  return {
+    requestId,
+    log,
+    time: operation.time,
+    meter: operation.meter,
+    getMetrics: () => operation.report(requestId),
+    withRequestId,
+    end,
+    respond: <T extends Response>(response: T, code?: string): T => {
+      end(response.status, code);
+      return withRequestId(response);
+    },
+  };
+};
+
+export type RequestTracker = ReturnType<typeof startRequest>;
@@ -0,0 +1,40 @@
+import { describe, expect, it } from '@jest/globals';
+import { orderVisually } from './bidi';
+
+const order = (items: string[], rtl: boolean) =>
+  orderVisually(items, item => item, rtl).map(({ text, level }) => ({ text, level }));
+
+describe('orderVisually', () => {
+  it('keeps numbers and Latin words in a right-to-left line in their own order', () => {
+    // "Revenue 2024 (Acme Corp) rose" in Hebrew, read right to left
+    const segments = order(['\u05D4\u05DB\u05E0\u05E1\u05D5\u05EA ', '2024 (Acme Corp) ', '\u05E2\u05DC\u05D5'], true);
+
+    expect(segments).toEqual([
+      { text: '\u05E2\u05DC\u05D5', level: 1 },
+      // The closing bracket, mirrored so it opens towards the text it encloses
+      { text: '( ', level: 1 },
+      { text: 'Acme Corp', level: 2 },
+      { text: ' )', level: 1 },
+      { text: '2024', level: 2 },
+      { text: '\u05D4\u05DB\u05E0\u05E1\u05D5\u05EA ', level: 1 },
+    ]);
+  });
+
+  it('reverses an embedded right-to-left phrase as a whole in a left-to-right line', () => {
+    const segments = order(['Revenue ', '\u05E9\u05DC\u05D5\u05DD \u05E2\u05D5\u05DC\u05DD', ' grew'], false);
+
+    expect(segments).toEqual([
+      { text: 'Revenue ', level: 0 },
+      { text: '\u05E9\u05DC\u05D5\u05DD \u05E2\u05D5\u05DC\u05DD', level: 1 },
+      { text: ' grew', level: 0 },
+    ]);
+  });
+
+  it('leaves a left-to-right line without right-to-left text as it is', () => {
+    expect(order(['\u5E74\u5EA6', '\u62A5\u544A ', 'Q4'], false)).toEqual([
+      { text: '\u5E74\u5EA6', level: 0 },
+      { text: '\u62A5\u544A ', level: 0 },
+      { text: 'Q4', level: 0 },
+    ]);
+  });
+});
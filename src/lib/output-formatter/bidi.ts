@@ -0,0 +1,61 @@
+import bidiFactory from 'bidi-js';
+
+const bidi = bidiFactory();
+
+export type BidiSegment<T> = {
+  item: T;
+  // Logical order, with mirrored characters (brackets) swapped at odd levels
+  text: string;
+  level: number;
+};
+
+/**
+ * Lays out one line of text by the Unicode bidirectional algorithm
+ *
+ * The line is given as items in logical order, each holding a piece of its
+ * text. Items are cut where the embedding level changes, and the segments are
+ * returned in visual order, left to right, so numbers and Latin words inside
+ * Arabic or Hebrew text keep their own direction. Segments at odd levels read
+ * right to left; their characters are left in logical order for the caller to
+ * reverse or shape.
+ */
+export const orderVisually = <T>(items: T[], getText: (item: T) => string, rtl: boolean): BidiSegment<T>[] => {
+  const text = items.map(getText).join('');
+  const { levels } = bidi.getEmbeddingLevels(text, rtl ? 'rtl' : 'ltr');
+  const mirrored = bidi.getMirroredCharactersMap(text, levels);
+
+  const segments: BidiSegment<T>[] = [];
+  let offset = 0;
+  for (const item of items) {
+    const itemText = getText(item);
+    let start = 0;
+    for (let index = 1; index <= itemText.length; index++) {
+      if (index < itemText.length && levels[offset + index] === levels[offset + start]) continue;
+
+      let piece = '';
+      for (let char = start; char < index; char++) {
+        piece += mirrored.get(offset + char) ?? itemText[char];
+      }
+      segments.push({ item, text: piece, level: levels[offset + start] });
+      start = index;
+    }
+    offset += itemText.length;
+  }
+
+  // Rule L2: from the highest level down to the lowest odd one, reverse every
+  // sequence of segments at that level or above
+  const highest = Math.max(0, ...segments.map(segment => segment.level));
+  const lowestOdd = Math.min(...segments.map(segment => segment.level % 2 === 1 ? segment.level : segment.level + 1));
+  for (let level = highest; level >= lowestOdd; level--) {
+    for (let start = 0; start < segments.length; start++) {
+      if (segments[start].level < level) continue;
+
+      let end = start;
+      while (end < segments.length && segments[end].level >= level) end++;
+      segments.splice(start, end - start, ...segments.slice(start, end).reverse());
+      start = end;
+    }
+  }
+
+  return segments;
+};
@@ -0,0 +1,197 @@
+import { sliceStyleRuns } from '@/lib/style-runs';
+import { tableFromText } from '@/lib/tables';
+import { DocumentParserResult, DocumentSection, DocumentTable, StyleRun } from '@/lib/types';
+import { BlockPlacement, createPlacementResolver } from './placement';
+
+export type ExportFont = { name: string; size: number; bold: boolean; italic: boolean };
+
+/**
+ * Formatting of a text block: its inline style runs (offsets into the block
+ * text), the font the section referenced, and its placement on the page
+ */
+export type BlockFormat = BlockPlacement & {
+  runs?: StyleRun[];
+  font?: ExportFont;
+};
+
+/**
+ * Format-neutral building blocks shared by the Markdown, HTML and DOCX exporters
+ */
+export type ExportBlock =
+  | ({ type: 'heading'; level: number; text: string } & BlockFormat)
+  | ({ type: 'paragraph'; text: string } & BlockFormat)
+  | { type: 'list'; ordered: boolean; items: string[] }
+  | { type: 'table'; table: DocumentTable; caption?: string }
+  | { type: 'image'; description: string; caption?: string }
+  | ({ type: 'caption'; text: string } & BlockFormat);
+
+export type ExportPage = {
+  page: number;
+  headers: string[];
+  footers: string[];
+  blocks: ExportBlock[];
+};
+
+export type ExportDocument = {
+  title?: string;
+  author?: string;
+  subject?: string;
+  keywords?: string[];
+  language?: string;
+  pages: ExportPage[];
+  tableOfContents: NonNullable<DocumentParserResult['structure']['tableOfContents']>;
+  footnotes: NonNullable<DocumentParserResult['structure']['footnotes']>;
+  bodyFont?: ExportFont;
+  headingFont?: Omit<ExportFont, 'size'>;
+};
+
+const ORDERED_ITEM = /^(\d+|[a-z])[.)]\s+/i;
+const BULLET_ITEM = /^[-*\u2022\u2013]\s+/;
+
+/**
+ * Splits list text into items without their markers
+ * A list counts as ordered when every item starts with a number or letter marker
+ */
+export const parseListItems = (content: string): { ordered: boolean; items: string[] } => {
+  const lines = content.split('\n').map(line => line.trim()).filter(Boolean);
+  const ordered = lines.length > 0 && lines.every(line => ORDERED_ITEM.test(line));
+
+  return {
+    ordered,
+    items: lines.map(line => line.replace(ordered ? ORDERED_ITEM : BULLET_ITEM, '')),
+  };
+};
+
+const toExportFont = (font: DocumentParserResult['formatting']['fonts'][number]): ExportFont => ({
+  name: font.name,
+  size: font.size,
+  bold: font.weight === 'bold',
+  italic: font.style === 'italic',
+});
+
+const toBlock = (
+  section: DocumentSection,
+  captions: Map<number, string>,
+  formatOf: (section: DocumentSection, text: string) => BlockFormat
+): ExportBlock | undefined => {
+  const text = section.content.trim();
+
+  switch (section.type) {
+    case 'heading':
+      return { type: 'heading', level: Math.min(Math.max(section.level ?? 1, 1), 6), text, ...formatOf(section, text) };
+    case 'list':
+      return { type: 'list', ...parseListItems(text) };
+    case 'table': {
+      // Tables parsed before rows and cells were extracted are read from their text;
+      // text without cell separators is kept as a paragraph
+      const table = section.table?.rows.length ? section.table : tableFromText(text);
+      if (!table) return { type: 'paragraph', text };
+      const caption = table.captionOrder !== undefined ? captions.get(table.captionOrder) : undefined;
+      return { type: 'table', table, ...(caption && { caption }) };
+    }
+    case 'image':
+      return { type: 'image', description: text };
+    case 'caption':
+      return { type: 'caption', text, ...formatOf(section, text) };
+    case 'header':
+    case 'footer':
+      return undefined;
+    default:
+      return text ? { type: 'paragraph', text, ...formatOf(section, text) } : undefined;
+  }
+};
+
+// Captions not linked to a table belong to the table or image right before them, or else right after them
+const attachCaptions = (blocks: ExportBlock[]): ExportBlock[] => {
+  const result: ExportBlock[] = [];
+
+  for (const [index, block] of blocks.entries()) {
+    if (block.type !== 'caption') {
+      result.push(block);
+      continue;
+    }
+
+    const previous = result[result.length - 1];
+    const next = blocks[index + 1];
+    if ((previous?.type === 'table' || previous?.type === 'image') && !previous.caption) {
+      previous.caption = block.text;
+    } else if ((next?.type === 'table' || next?.type === 'image') && !next.caption) {
+      next.caption = block.text;
+    } else {
+      result.push(block);
+    }
+  }
+
+  return result;
+};
+
+const uniqueTexts = (sections: DocumentSection[]): string[] =>
+  Array.from(new Set(sections.map(section => section.content.trim()).filter(Boolean)));
+
+/**
+ * Groups a document's sections by source page in reading order, with
+ * headers and footers split out and captions attached to their tables and images
+ */
+export const buildExportDocument = (document: DocumentParserResult): ExportDocument => {
+  const { metadata, structure, formatting } = document;
+  const placementOf = createPlacementResolver(document);
+
+  // Runs are shifted along with the trimmed text
+  const formatOf = (section: DocumentSection, text: string): BlockFormat => {
+    const leading = section.content.length - section.content.trimStart().length;
+    const runs = sliceStyleRuns(section.runs ?? [], leading, leading + text.length);
+    const font = section.fontIndex !== undefined ? formatting.fonts[section.fontIndex] : undefined;
+    return {
+      ...placementOf(section),
+      ...(runs.length && { runs }),
+      ...(font && { font: toExportFont(font) }),
+    };
+  };
+
+  const sectionsByPage = new Map<number, DocumentSection[]>();
+  for (const section of structure.sections) {
+    const pageSections = sectionsByPage.get(section.position.page) ?? [];
+    pageSections.push(section);
+    sectionsByPage.set(section.position.page, pageSections);
+  }
+
+  const pages = Array.from(sectionsByPage.keys()).sort((a, b) => a - b).map((page): ExportPage => {
+    const sections = [...sectionsByPage.get(page)!].sort((a, b) => a.position.order - b.position.order);
+    const captions = new Map(sections
+      .filter(section => section.type === 'caption')
+      .map(section => [section.position.order, section.content.trim()]));
+    const linked = new Set(sections.flatMap(section => section.table?.captionOrder ?? []).filter(order => captions.has(order)));
+
+    return {
+      page,
+      headers: uniqueTexts(sections.filter(section => section.type === 'header')),
+      footers: uniqueTexts(sections.filter(section => section.type === 'footer')),
+      blocks: attachCaptions(sections.flatMap(section =>
+        section.type === 'caption' && linked.has(section.position.order) ? [] : toBlock(section, captions, formatOf) ?? [])),
+    };
+  });
+
+  const body = formatting.fonts.find(font => font.isUsedForBody);
+  const heading = formatting.fonts.find(font => font.isUsedForHeadings);
+
+  return {
+    title: metadata.title,
+    author: metadata.author,
+    subject: metadata.subject,
+    keywords: metadata.keywords,
+    language: metadata.language,
+    pages,
+    tableOfContents: structure.tableOfContents ?? [],
+    footnotes: [...(structure.footnotes ?? [])].sort((a, b) => a.page - b.page || a.number - b.number),
+    ...(body && { bodyFont: toExportFont(body) }),
+    ...(heading && {
+      headingFont: { name: heading.name, bold: heading.weight !== 'light', italic: heading.style === 'italic' },
+    }),
+  };
+};
+
+/**
+ * Headers and footers in the order they first appear, without repeats across pages
+ */
+export const collectMarginTexts = (pages: ExportPage[], type: 'headers' | 'footers'): string[] =>
+  Array.from(new Set(pages.flatMap(page => page[type])));
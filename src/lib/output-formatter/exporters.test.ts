@@ -0,0 +1,84 @@
+import { describe, expect, it } from '@jest/globals';
+import JSZip from 'jszip';
+import { createTestDocument } from '@/test/documents';
+import { getExporter, listExporters } from './exporters';
+import { renderDocumentHtml } from './render-html';
+import { renderDocumentMarkdown } from './render-markdown';
+
+const document = createTestDocument(
+  [
+    { type: 'heading', level: 1, content: 'Report <2024>' },
+    { type: 'paragraph', content: 'Sales were strong[1] this year.', runs: [{ start: 11, end: 17, bold: true }] },
+    { type: 'list', content: '- First\n- Second' },
+    {
+      type: 'table',
+      content: 'Region | Sales\nNorth | 120',
+      table: {
+        rows: [
+          [{ content: 'Region', header: true }, { content: 'Sales', header: true }],
+          [{ content: 'North' }, { content: '120' }],
+        ],
+        headerRows: 1,
+        headerColumns: 0,
+      },
+    },
+  ],
+  { structure: { footnotes: [{ number: 1, content: 'Unaudited.', page: 1 }] } }
+);
+
+describe('getExporter', () => {
+  it('finds exporters by format name or alias, ignoring case', () => {
+    expect(listExporters().map(exporter => exporter.format)).toEqual(['pdf', 'markdown', 'html', 'docx']);
+    expect(getExporter('MD')?.format).toBe('markdown');
+    expect(getExporter('word')?.extension).toBe('docx');
+    expect(getExporter('rtf')).toBeUndefined();
+  });
+});
+
+describe('renderDocumentMarkdown', () => {
+  it('writes headings, emphasis, lists, tables and footnotes as Markdown', () => {
+    expect(renderDocumentMarkdown(document)).toBe([
+      '# Report \\<2024\\>',
+      '',
+      'Sales were **strong**[^1] this year.',
+      '',
+      '- First',
+      '- Second',
+      '',
+      '| Region | Sales |',
+      '| --- | --- |',
+      '| North | 120 |',
+      '',
+      '[^1]: Unaudited.',
+      '',
+    ].join('\n'));
+  });
+});
+
+describe('renderDocumentHtml', () => {
+  it('escapes text, links footnotes and sets the direction of the language', () => {
+    const html = renderDocumentHtml({ ...document, metadata: { ...document.metadata, language: 'ar' } });
+
+    expect(html).toContain('<html lang="ar" dir="rtl">');
+    expect(html).toContain('<h1 id="report-2024">Report &lt;2024&gt;</h1>');
+    expect(html).toContain('<p>Sales were <strong>strong</strong><sup id="fnref-1"><a href="#fn-1">1</a></sup> this year.</p>');
+    expect(html).toContain('<tr><th scope="col">Region</th><th scope="col">Sales</th></tr>');
+    expect(html).toContain('<li id="fn-1" value="1">Unaudited.');
+  });
+});
+
+describe('DOCX exporter', () => {
+  it('writes a Word document with styled headings, bold runs, tables and footnotes', async () => {
+    const docx = await getExporter('docx')!.render(document);
+    const zip = await JSZip.loadAsync(docx);
+    const body = await zip.file('word/document.xml')!.async('string');
+    const footnotes = await zip.file('word/footnotes.xml')?.async('string');
+
+    expect(body).toContain('w:val="Heading1"');
+    // The bold property sits in the run that holds the word
+    expect(body).toMatch(/<w:r>(?:(?!<\/w:r>)[\s\S])*<w:b\/>(?:(?!<\/w:r>)[\s\S])*>strong<\/w:t>/);
+    expect(body).toContain('<w:tbl>');
+    expect(body).toContain('<w:footnoteReference w:id="1"/>');
+    expect(footnotes).toContain('Unaudited.');
+  });
+});
@@ -0,0 +1,66 @@
+import { DocumentParserResult, ExportFormat } from '@/lib/types';
+import { renderDocumentDocx } from './render-docx';
+import { renderDocumentHtml } from './render-html';
+import { renderDocumentMarkdown } from './render-markdown';
+import { renderDocumentPdf } from './render-pdf';
+
+/**
+ * A download format for (translated) documents
+ */
+export type DocumentExporter = {
+  format: ExportFormat;
+  label: string;
+  extension: string;
+  contentType: string;
+  render: (document: DocumentParserResult) => Promise<Uint8Array>;
+};
+
+const encoder = new TextEncoder();
+
+const exporters: Record<ExportFormat, DocumentExporter> = {
+  pdf: {
+    format: 'pdf',
+    label: 'PDF',
+    extension: 'pdf',
+    contentType: 'application/pdf',
+    render: document => renderDocumentPdf(document),
+  },
+  markdown: {
+    format: 'markdown',
+    label: 'Markdown',
+    extension: 'md',
+    contentType: 'text/markdown; charset=utf-8',
+    render: async document => encoder.encode(renderDocumentMarkdown(document)),
+  },
+  html: {
+    format: 'html',
+    label: 'HTML',
+    extension: 'html',
+    contentType: 'text/html; charset=utf-8',
+    render: async document => encoder.encode(renderDocumentHtml(document)),
+  },
+  docx: {
+    format: 'docx',
+    label: 'Word',
+    extension: 'docx',
+    contentType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    render: document => renderDocumentDocx(document),
+  },
+};
+
+// Alternative names accepted in export URLs
+const FORMAT_ALIASES: Record<string, ExportFormat> = {
+  md: 'markdown',
+  htm: 'html',
+  word: 'docx',
+};
+
+export const listExporters = (): DocumentExporter[] => Object.values(exporters);
+
+/**
+ * Exporter for a format name or alias, case-insensitive
+ */
+export const getExporter = (format: string): DocumentExporter | undefined => {
+  const name = format.toLowerCase();
+  return exporters[FORMAT_ALIASES[name] ?? (name as ExportFormat)];
+};
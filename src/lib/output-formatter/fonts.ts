@@ -0,0 +1,174 @@
+import { existsSync, readFileSync } from 'fs';
+import path from 'path';
+import fontkit from '@pdf-lib/fontkit';
+import { PDFDocument, PDFFont, StandardFonts } from 'pdf-lib';
+import { DocumentProcessingError } from '@/lib/processing-errors';
+
+export type Script =
+  | 'latin'
+  | 'cyrillic'
+  | 'greek'
+  | 'arabic'
+  | 'hebrew'
+  | 'devanagari'
+  | 'thai'
+  | 'han'
+  | 'kana'
+  | 'hangul';
+
+// Unicode ranges used to pick a font per run of text; anything else counts as Latin
+const SCRIPT_RANGES: [Script, RegExp][] = [
+  ['cyrillic', /[\u0400-\u052F\u2DE0-\u2DFF\uA640-\uA69F]/],
+  ['greek', /[\u0370-\u03FF\u1F00-\u1FFF]/],
+  ['arabic', /[\u0600-\u06FF\u0750-\u077F\u08A0-\u08FF\uFB50-\uFDFF\uFE70-\uFEFF]/],
+  ['hebrew', /[\u0590-\u05FF\uFB1D-\uFB4F]/],
+  ['devanagari', /[\u0900-\u097F]/],
+  ['thai', /[\u0E00-\u0E7F]/],
+  ['kana', /[\u3040-\u30FF\u31F0-\u31FF\uFF66-\uFF9F]/],
+  ['hangul', /[\u1100-\u11FF\u3130-\u318F\uAC00-\uD7AF]/],
+  ['han', /[\u2E80-\u2FDF\u3000-\u303F\u3400-\u4DBF\u4E00-\u9FFF\uF900-\uFAFF\uFF00-\uFF65]/],
+];
+
+export const RTL_SCRIPTS: Script[] = ['arabic', 'hebrew'];
+
+// Scripts written without spaces between words, wrapped per character
+export const CHARACTER_WRAPPED_SCRIPTS: Script[] = ['han', 'kana', 'thai'];
+
+/**
+ * Candidate font files per script, looked up in the output font directory
+ * The Noto families cover every script the translator targets; the first file found wins
+ */
+const FONT_CANDIDATES: Record<Script, string[]> = {
+  latin: ['NotoSans-Regular.ttf'],
+  cyrillic: ['NotoSans-Regular.ttf'],
+  greek: ['NotoSans-Regular.ttf'],
+  arabic: ['NotoSansArabic-Regular.ttf', 'NotoNaskhArabic-Regular.ttf'],
+  hebrew: ['NotoSansHebrew-Regular.ttf'],
+  devanagari: ['NotoSansDevanagari-Regular.ttf'],
+  thai: ['NotoSansThai-Regular.ttf'],
+  han: ['NotoSansSC-Regular.otf', 'NotoSansCJKsc-Regular.otf', 'NotoSansJP-Regular.otf', 'NotoSansKR-Regular.otf'],
+  kana: ['NotoSansJP-Regular.otf', 'NotoSansCJKsc-Regular.otf', 'NotoSansSC-Regular.otf'],
+  hangul: ['NotoSansKR-Regular.otf', 'NotoSansCJKsc-Regular.otf'],
+};
+
+/**
+ * Noto fonts installed from npm (@expo-google-fonts/*), used for scripts the
+ * font directory has no file for
+ */
+const PACKAGED_FONTS: Record<Script, { pkg: string; family: string }[]> = {
+  latin: [{ pkg: 'noto-sans', family: 'NotoSans' }],
+  cyrillic: [{ pkg: 'noto-sans', family: 'NotoSans' }],
+  greek: [{ pkg: 'noto-sans', family: 'NotoSans' }],
+  arabic: [{ pkg: 'noto-sans-arabic', family: 'NotoSansArabic' }],
+  hebrew: [{ pkg: 'noto-sans-hebrew', family: 'NotoSansHebrew' }],
+  devanagari: [{ pkg: 'noto-sans-devanagari', family: 'NotoSansDevanagari' }],
+  thai: [{ pkg: 'noto-sans-thai', family: 'NotoSansThai' }],
+  han: [{ pkg: 'noto-sans-sc', family: 'NotoSansSC' }, { pkg: 'noto-sans-jp', family: 'NotoSansJP' }],
+  kana: [{ pkg: 'noto-sans-jp', family: 'NotoSansJP' }],
+  hangul: [{ pkg: 'noto-sans-kr', family: 'NotoSansKR' }],
+};
+
+// Bold variants are optional; regular faces are used when they are missing
+const toBoldCandidate = (file: string): string => file.replace('-Regular', '-Bold');
+
+const getFontDirectory = (): string =>
+  process.env.OUTPUT_FONT_DIR || path.join(process.cwd(), 'public', 'fonts');
+
+// Read from node_modules at runtime, like the OCR language data, so the bundler leaves the files alone
+const getPackagedFontPath = ({ pkg, family }: { pkg: string; family: string }, bold: boolean): string => {
+  const weight = bold ? '700Bold' : '400Regular';
+  return path.join(process.cwd(), 'node_modules', '@expo-google-fonts', pkg, weight, `${family}_${weight}.ttf`);
+};
+
+// Files from the font directory win over the packaged ones
+const getFontPaths = (script: Script, fontDirectory: string, bold: boolean): string[] => [
+  ...FONT_CANDIDATES[script].map(file => path.join(fontDirectory, bold ? toBoldCandidate(file) : file)),
+  ...PACKAGED_FONTS[script].map(font => getPackagedFontPath(font, bold)),
+];
+
+export const detectScript = (char: string): Script => {
+  for (const [script, pattern] of SCRIPT_RANGES) {
+    if (pattern.test(char)) return script;
+  }
+  return 'latin';
+};
+
+/**
+ * Splits text into runs that share a script
+ * Whitespace and punctuation join the run they follow so spacing stays intact
+ */
+export const splitByScript = (text: string): { text: string; script: Script }[] => {
+  const runs: { text: string; script: Script }[] = [];
+
+  for (const char of text) {
+    const neutral = /[\s\d.,;:!?'"()\[\]{}\-\u2013\u2014/\\%&*+=<>@#]/.test(char);
+    const script = neutral && runs.length > 0 ? runs[runs.length - 1].script : detectScript(char);
+    const last = runs[runs.length - 1];
+
+    if (last && last.script === script) {
+      last.text += char;
+    } else {
+      runs.push({ text: char, script });
+    }
+  }
+
+  return runs;
+};
+
+// WinAnsi covers the characters the built-in Helvetica can draw
+const isWinAnsiEncodable = (text: string): boolean =>
+  /^[\s\u0020-\u007E\u00A0-\u00FF\u0152\u0153\u0160\u0161\u0178\u017D\u017E\u0192\u02C6\u02DC\u2013\u2014\u2018-\u201A\u201C-\u201E\u2020-\u2022\u2026\u2030\u2039\u203A\u20AC\u2122]*$/.test(text);
+
+/**
+ * Lazily embeds fonts into a PDF document, one per script and weight
+ */
+export const createFontResolver = (pdf: PDFDocument) => {
+  pdf.registerFontkit(fontkit);
+
+  const fontDirectory = getFontDirectory();
+  const cache = new Map<string, Promise<PDFFont | null>>();
+
+  const loadFontFile = (files: string[]): Promise<PDFFont | null> => {
+    const key = files.join('|');
+    if (!cache.has(key)) {
+      const file = files.find(existsSync);
+      cache.set(key, file ? pdf.embedFont(readFileSync(file), { subset: true }) : Promise.resolve(null));
+    }
+    return cache.get(key)!;
+  };
+
+  const loadStandardFont = (bold: boolean): Promise<PDFFont> => {
+    const key = bold ? 'standard-bold' : 'standard';
+    if (!cache.has(key)) {
+      cache.set(key, pdf.embedFont(bold ? StandardFonts.HelveticaBold : StandardFonts.Helvetica));
+    }
+    return cache.get(key) as Promise<PDFFont>;
+  };
+
+  return {
+    /**
+     * Font able to draw the given run; throws instead of rendering missing-glyph boxes
+     */
+    resolve: async (script: Script, text: string, bold = false): Promise<PDFFont> => {
+      if (bold) {
+        const boldFont = await loadFontFile(getFontPaths(script, fontDirectory, true));
+        if (boldFont) return boldFont;
+      }
+
+      const font = await loadFontFile(getFontPaths(script, fontDirectory, false));
+      if (font) return font;
+
+      // Built-in Helvetica is enough for plain Western European text
+      if (script === 'latin' && isWinAnsiEncodable(text)) {
+        return loadStandardFont(bold);
+      }
+
+      throw new DocumentProcessingError(
+        `No font available for ${script} text. Install @expo-google-fonts/${PACKAGED_FONTS[script][0].pkg} or add ${FONT_CANDIDATES[script][0]} to ${fontDirectory}.`,
+        422
+      );
+    },
+  };
+};
+
+export type FontResolver = ReturnType<typeof createFontResolver>;
@@ -0,0 +1,6 @@
+export * from './fonts';
+export * from './render-pdf';
+export * from './render-markdown';
+export * from './render-html';
+export * from './render-docx';
+export * from './exporters';
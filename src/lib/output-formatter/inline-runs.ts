@@ -0,0 +1,94 @@
+import { splitByStyleRuns } from '@/lib/style-runs';
+import { StyleRun } from '@/lib/types';
+
+/**
+ * A stretch of text with uniform inline formatting, or a footnote reference
+ */
+export type InlineRun = {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  strike?: boolean;
+  underline?: boolean;
+  superscript?: boolean;
+  subscript?: boolean;
+  link?: string;
+  // Footnote number the run refers to; `text` holds the marker as written
+  footnote?: number;
+};
+
+type InlineStyle = Omit<InlineRun, 'text' | 'footnote'>;
+
+// Link targets exporters write out; others (javascript:, relative paths) are dropped
+const EXPORTED_LINK = /^(https?:|mailto:|tel:)/i;
+
+const SUPERSCRIPT_DIGITS: Record<string, string> = {
+  '\u2070': '0', '\u00B9': '1', '\u00B2': '2', '\u00B3': '3', '\u2074': '4',
+  '\u2075': '5', '\u2076': '6', '\u2077': '7', '\u2078': '8', '\u2079': '9',
+};
+
+// Emphasis markers models and converters emit (**bold**, *italic*, __bold__,
+// _italic_, ~~strike~~) and footnote markers ([1], [^1], superscript digits)
+const INLINE_PATTERN = new RegExp([
+  '(\\*\\*|__)(?=\\S)([\\s\\S]+?)(?<=\\S)\\1',
+  '(?<![\\w*])\\*(?=[^\\s*])([\\s\\S]+?)(?<=[^\\s*])\\*(?![\\w*])',
+  '(?<![\\w_])_(?=[^\\s_])([\\s\\S]+?)(?<=[^\\s_])_(?![\\w_])',
+  '~~(?=\\S)([\\s\\S]+?)(?<=\\S)~~',
+  '\\[\\^?(\\d+)\\]|([\\u2070\\u00B9\\u00B2\\u00B3\\u2074-\\u2079]+)',
+].join('|'), 'g');
+
+const parseRuns = (text: string, style: InlineStyle, footnotes: Set<number>): InlineRun[] => {
+  const runs: InlineRun[] = [];
+  let lastIndex = 0;
+
+  const pushText = (value: string, runStyle: InlineStyle = style) => {
+    if (value) runs.push({ text: value, ...runStyle });
+  };
+
+  for (const match of text.matchAll(INLINE_PATTERN)) {
+    const [marker, strong, strongText, italicStar, italicUnderscore, strikeText, bracketNumber, superscript] = match;
+    const index = match.index!;
+    pushText(text.slice(lastIndex, index));
+    lastIndex = index + marker.length;
+
+    if (strong) {
+      runs.push(...parseRuns(strongText, { ...style, bold: true }, footnotes));
+    } else if (italicStar ?? italicUnderscore) {
+      runs.push(...parseRuns(italicStar ?? italicUnderscore, { ...style, italic: true }, footnotes));
+    } else if (strikeText) {
+      runs.push(...parseRuns(strikeText, { ...style, strike: true }, footnotes));
+    } else {
+      const digits = bracketNumber ?? Array.from(superscript).map(char => SUPERSCRIPT_DIGITS[char]).join('');
+      const number = Number(digits);
+      // Markers without a pending footnote (citations, exponents, repeats) stay as text
+      if (footnotes.delete(number)) {
+        runs.push({ text: marker, footnote: number, ...style });
+      } else {
+        pushText(marker);
+      }
+    }
+  }
+
+  pushText(text.slice(lastIndex));
+  return runs;
+};
+
+/**
+ * Splits text into formatted runs so exporters can map emphasis and
+ * footnote references to their native constructs
+ * `footnotes` holds the numbers still to be linked; each is removed at its
+ * first marker, so pass one set per page and share it across the page's blocks
+ * `styles` are the section's style runs, with offsets into `text`
+ */
+export const parseInlineRuns = (text: string, footnotes: Set<number> = new Set(), styles: StyleRun[] = []): InlineRun[] =>
+  styles.length
+    ? splitByStyleRuns({ text, runs: styles }).flatMap(({ text: piece, style }) => parseRuns(piece, {
+      ...(style.bold && { bold: true }),
+      ...(style.italic && { italic: true }),
+      ...(style.strikethrough && { strike: true }),
+      ...(style.underline && { underline: true }),
+      ...(style.superscript && { superscript: true }),
+      ...(style.subscript && { subscript: true }),
+      ...(style.link && EXPORTED_LINK.test(style.link) && { link: style.link }),
+    }, footnotes))
+    : parseRuns(text, {}, footnotes);
@@ -0,0 +1,45 @@
+import { DocumentParserResult, DocumentSection } from '@/lib/types';
+
+/**
+ * Horizontal placement of a block within the text area
+ * `indent` is a fraction of the text area width
+ */
+export type BlockPlacement = {
+  align?: 'center' | 'right';
+  indent?: number;
+};
+
+// A4 in points, for documents whose page size is unknown
+const DEFAULT_PAGE_SIZE = { width: 595.28, height: 841.89 };
+// Offsets below this fraction of the page width count as flush
+const TOLERANCE = 0.04;
+const MAX_INDENT = 0.5;
+
+/**
+ * Derives alignment and indentation from section bounding boxes, relative to
+ * the text area of the source page: inside the page margins, or else between
+ * the outermost boxes. Multi-column pages are left alone, as a box's position
+ * there reflects its column rather than its alignment.
+ */
+export const createPlacementResolver = ({ structure, formatting: { layout } }: DocumentParserResult) => {
+  const page = layout.pageSize ?? DEFAULT_PAGE_SIZE;
+  const boxes = structure.sections
+    .flatMap(section => section.position.boundingBox ?? [])
+    .filter(box => box.x + box.width <= page.width);
+  const textLeft = layout.margins?.left ?? Math.min(...boxes.map(box => box.x));
+  const textRight = page.width - (layout.margins?.right ?? Math.min(...boxes.map(box => page.width - box.x - box.width)));
+  const textWidth = textRight - textLeft;
+  const tolerance = page.width * TOLERANCE;
+
+  return (section: DocumentSection): BlockPlacement => {
+    const box = section.position.boundingBox;
+    if (!box || layout.columns > 1 || !(textWidth > 0) || box.x + box.width > page.width) return {};
+
+    const left = box.x - textLeft;
+    const right = textRight - box.x - box.width;
+    if (left > tolerance && Math.abs(left - right) <= tolerance && box.width < textWidth * 0.8) return { align: 'center' };
+    if (right <= tolerance && left > textWidth / 2) return { align: 'right' };
+    if (left > tolerance) return { indent: Math.min(left / textWidth, MAX_INDENT) };
+    return {};
+  };
+};
@@ -0,0 +1,248 @@
+import {
+  AlignmentType,
+  Document,
+  ExternalHyperlink,
+  FileChild,
+  FootnoteReferenceRun,
+  Footer,
+  Header,
+  HeadingLevel,
+  LevelFormat,
+  Packer,
+  Paragraph,
+  ParagraphChild,
+  Table,
+  TableCell,
+  TableOfContents,
+  TableRow,
+  TextRun,
+  WidthType,
+} from 'docx';
+import { collapseStyledText, splitStyledLines } from '@/lib/style-runs';
+import { layoutTable } from '@/lib/tables';
+import { DocumentParserResult, DocumentTable, StyleRun } from '@/lib/types';
+import { BlockFormat, buildExportDocument, ExportBlock, ExportDocument, ExportFont } from './document-blocks';
+import { parseInlineRuns } from './inline-runs';
+
+const HEADING_LEVELS = [
+  HeadingLevel.HEADING_1,
+  HeadingLevel.HEADING_2,
+  HeadingLevel.HEADING_3,
+  HeadingLevel.HEADING_4,
+  HeadingLevel.HEADING_5,
+  HeadingLevel.HEADING_6,
+];
+
+const ORDERED_LIST = 'ordered-list';
+const CAPTION_STYLE = 'Caption';
+
+const RTL_LANGUAGES = new Set(['ar', 'he', 'fa', 'ur', 'yi', 'ps', 'sd', 'ug']);
+
+// Text width of docx's default A4 page with 1 inch margins, in twentieths of a point
+const TEXT_WIDTH_TWIPS = 9026;
+
+type DocxContext = {
+  // Footnote numbers restart per page in the source; Word needs one id per note
+  footnoteIds: Map<string, number>;
+  page: number;
+  pendingFootnotes: Set<number>;
+  bidirectional: boolean;
+  // Every ordered list restarts its numbering
+  nextListInstance: () => number;
+};
+
+type RunFormat = {
+  bold?: boolean;
+  runs?: StyleRun[];
+  font?: ExportFont;
+};
+
+const toRuns = (text: string, context: DocxContext, { bold = false, runs = [], font }: RunFormat = {}): ParagraphChild[] =>
+  splitStyledLines({ text, runs }).flatMap((line, lineIndex) =>
+    parseInlineRuns(line.text, context.pendingFootnotes, line.runs).map((run, runIndex): ParagraphChild => {
+      const id = run.footnote !== undefined ? context.footnoteIds.get(`${context.page}:${run.footnote}`) : undefined;
+      if (id !== undefined) return new FootnoteReferenceRun(id);
+
+      const textRun = new TextRun({
+        text: run.text,
+        bold: run.bold || bold,
+        italics: run.italic,
+        strike: run.strike,
+        ...(run.underline && { underline: {} }),
+        ...(run.superscript && { superScript: true }),
+        ...(run.subscript && { subScript: true }),
+        ...(run.link && { style: 'Hyperlink' }),
+        ...(font && { font: font.name, size: Math.round(font.size * 2) }),
+        ...(lineIndex > 0 && runIndex === 0 && { break: 1 }),
+      });
+      return run.link ? new ExternalHyperlink({ link: run.link, children: [textRun] }) : textRun;
+    }));
+
+// Alignment and indentation taken from the section's place on the source page
+const toPlacement = ({ align, indent }: BlockFormat) => ({
+  ...(align && { alignment: align === 'center' ? AlignmentType.CENTER : AlignmentType.RIGHT }),
+  ...(indent && { indent: { start: Math.round(indent * TEXT_WIDTH_TWIPS) } }),
+});
+
+// Word continues row spans into the rows below by itself
+const toTable = (table: DocumentTable, context: DocxContext): Table => {
+  const { cells } = layoutTable(table);
+
+  return new Table({
+    width: { size: 100, type: WidthType.PERCENTAGE },
+    rows: table.rows.map((_, rowIndex) => new TableRow({
+      // Header rows repeat on every page the table spans
+      tableHeader: rowIndex < table.headerRows,
+      children: cells.filter(placed => placed.row === rowIndex).map(({ cell, column, rowSpan, colSpan }) => new TableCell({
+        ...(rowSpan > 1 && { rowSpan }),
+        ...(colSpan > 1 && { columnSpan: colSpan }),
+        children: [new Paragraph({
+          bidirectional: context.bidirectional,
+          children: toRuns(cell.content, context, {
+            bold: rowIndex < table.headerRows || column < table.headerColumns || Boolean(cell.header),
+          }),
+        })],
+      })),
+    })),
+  });
+};
+
+const toCaption = (text: string, context: DocxContext, format: BlockFormat = {}): Paragraph =>
+  new Paragraph({
+    style: CAPTION_STYLE,
+    bidirectional: context.bidirectional,
+    ...toPlacement(format),
+    children: toRuns(text, context, format),
+  });
+
+const toChildren = (block: ExportBlock, context: DocxContext): (Paragraph | Table)[] => {
+  const { bidirectional } = context;
+
+  switch (block.type) {
+    case 'heading': {
+      const heading = collapseStyledText({ text: block.text, runs: block.runs ?? [] });
+      return [new Paragraph({
+        heading: HEADING_LEVELS[block.level - 1],
+        bidirectional,
+        ...toPlacement(block),
+        children: toRuns(heading.text, context, { ...block, runs: heading.runs }),
+      })];
+    }
+    case 'list': {
+      const instance = block.ordered ? context.nextListInstance() : 0;
+      return block.items.map(item => new Paragraph({
+        bidirectional,
+        children: toRuns(item, context),
+        ...(block.ordered
+          ? { numbering: { reference: ORDERED_LIST, level: 0, instance } }
+          : { bullet: { level: 0 } }),
+      }));
+    }
+    case 'table':
+      // Word places table captions above the table
+      return [...(block.caption ? [toCaption(block.caption, context)] : []), toTable(block.table, context)];
+    case 'image':
+      return [
+        new Paragraph({
+          alignment: AlignmentType.CENTER,
+          bidirectional,
+          children: [new TextRun({ text: block.description ? `[Image: ${block.description}]` : '[Image]', italics: true })],
+        }),
+        ...(block.caption ? [toCaption(block.caption, context)] : []),
+      ];
+    case 'caption':
+      return [toCaption(block.text, context, block)];
+    case 'paragraph':
+      return [new Paragraph({ bidirectional, ...toPlacement(block), children: toRuns(block.text, context, block) })];
+  }
+};
+
+const toMarginParagraphs = (texts: string[], context: DocxContext): Paragraph[] =>
+  texts.map(text => new Paragraph({
+    alignment: AlignmentType.CENTER,
+    bidirectional: context.bidirectional,
+    children: toRuns(text, { ...context, pendingFootnotes: new Set() }),
+  }));
+
+const createStyles = ({ bodyFont, headingFont }: ExportDocument) => ({
+  default: {
+    document: {
+      run: {
+        ...(bodyFont && { font: bodyFont.name, size: Math.round(bodyFont.size * 2) }),
+      },
+    },
+    ...(headingFont && Object.fromEntries(HEADING_LEVELS.map((_, index) => [`heading${index + 1}`, {
+      run: { font: headingFont.name, bold: headingFont.bold, italics: headingFont.italic },
+    }]))),
+  },
+  paragraphStyles: [{
+    id: CAPTION_STYLE,
+    name: 'Caption',
+    basedOn: 'Normal',
+    next: 'Normal',
+    quickFormat: true,
+    run: { italics: true, color: '595959', ...(bodyFont && { size: Math.max(Math.round(bodyFont.size * 2) - 2, 12) }) },
+    paragraph: { spacing: { before: 60, after: 120 } },
+  }],
+});
+
+/**
+ * Renders a (translated) document as a Word document
+ *
+ * Each source page becomes a section with its own header and footer; headings
+ * use Word's heading styles so the table of contents field can be rebuilt
+ * on open, lists use native numbering and footnotes become real footnotes.
+ */
+export const renderDocumentDocx = async (document: DocumentParserResult): Promise<Uint8Array> => {
+  const exported = buildExportDocument(document);
+  const language = exported.language?.split('-')[0].toLowerCase();
+  const bidirectional = Boolean(language && RTL_LANGUAGES.has(language));
+
+  const footnoteIds = new Map(exported.footnotes.map((footnote, index) => [`${footnote.page}:${footnote.number}`, index + 1]));
+  let listInstance = 0;
+  const nextListInstance = () => ++listInstance;
+
+  const sections = exported.pages.map((page, pageIndex) => {
+    const context: DocxContext = {
+      footnoteIds,
+      page: page.page,
+      pendingFootnotes: new Set(exported.footnotes.filter(footnote => footnote.page === page.page).map(footnote => footnote.number)),
+      bidirectional,
+      nextListInstance,
+    };
+
+    const children: FileChild[] = page.blocks.flatMap(block => toChildren(block, context));
+    if (pageIndex === 0 && exported.tableOfContents.length) {
+      children.unshift(new TableOfContents('Contents', { hyperlink: true, headingStyleRange: '1-6' }));
+    }
+
+    return {
+      headers: { default: new Header({ children: toMarginParagraphs(page.headers, context) }) },
+      footers: { default: new Footer({ children: toMarginParagraphs(page.footers, context) }) },
+      children,
+    };
+  });
+
+  const file = new Document({
+    title: exported.title,
+    creator: exported.author,
+    subject: exported.subject,
+    keywords: exported.keywords?.join(', '),
+    // Asks Word to refresh the table of contents field when the file is opened
+    features: { updateFields: exported.tableOfContents.length > 0 },
+    styles: createStyles(exported),
+    numbering: {
+      config: [{
+        reference: ORDERED_LIST,
+        levels: [{ level: 0, format: LevelFormat.DECIMAL, text: '%1.', alignment: AlignmentType.START }],
+      }],
+    },
+    footnotes: Object.fromEntries(exported.footnotes.map(footnote => [
+      footnoteIds.get(`${footnote.page}:${footnote.number}`)!,
+      { children: [new Paragraph({ bidirectional, children: [new TextRun(footnote.content.trim())] })] },
+    ])),
+    sections: sections.length ? sections : [{ children: [new Paragraph('')] }],
+  });
+
+  return new Uint8Array(await Packer.toBuffer(file));
+};
@@ -0,0 +1,230 @@
+import { collapseStyledText, splitStyledLines } from '@/lib/style-runs';
+import { layoutTable } from '@/lib/tables';
+import { DocumentParserResult, DocumentTable, StyleRun } from '@/lib/types';
+import { BlockFormat, buildExportDocument, collectMarginTexts, ExportBlock, ExportDocument } from './document-blocks';
+import { InlineRun, parseInlineRuns } from './inline-runs';
+import { slugify } from './render-markdown';
+
+// Languages written right to left; the document direction follows the metadata language
+const RTL_LANGUAGES = new Set(['ar', 'he', 'fa', 'ur', 'yi', 'ps', 'sd', 'ug']);
+
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const renderRun = (run: InlineRun): string => {
+  if (run.footnote !== undefined) {
+    return `<sup id="fnref-${run.footnote}"><a href="#fn-${run.footnote}">${run.footnote}</a></sup>`;
+  }
+
+  let result = escapeHtml(run.text);
+  if (run.superscript) result = `<sup>${result}</sup>`;
+  if (run.subscript) result = `<sub>${result}</sub>`;
+  if (run.underline) result = `<u>${result}</u>`;
+  if (run.strike) result = `<s>${result}</s>`;
+  if (run.italic) result = `<em>${result}</em>`;
+  if (run.bold) result = `<strong>${result}</strong>`;
+  if (run.link) result = `<a href="${escapeHtml(run.link)}">${result}</a>`;
+  return result;
+};
+
+const renderInline = (text: string, footnotes: Set<number>, runs: StyleRun[] = []): string =>
+  splitStyledLines({ text, runs })
+    .map(line => parseInlineRuns(line.text, footnotes, line.runs).map(renderRun).join(''))
+    .join('<br>\n');
+
+// Placement and the section's own font, where it differs from the block's default font
+const renderStyleAttribute = (format: BlockFormat, defaultFont: { name: string; size?: number } | undefined): string => {
+  const { align, indent, font } = format;
+  const declarations = [
+    ...(align ? [`text-align: ${align}`] : []),
+    ...(indent ? [`margin-inline-start: ${Math.round(indent * 100)}%`] : []),
+    ...(font && font.name !== defaultFont?.name ? [`font-family: ${fontStack(font.name)}`] : []),
+    ...(font && font.size !== defaultFont?.size ? [`font-size: ${font.size}pt`] : []),
+  ];
+  return declarations.length ? ` style="${escapeHtml(declarations.join('; '))}"` : '';
+};
+
+const renderTable = (table: DocumentTable, caption: string | undefined, footnotes: Set<number>): string => {
+  const { cells } = layoutTable(table);
+  const renderRow = (rowIndex: number) => `<tr>${cells.filter(placed => placed.row === rowIndex).map(({ cell, column, rowSpan, colSpan }) => {
+    const inHeaderRow = rowIndex < table.headerRows;
+    const tag = inHeaderRow || column < table.headerColumns || cell.header ? 'th' : 'td';
+    const attributes = [
+      ...(tag === 'th' ? [`scope="${inHeaderRow ? 'col' : 'row'}"`] : []),
+      ...(rowSpan > 1 ? [`rowspan="${rowSpan}"`] : []),
+      ...(colSpan > 1 ? [`colspan="${colSpan}"`] : []),
+    ];
+    return `<${tag}${attributes.map(attribute => ` ${attribute}`).join('')}>${renderInline(cell.content, footnotes)}</${tag}>`;
+  }).join('')}</tr>`;
+
+  const rowIndices = table.rows.map((_, index) => index);
+  const head = rowIndices.slice(0, table.headerRows);
+  const body = rowIndices.slice(table.headerRows);
+  return [
+    '<table>',
+    ...(caption ? [`<caption>${renderInline(caption, footnotes)}</caption>`] : []),
+    ...(head.length ? [`<thead>\n${head.map(renderRow).join('\n')}\n</thead>`] : []),
+    ...(body.length ? [`<tbody>\n${body.map(renderRow).join('\n')}\n</tbody>`] : []),
+    '</table>',
+  ].join('\n');
+};
+
+const renderBlock = (
+  block: ExportBlock,
+  footnotes: Set<number>,
+  headingIds: Map<string, number>,
+  exported: ExportDocument
+): string => {
+  switch (block.type) {
+    case 'heading': {
+      // Repeated headings get numbered ids, as Markdown renderers do
+      const slug = slugify(block.text) || 'section';
+      const count = headingIds.get(slug) ?? 0;
+      headingIds.set(slug, count + 1);
+      const id = count ? `${slug}-${count}` : slug;
+      const heading = collapseStyledText({ text: block.text, runs: block.runs ?? [] });
+      const style = renderStyleAttribute(block, exported.headingFont ?? exported.bodyFont);
+      return `<h${block.level} id="${escapeHtml(id)}"${style}>${renderInline(heading.text, footnotes, heading.runs)}</h${block.level}>`;
+    }
+    case 'list': {
+      const tag = block.ordered ? 'ol' : 'ul';
+      return `<${tag}>\n${block.items.map(item => `<li>${renderInline(item, footnotes)}</li>`).join('\n')}\n</${tag}>`;
+    }
+    case 'table':
+      return renderTable(block.table, block.caption, footnotes);
+    case 'image':
+      return [
+        '<figure>',
+        `<div class="image-placeholder" role="img" aria-label="${escapeHtml(block.description)}">${renderInline(block.description || 'Image', footnotes)}</div>`,
+        ...(block.caption ? [`<figcaption>${renderInline(block.caption, footnotes)}</figcaption>`] : []),
+        '</figure>',
+      ].join('\n');
+    case 'caption':
+      return `<p class="caption"${renderStyleAttribute(block, exported.bodyFont)}>${renderInline(block.text, footnotes, block.runs)}</p>`;
+    case 'paragraph':
+      return `<p${renderStyleAttribute(block, exported.bodyFont)}>${renderInline(block.text, footnotes, block.runs)}</p>`;
+  }
+};
+
+const fontStack = (name: string | undefined): string =>
+  name ? `"${name.replace(/["\\]/g, '')}", system-ui, sans-serif` : 'system-ui, sans-serif';
+
+const renderStyles = ({ bodyFont, headingFont }: ExportDocument): string => `
+body { font-family: ${fontStack(bodyFont?.name)}; font-size: ${bodyFont?.size ?? 11}pt; line-height: 1.5; max-width: 48rem; margin: 2rem auto; padding: 0 1rem; color: #1a1a1a; }
+h1, h2, h3, h4, h5, h6 { font-family: ${fontStack(headingFont?.name ?? bodyFont?.name)}; font-style: ${headingFont?.italic ? 'italic' : 'normal'}; line-height: 1.25; }
+header, footer { color: #666; font-size: 0.9em; }
+header { border-bottom: 1px solid #ccc; margin-bottom: 1.5rem; }
+footer { border-top: 1px solid #ccc; margin-top: 1.5rem; }
+nav ol { padding-inline-start: 1.25rem; }
+table { border-collapse: collapse; width: 100%; margin: 1rem 0; }
+th, td { border: 1px solid #bbb; padding: 0.25rem 0.5rem; text-align: start; vertical-align: top; }
+th { background: #f2f2f2; }
+caption, figcaption, .caption { color: #555; font-style: italic; padding: 0.25rem 0; }
+figure { margin: 1rem 0; }
+.image-placeholder { border: 1px dashed #bbb; padding: 1rem; color: #666; text-align: center; }
+.footnotes { border-top: 1px solid #ccc; margin-top: 2rem; font-size: 0.9em; }
+`.trim();
+
+// Nested <ol> built from the flat, level-tagged table of contents
+const renderTableOfContents = (exported: ExportDocument, headingIds: Map<string, number>): string => {
+  const lines: string[] = [];
+  let depth = 0;
+
+  for (const entry of exported.tableOfContents) {
+    const level = Math.min(Math.max(entry.level, 1), 6);
+    if (level > depth) {
+      while (depth < level) {
+        lines.push('<ol>');
+        depth++;
+      }
+    } else {
+      lines.push('</li>');
+      while (depth > level) {
+        lines.push('</ol>', '</li>');
+        depth--;
+      }
+    }
+
+    // Entries link to the first heading with the same anchor
+    const slug = slugify(entry.title) || 'section';
+    const target = headingIds.has(slug) ? `#${slug}` : `#page-${entry.page}`;
+    lines.push(`<li><a href="${escapeHtml(target)}">${escapeHtml(entry.title.replace(/\s+/g, ' '))}</a>`);
+  }
+
+  while (depth > 0) {
+    lines.push('</li>', '</ol>');
+    depth--;
+  }
+
+  return `<nav aria-label="Contents">\n<h2>Contents</h2>\n${lines.join('\n')}\n</nav>`;
+};
+
+/**
+ * Renders a (translated) document as a standalone HTML5 page
+ *
+ * The document language and direction come from the metadata, fonts from the
+ * parsed formatting, and the table of contents, footnotes, headers and footers
+ * map to nav, sup links, header and footer elements.
+ */
+export const renderDocumentHtml = (document: DocumentParserResult): string => {
+  const exported = buildExportDocument(document);
+  const language = exported.language?.split('-')[0].toLowerCase();
+  const headingIds = new Map<string, number>();
+
+  const main = exported.pages.map(page => {
+    const footnotes = new Set(exported.footnotes.filter(footnote => footnote.page === page.page).map(footnote => footnote.number));
+    const blocks = page.blocks.map(block => renderBlock(block, footnotes, headingIds, exported));
+    return `<section id="page-${page.page}" data-page="${page.page}">\n${blocks.join('\n')}\n</section>`;
+  });
+
+  const headers = collectMarginTexts(exported.pages, 'headers');
+  const footers = collectMarginTexts(exported.pages, 'footers');
+  const title = exported.title ?? document.metadata.filename;
+
+  const body = [
+    ...(headers.length ? [`<header>\n${headers.map(text => `<p>${renderInline(text, new Set())}</p>`).join('\n')}\n</header>`] : []),
+    ...(exported.tableOfContents.length ? [renderTableOfContents(exported, headingIds)] : []),
+    `<main>\n${main.join('\n')}\n</main>`,
+    ...(exported.footnotes.length ? [[
+      '<section class="footnotes" aria-label="Footnotes">',
+      '<ol>',
+      ...exported.footnotes.map(footnote =>
+        `<li id="fn-${footnote.number}" value="${footnote.number}">${renderInline(footnote.content, new Set())} <a href="#fnref-${footnote.number}" aria-label="Back to reference">\u21A9</a></li>`),
+      '</ol>',
+      '</section>',
+    ].join('\n')] : []),
+    ...(footers.length ? [`<footer>\n${footers.map(text => `<p>${renderInline(text, new Set())}</p>`).join('\n')}\n</footer>`] : []),
+  ];
+
+  const meta = [
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    ...(exported.author ? [`<meta name="author" content="${escapeHtml(exported.author)}">`] : []),
+    ...(exported.subject ? [`<meta name="description" content="${escapeHtml(exported.subject)}">`] : []),
+    ...(exported.keywords?.length ? [`<meta name="keywords" content="${escapeHtml(exported.keywords.join(', '))}">`] : []),
+  ];
+
+  const attributes = [
+    ...(exported.language ? [`lang="${escapeHtml(exported.language)}"`] : []),
+    ...(language && RTL_LANGUAGES.has(language) ? ['dir="rtl"'] : []),
+  ];
+
+  return [
+    '<!DOCTYPE html>',
+    `<html${attributes.map(attribute => ` ${attribute}`).join('')}>`,
+    '<head>',
+    ...meta,
+    `<title>${escapeHtml(title)}</title>`,
+    `<style>\n${renderStyles(exported)}\n</style>`,
+    '</head>',
+    '<body>',
+    ...body,
+    '</body>',
+    '</html>',
+    '',
+  ].join('\n');
+};
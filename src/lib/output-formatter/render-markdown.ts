@@ -0,0 +1,127 @@
+import { collapseStyledText, splitStyledLines } from '@/lib/style-runs';
+import { tableToGrid } from '@/lib/tables';
+import { DocumentParserResult, DocumentTable, StyleRun } from '@/lib/types';
+import { buildExportDocument, collectMarginTexts, ExportBlock } from './document-blocks';
+import { InlineRun, parseInlineRuns } from './inline-runs';
+
+// Characters that would otherwise start Markdown syntax inside text
+const escapeMarkdown = (text: string): string => text.replace(/([\\`*_[\]<>~|])/g, '\\$1');
+
+const renderRun = (run: InlineRun): string => {
+  if (run.footnote !== undefined) return `[^${run.footnote}]`;
+
+  // Emphasis markers must hug the text, so surrounding spaces stay outside them
+  const [, leading, text, trailing] = run.text.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+  if (!text) return run.text;
+
+  // Markdown has no underline, superscript or subscript syntax; GFM allows the HTML elements
+  let result = escapeMarkdown(text);
+  if (run.superscript) result = `<sup>${result}</sup>`;
+  if (run.subscript) result = `<sub>${result}</sub>`;
+  if (run.underline) result = `<u>${result}</u>`;
+  if (run.strike) result = `~~${result}~~`;
+  if (run.italic) result = `*${result}*`;
+  if (run.bold) result = `**${result}**`;
+  if (run.link) result = `[${result}](${run.link.replace(/[()\s]/g, char => encodeURIComponent(char))})`;
+  return `${leading}${result}${trailing}`;
+};
+
+const renderInline = (text: string, footnotes: Set<number>, runs: StyleRun[] = []): string =>
+  parseInlineRuns(text, footnotes, runs).map(renderRun).join('');
+
+// Line breaks inside a paragraph become hard breaks
+const renderParagraph = (text: string, footnotes: Set<number>, runs: StyleRun[] = []): string =>
+  splitStyledLines({ text, runs }).map(line => renderInline(line.text, footnotes, line.runs)).join('  \n');
+
+// GitHub-style heading anchors, used by the table of contents links
+export const slugify = (text: string): string =>
+  text
+    .toLowerCase()
+    .replace(/[*_~`[\]]/g, '')
+    .replace(new RegExp('[^\\p{L}\\p{N}\\s-]', 'gu'), '')
+    .trim()
+    .replace(/\s+/g, '-');
+
+// GFM tables have a single header row and no spans: spanned cells are left
+// empty, and further header rows and header columns are set in bold
+const renderTable = (table: DocumentTable, footnotes: Set<number>): string => {
+  const grid = tableToGrid(table);
+  const renderCell = (text: string, emphasis: boolean) => {
+    const rendered = renderInline(text, footnotes);
+    return emphasis && rendered ? `**${rendered}**` : rendered;
+  };
+  const renderRow = (row: string[], rowIndex: number) =>
+    `| ${row.map((text, column) => renderCell(text, rowIndex > 0 && (rowIndex < table.headerRows || column < table.headerColumns))).join(' | ')} |`;
+
+  const [header, ...body] = grid.map(renderRow);
+  return [header, `|${' --- |'.repeat(grid[0].length)}`, ...body].join('\n');
+};
+
+const renderBlock = (block: ExportBlock, footnotes: Set<number>): string => {
+  switch (block.type) {
+    case 'heading': {
+      const heading = collapseStyledText({ text: block.text, runs: block.runs ?? [] });
+      return `${'#'.repeat(block.level)} ${renderInline(heading.text, footnotes, heading.runs)}`;
+    }
+    case 'list':
+      return block.items
+        .map((item, index) => `${block.ordered ? `${index + 1}.` : '-'} ${renderInline(item, footnotes)}`)
+        .join('\n');
+    case 'table': {
+      const table = renderTable(block.table, footnotes);
+      return block.caption ? `${table}\n\n*${renderInline(block.caption, footnotes)}*` : table;
+    }
+    case 'image': {
+      const label = block.description ? `[Image: ${renderInline(block.description, footnotes)}]` : '[Image]';
+      return block.caption ? `*${label}*\n\n*${renderInline(block.caption, footnotes)}*` : `*${label}*`;
+    }
+    case 'caption':
+      return `*${renderInline(block.text, footnotes, block.runs)}*`;
+    case 'paragraph':
+      return renderParagraph(block.text, footnotes, block.runs);
+  }
+};
+
+/**
+ * Renders a (translated) document as GitHub-flavoured Markdown
+ *
+ * Headings, lists and tables use Markdown syntax, footnotes become [^n]
+ * references, and the table of contents links to the heading anchors.
+ * Markdown has no page furniture, so headers and footers are written once
+ * above and below the content, set off by horizontal rules.
+ */
+export const renderDocumentMarkdown = (document: DocumentParserResult): string => {
+  const exported = buildExportDocument(document);
+  const parts: string[] = [];
+
+  const headers = collectMarginTexts(exported.pages, 'headers');
+  if (headers.length) {
+    parts.push(headers.map(text => renderParagraph(text, new Set())).join('\n\n'), '---');
+  }
+
+  if (exported.tableOfContents.length) {
+    const entries = exported.tableOfContents.map(entry => {
+      const indent = '  '.repeat(Math.min(Math.max(entry.level, 1), 6) - 1);
+      return `${indent}- [${escapeMarkdown(entry.title.replace(/\s+/g, ' '))}](#${slugify(entry.title)})`;
+    });
+    parts.push('## Contents', entries.join('\n'));
+  }
+
+  for (const page of exported.pages) {
+    const footnotes = new Set(exported.footnotes.filter(footnote => footnote.page === page.page).map(footnote => footnote.number));
+    parts.push(...page.blocks.map(block => renderBlock(block, footnotes)));
+  }
+
+  const footers = collectMarginTexts(exported.pages, 'footers');
+  if (footers.length) {
+    parts.push('---', footers.map(text => renderParagraph(text, new Set())).join('\n\n'));
+  }
+
+  if (exported.footnotes.length) {
+    parts.push(exported.footnotes
+      .map(footnote => `[^${footnote.number}]: ${renderParagraph(footnote.content, new Set()).replace(/\n/g, '\n    ')}`)
+      .join('\n'));
+  }
+
+  return `${parts.filter(Boolean).join('\n\n')}\n`;
+};
@@ -0,0 +1,62 @@
+import { afterEach, describe, expect, it } from '@jest/globals';
+import { mkdtempSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { PDFDict, PDFDocument, PDFName } from 'pdf-lib';
+import { createTestDocument } from '@/test/documents';
+import { setEnv } from '@/test/env';
+import { renderDocumentPdf } from './render-pdf';
+
+// Base names of the fonts embedded in a PDF, without the subset prefix
+const getFontNames = async (data: Uint8Array): Promise<string[]> => {
+  const pdf = await PDFDocument.load(data);
+  return pdf.context
+    .enumerateIndirectObjects()
+    .map(([, object]) => object)
+    .filter((object): object is PDFDict => object instanceof PDFDict && object.get(PDFName.of('Type')) === PDFName.of('Font'))
+    .map(font => String(font.get(PDFName.of('BaseFont'))).replace(/^\/([A-Z]{6}\+)?/, ''));
+};
+
+describe('renderDocumentPdf', () => {
+  let restoreEnv = () => {};
+  afterEach(() => restoreEnv());
+
+  it('renders Arabic text with the packaged Noto font', async () => {
+    // An empty font directory leaves only the fonts installed from npm
+    restoreEnv = setEnv({ OUTPUT_FONT_DIR: mkdtempSync(path.join(os.tmpdir(), 'fonts-')) });
+    const document = createTestDocument([
+      { type: 'heading', level: 1, content: '\u062A\u0642\u0631\u064A\u0631 \u0633\u0646\u0648\u064A' },
+      { type: 'paragraph', content: '\u0646\u0645\u062A \u0627\u0644\u0634\u0631\u0643\u0629 \u0628\u0634\u0643\u0644 \u0645\u0637\u0631\u062F.' },
+    ]);
+
+    const pdf = await renderDocumentPdf(document);
+    const fonts = await getFontNames(pdf);
+
+    expect(Buffer.from(pdf.subarray(0, 5)).toString()).toBe('%PDF-');
+    expect(fonts.some(name => name.startsWith('NotoSansArabic'))).toBe(true);
+  });
+
+  it('renders Arabic text with embedded numbers and Latin words', async () => {
+    restoreEnv = setEnv({ OUTPUT_FONT_DIR: mkdtempSync(path.join(os.tmpdir(), 'fonts-')) });
+    const document = createTestDocument([
+      { type: 'paragraph', content: '\u0627\u0631\u062A\u0641\u0639\u062A \u0625\u064A\u0631\u0627\u062F\u0627\u062A Acme Corp \u0628\u0646\u0633\u0628\u0629 12.5% \u0641\u064A \u0639\u0627\u0645 2024 (\u0645\u0642\u0627\u0631\u0646\u0629 \u0628\u0639\u0627\u0645 2023).' },
+    ]);
+
+    const fonts = await getFontNames(await renderDocumentPdf(document));
+
+    expect(fonts.some(name => name.startsWith('NotoSansArabic'))).toBe(true);
+  });
+
+  it('renders Chinese and Japanese text with the packaged CJK fonts', async () => {
+    restoreEnv = setEnv({ OUTPUT_FONT_DIR: mkdtempSync(path.join(os.tmpdir(), 'fonts-')) });
+    const document = createTestDocument([
+      { type: 'heading', level: 1, content: '\u5E74\u5EA6\u62A5\u544A' },
+      { type: 'paragraph', content: '\u6240\u6709\u5730\u533A\u7684\u6536\u5165\u5747\u6709\u589E\u957F\uFF0C\u603B\u8BA1 120 \u4E07\u5143\u3002' },
+      { type: 'paragraph', content: '\u3059\u3079\u3066\u306E\u5730\u57DF\u3067\u58F2\u4E0A\u304C\u4F38\u3073\u307E\u3057\u305F\u3002' },
+    ]);
+
+    const fonts = await getFontNames(await renderDocumentPdf(document));
+
+    expect(fonts.some(name => name.startsWith('NotoSansSC') || name.startsWith('NotoSansJP'))).toBe(true);
+  });
+});
@@ -0,0 +1,577 @@
+import { PDFDocument, PDFFont, PDFPage, PageSizes, rgb } from 'pdf-lib';
+import { RunStyle, splitByStyleRuns, splitStyledLines } from '@/lib/style-runs';
+import { tableFromText, tableToGrid } from '@/lib/tables';
+import { DocumentParserResult, DocumentSection, DocumentTable, StyleRun } from '@/lib/types';
+import { orderVisually } from './bidi';
+import {
+  CHARACTER_WRAPPED_SCRIPTS,
+  createFontResolver,
+  detectScript,
+  FontResolver,
+  RTL_SCRIPTS,
+  splitByScript,
+} from './fonts';
+import { BlockPlacement, createPlacementResolver } from './placement';
+
+// Layout constants (points)
+const DEFAULT_MARGIN = 54;
+const COLUMN_GAP = 18;
+const DEFAULT_BODY_SIZE = 11;
+const HEADING_SCALE = [2, 1.6, 1.35, 1.2, 1.1, 1];
+const LINE_HEIGHT = 1.35;
+const LIST_INDENT = 14;
+const TABLE_CELL_PADDING = 4;
+const SCRIPT_SCALE = 0.7;
+
+const TEXT_COLOR = rgb(0.1, 0.1, 0.1);
+const MUTED_COLOR = rgb(0.4, 0.4, 0.4);
+const RULE_COLOR = rgb(0.7, 0.7, 0.7);
+const LINK_COLOR = rgb(0.05, 0.3, 0.7);
+
+export type RenderPdfOptions = {
+  pageSize?: keyof typeof PageSizes;
+};
+
+type TextRun = {
+  text: string;
+  font: PDFFont;
+  width: number;
+  size: number;
+  rise: number;
+  underline?: boolean;
+  strikethrough?: boolean;
+  color?: ReturnType<typeof rgb>;
+};
+
+type Token = { runs: TextRun[]; width: number; isSpace: boolean };
+
+type Line = { tokens: Token[]; width: number; rtl: boolean };
+
+type TextStyle = { size: number; bold?: boolean; color?: ReturnType<typeof rgb> };
+
+type PageFrame = {
+  width: number;
+  height: number;
+  margins: { top: number; bottom: number; left: number; right: number };
+  columns: number;
+  columnWidth: number;
+};
+
+// Margins reported by the parser are used when they leave a sensible content area
+const resolveMargin = (value: number | undefined, dimension: number): number =>
+  value !== undefined && value > 0 && value < dimension / 3 ? value : DEFAULT_MARGIN;
+
+const createPageFrame = (document: DocumentParserResult, pageSize: keyof typeof PageSizes): PageFrame => {
+  const { layout } = document.formatting;
+  const [shortSide, longSide] = PageSizes[pageSize];
+  const [width, height] = layout.orientation === 'landscape' ? [longSide, shortSide] : [shortSide, longSide];
+
+  const margins = {
+    top: resolveMargin(layout.margins?.top, height),
+    bottom: resolveMargin(layout.margins?.bottom, height),
+    left: resolveMargin(layout.margins?.left, width),
+    right: resolveMargin(layout.margins?.right, width),
+  };
+
+  const columns = Math.min(Math.max(Math.round(layout.columns) || 1, 1), 4);
+  const contentWidth = width - margins.left - margins.right;
+
+  return {
+    width,
+    height,
+    margins,
+    columns,
+    columnWidth: (contentWidth - COLUMN_GAP * (columns - 1)) / columns,
+  };
+};
+
+const getBodySize = (document: DocumentParserResult): number => {
+  const bodyFont = document.formatting.fonts.find(font => font.isUsedForBody);
+  return bodyFont ? Math.min(Math.max(bodyFont.size, 8), 14) : DEFAULT_BODY_SIZE;
+};
+
+const getHeadingSize = (bodySize: number, level = 1): number =>
+  bodySize * HEADING_SCALE[Math.min(Math.max(level, 1), 6) - 1];
+
+// Size and weight of the font a section references, within a readable range
+const getSectionFont = (document: DocumentParserResult, section: DocumentSection): Partial<TextStyle> => {
+  const font = section.fontIndex === undefined ? undefined : document.formatting.fonts[section.fontIndex];
+  if (!font) return {};
+  return { size: Math.min(Math.max(font.size, 6), 36), ...(font.weight === 'bold' && { bold: true }) };
+};
+
+const normalizeText = (text: string): string =>
+  text.replace(/\r\n?/g, '\n').replace(/\t/g, '    ').replace(/[\u0000-\u0008\u000B-\u001F]/g, '');
+
+// Italics are not drawn, as the embedded fonts come in regular and bold only
+const applyRunStyle = (style: TextStyle, run: RunStyle) => ({
+  size: run.superscript || run.subscript ? style.size * SCRIPT_SCALE : style.size,
+  rise: run.superscript ? style.size * 0.35 : run.subscript ? -style.size * 0.15 : 0,
+  bold: style.bold || run.bold,
+  underline: run.underline || Boolean(run.link),
+  strikethrough: run.strikethrough,
+  color: run.link ? LINK_COLOR : style.color,
+});
+
+/**
+ * Breaks text into measurable tokens: words, whitespace, and single characters
+ * for scripts that do not separate words with spaces. Words whose formatting
+ * changes midway stay one token, so they are not wrapped apart.
+ */
+const tokenize = async (text: string, style: TextStyle, fonts: FontResolver, styleRuns: StyleRun[] = []): Promise<Token[]> => {
+  const tokens: Token[] = [];
+
+  for (const styled of splitByStyleRuns({ text, runs: styleRuns })) {
+    const look = applyRunStyle(style, styled.style);
+    let startsPiece = true;
+
+    for (const part of normalizeText(styled.text).split(/(\s+)/).filter(Boolean)) {
+      const isSpace = /^\s+$/.test(part);
+      const runs = splitByScript(part);
+      const pieces = runs.some(run => CHARACTER_WRAPPED_SCRIPTS.includes(run.script))
+        ? runs.flatMap(run => Array.from(run.text).map(char => [{ text: char, script: run.script }]))
+        : [runs];
+
+      for (const piece of pieces) {
+        const measured = await Promise.all(piece.map(async (run): Promise<TextRun> => {
+          const font = await fonts.resolve(run.script, run.text, look.bold);
+          return { ...look, text: run.text, font, width: font.widthOfTextAtSize(run.text, look.size) };
+        }));
+        const width = measured.reduce((sum, run) => sum + run.width, 0);
+
+        const previous = tokens[tokens.length - 1];
+        if (startsPiece && !isSpace && previous && !previous.isSpace) {
+          previous.runs.push(...measured);
+          previous.width += width;
+        } else {
+          tokens.push({ runs: measured, width, isSpace });
+        }
+        startsPiece = false;
+      }
+    }
+  }
+
+  return tokens;
+};
+
+// Paragraph direction follows the first strongly directional character
+const isRightToLeft = (text: string): boolean => {
+  for (const char of text) {
+    if (/[A-Za-z\u00C0-\u024F]/.test(char)) return false;
+
+    const script = detectScript(char);
+    if (script !== 'latin') return RTL_SCRIPTS.includes(script);
+  }
+  return false;
+};
+
+// Splits a token that is wider than the line into character-sized tokens
+const splitOversizedToken = (token: Token): Token[] =>
+  token.runs.flatMap(run => Array.from(run.text).map(char => {
+    const width = run.font.widthOfTextAtSize(char, run.size);
+    return { runs: [{ ...run, text: char, width }], width, isSpace: false };
+  }));
+
+/**
+ * Greedy line wrapping over pre-measured tokens
+ */
+const wrapTokens = (tokens: Token[], maxWidth: number, rtl: boolean): Line[] => {
+  const lines: Line[] = [];
+  let current: Token[] = [];
+  let width = 0;
+
+  const pushLine = () => {
+    while (current.length && current[current.length - 1].isSpace) {
+      width -= current.pop()!.width;
+    }
+    lines.push({ tokens: current, width, rtl });
+    current = [];
+    width = 0;
+  };
+
+  const queue = [...tokens];
+  while (queue.length) {
+    const token = queue.shift()!;
+
+    if (token.width > maxWidth && !token.isSpace) {
+      queue.unshift(...splitOversizedToken(token));
+      continue;
+    }
+
+    if (width + token.width > maxWidth && current.length) {
+      pushLine();
+    }
+
+    // Lines never start with whitespace
+    if (token.isSpace && current.length === 0) continue;
+
+    current.push(token);
+    width += token.width;
+  }
+
+  if (current.length || lines.length === 0) pushLine();
+  return lines;
+};
+
+const layoutText = async (
+  text: string,
+  style: TextStyle,
+  maxWidth: number,
+  fonts: FontResolver,
+  runs: StyleRun[] = []
+): Promise<Line[]> => {
+  const lines: Line[] = [];
+  for (const paragraph of splitStyledLines({ text, runs })) {
+    const rtl = isRightToLeft(paragraph.text);
+    const tokens = await tokenize(paragraph.text, style, fonts, paragraph.runs);
+    lines.push(...wrapTokens(tokens, maxWidth, rtl));
+  }
+  return lines;
+};
+
+// Whether fontkit lays the glyphs of a text out right to left itself, as it does for Arabic and Hebrew
+const hasRightToLeftScript = (text: string): boolean =>
+  Array.from(text).some(char => RTL_SCRIPTS.includes(detectScript(char)));
+
+const drawLine = (page: PDFPage, line: Line, x: number, y: number, maxWidth: number, style: TextStyle) => {
+  // Right-to-left lines are right aligned, with runs in visual order by the bidi algorithm
+  const runs = line.tokens.flatMap(token => token.runs.map(run => ({ run, isSpace: token.isSpace })));
+  let cursorX = line.rtl ? x + maxWidth - line.width : x;
+
+  for (const { item: { run, isSpace }, text: logicalText, level } of orderVisually(runs, ({ run }) => run.text, line.rtl)) {
+    const text = level % 2 === 1 && !hasRightToLeftScript(logicalText) ? Array.from(logicalText).reverse().join('') : logicalText;
+    const width = text === run.text ? run.width : run.font.widthOfTextAtSize(text, run.size);
+    const color = run.color ?? style.color ?? TEXT_COLOR;
+    if (!isSpace) {
+      page.drawText(text, { x: cursorX, y: y + run.rise, size: run.size, font: run.font, color });
+    }
+    const decorations = [...(run.underline ? [-run.size * 0.12] : []), ...(run.strikethrough ? [run.size * 0.3] : [])];
+    for (const offset of decorations) {
+      page.drawLine({
+        start: { x: cursorX, y: y + run.rise + offset },
+        end: { x: cursorX + width, y: y + run.rise + offset },
+        thickness: run.size * 0.05,
+        color,
+      });
+    }
+    cursorX += width;
+  }
+};
+
+/**
+ * Flows blocks of text through pages and columns
+ */
+const createFlow = (
+  pdf: PDFDocument,
+  frame: PageFrame,
+  onPageStart: (page: PDFPage) => Promise<void>
+) => {
+  let page: PDFPage | null = null;
+  let column = 0;
+  let y = 0;
+
+  const contentTop = () => frame.height - frame.margins.top;
+  const columnX = () => frame.margins.left + column * (frame.columnWidth + COLUMN_GAP);
+
+  const startPage = async () => {
+    page = pdf.addPage([frame.width, frame.height]);
+    column = 0;
+    y = contentTop();
+    await onPageStart(page);
+  };
+
+  const ensureSpace = async (height: number) => {
+    if (!page) {
+      await startPage();
+      return;
+    }
+    if (y - height >= frame.margins.bottom) return;
+
+    if (column < frame.columns - 1) {
+      column++;
+      y = contentTop();
+      return;
+    }
+    await startPage();
+  };
+
+  return {
+    startPage,
+    get currentPage() {
+      return page;
+    },
+    get pageCount() {
+      return pdf.getPageCount();
+    },
+    space: (height: number) => {
+      y -= height;
+    },
+    ensureSpace,
+    drawLines: async (lines: Line[], style: TextStyle, indent = 0, align?: BlockPlacement['align']) => {
+      const lineHeight = style.size * LINE_HEIGHT;
+      const available = frame.columnWidth - indent;
+      for (const line of lines) {
+        await ensureSpace(lineHeight);
+        y -= lineHeight;
+        const offset = align === 'center' ? (available - line.width) / 2 : align === 'right' ? available - line.width : 0;
+        drawLine(page!, line, columnX() + indent + offset, y + style.size * 0.25, align ? line.width : available, style);
+      }
+    },
+    drawRule: async (widthRatio: number) => {
+      await ensureSpace(6);
+      y -= 3;
+      page!.drawLine({
+        start: { x: columnX(), y },
+        end: { x: columnX() + frame.columnWidth * widthRatio, y },
+        thickness: 0.5,
+        color: RULE_COLOR,
+      });
+      y -= 3;
+    },
+    // Cells are drawn on the full grid; positions covered by a span stay empty
+    drawTable: async (table: DocumentTable, style: TextStyle, fonts: FontResolver) => {
+      const rows = tableToGrid(table);
+      const columnCount = rows[0].length;
+      const cellWidth = frame.columnWidth / columnCount;
+      const lineHeight = style.size * LINE_HEIGHT;
+
+      for (const [rowIndex, row] of rows.entries()) {
+        const cellStyles = row.map((_, index) => ({ ...style, bold: rowIndex < table.headerRows || index < table.headerColumns }));
+        const cells = await Promise.all(
+          row.map((text, index) => layoutText(text, cellStyles[index], cellWidth - TABLE_CELL_PADDING * 2, fonts))
+        );
+        const rowHeight = Math.max(...cells.map(lines => lines.length)) * lineHeight + TABLE_CELL_PADDING * 2;
+
+        await ensureSpace(rowHeight);
+        const top = y;
+        cells.forEach((lines, index) => {
+          const x = columnX() + index * cellWidth;
+          page!.drawRectangle({ x, y: top - rowHeight, width: cellWidth, height: rowHeight, borderColor: RULE_COLOR, borderWidth: 0.5 });
+          lines.forEach((line, lineIndex) => {
+            const baseline = top - TABLE_CELL_PADDING - (lineIndex + 1) * lineHeight + style.size * 0.25;
+            drawLine(page!, line, x + TABLE_CELL_PADDING, baseline, cellWidth - TABLE_CELL_PADDING * 2, cellStyles[index]);
+          });
+        });
+        y = top - rowHeight;
+      }
+    },
+  };
+};
+
+const toListItems = (content: string): string[] =>
+  content
+    .split('\n')
+    .map(line => line.trim())
+    .filter(Boolean)
+    .map(line => (/^([-*•–]|\d+[.)]|[a-z][.)])\s/i.test(line) ? line : `• ${line}`));
+
+/**
+ * Output Formatter Agent: renders a (translated) document to PDF
+ *
+ * Each source page starts a new output page; text that no longer fits after
+ * translation overflows into continuation pages that repeat the page's header
+ * and footer. Orientation, margins and column count come from the parser's
+ * layout metadata; fonts are chosen per script run so non-Latin text renders.
+Inline style runs and the alignment of sections with bounding boxes carry over.
+ */
+export const renderDocumentPdf = async (
+  document: DocumentParserResult,
+  { pageSize = 'A4' }: RenderPdfOptions = {}
+): Promise<Uint8Array> => {
+  const pdf = await PDFDocument.create();
+  const fonts = createFontResolver(pdf);
+  const frame = createPageFrame(document, pageSize);
+  const bodySize = getBodySize(document);
+
+  const { metadata, structure } = document;
+  if (metadata.title) pdf.setTitle(metadata.title);
+  if (metadata.author) pdf.setAuthor(metadata.author);
+  if (metadata.subject) pdf.setSubject(metadata.subject);
+  if (metadata.keywords?.length) pdf.setKeywords(metadata.keywords);
+  if (metadata.language) pdf.setLanguage(metadata.language);
+  pdf.setProducer('Dynamic Document Translator');
+  pdf.setCreator('Output Formatter Agent');
+
+  const sectionsByPage = new Map<number, DocumentSection[]>();
+  for (const section of structure.sections) {
+    const pageSections = sectionsByPage.get(section.position.page) ?? [];
+    pageSections.push(section);
+    sectionsByPage.set(section.position.page, pageSections);
+  }
+  const sourcePages = Array.from(new Set([
+    ...sectionsByPage.keys(),
+    ...(structure.footnotes ?? []).map(footnote => footnote.page),
+  ])).sort((a, b) => a - b);
+
+  const firstOutputPage = new Map<number, number>();
+  let currentSourcePage = sourcePages[0] ?? 1;
+
+  // Headers and footers are drawn in the margins of every page of their source page
+  const marginStyle: TextStyle = { size: bodySize * 0.8, color: MUTED_COLOR };
+  const drawMarginSections = async (page: PDFPage, type: 'header' | 'footer') => {
+    const sections = (sectionsByPage.get(currentSourcePage) ?? []).filter(section => section.type === type);
+    if (!sections.length) return;
+
+    const width = frame.width - frame.margins.left - frame.margins.right;
+    const lines = await layoutText(sections.map(section => section.content).join('\n'), marginStyle, width, fonts);
+    const lineHeight = marginStyle.size * LINE_HEIGHT;
+    let y = type === 'header'
+      ? frame.height - frame.margins.top / 2 + (lines.length * lineHeight) / 2
+      : frame.margins.bottom / 2 + (lines.length * lineHeight) / 2;
+
+    for (const line of lines) {
+      y -= lineHeight;
+      drawLine(page, { ...line, rtl: false }, frame.margins.left + (width - line.width) / 2, y, width, marginStyle);
+    }
+  };
+
+  // Alignment and indentation from the section's position on its source page
+  const placementOf = createPlacementResolver(document);
+  const drawSection = async (section: DocumentSection, style: TextStyle) => {
+    const { align, indent = 0 } = placementOf(section);
+    const indentWidth = frame.columnWidth * indent;
+    const lines = await layoutText(section.content, style, frame.columnWidth - indentWidth, fonts, section.runs);
+    await flow.drawLines(lines, style, indentWidth, align);
+  };
+
+  const flow = createFlow(pdf, frame, async (page) => {
+    await drawMarginSections(page, 'header');
+    await drawMarginSections(page, 'footer');
+  });
+
+  const renderSection = async (section: DocumentSection) => {
+    switch (section.type) {
+      case 'heading': {
+        const style = { size: getHeadingSize(bodySize, section.level), bold: true };
+        flow.space(style.size * 0.6);
+        await drawSection(section, style);
+        flow.space(style.size * 0.3);
+        return;
+      }
+      case 'list': {
+        const style = { size: bodySize };
+        for (const item of toListItems(section.content)) {
+          await flow.drawLines(await layoutText(item, style, frame.columnWidth - LIST_INDENT, fonts), style, LIST_INDENT);
+        }
+        flow.space(bodySize * 0.6);
+        return;
+      }
+      case 'table': {
+        const table = section.table?.rows.length ? section.table : tableFromText(section.content);
+        const style = { size: bodySize * 0.9 };
+        if (table) {
+          await flow.drawTable(table, style, fonts);
+        } else {
+          await flow.drawLines(await layoutText(section.content, style, frame.columnWidth, fonts), style);
+        }
+        flow.space(bodySize * 0.6);
+        return;
+      }
+      case 'image': {
+        const style = { size: bodySize * 0.9, color: MUTED_COLOR };
+        const label = section.content.trim() ? `[Image: ${section.content.trim()}]` : '[Image]';
+        await flow.drawLines(await layoutText(label, style, frame.columnWidth, fonts), style);
+        flow.space(bodySize * 0.6);
+        return;
+      }
+      case 'caption': {
+        const style = { size: bodySize * 0.85, color: MUTED_COLOR };
+        await drawSection(section, style);
+        flow.space(bodySize * 0.6);
+        return;
+      }
+      case 'header':
+      case 'footer':
+        // Drawn in the page margins by the flow
+        return;
+      default: {
+        const style = { size: bodySize, ...getSectionFont(document, section) };
+        await drawSection(section, style);
+        flow.space(bodySize * 0.6);
+      }
+    }
+  };
+
+  for (const sourcePage of sourcePages) {
+    currentSourcePage = sourcePage;
+    await flow.startPage();
+    firstOutputPage.set(sourcePage, flow.pageCount);
+
+    const sections = [...(sectionsByPage.get(sourcePage) ?? [])].sort((a, b) => a.position.order - b.position.order);
+    for (const section of sections) {
+      await renderSection(section);
+    }
+
+    const footnotes = (structure.footnotes ?? []).filter(footnote => footnote.page === sourcePage);
+    if (footnotes.length) {
+      const style = { size: bodySize * 0.8 };
+      flow.space(bodySize * 0.6);
+      await flow.drawRule(0.4);
+      for (const footnote of [...footnotes].sort((a, b) => a.number - b.number)) {
+        await flow.drawLines(await layoutText(`${footnote.number} ${footnote.content}`, style, frame.columnWidth, fonts), style);
+      }
+    }
+  }
+
+  if (pdf.getPageCount() === 0) {
+    pdf.addPage([frame.width, frame.height]);
+  }
+
+  if (structure.tableOfContents?.length) {
+    await renderTableOfContents(pdf, frame, fonts, bodySize, structure.tableOfContents, firstOutputPage);
+  }
+
+  return pdf.save();
+};
+
+/**
+ * Inserts table of contents pages at the front of the document
+ * Page numbers point at the output pages where each source page now starts
+ */
+const renderTableOfContents = async (
+  pdf: PDFDocument,
+  frame: PageFrame,
+  fonts: FontResolver,
+  bodySize: number,
+  entries: NonNullable<DocumentParserResult['structure']['tableOfContents']>,
+  firstOutputPage: Map<number, number>
+) => {
+  const titleStyle = { size: getHeadingSize(bodySize, 1), bold: true };
+  const entryStyle = { size: bodySize };
+  const lineHeight = entryStyle.size * LINE_HEIGHT;
+  const contentWidth = frame.width - frame.margins.left - frame.margins.right;
+  const contentHeight = frame.height - frame.margins.top - frame.margins.bottom;
+
+  // One line per entry keeps the page count known before numbers are drawn
+  const firstPageCapacity = Math.floor((contentHeight - titleStyle.size * 2) / lineHeight);
+  const pageCapacity = Math.floor(contentHeight / lineHeight);
+  const tocPageCount = 1 + Math.max(0, Math.ceil((entries.length - firstPageCapacity) / pageCapacity));
+
+  const titleLines = await layoutText('Contents', titleStyle, contentWidth, fonts);
+  let page = pdf.insertPage(0, [frame.width, frame.height]);
+  let pageIndex = 0;
+  let y = frame.height - frame.margins.top - titleStyle.size;
+  drawLine(page, titleLines[0], frame.margins.left, y, contentWidth, titleStyle);
+  y -= titleStyle.size;
+
+  for (const entry of entries) {
+    if (y - lineHeight < frame.margins.bottom) {
+      pageIndex++;
+      page = pdf.insertPage(pageIndex, [frame.width, frame.height]);
+      y = frame.height - frame.margins.top;
+    }
+    y -= lineHeight;
+
+    const outputPage = entry.page !== undefined ? firstOutputPage.get(entry.page) : undefined;
+    const pageLabel = outputPage !== undefined ? String(outputPage + tocPageCount) : '';
+    const labelLines = await layoutText(pageLabel, entryStyle, contentWidth, fonts);
+    const labelWidth = labelLines[0].width;
+    const indent = (Math.min(Math.max(entry.level, 1), 6) - 1) * LIST_INDENT;
+    const titleWidth = contentWidth - indent - labelWidth - LIST_INDENT;
+
+    // Long titles are cut to a single line
+    const [titleLine] = await layoutText(entry.title.replace(/\s+/g, ' '), entryStyle, titleWidth, fonts);
+    drawLine(page, titleLine, frame.margins.left + indent, y, titleWidth, entryStyle);
+    drawLine(page, labelLines[0], frame.margins.left + contentWidth - labelWidth, y, labelWidth, entryStyle);
+  }
+};
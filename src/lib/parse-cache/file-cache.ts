@@ -0,0 +1,43 @@
+import { mkdir, readdir, readFile, rename, rm, writeFile } from 'fs/promises';
+import path from 'path';
+import { ParseCache } from './types';
+
+/**
+ * Cache with one JSON file per key in `directory`
+ */
+export const createFileParseCache = (directory: string): ParseCache => {
+  const fileFor = (key: string) => path.join(directory, `${key}.json`);
+
+  return {
+    backend: 'filesystem',
+
+    get: async (key) => {
+      try {
+        return JSON.parse(await readFile(fileFor(key), 'utf8'));
+      } catch {
+        // Missing or unreadable entries count as misses
+        return undefined;
+      }
+    },
+
+    set: async (key, result) => {
+      await mkdir(directory, { recursive: true });
+
+      // Write to a temporary file first so concurrent readers never see a partial entry
+      const tempPath = `${fileFor(key)}.${process.pid}.tmp`;
+      await writeFile(tempPath, JSON.stringify(result));
+      await rename(tempPath, fileFor(key));
+    },
+
+    delete: async (key) => {
+      await rm(fileFor(key), { force: true });
+    },
+
+    clear: async () => {
+      const files = await readdir(directory).catch(() => []);
+      await Promise.all(files
+        .filter(file => file.endsWith('.json'))
+        .map(file => rm(path.join(directory, file), { force: true })));
+    },
+  };
+};
@@ -0,0 +1,55 @@
+import { describe, expect, it } from '@jest/globals';
+import { mkdtempSync, readdirSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { createTestDocument } from '@/test/documents';
+import { createFileParseCache, createMemoryParseCache, getParseCacheKey, sha256 } from './index';
+
+const document = createTestDocument([{ type: 'paragraph', content: 'Cached text' }]);
+
+describe('getParseCacheKey', () => {
+  it('starts with the file hash and changes with the model and adapter version', () => {
+    const fileHash = sha256('file contents');
+    const key = getParseCacheKey(fileHash, 'gemini-2.5-flash', 'v1');
+
+    expect(key.startsWith(`${fileHash}-`)).toBe(true);
+    expect(getParseCacheKey(fileHash, 'gemini-2.5-flash', 'v1')).toBe(key);
+    expect(getParseCacheKey(fileHash, 'gpt-4o', 'v1')).not.toBe(key);
+    expect(getParseCacheKey(fileHash, 'gemini-2.5-flash', 'v2')).not.toBe(key);
+  });
+
+  it('hashes strings and bytes alike', () => {
+    expect(sha256(new TextEncoder().encode('abc'))).toBe(sha256('abc'));
+    expect(sha256(new TextEncoder().encode('abc').buffer as ArrayBuffer)).toBe(sha256('abc'));
+  });
+});
+
+describe('createMemoryParseCache', () => {
+  it('evicts the least recently used entry', async () => {
+    const cache = createMemoryParseCache(2);
+    await cache.set('a', document);
+    await cache.set('b', document);
+    await cache.get('a');
+    await cache.set('c', document);
+
+    expect(await cache.get('a')).toBe(document);
+    expect(await cache.get('b')).toBeUndefined();
+    expect(await cache.get('c')).toBe(document);
+  });
+});
+
+describe('createFileParseCache', () => {
+  it('stores one JSON file per key and treats missing entries as misses', async () => {
+    const directory = path.join(mkdtempSync(path.join(tmpdir(), 'parse-cache-')), 'entries');
+    const cache = createFileParseCache(directory);
+
+    expect(await cache.get('missing')).toBeUndefined();
+    await cache.set('key', document);
+
+    expect(await cache.get('key')).toEqual(document);
+    expect(readdirSync(directory)).toEqual(['key.json']);
+
+    await cache.clear();
+    expect(await cache.get('key')).toBeUndefined();
+  });
+});
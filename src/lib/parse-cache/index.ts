@@ -0,0 +1,41 @@
+import path from 'path';
+import { createFileParseCache } from './file-cache';
+import { createMemoryParseCache } from './memory-cache';
+import { createSqliteParseCache } from './sqlite-cache';
+import { ParseCache } from './types';
+
+export type { ParseCache } from './types';
+export { createMemoryParseCache } from './memory-cache';
+export { createFileParseCache } from './file-cache';
+export { createSqliteParseCache } from './sqlite-cache';
+export { getParseCacheKey, sha256 } from './key';
+
+const DATA_DIR = path.join(process.cwd(), '.data');
+
+/**
+ * Backend selected with PARSE_CACHE: memory (default), filesystem, sqlite or none
+ */
+const createParseCache = (): ParseCache | null => {
+  switch (process.env.PARSE_CACHE || 'memory') {
+    case 'none':
+      return null;
+    case 'filesystem':
+      return createFileParseCache(process.env.PARSE_CACHE_DIR || path.join(DATA_DIR, 'parse-cache'));
+    case 'sqlite':
+      return createSqliteParseCache(process.env.PARSE_CACHE_PATH || path.join(DATA_DIR, 'parse-cache.db'));
+    case 'memory':
+      return createMemoryParseCache(Number(process.env.PARSE_CACHE_MAX_ENTRIES) || undefined);
+    default:
+      throw new Error(`Unknown PARSE_CACHE backend: ${process.env.PARSE_CACHE}`);
+  }
+};
+
+// Reuse one cache across hot reloads in development
+const globalForParseCache = globalThis as unknown as { parseCache?: ParseCache | null };
+
+export const getParseCache = (): ParseCache | null => {
+  if (globalForParseCache.parseCache === undefined) {
+    globalForParseCache.parseCache = createParseCache();
+  }
+  return globalForParseCache.parseCache;
+};
@@ -0,0 +1,19 @@
+import { createHash } from 'crypto';
+import { zodSchema } from 'ai';
+import { documentParserSchema } from '@/lib/schema/document-parser';
+
+export const sha256 = (data: ArrayBuffer | Uint8Array | string): string =>
+  createHash('sha256')
+    .update(typeof data === 'string' || data instanceof Uint8Array ? data : new Uint8Array(data))
+    .digest('hex');
+
+// Any change to the result schema (fields or descriptions) yields a new version
+const SCHEMA_VERSION = sha256(JSON.stringify(zodSchema(documentParserSchema).jsonSchema));
+
+/**
+ * Cache key for a document: its content hash, the parse model and a version
+ * derived from the result schema and the adapter's prompt
+ * Changing any of them misses the cache, so stale entries are never served
+ */
+export const getParseCacheKey = (fileHash: string, modelId: string, adapterVersion = ''): string =>
+  `${fileHash}-${sha256(`${modelId}\u0000${SCHEMA_VERSION}\u0000${adapterVersion}`).slice(0, 16)}`;
@@ -0,0 +1,42 @@
+import { DocumentParserResult } from '@/lib/types';
+import { ParseCache } from './types';
+
+const DEFAULT_MAX_ENTRIES = 100;
+
+/**
+ * In-process cache that evicts the least recently used result past `maxEntries`
+ * Contents are lost on restart
+ */
+export const createMemoryParseCache = (maxEntries: number = DEFAULT_MAX_ENTRIES): ParseCache => {
+  const entries = new Map<string, DocumentParserResult>();
+
+  return {
+    backend: 'memory',
+
+    get: async (key) => {
+      const result = entries.get(key);
+      if (result) {
+        // Re-insert so iteration order tracks recency
+        entries.delete(key);
+        entries.set(key, result);
+      }
+      return result;
+    },
+
+    set: async (key, result) => {
+      entries.delete(key);
+      entries.set(key, result);
+      while (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value!);
+      }
+    },
+
+    delete: async (key) => {
+      entries.delete(key);
+    },
+
+    clear: async () => {
+      entries.clear();
+    },
+  };
+};
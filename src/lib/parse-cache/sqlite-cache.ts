@@ -0,0 +1,53 @@
+import { mkdirSync } from 'fs';
+import path from 'path';
+import type { Database } from 'better-sqlite3';
+import { ParseCache } from './types';
+
+/**
+ * Cache stored in a SQLite database file
+ * The native driver is loaded on first use so other backends never need it
+ */
+export const createSqliteParseCache = (filePath: string): ParseCache => {
+  let database: Promise<Database> | undefined;
+
+  const open = () => {
+    database ??= import('better-sqlite3').then(({ default: SQLite }) => {
+      mkdirSync(path.dirname(filePath), { recursive: true });
+      const db = new SQLite(filePath);
+      db.pragma('journal_mode = WAL');
+      db.exec(`CREATE TABLE IF NOT EXISTS parse_cache (
+        key TEXT PRIMARY KEY,
+        result TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      )`);
+      return db;
+    });
+    return database;
+  };
+
+  return {
+    backend: 'sqlite',
+
+    get: async (key) => {
+      const db = await open();
+      const row = db.prepare('SELECT result FROM parse_cache WHERE key = ?').get(key) as { result: string } | undefined;
+      return row ? JSON.parse(row.result) : undefined;
+    },
+
+    set: async (key, result) => {
+      const db = await open();
+      db.prepare('INSERT OR REPLACE INTO parse_cache (key, result, created_at) VALUES (?, ?, ?)')
+        .run(key, JSON.stringify(result), new Date().toISOString());
+    },
+
+    delete: async (key) => {
+      const db = await open();
+      db.prepare('DELETE FROM parse_cache WHERE key = ?').run(key);
+    },
+
+    clear: async () => {
+      const db = await open();
+      db.exec('DELETE FROM parse_cache');
+    },
+  };
+};
@@ -0,0 +1,12 @@
+import { DocumentParserResult } from '@/lib/types';
+
+/**
+ * Storage backend for parse results, keyed by content hash, model and parser version
+ */
+export type ParseCache = {
+  backend: string;
+  get: (key: string) => Promise<DocumentParserResult | undefined>;
+  set: (key: string, result: DocumentParserResult) => Promise<void>;
+  delete: (key: string) => Promise<void>;
+  clear: () => Promise<void>;
+};
@@ -0,0 +1,88 @@
+import { describe, expect, it } from '@jest/globals';
+import { createTestDocument } from '@/test/documents';
+import { mergeChunkResults, PdfChunkResult } from './pdf-chunking';
+
+describe('mergeChunkResults', () => {
+  // Two 2-page chunks whose footnotes both start at 1
+  const results: PdfChunkResult[] = [
+    {
+      chunk: { startPage: 1, endPage: 2, pageCount: 2 },
+      result: createTestDocument(
+        [
+          { type: 'paragraph', content: 'Revenue grew[1] and costs fell^2.' },
+          { type: 'paragraph', content: 'See the appendix[^1].', position: { page: 2, order: 1 } },
+        ],
+        { structure: { totalPages: 2, footnotes: [{ number: 1, content: 'Audited.', page: 1 }, { number: 2, content: 'Unaudited.', page: 1 }] } }
+      ),
+    },
+    {
+      chunk: { startPage: 3, endPage: 4, pageCount: 2 },
+      result: createTestDocument(
+        [
+          { type: 'paragraph', content: 'Staff numbers rose\u00B9 in every office.' },
+          // A superscript run of plain digits, followed by an emphasised word
+          {
+            type: 'paragraph',
+            content: 'Margins improved2 overall',
+            runs: [{ start: 16, end: 17, superscript: true }, { start: 18, end: 25, bold: true }],
+          },
+          { type: 'table', content: 'Region | Sales[1]', table: { rows: [[{ content: 'Region' }, { content: 'Sales[1]' }]], headerRows: 1, headerColumns: 0 } },
+        ],
+        { structure: { totalPages: 2, footnotes: [{ number: 1, content: 'Estimated.', page: 1 }, { number: 2, content: 'Preliminary.', page: 2 }] } }
+      ),
+    },
+  ];
+
+  const merged = mergeChunkResults(results);
+
+  it('continues footnote numbering after the highest number of earlier chunks', () => {
+    expect(merged.structure.footnotes).toEqual([
+      { number: 1, content: 'Audited.', page: 1 },
+      { number: 2, content: 'Unaudited.', page: 1 },
+      { number: 3, content: 'Estimated.', page: 3 },
+      { number: 4, content: 'Preliminary.', page: 4 },
+    ]);
+  });
+
+  it('rewrites the references of renumbered footnotes in the marker style they were written in', () => {
+    const contents = merged.structure.sections.map(section => section.content);
+
+    expect(contents).toEqual([
+      'Revenue grew[1] and costs fell^2.',
+      'See the appendix[^1].',
+      'Staff numbers rose\u00B3 in every office.',
+      'Margins improved4 overall',
+      'Region | Sales[3]',
+    ]);
+    expect(merged.structure.sections[4].table?.rows[0][1].content).toBe('Sales[3]');
+    expect(merged.extractedText).toContain('Staff numbers rose\u00B3');
+  });
+
+  it('keeps style runs on the text they covered', () => {
+    const section = merged.structure.sections[3];
+
+    expect(section.runs).toEqual([{ start: 16, end: 17, superscript: true }, { start: 18, end: 25, bold: true }]);
+    expect(section.content.slice(18, 25)).toBe('overall');
+  });
+
+  it('shifts runs after a marker that gets longer', () => {
+    const [first, second] = results;
+    const widened = mergeChunkResults([
+      {
+        ...first,
+        result: { ...first.result, structure: { ...first.result.structure, footnotes: Array.from({ length: 9 }, (_, i) => ({ number: i + 1, content: `Note ${i + 1}.`, page: 1 })) } },
+      },
+      {
+        ...second,
+        result: createTestDocument([
+          { type: 'paragraph', content: 'Costs[1] rose sharply', runs: [{ start: 14, end: 21, italic: true }] },
+        ], { structure: { totalPages: 2, footnotes: [{ number: 1, content: 'Estimated.', page: 1 }] } }),
+      },
+    ]);
+    const section = widened.structure.sections.find(candidate => candidate.content.startsWith('Costs'));
+
+    expect(section?.content).toBe('Costs[10] rose sharply');
+    expect(section?.runs).toEqual([{ start: 15, end: 22, italic: true }]);
+    expect(section?.content.slice(15, 22)).toBe('sharply');
+  });
+});
@@ -0,0 +1,411 @@
+import { PDFDocument } from 'pdf-lib';
+import { DocumentParserModelResult, StyleRun } from '@/lib/types';
+
+type ModelMetadata = DocumentParserModelResult['metadata'];
+type Font = DocumentParserModelResult['formatting']['fonts'][number];
+
+const DEFAULT_CHUNK_PAGES = 20;
+const DEFAULT_CHUNK_CONCURRENCY = 3;
+
+const TEXT_QUALITY_RANK: ModelMetadata['textQuality'][] = ['poor', 'fair', 'good', 'excellent'];
+
+// Footnote references as parsers write them: [1], [^1], ^1 or superscript digits
+const FOOTNOTE_REFERENCE = /\[(\^?)(\d+)\]|\^(\d+)|([\u2070\u00B9\u00B2\u00B3\u2074-\u2079]+)/g;
+const SUPERSCRIPT_DIGITS = '\u2070\u00B9\u00B2\u00B3\u2074\u2075\u2076\u2077\u2078\u2079';
+
+/**
+ * A contiguous, 1-based page range of a larger document
+ */
+export type PageRange = {
+  startPage: number;
+  endPage: number;
+  pageCount: number;
+};
+
+/**
+ * A page range of a larger PDF, saved as a standalone file
+ */
+export type PdfChunk = PageRange & {
+  data: Uint8Array;
+};
+
+export type PdfChunkResult = {
+  chunk: PageRange;
+  result: DocumentParserModelResult;
+};
+
+const readPositiveInt = (value: string | undefined, fallback: number): number => {
+  const parsed = Number.parseInt(value ?? '', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+/**
+ * Pages per chunk (`PDF_CHUNK_PAGES`) and chunks parsed in parallel (`PDF_CHUNK_CONCURRENCY`)
+ */
+export const getPdfChunkingOptions = (): { chunkPages: number; concurrency: number } => ({
+  chunkPages: readPositiveInt(process.env.PDF_CHUNK_PAGES, DEFAULT_CHUNK_PAGES),
+  concurrency: readPositiveInt(process.env.PDF_CHUNK_CONCURRENCY, DEFAULT_CHUNK_CONCURRENCY),
+});
+
+/**
+ * Divides `totalPages` pages into consecutive ranges of at most `chunkPages` pages
+ */
+export const getPageRanges = (totalPages: number, chunkPages: number): PageRange[] =>
+  Array.from({ length: Math.ceil(totalPages / chunkPages) }, (_, index) => {
+    const startPage = index * chunkPages + 1;
+    const endPage = Math.min(startPage + chunkPages - 1, totalPages);
+    return { startPage, endPage, pageCount: endPage - startPage + 1 };
+  });
+
+/**
+ * Splits a PDF into standalone documents of at most `chunkPages` pages each
+ */
+export const splitPdf = async (data: ArrayBuffer | Uint8Array, chunkPages: number): Promise<PdfChunk[]> => {
+  const source = await PDFDocument.load(data, { updateMetadata: false });
+  const chunks: PdfChunk[] = [];
+
+  for (const range of getPageRanges(source.getPageCount(), chunkPages)) {
+    const indices = Array.from({ length: range.pageCount }, (_, i) => range.startPage - 1 + i);
+    const target = await PDFDocument.create();
+    const pages = await target.copyPages(source, indices);
+    pages.forEach(page => target.addPage(page));
+
+    chunks.push({ ...range, data: await target.save() });
+  }
+
+  return chunks;
+};
+
+// Chunk-relative page numbers are clamped to the chunk before shifting to document pages
+const toGlobalPage = (page: number, chunk: PdfChunkResult['chunk']): number =>
+  chunk.startPage - 1 + Math.min(Math.max(Math.round(page) || 1, 1), chunk.pageCount);
+
+// Fonts are identified across chunks by name, size, weight and style
+const fontKey = (font: Font): string => `${font.name}:${font.size}:${font.weight ?? ''}:${font.style ?? ''}`;
+
+/**
+ * Footnote numbers of each chunk mapped to their merged numbers
+ * Numbers stay as printed unless a chunk restarts numbering that an earlier
+ * chunk already used; such chunks continue after the highest number seen
+ */
+const getFootnoteNumbering = (results: PdfChunkResult[]): Map<number, number>[] => {
+  const used = new Set<number>();
+  let highest = 0;
+
+  return results.map(({ result }) => {
+    const numbers = (result.structure.footnotes ?? []).map(footnote => footnote.number);
+    const collides = numbers.some(number => used.has(number));
+    const offset = collides ? highest - Math.min(...numbers) + 1 : 0;
+
+    return new Map(numbers.map(number => {
+      const renumbered = number + offset;
+      used.add(renumbered);
+      highest = Math.max(highest, renumbered);
+      return [number, renumbered];
+    }));
+  });
+};
+
+type TextEdit = { start: number; end: number; text: string };
+
+const readSuperscript = (text: string): number =>
+  Number(Array.from(text).map(char => SUPERSCRIPT_DIGITS.indexOf(char)).join(''));
+
+const toSuperscript = (number: number): string =>
+  Array.from(String(number)).map(digit => SUPERSCRIPT_DIGITS[Number(digit)]).join('');
+
+/**
+ * Replacements for the footnote references in a text whose number changed,
+ * written in the marker style the parser used; digits set in a superscript
+ * run count as references too
+ */
+const findFootnoteEdits = (text: string, numbering: Map<number, number>, runs: StyleRun[] = []): TextEdit[] => {
+  const edits: TextEdit[] = [];
+  const renumber = (number: number): number | undefined => {
+    const renumbered = numbering.get(number);
+    return renumbered !== number ? renumbered : undefined;
+  };
+
+  for (const match of text.matchAll(FOOTNOTE_REFERENCE)) {
+    const [marker, caret, bracketed, careted, superscript] = match;
+    const renumbered = renumber(superscript ? readSuperscript(superscript) : Number(bracketed ?? careted));
+    if (renumbered === undefined) continue;
+
+    const replacement = superscript ? toSuperscript(renumbered) : bracketed ? `[${caret}${renumbered}]` : `^${renumbered}`;
+    edits.push({ start: match.index, end: match.index + marker.length, text: replacement });
+  }
+
+  for (const run of runs) {
+    if (!run.superscript) continue;
+
+    const digits = text.slice(run.start, run.end).match(/^(\s*)(\d+)\s*$/);
+    const renumbered = digits ? renumber(Number(digits[2])) : undefined;
+    if (!digits || renumbered === undefined) continue;
+
+    const start = run.start + digits[1].length;
+    const end = start + digits[2].length;
+    if (edits.some(edit => edit.start < end && start < edit.end)) continue;
+    edits.push({ start, end, text: String(renumbered) });
+  }
+
+  return edits.sort((a, b) => a.start - b.start);
+};
+
+const applyTextEdits = (text: string, edits: TextEdit[]): string => {
+  let result = '';
+  let position = 0;
+  for (const edit of edits) {
+    result += text.slice(position, edit.start) + edit.text;
+    position = edit.end;
+  }
+  return result + text.slice(position);
+};
+
+// Offsets inside a replaced marker move to the end of its replacement
+const shiftOffset = (offset: number, edits: TextEdit[]): number => {
+  let shift = 0;
+  for (const edit of edits) {
+    if (edit.end <= offset) {
+      shift += edit.text.length - (edit.end - edit.start);
+    } else if (edit.start < offset) {
+      return edit.start + shift + edit.text.length;
+    } else {
+      break;
+    }
+  }
+  return offset + shift;
+};
+
+const renumberFootnoteReferences = (text: string, numbering: Map<number, number>): string =>
+  applyTextEdits(text, findFootnoteEdits(text, numbering));
+
+/**
+ * Rewrites the footnote references of a section, and of its table cells, to
+ * the merged numbers; style runs are shifted to the rewritten content
+ */
+const renumberSectionFootnotes = <T extends { content: string; runs?: StyleRun[]; table?: { rows: { content: string }[][] } }>(
+  section: T,
+  numbering: Map<number, number>
+): T => {
+  const edits = findFootnoteEdits(section.content, numbering, section.runs);
+  const table = section.table && {
+    ...section.table,
+    rows: section.table.rows.map(row => row.map(cell => ({ ...cell, content: renumberFootnoteReferences(cell.content, numbering) }))),
+  };
+
+  return {
+    ...section,
+    content: applyTextEdits(section.content, edits),
+    ...(section.runs && {
+      runs: section.runs.map(run => ({ ...run, start: shiftOffset(run.start, edits), end: shiftOffset(run.end, edits) })),
+    }),
+    ...(table && { table }),
+  };
+};
+
+const mergeSections = (
+  results: PdfChunkResult[],
+  fonts: Font[],
+  numbering: Map<number, number>[]
+): DocumentParserModelResult['structure']['sections'] => {
+  const fontIndices = new Map(fonts.map((font, index) => [fontKey(font), index]));
+  const sections = results.flatMap(({ chunk, result }, chunkIndex) =>
+    result.structure.sections.map(({ fontIndex, ...section }) => {
+      // Font references point into the chunk's font list until mapped to the merged one
+      const chunkFont = fontIndex !== undefined ? result.formatting.fonts[fontIndex] : undefined;
+      const mergedIndex = chunkFont && fontIndices.get(fontKey(chunkFont));
+      return {
+        ...renumberSectionFootnotes(section, numbering[chunkIndex]),
+        ...(mergedIndex !== undefined && { fontIndex: mergedIndex }),
+        position: { ...section.position, page: toGlobalPage(section.position.page, chunk) },
+      };
+    })
+  );
+
+  // Stable sort keeps model order for ties; order is then renumbered 1..n within each page
+  const sorted = sections
+    .map((section, index) => ({ section, index }))
+    .sort((a, b) =>
+      a.section.position.page - b.section.position.page
+      || a.section.position.order - b.section.position.order
+      || a.index - b.index
+    )
+    .map(({ section }) => section);
+
+  // Caption links refer to chunk orders, so they are dropped and linked again after merging
+  const orderByPage = new Map<number, number>();
+  return sorted.map(({ table, ...section }) => {
+    const order = (orderByPage.get(section.position.page) ?? 0) + 1;
+    orderByPage.set(section.position.page, order);
+    return {
+      ...section,
+      ...(table && { table: { rows: table.rows, headerRows: table.headerRows, headerColumns: table.headerColumns } }),
+      position: { ...section.position, order },
+    };
+  });
+};
+
+// Footnotes take the merged numbers their references were rewritten to
+const mergeFootnotes = (
+  results: PdfChunkResult[],
+  numbering: Map<number, number>[]
+): DocumentParserModelResult['structure']['footnotes'] => {
+  const footnotes = results.flatMap(({ chunk, result }, chunkIndex) =>
+    (result.structure.footnotes ?? []).map(footnote => ({
+      ...footnote,
+      number: numbering[chunkIndex].get(footnote.number) ?? footnote.number,
+      page: toGlobalPage(footnote.page, chunk),
+    }))
+  );
+
+  return footnotes.length ? footnotes : undefined;
+};
+
+/**
+ * Printed tables of contents keep their printed page numbers; without one,
+ * the contents are derived from headings at their document pages
+ */
+const mergeTableOfContents = (
+  results: PdfChunkResult[],
+  sections: DocumentParserModelResult['structure']['sections']
+): DocumentParserModelResult['structure']['tableOfContents'] => {
+  const seen = new Set<string>();
+  const printed = results
+    .flatMap(({ result }) => result.structure.tableOfContents ?? [])
+    .filter(entry => {
+      const key = `${entry.level}:${entry.title}:${entry.page ?? ''}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  if (printed.length) return printed;
+
+  const headings = sections.filter(section => section.type === 'heading');
+  return headings.length
+    ? headings.map(section => ({ title: section.content, level: section.level ?? 1, page: section.position.page }))
+    : undefined;
+};
+
+const mergeFonts = (results: PdfChunkResult[]): Font[] => {
+  const fonts = new Map<string, Font>();
+  for (const font of results.flatMap(({ result }) => result.formatting.fonts)) {
+    const key = fontKey(font);
+    const existing = fonts.get(key);
+    fonts.set(key, existing
+      ? {
+        ...existing,
+        isUsedForHeadings: existing.isUsedForHeadings || font.isUsedForHeadings,
+        isUsedForBody: existing.isUsedForBody || font.isUsedForBody,
+      }
+      : font);
+  }
+  return Array.from(fonts.values());
+};
+
+const some = (results: PdfChunkResult[], pick: (result: DocumentParserModelResult) => boolean): boolean =>
+  results.some(({ result }) => pick(result));
+
+const first = <T>(results: PdfChunkResult[], pick: (result: DocumentParserModelResult) => T | undefined): T | undefined =>
+  results.map(({ result }) => pick(result)).find(value => value !== undefined);
+
+const sumDefined = (values: (number | undefined)[]): number | undefined =>
+  values.some(value => value !== undefined)
+    ? values.reduce<number>((total, value) => total + (value ?? 0), 0)
+    : undefined;
+
+// Value covering the most pages across chunks
+const mostPages = <T>(results: PdfChunkResult[], pick: (result: DocumentParserModelResult) => T | undefined): T | undefined => {
+  const pages = new Map<T, number>();
+  for (const { chunk, result } of results) {
+    const value = pick(result);
+    if (value !== undefined) pages.set(value, (pages.get(value) ?? 0) + chunk.pageCount);
+  }
+  return Array.from(pages.entries()).sort((a, b) => b[1] - a[1])[0]?.[0];
+};
+
+const mergeMetadata = (results: PdfChunkResult[], totalPages: number): ModelMetadata => {
+  const keywords = Array.from(new Set(results.flatMap(({ result }) => result.metadata.keywords ?? [])));
+  const confidence = results.reduce(
+    (total, { chunk, result }) => total + result.metadata.extractionConfidence * chunk.pageCount,
+    0
+  ) / totalPages;
+
+  return {
+    ...results[0].result.metadata,
+    pageCount: totalPages,
+    language: mostPages(results, result => result.metadata.language),
+    title: first(results, result => result.metadata.title),
+    author: first(results, result => result.metadata.author),
+    subject: first(results, result => result.metadata.subject),
+    keywords: keywords.length ? keywords : undefined,
+    wordCount: sumDefined(results.map(({ result }) => result.metadata.wordCount)),
+    characterCount: sumDefined(results.map(({ result }) => result.metadata.characterCount)),
+    hasImages: some(results, result => result.metadata.hasImages),
+    hasCharts: some(results, result => result.metadata.hasCharts),
+    hasTables: some(results, result => result.metadata.hasTables),
+    hasFormFields: some(results, result => result.metadata.hasFormFields),
+    isScanned: some(results, result => result.metadata.isScanned),
+    // The weakest chunk bounds the quality of the whole extraction
+    textQuality: TEXT_QUALITY_RANK[Math.min(
+      ...results.map(({ result }) => TEXT_QUALITY_RANK.indexOf(result.metadata.textQuality))
+    )],
+    extractionConfidence: Math.round(confidence * 100) / 100,
+  };
+};
+
+/**
+ * Merges per-chunk parse results (in page order) into one document-level result
+ * Page numbers are shifted to document pages, order is renumbered per page,
+ * footnotes restarting in a later chunk are renumbered along with their
+ * references, and formatting and metadata are aggregated across chunks
+ */
+export const mergeChunkResults = (results: PdfChunkResult[]): DocumentParserModelResult => {
+  if (results.length === 0) {
+    throw new Error('Cannot merge an empty list of chunk results');
+  }
+
+  const totalPages = results.reduce((total, { chunk }) => total + chunk.pageCount, 0);
+  const fonts = mergeFonts(results);
+  const numbering = getFootnoteNumbering(results);
+  const sections = mergeSections(results, fonts, numbering);
+  const pageBreaks = Array.from(new Set(
+    results.flatMap(({ chunk, result }) => result.structure.pageBreaks.map(page => toGlobalPage(page, chunk)))
+  )).sort((a, b) => a - b);
+  const layouts = results.map(({ result }) => result.formatting.layout);
+
+  return {
+    extractedText: results
+      .map(({ result }, chunkIndex) => renumberFootnoteReferences(result.extractedText.trim(), numbering[chunkIndex]))
+      .filter(Boolean)
+      .join('\n\n'),
+    structure: {
+      sections,
+      pageBreaks,
+      totalPages,
+      tableOfContents: mergeTableOfContents(results, sections),
+      footnotes: mergeFootnotes(results, numbering),
+    },
+    formatting: {
+      fonts,
+      styles: {
+        hasBold: some(results, result => result.formatting.styles.hasBold),
+        hasItalic: some(results, result => result.formatting.styles.hasItalic),
+        hasUnderline: some(results, result => result.formatting.styles.hasUnderline),
+        hasStrikethrough: some(results, result => result.formatting.styles.hasStrikethrough),
+        hasHighlight: some(results, result => result.formatting.styles.hasHighlight),
+        hasSuperscript: some(results, result => result.formatting.styles.hasSuperscript),
+        hasSubscript: some(results, result => result.formatting.styles.hasSubscript),
+      },
+      layout: {
+        columns: Math.max(...layouts.map(layout => layout.columns)),
+        hasHeaders: layouts.some(layout => layout.hasHeaders),
+        hasFooters: layouts.some(layout => layout.hasFooters),
+        hasWatermarks: layouts.some(layout => layout.hasWatermarks),
+        orientation: mostPages(results, result => result.formatting.layout.orientation) ?? layouts[0].orientation,
+        margins: first(results, result => result.formatting.layout.margins),
+        pageSize: first(results, result => result.formatting.layout.pageSize),
+      },
+    },
+    metadata: mergeMetadata(results, totalPages),
+  };
+};
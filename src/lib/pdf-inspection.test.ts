@@ -0,0 +1,92 @@
+import { describe, expect, it } from '@jest/globals';
+import { readFileSync } from 'fs';
+import path from 'path';
+import { createTestDocument } from '@/test/documents';
+import { applyPdfInspection, inspectPdf, PdfInspection } from './pdf-inspection';
+
+const readFixture = (name: string): Uint8Array =>
+  new Uint8Array(readFileSync(path.join(process.cwd(), 'src', 'test', 'fixtures', name)));
+
+describe('inspectPdf', () => {
+  it('reads the page count, page size and info dictionary', async () => {
+    const inspection = await inspectPdf(readFixture('metadata.pdf'));
+
+    expect(inspection).toEqual({
+      pageCount: 3,
+      pdfVersion: '1.7',
+      hasFormFields: true,
+      isEncrypted: false,
+      pageSize: { width: 612, height: 792 },
+      title: 'Quarterly Report',
+      author: 'Jane Doe',
+      subject: 'Results for Q3',
+      keywords: ['finance', 'quarterly', 'report'],
+      producer: 'Fixture Producer 1.0',
+      creator: 'Fixture Writer',
+      creationDate: '2024-03-01T10:00:00.000Z',
+      lastModified: '2024-03-05T12:30:00.000Z',
+    });
+  });
+
+  it('counts the pages of an encrypted file without reading its info strings', async () => {
+    const inspection = await inspectPdf(readFixture('encrypted.pdf'));
+
+    expect(inspection).toMatchObject({ pageCount: 2, isEncrypted: true, hasFormFields: false });
+    expect(inspection.pageSize?.width).toBeCloseTo(595.28);
+    expect(inspection.title).toBeUndefined();
+    expect(inspection.author).toBeUndefined();
+  });
+
+  it('inspects a scanned file that has no text layer or metadata', async () => {
+    const inspection = await inspectPdf(readFixture('scanned.pdf'));
+
+    expect(inspection).toMatchObject({ pageCount: 1, isEncrypted: false, hasFormFields: false });
+    expect(inspection.title).toBeUndefined();
+    expect(inspection.keywords).toBeUndefined();
+  });
+
+  it('rejects data that is not a PDF', async () => {
+    await expect(inspectPdf(new TextEncoder().encode('not a pdf'))).rejects.toThrow();
+  });
+});
+
+describe('applyPdfInspection', () => {
+  const metadata = {
+    ...createTestDocument([]).metadata,
+    title: 'Model Title',
+    pageCount: 5,
+    hasFormFields: false,
+  };
+
+  it('prefers values read from the file and records where each field came from', async () => {
+    const inspection = await inspectPdf(readFixture('metadata.pdf'));
+    const merged = applyPdfInspection(metadata, inspection);
+
+    expect(merged).toMatchObject({ title: 'Quarterly Report', pageCount: 3, hasFormFields: true, language: 'en' });
+    expect(merged.sources).toMatchObject({
+      title: 'file',
+      pageCount: 'file',
+      hasFormFields: 'file',
+      author: 'file',
+      language: 'model',
+      textQuality: 'model',
+      filename: 'file',
+      fileSize: 'file',
+      extractedAt: 'computed',
+    });
+  });
+
+  it('keeps the model values for fields the file does not provide', () => {
+    const inspection: PdfInspection = { pageCount: 5, hasFormFields: false, isEncrypted: true };
+    const merged = applyPdfInspection(metadata, inspection);
+
+    expect(merged.title).toBe('Model Title');
+    expect(merged.sources).toMatchObject({ title: 'model', pageCount: 'file', hasFormFields: 'file' });
+  });
+
+  it('attributes everything but the upload facts to the model without an inspection', () => {
+    const merged = applyPdfInspection(metadata, null);
+
+    expect(merged.sources).toMatchObject({ title: 'model', pageCount: 'model', filename: 'file', extractedAt: 'computed' });
+  });
+});
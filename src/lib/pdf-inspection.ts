@@ -0,0 +1,163 @@
+import { PDFDict, PDFDocument, PDFName } from 'pdf-lib';
+import { DocumentParserResult, MetadataFieldSource } from '@/lib/types';
+
+/**
+ * Facts read directly from the PDF file, without involving the model
+ */
+export type PdfInspection = {
+  pageCount: number;
+  pdfVersion?: string;
+  title?: string;
+  author?: string;
+  subject?: string;
+  keywords?: string[];
+  producer?: string;
+  creator?: string;
+  creationDate?: string;
+  lastModified?: string;
+  hasFormFields: boolean;
+  isEncrypted: boolean;
+  // Size of the first page in points
+  pageSize?: { width: number; height: number };
+};
+
+// The header must appear within the first 1024 bytes per the PDF specification
+const HEADER_SEARCH_LENGTH = 1024;
+
+const readHeaderVersion = (bytes: Uint8Array): string | undefined => {
+  const header = Buffer.from(bytes.subarray(0, HEADER_SEARCH_LENGTH)).toString('latin1');
+  return header.match(/%PDF-(\d\.\d)/)?.[1];
+};
+
+// A catalog /Version entry overrides the header when it is newer (PDF 1.4+ incremental updates)
+const readCatalogVersion = (pdf: PDFDocument): string | undefined => {
+  const version = pdf.catalog.get(PDFName.of('Version'));
+  return version instanceof PDFName ? version.decodeText() : undefined;
+};
+
+const hasAcroFormFields = (pdf: PDFDocument): boolean => {
+  const acroForm = pdf.catalog.lookupMaybe(PDFName.of('AcroForm'), PDFDict);
+  if (!acroForm) return false;
+
+  try {
+    return pdf.getForm().getFields().length > 0;
+  } catch {
+    // Malformed field trees still indicate a form
+    return true;
+  }
+};
+
+const cleanString = (value: string | undefined): string | undefined => {
+  const trimmed = value?.replace(/\u0000/g, '').trim();
+  return trimmed ? trimmed : undefined;
+};
+
+const toIsoDate = (date: Date | undefined): string | undefined =>
+  date && !Number.isNaN(date.getTime()) ? date.toISOString() : undefined;
+
+/**
+ * Reads the header, info dictionary, page tree and AcroForm of a PDF
+ * Info dictionary strings are skipped for encrypted files since they cannot be decoded
+ */
+export const inspectPdf = async (data: ArrayBuffer | Uint8Array): Promise<PdfInspection> => {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  const pdf = await PDFDocument.load(bytes, { ignoreEncryption: true, updateMetadata: false });
+
+  const headerVersion = readHeaderVersion(bytes);
+  const catalogVersion = readCatalogVersion(pdf);
+  const pdfVersion = catalogVersion && (!headerVersion || catalogVersion > headerVersion)
+    ? catalogVersion
+    : headerVersion;
+
+  const pageCount = pdf.getPageCount();
+  const inspection: PdfInspection = {
+    pageCount,
+    pdfVersion,
+    hasFormFields: hasAcroFormFields(pdf),
+    isEncrypted: pdf.isEncrypted,
+    ...(pageCount > 0 && { pageSize: pdf.getPage(0).getSize() }),
+  };
+
+  if (pdf.isEncrypted) {
+    return inspection;
+  }
+
+  const keywords = cleanString(pdf.getKeywords())
+    ?.split(/[,;]/)
+    .map(keyword => keyword.trim())
+    .filter(Boolean);
+
+  return {
+    ...inspection,
+    title: cleanString(pdf.getTitle()),
+    author: cleanString(pdf.getAuthor()),
+    subject: cleanString(pdf.getSubject()),
+    keywords: keywords?.length ? keywords : undefined,
+    producer: cleanString(pdf.getProducer()),
+    creator: cleanString(pdf.getCreator()),
+    creationDate: toIsoDate(pdf.getCreationDate()),
+    lastModified: toIsoDate(pdf.getModificationDate()),
+  };
+};
+
+// Inspected fields that override the model whenever the file provides them
+const AUTHORITATIVE_FIELDS = [
+  'pageCount',
+  'pdfVersion',
+  'hasFormFields',
+  'title',
+  'author',
+  'subject',
+  'keywords',
+  'producer',
+  'creationDate',
+  'lastModified',
+] as const;
+
+/**
+ * Summarises inspected facts for the extraction prompt
+ */
+export const describePdfInspection = (inspection: PdfInspection): string => {
+  const facts = [
+    `Page count: ${inspection.pageCount}`,
+    inspection.pdfVersion && `PDF version: ${inspection.pdfVersion}`,
+    inspection.title && `Title: ${inspection.title}`,
+    inspection.author && `Author: ${inspection.author}`,
+    `Has form fields: ${inspection.hasFormFields ? 'yes' : 'no'}`,
+    inspection.pageSize && `Page size: ${Math.round(inspection.pageSize.width)} x ${Math.round(inspection.pageSize.height)} points`,
+  ];
+  return facts.filter(Boolean).join('\n');
+};
+
+/**
+ * Overrides model metadata with values read from the file and records the
+ * source of every metadata field
+ */
+export const applyPdfInspection = (
+  metadata: Omit<DocumentParserResult['metadata'], 'sources'>,
+  inspection: PdfInspection | null
+): DocumentParserResult['metadata'] => {
+  const merged: DocumentParserResult['metadata'] = { ...metadata };
+  const sources: Record<string, MetadataFieldSource> = {};
+
+  for (const key of Object.keys(metadata)) {
+    sources[key] = 'model';
+  }
+
+  if (inspection) {
+    for (const key of AUTHORITATIVE_FIELDS) {
+      const value = inspection[key];
+      if (value === undefined) continue;
+
+      Object.assign(merged, { [key]: value });
+      sources[key] = 'file';
+    }
+  }
+
+  // Upload facts are always known locally
+  sources.filename = 'file';
+  sources.fileSize = 'file';
+  sources.extractedAt = 'computed';
+
+  return { ...merged, sources };
+};
@@ -0,0 +1,52 @@
+import { afterEach, describe, expect, it, jest } from '@jest/globals';
+import { mkdtempSync, writeFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { setEnv } from '@/test/env';
+import { getOcrOptions } from './pdf-ocr';
+
+const DEFAULT_LANG_PATH = path.join(process.cwd(), 'node_modules', '@tesseract.js-data', 'eng', '4.0.0_best_int');
+
+// A language directory holding traineddata files for the given languages
+const createLangPath = (...languages: string[]): string => {
+  const directory = mkdtempSync(path.join(os.tmpdir(), 'ocr-'));
+  languages.forEach(language => writeFileSync(path.join(directory, `${language}.traineddata.gz`), ''));
+  return directory;
+};
+
+describe('getOcrOptions', () => {
+  let restoreEnv = () => {};
+  afterEach(() => {
+    restoreEnv();
+    jest.restoreAllMocks();
+  });
+
+  it('uses the English data shipped with the app by default', () => {
+    restoreEnv = setEnv({ OCR_LANGUAGES: undefined, OCR_LANG_PATH: undefined });
+
+    expect(getOcrOptions()).toEqual({ languages: ['eng'], langPath: DEFAULT_LANG_PATH });
+  });
+
+  it('keeps configured languages whose data is present', () => {
+    const langPath = createLangPath('eng', 'deu');
+    restoreEnv = setEnv({ OCR_LANGUAGES: 'eng+deu', OCR_LANG_PATH: langPath });
+
+    expect(getOcrOptions()).toEqual({ languages: ['eng', 'deu'], langPath });
+  });
+
+  it('drops languages without data and warns about them', () => {
+    const warn = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const langPath = createLangPath('eng');
+    restoreEnv = setEnv({ OCR_LANGUAGES: 'eng+deu', OCR_LANG_PATH: langPath, LOG_LEVEL: 'warn' });
+
+    expect(getOcrOptions()).toEqual({ languages: ['eng'], langPath });
+    expect(JSON.parse(String(warn.mock.calls[0][0]))).toMatchObject({ level: 'warn', missing: ['deu'], languages: ['eng'] });
+  });
+
+  it('falls back to the shipped English data when no configured language has data', () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    restoreEnv = setEnv({ OCR_LANGUAGES: 'fra', OCR_LANG_PATH: createLangPath() });
+
+    expect(getOcrOptions()).toEqual({ languages: ['eng'], langPath: DEFAULT_LANG_PATH });
+  });
+});
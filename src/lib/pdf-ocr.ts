@@ -0,0 +1,227 @@
+import { existsSync } from 'fs';
+import path from 'path';
+import type { Bbox, Line, Paragraph } from 'tesseract.js';
+import { countLetters } from '@/lib/language-statistics';
+import { logger } from '@/lib/observability/logger';
+import { loadPdfDocument } from '@/lib/pdf-text';
+import { DocumentParserResult, DocumentSection } from '@/lib/types';
+
+/**
+ * Text recognised on one rasterised page
+ */
+export type OcrPage = {
+  page: number;
+  // Mean word confidence reported by the OCR engine (0-1)
+  confidence: number;
+  text: string;
+  sections: DocumentSection[];
+};
+
+// Pages are rasterised at 144 dpi, enough for body text without slowing recognition down
+const RENDER_SCALE = 2;
+// Text layers with fewer letters (page number stamps, empty layers) count as scanned
+const MIN_TEXT_LAYER_LETTERS = 10;
+// Short paragraphs with lines this much taller than the page's body text are headings
+const HEADING_RATIO = 1.3;
+const TITLE_RATIO = 1.8;
+// English language data shipped with @tesseract.js-data/eng, so OCR works offline
+const DEFAULT_LANG_PATH = path.join(process.cwd(), 'node_modules', '@tesseract.js-data', 'eng', '4.0.0_best_int');
+
+const HYPHENATED_BREAK = new RegExp('-\\n(?=\\p{Ll})', 'gu');
+
+type OcrOptions = { languages: string[]; langPath: string };
+
+const hasLanguageData = (langPath: string, language: string): boolean =>
+  existsSync(path.join(langPath, `${language}.traineddata.gz`));
+
+// Checked once per configuration; the options are read on every OCR run
+let checkedOptions: { key: string; options: OcrOptions } | undefined;
+
+/**
+ * OCR languages (`OCR_LANGUAGES`, Tesseract codes joined by `+`, default `eng`)
+ * and the directory holding their gzipped traineddata files (`OCR_LANG_PATH`)
+ *
+ * Languages without a traineddata file are dropped with a warning, and when
+ * none is left OCR falls back to the English data shipped with the app, so a
+ * misconfiguration shows up in the logs at startup instead of failing every scan
+ */
+export const getOcrOptions = (): OcrOptions => {
+  const languages = (process.env.OCR_LANGUAGES || 'eng').split(/[+,\s]+/).filter(Boolean);
+  const langPath = process.env.OCR_LANG_PATH || DEFAULT_LANG_PATH;
+  const key = `${languages.join('+')}\u0000${langPath}`;
+  if (checkedOptions?.key === key) return checkedOptions.options;
+
+  const available = languages.filter(language => hasLanguageData(langPath, language));
+  const options = available.length === languages.length
+    ? { languages, langPath }
+    : available.length > 0
+      ? { languages: available, langPath }
+      : { languages: ['eng'], langPath: DEFAULT_LANG_PATH };
+
+  if (options.languages !== languages) {
+    logger.warn('OCR language data not found, check OCR_LANGUAGES and OCR_LANG_PATH', {
+      missing: languages.filter(language => !available.includes(language)),
+      langPath,
+      languages: options.languages,
+    });
+  }
+
+  checkedOptions = { key, options };
+  return options;
+};
+
+/**
+ * Page numbers (1-based) whose text layer is missing or too thin to use
+ */
+export const findScannedPages = (pageTexts: string[]): number[] =>
+  pageTexts.flatMap((text, index) => (countLetters(text) < MIN_TEXT_LAYER_LETTERS ? [index + 1] : []));
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted.length ? sorted[Math.floor(sorted.length / 2)] : 0;
+};
+
+const lineHeight = ({ bbox }: Line): number => bbox.y1 - bbox.y0;
+
+// Pixel boxes of the rendered page back to points
+const toBoundingBox = ({ x0, y0, x1, y1 }: Bbox): NonNullable<DocumentSection['position']['boundingBox']> => ({
+  x: Math.round(x0 / RENDER_SCALE),
+  y: Math.round(y0 / RENDER_SCALE),
+  width: Math.round((x1 - x0) / RENDER_SCALE),
+  height: Math.round((y1 - y0) / RENDER_SCALE),
+});
+
+// Lines of a paragraph as running text, joining words hyphenated across lines
+const joinLines = (lines: Line[]): string =>
+  lines
+    .map(line => line.text.trim())
+    .filter(Boolean)
+    .join('\n')
+    .replace(HYPHENATED_BREAK, '')
+    .replace(/\n/g, ' ');
+
+/**
+ * One section per recognised paragraph, in reading order
+ */
+const buildSections = (paragraphs: Paragraph[], page: number): DocumentSection[] => {
+  const bodyHeight = median(paragraphs.flatMap(paragraph => paragraph.lines.map(lineHeight)));
+  const sections: DocumentSection[] = [];
+
+  for (const paragraph of paragraphs) {
+    const content = joinLines(paragraph.lines);
+    if (!content) continue;
+
+    const ratio = bodyHeight ? median(paragraph.lines.map(lineHeight)) / bodyHeight : 1;
+    const isHeading = paragraph.lines.length <= 2 && ratio >= HEADING_RATIO;
+
+    sections.push({
+      type: isHeading ? 'heading' : 'paragraph',
+      ...(isHeading && { level: ratio >= TITLE_RATIO ? 1 : 2 }),
+      content,
+      position: { page, order: sections.length + 1, boundingBox: toBoundingBox(paragraph.bbox) },
+    });
+  }
+  return sections;
+};
+
+/**
+ * Rasterises the given pages with pdf.js and recognises their text with Tesseract
+ *
+ * Runs fully offline with the language data from `getOcrOptions`; every page
+ * comes back with its paragraphs as sections and the engine's confidence
+ */
+export const recognizePdfPages = async (
+  data: ArrayBuffer | Uint8Array,
+  pages: number[],
+  abortSignal?: AbortSignal
+): Promise<OcrPage[]> => {
+  if (!pages.length) return [];
+
+  const [{ createCanvas }, { createWorker, OEM }] = await Promise.all([import('@napi-rs/canvas'), import('tesseract.js')]);
+  const { languages, langPath } = getOcrOptions();
+
+  const pdf = await loadPdfDocument(data);
+  const worker = await createWorker(languages, OEM.LSTM_ONLY, { langPath, gzip: true, cacheMethod: 'none' });
+
+  try {
+    const results: OcrPage[] = [];
+    for (const pageNumber of pages) {
+      abortSignal?.throwIfAborted();
+
+      const page = await pdf.getPage(pageNumber);
+      const viewport = page.getViewport({ scale: RENDER_SCALE });
+      const canvas = createCanvas(Math.ceil(viewport.width), Math.ceil(viewport.height));
+      // pdf.js draws through the standard 2D context API, which the native canvas implements
+      await page.render({ canvasContext: canvas.getContext('2d') as unknown as CanvasRenderingContext2D, viewport }).promise;
+      page.cleanup();
+
+      const { data: recognized } = await worker.recognize(await canvas.encode('png'), {}, { text: true, blocks: true });
+      const paragraphs = (recognized.blocks ?? []).flatMap(block => block.paragraphs);
+      const sections = buildSections(paragraphs, pageNumber);
+
+      results.push({
+        page: pageNumber,
+        confidence: Math.round(recognized.confidence) / 100,
+        text: sections.map(section => section.content).join('\n\n'),
+        sections,
+      });
+    }
+    return results;
+  } finally {
+    await worker.terminate();
+    await pdf.destroy();
+  }
+};
+
+const toTextQuality = (confidence: number): DocumentParserResult['metadata']['textQuality'] => {
+  if (confidence >= 0.9) return 'excellent';
+  if (confidence >= 0.75) return 'good';
+  if (confidence >= 0.5) return 'fair';
+  return 'poor';
+};
+
+/**
+ * Mean confidence over the pages where OCR found text, and the text quality it suggests
+ */
+export const summarizeOcrPages = (pages: OcrPage[]): Pick<DocumentParserResult['metadata'], 'extractionConfidence' | 'textQuality'> => {
+  const read = pages.filter(page => page.sections.length);
+  const confidence = read.length
+    ? Math.round((read.reduce((sum, page) => sum + page.confidence, 0) / read.length) * 100) / 100
+    : 0;
+  return { extractionConfidence: confidence, textQuality: toTextQuality(confidence) };
+};
+
+/**
+ * Puts the OCR sections on scanned pages the model returned no text for and
+ * records the per-page OCR confidence in the metadata
+ * extractedText is rebuilt from the sections when pages were filled in
+ */
+export const mergeOcrPages = (result: DocumentParserResult, pages: OcrPage[]): DocumentParserResult => {
+  if (!pages.length) return result;
+
+  const { sections } = result.structure;
+  const filled = new Set(pages
+    .filter(ocr => ocr.sections.length)
+    .filter(ocr => !sections.some(section => section.position.page === ocr.page && countLetters(section.content)))
+    .map(ocr => ocr.page));
+
+  // Sorting by page only keeps the order of sections within a page
+  const merged = filled.size
+    ? [
+      ...sections.filter(section => !filled.has(section.position.page)),
+      ...pages.filter(ocr => filled.has(ocr.page)).flatMap(ocr => ocr.sections),
+    ].sort((a, b) => a.position.page - b.position.page)
+    : sections;
+
+  return {
+    ...result,
+    extractedText: filled.size ? merged.map(section => section.content).filter(Boolean).join('\n\n') : result.extractedText,
+    structure: { ...result.structure, sections: merged },
+    metadata: {
+      ...result.metadata,
+      isScanned: result.metadata.isScanned || pages.some(ocr => ocr.sections.length > 0),
+      ocrPages: pages.map(({ page, confidence }) => ({ page, confidence })),
+      sources: { ...result.metadata.sources, isScanned: 'computed', ocrPages: 'computed' },
+    },
+  };
+};
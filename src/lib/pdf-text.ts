@@ -0,0 +1,47 @@
+import path from 'path';
+
+// Metrics for the 14 standard PDF fonts, shipped with pdfjs-dist
+const STANDARD_FONT_DATA_URL = path.join(process.cwd(), 'node_modules', 'pdfjs-dist', 'standard_fonts') + path.sep;
+
+/**
+ * Opens a PDF with pdf.js (legacy build, which runs in Node)
+ * The caller must destroy the returned document
+ */
+export const loadPdfDocument = async (data: ArrayBuffer | Uint8Array) => {
+  const { getDocument } = await import('pdfjs-dist/legacy/build/pdf.mjs');
+
+  // pdf.js takes ownership of the buffer it is given, so hand it a copy
+  const bytes = new Uint8Array(data instanceof Uint8Array ? data : new Uint8Array(data));
+  return getDocument({
+    data: bytes,
+    isEvalSupported: false,
+    disableFontFace: true,
+    standardFontDataUrl: STANDARD_FONT_DATA_URL,
+  }).promise;
+};
+
+/**
+ * Reads the text layer of every page with pdf.js
+ * Returns one string per page; pages without a text layer come back empty
+ */
+export const extractPdfPageTexts = async (data: ArrayBuffer | Uint8Array): Promise<string[]> => {
+  const pdf = await loadPdfDocument(data);
+
+  try {
+    const pages: string[] = [];
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const content = await page.getTextContent();
+
+      pages.push(content.items
+        .map(item => ('str' in item ? item.str + (item.hasEOL ? '\n' : '') : ''))
+        .join('')
+        .replace(/[ \t]+\n/g, '\n')
+        .trim());
+      page.cleanup();
+    }
+    return pages;
+  } finally {
+    await pdf.destroy();
+  }
+};
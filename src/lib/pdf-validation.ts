@@ -0,0 +1,159 @@
+import { PDFDocument as DecryptingPDFDocument } from '@cantoo/pdf-lib';
+import { PDFArray, PDFDict, PDFDocument, PDFName, PDFObject, PDFStream } from 'pdf-lib';
+import { ContentValidationOptions, hasSignature, rejectContent, toBytes } from '@/lib/content-validation';
+import type { DocumentInput } from '@/lib/document-parser';
+import { logger } from '@/lib/observability/logger';
+import { DocumentProcessingError } from '@/lib/processing-errors';
+
+// The header must appear within the first 1024 bytes and the end-of-file
+// marker within the last 1024 bytes, as readers tolerate junk around them
+const MARKER_SEARCH_LENGTH = 1024;
+
+const readLatin1 = (bytes: Uint8Array, start: number, end: number): string =>
+  Buffer.from(bytes.subarray(start, end)).toString('latin1');
+
+// Keys that hold JavaScript, and where embedded files are declared
+const JAVASCRIPT = PDFName.of('JavaScript');
+const JS = PDFName.of('JS');
+const S = PDFName.of('S');
+const EMBEDDED_FILES = PDFName.of('EmbeddedFiles');
+const EF = PDFName.of('EF');
+const TYPE = PDFName.of('Type');
+const SUBTYPE = PDFName.of('Subtype');
+const EMBEDDED_FILE = PDFName.of('EmbeddedFile');
+const FILE_ATTACHMENT = PDFName.of('FileAttachment');
+
+type ActiveContent = { javascript: boolean; attachments: boolean };
+
+const inspectDict = (dict: PDFDict, found: ActiveContent) => {
+  // JavaScript actions (/S /JavaScript with /JS) and the document-level
+  // /JavaScript name tree
+  if (dict.has(JS) || dict.get(S) === JAVASCRIPT || dict.has(JAVASCRIPT)) {
+    found.javascript = true;
+  }
+  // File specifications with embedded streams, file attachment annotations
+  // and the document-level /EmbeddedFiles name tree
+  if (dict.has(EF) || dict.has(EMBEDDED_FILES) || dict.get(TYPE) === EMBEDDED_FILE || dict.get(SUBTYPE) === FILE_ATTACHMENT) {
+    found.attachments = true;
+  }
+};
+
+// Direct objects nest inside indirect ones; references are not followed
+// since every indirect object is visited on its own
+const visit = (object: PDFObject, found: ActiveContent) => {
+  if (object instanceof PDFStream) {
+    visit(object.dict, found);
+  } else if (object instanceof PDFDict) {
+    inspectDict(object, found);
+    for (const [, value] of object.entries()) visit(value, found);
+  } else if (object instanceof PDFArray) {
+    for (const value of object.asArray()) visit(value, found);
+  }
+};
+
+const findActiveContent = (pdf: PDFDocument): ActiveContent => {
+  const found: ActiveContent = { javascript: false, attachments: false };
+  for (const [, object] of pdf.context.enumerateIndirectObjects()) {
+    visit(object, found);
+  }
+  return found;
+};
+
+const loadPdf = async (bytes: Uint8Array, filename: string): Promise<PDFDocument> => {
+  let pdf: PDFDocument;
+  let pageCount: number;
+  try {
+    pdf = await PDFDocument.load(bytes, { ignoreEncryption: true, updateMetadata: false });
+    pageCount = pdf.getPageCount();
+  } catch (error) {
+    logger.warn('Could not read the PDF structure', { filename, error });
+    return rejectContent(`${filename} is damaged and cannot be read as a PDF`, 'file_malformed');
+  }
+
+  if (pageCount === 0) {
+    rejectContent(`${filename} is damaged: its page tree has no pages`, 'file_malformed');
+  }
+  return pdf;
+};
+
+const isPasswordError = (error: unknown): boolean =>
+  error instanceof Error && /needs password|password incorrect/i.test(error.message);
+
+const openEncryptedPdf = async (bytes: Uint8Array, password: string): Promise<Uint8Array> => {
+  const pdf = await DecryptingPDFDocument.load(bytes, { password, updateMetadata: false });
+  return pdf.save();
+};
+
+// The empty user password opens PDFs that are only encrypted to restrict
+// printing or copying; it is tried when no password is given, or the given
+// one does not fit
+const decryptPdf = async (bytes: Uint8Array, filename: string, password = ''): Promise<Uint8Array> => {
+  try {
+    try {
+      return await openEncryptedPdf(bytes, password);
+    } catch (error) {
+      if (!password || !isPasswordError(error)) throw error;
+      return await openEncryptedPdf(bytes, '').catch(() => Promise.reject(error));
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (/needs password/i.test(message) || (!password && /password incorrect/i.test(message))) {
+      throw new DocumentProcessingError(
+        `${filename} is password-protected. Provide its password to process it.`,
+        422,
+        'pdf_password_required'
+      );
+    }
+    if (/password incorrect/i.test(message)) {
+      throw new DocumentProcessingError(`The password for ${filename} is incorrect`, 422, 'pdf_password_incorrect');
+    }
+
+    logger.warn('Could not decrypt the PDF', { filename, error });
+    return rejectContent(`${filename} is encrypted and could not be decrypted`, 'file_malformed');
+  }
+};
+
+/**
+ * Checks that an upload is a complete, well-formed PDF without active content
+ *
+ * Rejects files without a PDF header (`content_mismatch`), without the
+ * end-of-file marker (`file_truncated`) or whose structure cannot be read
+ * (`file_malformed`), and PDFs with JavaScript (`pdf_javascript`) or
+ * embedded files (`pdf_attachments`). Encrypted PDFs are decrypted with the
+ * given password (`pdf_password_required`, `pdf_password_incorrect`) and the
+ * decrypted copy is returned in place of the upload.
+ */
+export const validatePdf = async (
+  input: DocumentInput,
+  { password }: ContentValidationOptions = {}
+): Promise<DocumentInput> => {
+  const bytes = toBytes(input.data);
+  const { filename } = input;
+
+  if (!readLatin1(bytes, 0, MARKER_SEARCH_LENGTH).includes('%PDF-')) {
+    rejectContent(
+      hasSignature(bytes, 'PK\u0003\u0004') ? `${filename} is a ZIP archive, not a PDF` : `${filename} is not a PDF file`,
+      'content_mismatch'
+    );
+  }
+  if (!readLatin1(bytes, Math.max(0, bytes.length - MARKER_SEARCH_LENGTH), bytes.length).includes('%%EOF')) {
+    rejectContent(`${filename} is incomplete: the end of the PDF is missing`, 'file_truncated');
+  }
+
+  let pdf = await loadPdf(bytes, filename);
+  let data: Uint8Array = bytes;
+  if (pdf.isEncrypted) {
+    data = await decryptPdf(bytes, filename, password);
+    pdf = await loadPdf(data, filename);
+  }
+
+  const { javascript, attachments } = findActiveContent(pdf);
+  if (javascript) {
+    throw new DocumentProcessingError(`${filename} contains embedded JavaScript and was rejected`, 422, 'pdf_javascript');
+  }
+  if (attachments) {
+    throw new DocumentProcessingError(`${filename} contains embedded file attachments and was rejected`, 422, 'pdf_attachments');
+  }
+
+  return data === bytes ? input : { ...input, data };
+};
@@ -0,0 +1,66 @@
+import { UploadErrorCode } from '@/lib/types';
+
+/**
+ * Error raised by the processing pipeline with the HTTP status it maps to
+ * Uploads rejected for their content also carry a code clients can act on
+ */
+export class DocumentProcessingError extends Error {
+  readonly status: number;
+  readonly code?: UploadErrorCode;
+
+  constructor(message: string, status = 500, code?: UploadErrorCode) {
+    super(message);
+    this.name = 'DocumentProcessingError';
+    this.status = status;
+    this.code = code;
+  }
+}
+
+export type ProcessingErrorInfo = {
+  message: string;
+  status: number;
+  code?: UploadErrorCode;
+};
+
+/**
+ * Maps errors thrown while processing a document to a user-facing message and HTTP status
+ */
+export const toProcessingError = (error: unknown): ProcessingErrorInfo => {
+  if (error instanceof DocumentProcessingError) {
+    return { message: error.message, status: error.status, ...(error.code && { code: error.code }) };
+  }
+
+  // Handle specific error types
+  if (error instanceof Error) {
+    // Check for generateObject specific errors
+    if (error.name === 'AI_NoObjectGeneratedError') {
+      return {
+        message: 'Failed to parse document structure. The document may be too complex or corrupted.',
+        status: 422,
+      };
+    }
+
+    // Check for common API errors
+    if (error.message.includes('API key')) {
+      return { message: 'API authentication failed', status: 401 };
+    }
+
+    if (error.message.includes('quota') || error.message.includes('rate limit')) {
+      return { message: 'Service temporarily unavailable. Please try again later.', status: 503 };
+    }
+
+    if (error.message.includes('timeout')) {
+      return { message: 'Document processing timed out. Please try with a smaller file.', status: 408 };
+    }
+
+    if (error.message.includes('token')) {
+      return { message: 'Document is too large to process. Please try with a smaller file.', status: 413 };
+    }
+
+    // Generic error with message
+    return { message: `Processing failed: ${error.message}`, status: 500 };
+  }
+
+  // Fallback error
+  return { message: 'An unexpected error occurred while processing the document', status: 500 };
+};
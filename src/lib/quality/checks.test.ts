@@ -0,0 +1,74 @@
+import { describe, expect, it } from '@jest/globals';
+import { DocumentSection } from '@/lib/types';
+import { checkSection, extractProtectedTokens, getChecksScore } from './checks';
+
+const section = (content: string, overrides: Partial<DocumentSection> = {}): DocumentSection => ({
+  type: 'paragraph',
+  content,
+  position: { page: 1, order: 0 },
+  ...overrides,
+});
+
+const entry = { sourceLanguage: 'en', targetLanguage: 'de', caseSensitive: false, matchInflections: false };
+
+describe('extractProtectedTokens', () => {
+  it('separates URLs, emails, footnote markers and digit runs', () => {
+    expect(extractProtectedTokens('See https://example.com/docs. or mail help@example.com[1] about 1,000.5 units\u00B2')).toEqual({
+      urls: ['https://example.com/docs'],
+      emails: ['help@example.com'],
+      footnoteMarkers: ['[1]', '\u00B2'],
+      numbers: ['1', '000', '5'],
+    });
+  });
+});
+
+describe('checkSection', () => {
+  it('passes a translation that keeps every protected token', () => {
+    const { checks, issues } = checkSection(
+      section('Call 555-0100 or visit www.example.com.'),
+      section('Rufen Sie 555-0100 an oder besuchen Sie www.example.com.')
+    );
+
+    expect(issues).toEqual([]);
+    expect(getChecksScore(checks)).toBe(1);
+  });
+
+  it('reports altered numbers, dropped URLs and changed structure', () => {
+    const { checks, issues } = checkSection(
+      section('Pay 120 EUR by 30 June at https://pay.example.com'),
+      section('Zahlen Sie 210 EUR bis zum 30. Juni', { type: 'heading', level: 2 })
+    );
+
+    expect(checks).toMatchObject({ structure: false, numbers: false, urls: false, emails: true, content: true });
+    expect(issues).toEqual([
+      'section type changed from paragraph to heading',
+      'missing or altered numbers: 120',
+      'missing or altered URLs: https://pay.example.com',
+    ]);
+    expect(getChecksScore(checks)).toBeCloseTo(4 / 7);
+  });
+
+  it('checks glossary terms and protected terms', () => {
+    const { checks, issues } = checkSection(
+      section('Open the Dashboard in Acme Cloud.'),
+      section('\u00D6ffnen Sie die \u00DCbersicht in Acme Wolke.'),
+      [
+        { ...entry, id: 'g1', source: 'Dashboard', target: 'Dashboard', doNotTranslate: false },
+        { ...entry, id: 'g2', source: 'Acme Cloud', caseSensitive: true, doNotTranslate: true },
+      ]
+    );
+
+    expect(checks.glossary).toBe(false);
+    expect(issues).toEqual([
+      'protected term "Acme Cloud" was altered or dropped',
+      'glossary term "Dashboard" must be translated as "Dashboard"',
+    ]);
+  });
+
+  it('fails every check for a missing section', () => {
+    const { checks, issues } = checkSection(section('Hello'), undefined);
+
+    expect(getChecksScore(checks)).toBe(0);
+    expect(issues).toEqual(['section is missing from the translation']);
+  });
+});
@@ -0,0 +1,123 @@
+import { checkGlossaryCompliance } from '@/lib/glossary/matching';
+import { DocumentSection, GlossaryEntry, SectionChecks } from '@/lib/types';
+
+const URL_PATTERN = /\b(?:https?:\/\/|www\.)[^\s<>"'()[\]]+/gi;
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g;
+// [1], [^1], ^1 and Unicode superscript digits
+const FOOTNOTE_MARKER_PATTERN = /\[\^?\d+\]|\^\d+|[\u2070\u00B9\u00B2\u00B3\u2074-\u2079]+/g;
+const DIGIT_RUN_PATTERN = /\d+/g;
+
+/**
+ * Tokens a translation must carry over unchanged
+ */
+export type ProtectedTokens = {
+  numbers: string[];
+  urls: string[];
+  emails: string[];
+  footnoteMarkers: string[];
+};
+
+const matchAll = (text: string, pattern: RegExp): string[] => text.match(pattern) ?? [];
+
+/**
+ * Extracts URLs, emails, footnote markers and numbers from text
+ * Numbers are compared as digit runs so locale-specific separators
+ * (1,000.5 vs 1.000,5) do not count as changes
+ */
+export const extractProtectedTokens = (text: string): ProtectedTokens => {
+  const urls = matchAll(text, URL_PATTERN).map(url => url.replace(/[.,;:!?]+$/, ''));
+  const withoutUrls = text.replace(URL_PATTERN, ' ');
+  const emails = matchAll(withoutUrls, EMAIL_PATTERN);
+  const withoutEmails = withoutUrls.replace(EMAIL_PATTERN, ' ');
+  const footnoteMarkers = matchAll(withoutEmails, FOOTNOTE_MARKER_PATTERN);
+  const numbers = matchAll(withoutEmails.replace(FOOTNOTE_MARKER_PATTERN, ' '), DIGIT_RUN_PATTERN);
+
+  return { numbers, urls, emails, footnoteMarkers };
+};
+
+// Tokens of `expected` missing from `actual`, counting repeats
+const missingTokens = (expected: string[], actual: string[]): string[] => {
+  const remaining = new Map<string, number>();
+  actual.forEach(token => remaining.set(token, (remaining.get(token) ?? 0) + 1));
+
+  return expected.filter(token => {
+    const count = remaining.get(token) ?? 0;
+    if (count === 0) return true;
+    remaining.set(token, count - 1);
+    return false;
+  });
+};
+
+const TOKEN_LABELS: Record<keyof ProtectedTokens, string> = {
+  numbers: 'numbers',
+  urls: 'URLs',
+  emails: 'email addresses',
+  footnoteMarkers: 'footnote markers',
+};
+
+const ALL_FAILED: SectionChecks = {
+  structure: false,
+  content: false,
+  numbers: false,
+  urls: false,
+  emails: false,
+  footnoteMarkers: false,
+  glossary: false,
+};
+
+/**
+ * Runs the deterministic checks for one section against its translation,
+ * including glossary compliance when entries are given
+ * Returns the check results and a readable issue per failed check
+ */
+export const checkSection = (
+  source: DocumentSection,
+  translated: DocumentSection | undefined,
+  glossary: GlossaryEntry[] = []
+): { checks: SectionChecks; issues: string[] } => {
+  if (!translated) {
+    return { checks: ALL_FAILED, issues: ['section is missing from the translation'] };
+  }
+
+  const issues: string[] = [];
+
+  const structure = translated.type === source.type
+    && translated.level === source.level
+    && translated.position.page === source.position.page
+    && translated.position.order === source.position.order;
+  if (!structure) {
+    issues.push(translated.type === source.type
+      ? 'section level or position changed'
+      : `section type changed from ${source.type} to ${translated.type}`);
+  }
+
+  const content = !source.content.trim() || translated.content.trim().length > 0;
+  if (!content) {
+    issues.push('translation is empty');
+  }
+
+  const sourceTokens = extractProtectedTokens(source.content);
+  const translatedTokens = extractProtectedTokens(translated.content);
+  const tokenChecks = {} as Record<keyof ProtectedTokens, boolean>;
+
+  for (const kind of Object.keys(TOKEN_LABELS) as (keyof ProtectedTokens)[]) {
+    const missing = missingTokens(sourceTokens[kind], translatedTokens[kind]);
+    tokenChecks[kind] = missing.length === 0;
+    if (missing.length) {
+      issues.push(`missing or altered ${TOKEN_LABELS[kind]}: ${Array.from(new Set(missing)).join(', ')}`);
+    }
+  }
+
+  const glossaryIssues = checkGlossaryCompliance(source.content, translated.content, glossary);
+  issues.push(...glossaryIssues);
+
+  return { checks: { structure, content, ...tokenChecks, glossary: glossaryIssues.length === 0 }, issues };
+};
+
+/**
+ * Share of deterministic checks that passed (0-1)
+ */
+export const getChecksScore = (checks: SectionChecks): number => {
+  const results = Object.values(checks);
+  return results.filter(Boolean).length / results.length;
+};
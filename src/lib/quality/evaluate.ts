@@ -0,0 +1,161 @@
+import { DocumentParserResult, DocumentSection, GlossaryEntry, QualityReport, SectionQuality } from '@/lib/types';
+import { checkSection, getChecksScore } from './checks';
+import { QualityJudge } from './judge';
+
+// Retry threshold from translation-workflow.md
+export const DEFAULT_QUALITY_THRESHOLD = 0.8;
+
+export type EvaluateTranslationOptions = {
+  sourceLanguage: string;
+  targetLanguage: string;
+  // Model-judged accuracy and fluency; without a judge only deterministic checks count
+  judge?: QualityJudge;
+  threshold?: number;
+  // Entries for this language pair checked in every section
+  glossary?: GlossaryEntry[];
+  // Earlier report whose section results are reused for sections not listed in `sections`
+  previous?: QualityReport;
+  sections?: number[];
+};
+
+const round = (value: number): number => Math.round(value * 1000) / 1000;
+
+const average = (values: number[]): number | undefined =>
+  values.length ? values.reduce((total, value) => total + value, 0) / values.length : undefined;
+
+const evaluateSection = async (
+  index: number,
+  source: DocumentSection,
+  translated: DocumentSection | undefined,
+  { judge, sourceLanguage, targetLanguage, threshold, glossary }: EvaluateTranslationOptions & { threshold: number }
+): Promise<SectionQuality> => {
+  const base = { index, page: source.position.page, order: source.position.order, type: source.type };
+  const { checks, issues } = checkSection(source, translated, glossary);
+
+  if (!source.content.trim() && translated) {
+    return { ...base, score: 1, checks, issues, passed: issues.length === 0, skipped: true };
+  }
+
+  const checksScore = getChecksScore(checks);
+  if (!judge || !translated || !checks.content) {
+    return { ...base, score: round(checksScore), checks, issues, passed: issues.length === 0 && checksScore >= threshold };
+  }
+
+  const { accuracy, fluency, issues: judgeIssues } = await judge.judge({
+    source: source.content,
+    translation: translated.content,
+    sourceLanguage,
+    targetLanguage,
+    sectionType: source.type,
+  });
+  const score = round((accuracy + fluency + checksScore) / 3);
+
+  // Model feedback is only kept when the model metrics are what failed the section
+  const modelIssues = [
+    ...(accuracy < threshold ? [`low accuracy (${round(accuracy)})`] : []),
+    ...(fluency < threshold ? [`low fluency (${round(fluency)})`] : []),
+  ];
+  if (modelIssues.length) modelIssues.push(...judgeIssues);
+
+  return {
+    ...base,
+    score,
+    accuracy: round(accuracy),
+    fluency: round(fluency),
+    checks,
+    issues: [...issues, ...modelIssues],
+    passed: issues.length === 0 && modelIssues.length === 0 && score >= threshold,
+  };
+};
+
+/**
+ * Scores each translated section and the document as a whole
+ * Sections combine deterministic checks (structure, numbers, URLs, emails,
+ * footnote markers, glossary terms) with model-judged accuracy and fluency; the document passes
+ * when section count and types match the source and every section passes
+ */
+export const evaluateTranslation = async (
+  source: DocumentParserResult,
+  translated: DocumentParserResult,
+  options: EvaluateTranslationOptions
+): Promise<QualityReport> => {
+  const threshold = options.threshold ?? DEFAULT_QUALITY_THRESHOLD;
+  const sourceSections = source.structure.sections;
+  const translatedSections = translated.structure.sections;
+  const reevaluate = options.sections ? new Set(options.sections) : undefined;
+
+  // Judge calls run one at a time, like translation, to keep rate usage predictable
+  const sections: SectionQuality[] = [];
+  for (const [index, section] of sourceSections.entries()) {
+    const previous = options.previous?.sections[index];
+    sections.push(previous && reevaluate && !reevaluate.has(index)
+      ? previous
+      : await evaluateSection(index, section, translatedSections[index], { ...options, threshold }));
+  }
+
+  const evaluated = sections.filter(section => !section.skipped);
+  const typeMismatches = sourceSections.filter(
+    (section, index) => translatedSections[index] && translatedSections[index].type !== section.type
+  ).length;
+  const parity = sourceSections.length === translatedSections.length && typeMismatches === 0;
+  const qualityScore = round(average(evaluated.map(section => section.score)) ?? 1);
+
+  const accuracy = average(evaluated.flatMap(section => section.accuracy ?? []));
+  const fluency = average(evaluated.flatMap(section => section.fluency ?? []));
+
+  return {
+    qualityScore,
+    passed: parity && qualityScore >= threshold && sections.every(section => section.passed),
+    threshold,
+    translationMetrics: {
+      ...(accuracy !== undefined && { accuracy: round(accuracy) }),
+      ...(fluency !== undefined && { fluency: round(fluency) }),
+      structure: round(average(sections.map(section => getChecksScore(section.checks))) ?? 1),
+    },
+    structure: {
+      sourceSections: sourceSections.length,
+      translatedSections: translatedSections.length,
+      typeMismatches,
+      parity,
+    },
+    sections,
+    retriedSections: (options.previous?.retriedSections ?? []).map(retry => ({
+      ...retry,
+      resolved: sections[retry.index]?.passed ?? false,
+    })),
+    evaluatedAt: new Date().toISOString(),
+  };
+};
+
+/**
+ * Failing sections with the issues to pass back to the translator
+ */
+export const getRetryFeedback = (report: QualityReport): Map<number, string[]> =>
+  new Map(report.sections
+    .filter(section => !section.passed && !section.skipped)
+    .map(section => [section.index, section.issues.length ? section.issues : [`score ${section.score} below threshold`]]));
+
+/**
+ * Records a retry round in the report: attempt counts and the reasons behind them
+ */
+export const recordRetries = (report: QualityReport, feedback: Map<number, string[]>): QualityReport => {
+  const retries = new Map(report.retriedSections.map(retry => [retry.index, retry]));
+
+  for (const [index, reasons] of feedback) {
+    const section = report.sections[index];
+    const existing = retries.get(index);
+    retries.set(index, {
+      index,
+      page: section.page,
+      order: section.order,
+      attempts: (existing?.attempts ?? 0) + 1,
+      reasons: Array.from(new Set([...(existing?.reasons ?? []), ...reasons])),
+      resolved: false,
+    });
+  }
+
+  return {
+    ...report,
+    retriedSections: Array.from(retries.values()).sort((a, b) => a.index - b.index),
+  };
+};
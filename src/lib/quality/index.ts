@@ -0,0 +1,4 @@
+export * from './checks';
+export * from './judge';
+export * from './evaluate';
+export * from './translate-with-quality';
@@ -0,0 +1,64 @@
+import { generateObject, type LanguageModel } from 'ai';
+import { resolveModel } from '@/lib/models';
+import { qualityJudgementSchema } from '@/lib/schema/quality';
+import { DocumentSection, QualityJudgement } from '@/lib/types';
+
+/**
+ * A source text and its translation handed to the quality judge
+ */
+export type QualityJudgeInput = {
+  source: string;
+  translation: string;
+  sourceLanguage: string;
+  targetLanguage: string;
+  sectionType?: DocumentSection['type'];
+};
+
+/**
+ * Quality judge abstraction used by the quality evaluator
+ * Keeps the model call swappable so tests can run without network access
+ */
+export interface QualityJudge {
+  judge(input: QualityJudgeInput): Promise<QualityJudgement>;
+}
+
+const buildJudgePrompt = ({ source, translation, sourceLanguage, targetLanguage, sectionType }: QualityJudgeInput): string => {
+  return `Evaluate this translation of a ${sectionType ?? 'text'} from ${sourceLanguage} to ${targetLanguage}.
+
+Score from 0 to 1:
+- accuracy: the translation conveys the full meaning of the source, with nothing added or omitted
+- fluency: the translation reads naturally and grammatically in ${targetLanguage}
+
+List concrete problems briefly; return an empty list when there are none.
+
+Source:
+${source}
+
+Translation:
+${translation}`;
+};
+
+/**
+ * Quality judge backed by a language model through the Vercel AI SDK
+ * Defaults to the registry's `evaluate` stage model
+ */
+export const createModelQualityJudge = (model: LanguageModel = resolveModel(undefined, 'evaluate').model): QualityJudge => ({
+  judge: async (input) => {
+    const result = await generateObject({
+      model,
+      schema: qualityJudgementSchema,
+      prompt: buildJudgePrompt(input),
+      temperature: 0,
+    });
+
+    return result.object;
+  },
+});
+
+/**
+ * Deterministic judge for tests and offline development
+ * Rates every translation as perfect so only the deterministic checks apply
+ */
+export const createFakeQualityJudge = (): QualityJudge => ({
+  judge: async () => ({ accuracy: 1, fluency: 1, issues: [] }),
+});
@@ -0,0 +1,56 @@
+import { describe, expect, it } from '@jest/globals';
+import { Translator } from '@/lib/translation';
+import { createTestDocument } from '@/test/documents';
+import { createFakeQualityJudge } from './judge';
+import { translateWithQualityControl } from './translate-with-quality';
+
+const document = createTestDocument([
+  { type: 'heading', level: 1, content: 'Invoice' },
+  { type: 'paragraph', content: 'Pay 120 EUR by 30 June.' },
+]);
+
+// Drops the amount until it is told about it
+const createCarelessTranslator = (): Translator & { feedback: (string[] | undefined)[] } => {
+  const feedback: (string[] | undefined)[] = [];
+  return {
+    feedback,
+    translate: async ({ text, feedback: issues }) => {
+      if (text === 'Invoice') return 'Rechnung';
+      feedback.push(issues);
+      return issues ? 'Zahlen Sie 120 EUR bis zum 30. Juni.' : 'Zahlen Sie bis zum 30. Juni.';
+    },
+  };
+};
+
+describe('translateWithQualityControl', () => {
+  it('translates failing sections again with the issues found', async () => {
+    const translator = createCarelessTranslator();
+    const { document: translated, quality } = await translateWithQualityControl(document, {
+      translator,
+      judge: createFakeQualityJudge(),
+      sourceLanguage: 'en',
+      targetLanguage: 'de',
+    });
+
+    expect(translator.feedback).toEqual([undefined, ['missing or altered numbers: 120']]);
+    expect(translated.structure.sections.map(section => section.content)).toEqual(['Rechnung', 'Zahlen Sie 120 EUR bis zum 30. Juni.']);
+    expect(quality.passed).toBe(true);
+    expect(quality.retriedSections).toEqual([
+      { index: 1, page: 1, order: 1, attempts: 1, reasons: ['missing or altered numbers: 120'], resolved: true },
+    ]);
+  });
+
+  it('stops after the retry limit and reports the section as unresolved', async () => {
+    const translator: Translator = { translate: async () => 'Zahlen Sie bald.' };
+    const { quality } = await translateWithQualityControl(document, {
+      translator,
+      sourceLanguage: 'en',
+      targetLanguage: 'de',
+      maxRetries: 2,
+    });
+
+    expect(quality.passed).toBe(false);
+    expect(quality.retriedSections).toMatchObject([{ index: 1, attempts: 2, resolved: false }]);
+    expect(quality.sections[1].issues).toEqual(['missing or altered numbers: 120, 30']);
+  });
+});
@@ -0,0 +1,58 @@
+import { retranslateSections, translateDocument, TranslateDocumentOptions, TranslateDocumentResult } from '@/lib/translation';
+import { DocumentParserResult, QualityReport } from '@/lib/types';
+import { DEFAULT_QUALITY_THRESHOLD, evaluateTranslation, getRetryFeedback, recordRetries } from './evaluate';
+import { QualityJudge } from './judge';
+
+// Retry limit from translation-workflow.md
+export const DEFAULT_MAX_QUALITY_RETRIES = 3;
+
+export type TranslateWithQualityOptions = TranslateDocumentOptions & {
+  judge?: QualityJudge;
+  threshold?: number;
+  maxRetries?: number;
+};
+
+export type TranslateWithQualityResult = TranslateDocumentResult & {
+  quality: QualityReport;
+};
+
+/**
+ * Translates a document, evaluates it and translates failing sections again
+ * (with the evaluator's findings as feedback) up to `maxRetries` times
+ */
+export const translateWithQualityControl = async (
+  document: DocumentParserResult,
+  {
+    judge,
+    threshold = DEFAULT_QUALITY_THRESHOLD,
+    maxRetries = DEFAULT_MAX_QUALITY_RETRIES,
+    ...options
+  }: TranslateWithQualityOptions
+): Promise<TranslateWithQualityResult> => {
+  const evaluationOptions = {
+    judge,
+    threshold,
+    sourceLanguage: options.sourceLanguage,
+    targetLanguage: options.targetLanguage,
+    glossary: options.glossary,
+  };
+
+  const result = await translateDocument(document, options);
+  let translated = result.document;
+  let quality = await evaluateTranslation(document, translated, evaluationOptions);
+
+  for (let attempt = 0; attempt < maxRetries && !quality.passed; attempt++) {
+    const feedback = getRetryFeedback(quality);
+    if (feedback.size === 0) break;
+
+    quality = recordRetries(quality, feedback);
+    translated = await retranslateSections(document, translated, feedback, options);
+    quality = await evaluateTranslation(document, translated, {
+      ...evaluationOptions,
+      previous: quality,
+      sections: Array.from(feedback.keys()),
+    });
+  }
+
+  return { document: translated, translation: result.translation, quality };
+};
@@ -0,0 +1,52 @@
+import { evaluateTranslation, QualityJudge } from '@/lib/quality';
+import { retranslateSections, Translator } from '@/lib/translation';
+import { GlossaryEntry, QualityReport, Review } from '@/lib/types';
+
+export type RetranslateReviewSectionOptions = {
+  translator: Translator;
+  judge?: QualityJudge;
+  glossary?: GlossaryEntry[];
+  // Reviewer notes for the translator
+  instructions?: string;
+};
+
+export type RetranslateReviewSectionResult = {
+  content: string;
+  quality?: QualityReport;
+};
+
+/**
+ * Translates one section of a review again
+ * The translator gets the section's open quality findings and the reviewer's
+ * instructions as feedback; the quality report is updated for that section only
+ */
+export const retranslateReviewSection = async (
+  review: Review,
+  index: number,
+  { translator, judge, glossary, instructions }: RetranslateReviewSectionOptions
+): Promise<RetranslateReviewSectionResult> => {
+  const { sourceLanguage, targetLanguage } = review;
+  const feedback = [
+    ...(review.quality?.sections[index]?.issues ?? []),
+    ...(instructions?.trim() ? [`Reviewer instructions: ${instructions.trim()}`] : []),
+  ];
+
+  const translated = await retranslateSections(
+    review.source,
+    review.translation,
+    new Map([[index, feedback.length ? feedback : ['The reviewer asked for a new translation of this section']]]),
+    { translator, sourceLanguage, targetLanguage, glossary }
+  );
+
+  const quality = review.quality && await evaluateTranslation(review.source, translated, {
+    judge,
+    sourceLanguage,
+    targetLanguage,
+    glossary,
+    threshold: review.quality.threshold,
+    previous: review.quality,
+    sections: [index],
+  });
+
+  return { content: translated.structure.sections[index].content, ...(quality && { quality }) };
+};
@@ -0,0 +1,42 @@
+import { describe, expect, it } from '@jest/globals';
+import { readFileSync } from 'fs';
+import path from 'path';
+import { createTestDocument } from '@/test/documents';
+import { reviewStore } from './store';
+
+const createReview = (clientId: string) => reviewStore.create({
+  clientId,
+  source: createTestDocument([{ type: 'paragraph', content: 'Hello' }]),
+  translation: createTestDocument([{ type: 'paragraph', content: 'Bonjour' }]),
+  translationInfo: {
+    sourceLanguage: 'en',
+    targetLanguage: 'fr',
+    translatedAt: '2026-01-01T00:00:00.000Z',
+    translatedSections: 1,
+    skippedSections: 0,
+  },
+});
+
+describe('reviewStore', () => {
+  it('keeps reviews of other clients out of reads, listings and changes', () => {
+    const review = createReview('key:owner');
+
+    expect(reviewStore.get(review.id, 'key:owner')?.id).toBe(review.id);
+    expect(reviewStore.get(review.id, 'key:other')).toBeUndefined();
+    expect(reviewStore.list('key:other').map(summary => summary.id)).not.toContain(review.id);
+    expect(reviewStore.updateSection(review.id, 'key:other', 0, { status: 'approved' })).toBeUndefined();
+    expect(reviewStore.replaceMachineTranslation(review.id, 'key:other', 0, 'Salut')).toBeUndefined();
+    expect(reviewStore.remove(review.id, 'key:other')).toBe(false);
+
+    expect(reviewStore.list('key:owner').map(summary => summary.id)).toContain(review.id);
+    expect(reviewStore.remove(review.id, 'key:owner')).toBe(true);
+  });
+
+  it('stores the owner in the review file but not in the review', () => {
+    const review = createReview('key:owner');
+    const stored = JSON.parse(readFileSync(path.join(process.env.REVIEW_STORE_DIR!, `${review.id}.json`), 'utf8'));
+
+    expect(stored.clientId).toBe('key:owner');
+    expect(review).not.toHaveProperty('clientId');
+  });
+});
@@ -0,0 +1,214 @@
+import { existsSync, readdirSync, readFileSync, rmSync } from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { writeJsonAtomic } from '@/lib/json-file';
+import { DocumentProcessingError } from '@/lib/processing-errors';
+import { replaceSectionContent } from '@/lib/sections';
+import { joinSectionText } from '@/lib/translation';
+import {
+  DocumentParserResult,
+  QualityReport,
+  Review,
+  ReviewSection,
+  ReviewSectionUpdate,
+  ReviewSummary,
+  TranslationInfo,
+} from '@/lib/types';
+
+const DEFAULT_REVIEW_DIR = path.join(process.cwd(), '.data', 'reviews');
+
+export type ReviewInput = {
+  // API client the review belongs to
+  clientId: string;
+  jobId?: string;
+  source: DocumentParserResult;
+  translation: DocumentParserResult;
+  translationInfo: TranslationInfo;
+  quality?: QualityReport;
+};
+
+// Review file: the review and the client it belongs to, which is kept out of API responses
+type StoredReview = Review & { clientId?: string };
+
+// Reviews stored before they were tied to a client were created without an API key
+const LEGACY_OWNER = 'anonymous';
+
+const toSummary = ({ source, translation, quality, sections, ...review }: Review): ReviewSummary => ({
+  ...review,
+  sectionCount: sections.length,
+  approved: sections.filter(section => section.status !== 'draft').length,
+  edited: sections.filter(section => section.edited).length,
+  flagged: sections.filter(section => section.flagged).length,
+});
+
+// Section texts changed, with extractedText kept in step
+const withSectionContent = (document: DocumentParserResult, changes: Map<number, string>): DocumentParserResult => {
+  const sections = document.structure.sections.map((section, index) =>
+    changes.has(index) ? replaceSectionContent(section, changes.get(index)!) : section);
+
+  return {
+    ...document,
+    extractedText: joinSectionText(sections),
+    structure: { ...document.structure, sections },
+  };
+};
+
+const getSection = (review: Review, index: number): ReviewSection => {
+  const section = review.sections[index];
+  if (!section) {
+    throw new DocumentProcessingError(`Section ${index} not found in review ${review.id}`, 404);
+  }
+  return section;
+};
+
+/**
+ * File-backed store of translations under review
+ * Reviews can hold large documents, so each one is a JSON file of its own in
+ * the review directory; all of them are loaded on first use
+ * A review belongs to the client that created it: every read and change takes
+ * the caller's client ID, and a review of another client reads as missing
+ */
+const createReviewStore = (directory: string = process.env.REVIEW_STORE_DIR || DEFAULT_REVIEW_DIR) => {
+  let reviews: Map<string, Review> | undefined;
+  const owners = new Map<string, string>();
+
+  const load = (): Map<string, Review> => {
+    if (!reviews) {
+      const files = existsSync(directory) ? readdirSync(directory).filter(file => file.endsWith('.json')) : [];
+      const stored: StoredReview[] = files.map(file => JSON.parse(readFileSync(path.join(directory, file), 'utf8')));
+      reviews = new Map(stored.map(({ clientId = LEGACY_OWNER, ...review }) => {
+        owners.set(review.id, clientId);
+        return [review.id, review];
+      }));
+    }
+    return reviews;
+  };
+
+  const findOwned = (id: string, clientId: string): Review | undefined => {
+    const review = load().get(id);
+    return review && owners.get(id) === clientId ? review : undefined;
+  };
+
+  const save = (review: Review): Review => {
+    const updated = { ...review, updatedAt: new Date().toISOString() };
+    load().set(updated.id, updated);
+    writeJsonAtomic(path.join(directory, `${updated.id}.json`), { ...updated, clientId: owners.get(updated.id) } satisfies StoredReview);
+    return updated;
+  };
+
+  return {
+    list: (clientId: string): ReviewSummary[] =>
+      Array.from(load().values())
+        .filter(review => owners.get(review.id) === clientId)
+        .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+        .map(toSummary),
+
+    get: (id: string, clientId: string): Review | undefined => findOwned(id, clientId),
+
+    create: ({ clientId, jobId, source, translation, translationInfo, quality }: ReviewInput): Review => {
+      const now = new Date().toISOString();
+      const id = randomUUID();
+      owners.set(id, clientId);
+      return save({
+        id,
+        ...(jobId && { jobId }),
+        filename: source.metadata.filename,
+        sourceLanguage: translationInfo.sourceLanguage,
+        targetLanguage: translationInfo.targetLanguage,
+        ...(translationInfo.glossaryId && { glossaryId: translationInfo.glossaryId }),
+        ...(translationInfo.model && { model: translationInfo.model }),
+        source,
+        translation,
+        ...(quality && { quality }),
+        sections: translation.structure.sections.map((section, index) => ({
+          index,
+          status: 'draft',
+          flagged: false,
+          machineTranslation: section.content,
+          edited: false,
+        })),
+        createdAt: now,
+        updatedAt: now,
+      });
+    },
+
+    /**
+     * Applies a reviewer change to one section
+     * Locked sections only accept a status change; unlock them first to edit the text
+     */
+    updateSection: (
+      id: string,
+      clientId: string,
+      index: number,
+      { content, status, flagged }: ReviewSectionUpdate
+    ): Review | undefined => {
+      const review = findOwned(id, clientId);
+      if (!review) return undefined;
+
+      const section = getSection(review, index);
+      if (section.status === 'locked' && content !== undefined && (status ?? 'locked') === 'locked') {
+        throw new DocumentProcessingError(`Section ${index} is locked. Unlock it before editing`, 409);
+      }
+
+      const updatedSection: ReviewSection = {
+        ...section,
+        ...(status && { status }),
+        ...(flagged !== undefined && { flagged }),
+        ...(content !== undefined && { edited: content !== section.machineTranslation }),
+        updatedAt: new Date().toISOString(),
+      };
+
+      return save({
+        ...review,
+        translation: content !== undefined ? withSectionContent(review.translation, new Map([[index, content]])) : review.translation,
+        sections: review.sections.map(item => (item.index === index ? updatedSection : item)),
+      });
+    },
+
+    /**
+     * Stores a new machine translation of one section, replacing any reviewer
+     * edit, and sends the section back to draft
+     */
+    replaceMachineTranslation: (
+      id: string,
+      clientId: string,
+      index: number,
+      content: string,
+      quality?: QualityReport
+    ): Review | undefined => {
+      const review = findOwned(id, clientId);
+      if (!review) return undefined;
+
+      const section = getSection(review, index);
+      if (section.status === 'locked') {
+        throw new DocumentProcessingError(`Section ${index} is locked. Unlock it before translating it again`, 409);
+      }
+
+      return save({
+        ...review,
+        translation: withSectionContent(review.translation, new Map([[index, content]])),
+        ...(quality && { quality }),
+        sections: review.sections.map(item => (item.index === index
+          ? { ...item, status: 'draft', machineTranslation: content, edited: false, updatedAt: new Date().toISOString() }
+          : item)),
+      });
+    },
+
+    remove: (id: string, clientId: string): boolean => {
+      if (!findOwned(id, clientId)) return false;
+
+      load().delete(id);
+      owners.delete(id);
+      rmSync(path.join(directory, `${id}.json`), { force: true });
+      return true;
+    },
+  };
+};
+
+export type ReviewStore = ReturnType<typeof createReviewStore>;
+
+// Reuse one store across hot reloads in development
+const globalForReviews = globalThis as unknown as { reviewStore?: ReviewStore };
+
+export const reviewStore = globalForReviews.reviewStore
+  ?? (globalForReviews.reviewStore = createReviewStore());
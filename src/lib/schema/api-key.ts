@@ -0,0 +1,54 @@
+import { z } from 'zod';
+
+const limitSchema = z.number().int().positive().nullable();
+
+/**
+ * Limits of one API key; an absent limit falls back to the server default,
+ * null lifts it
+ */
+export const apiKeyLimitsSchema = z.object({
+  requestsPerMinute: limitSchema.optional().describe('Requests accepted per minute'),
+  monthlyPages: limitSchema.optional().describe('Document pages parsed per calendar month (UTC)'),
+  monthlyTokens: limitSchema.optional().describe('Model tokens, prompt and completion, consumed per calendar month (UTC)')
+});
+
+/**
+ * What a client consumed in one calendar month
+ */
+export const apiKeyUsageSchema = z.object({
+  period: z.string().describe('Calendar month as YYYY-MM'),
+  requests: z.number(),
+  pages: z.number(),
+  tokens: z.number()
+});
+
+/**
+ * An issued API key; the key itself is only returned when it is created
+ */
+export const apiKeySchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  prefix: z.string().describe('First characters of the key, to recognise it'),
+  limits: apiKeyLimitsSchema,
+  createdAt: z.string(),
+  revokedAt: z.string().optional(),
+  usage: apiKeyUsageSchema.optional().describe('Usage in the current month')
+});
+
+export const apiKeyCreateRequestSchema = z.object({
+  name: z.string().trim().min(1, 'name is required').max(100),
+  limits: apiKeyLimitsSchema.optional()
+});
+
+export const apiKeyResponseSchema = z.object({
+  success: z.boolean(),
+  data: apiKeySchema.optional(),
+  key: z.string().optional().describe('The new key, sent once when it is created'),
+  error: z.string().optional()
+});
+
+export const apiKeyListResponseSchema = z.object({
+  success: z.boolean(),
+  data: z.array(apiKeySchema).optional(),
+  error: z.string().optional()
+});
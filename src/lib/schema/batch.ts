@@ -0,0 +1,55 @@
+import { z } from 'zod';
+import { documentParserSchema } from './document-parser';
+import { uploadErrorCodeSchema } from './input-format';
+import { jobStatusSchema } from './job';
+
+export const batchStatusSchema = z.enum(['running', 'completed']);
+
+/**
+ * One file of a batch, with its parse job status and, once parsed, the
+ * language and quality of the result
+ */
+export const batchFileSchema = z.object({
+  filename: z.string().describe('Original filename; files extracted from a ZIP archive keep their folder'),
+  jobId: z.string().optional().describe('Parse job of the file; absent for files rejected before parsing'),
+  status: jobStatusSchema.describe('Status of the parse job, failed for rejected files'),
+  progress: z.number().min(0).max(100).describe('Progress of the parse job'),
+  error: z.object({
+    message: z.string(),
+    status: z.number().describe('HTTP status the failure maps to'),
+    code: uploadErrorCodeSchema.optional().describe('Set when the file content was rejected')
+  }).optional().describe('Why the file was rejected or its parse job failed'),
+  language: z.string().optional().describe('Primary language of the parsed document (ISO 639-1 code)'),
+  textQuality: documentParserSchema.shape.metadata.shape.textQuality.optional(),
+  extractionConfidence: z.number().min(0).max(1).optional(),
+  pageCount: z.number().optional()
+});
+
+/**
+ * Public view of a batch upload: every file and the totals over them
+ * Sent from POST /api/batches and GET /api/batches/:id
+ */
+export const batchSummarySchema = z.object({
+  id: z.string().describe('Batch identifier returned on submission'),
+  status: batchStatusSchema.describe('completed once every file has finished, failed or been cancelled'),
+  files: z.array(batchFileSchema).describe('Files in upload order'),
+  totals: z.object({
+    files: z.number(),
+    completed: z.number(),
+    failed: z.number(),
+    cancelled: z.number(),
+    pending: z.number().describe('Files queued or still being parsed')
+  }),
+  failures: z.array(z.object({
+    filename: z.string(),
+    message: z.string()
+  })).describe('Failed files with the reason'),
+  createdAt: z.string().describe('ISO timestamp when the batch was submitted'),
+  updatedAt: z.string().describe('ISO timestamp of the last change to any of its files')
+});
+
+export const batchResponseSchema = z.object({
+  success: z.boolean(),
+  data: batchSummarySchema.optional(),
+  error: z.string().optional()
+});
@@ -1,4 +1,86 @@
 import { z } from 'zod';
+import { uploadErrorCodeSchema } from './input-format';
+import { requestMetricsSchema } from './metrics';
+
+/**
+ * Where a metadata value came from: read from the file, produced by the model,
+ * or computed locally from the extraction
+ */
+export const metadataFieldSourceSchema = z.enum(['file', 'model', 'computed']);
+
+/**
+ * One table cell; cells covered by another cell's span are left out of their row
+ */
+export const tableCellSchema = z.object({
+  content: z.string().describe('Text content of the cell'),
+  header: z.boolean().optional().describe('Cell is a row or column header'),
+  rowSpan: z.number().optional().describe('Number of rows the cell spans (default 1)'),
+  colSpan: z.number().optional().describe('Number of columns the cell spans (default 1)')
+});
+
+/**
+ * Grid of a table section, kept so translation and export preserve rows and columns
+ */
+export const documentTableSchema = z.object({
+  rows: z.array(z.array(tableCellSchema)).describe('Rows from top to bottom, each with its cells from left to right'),
+  headerRows: z.number().describe('Number of leading rows that are header rows'),
+  headerColumns: z.number().describe('Number of leading columns that are header columns'),
+  captionOrder: z.number().optional().describe('Order of the caption section on the same page that belongs to this table')
+});
+
+/**
+ * Inline formatting of a stretch of section text, by character offsets
+ * (UTF-16 code units, end exclusive) into the section content
+ */
+export const styleRunSchema = z.object({
+  start: z.number().describe('Offset of the first character of the run in the section content'),
+  end: z.number().describe('Offset just past the last character of the run'),
+  bold: z.boolean().optional(),
+  italic: z.boolean().optional(),
+  underline: z.boolean().optional(),
+  strikethrough: z.boolean().optional(),
+  superscript: z.boolean().optional(),
+  subscript: z.boolean().optional(),
+  link: z.string().optional().describe('Target URL when the run is a hyperlink')
+});
+
+/**
+ * Area a section covers on its page, in points from the top-left corner of the page
+ */
+export const boundingBoxSchema = z.object({
+  x: z.number().describe('Distance of the left edge from the left edge of the page'),
+  y: z.number().describe('Distance of the top edge from the top edge of the page'),
+  width: z.number(),
+  height: z.number()
+});
+
+export const parseWarningCodeSchema = z.enum([
+  'page-count-mismatch',
+  'page-out-of-range',
+  'duplicate-order',
+  'word-count-mismatch',
+  'character-count-mismatch',
+  'heading-level-out-of-range',
+  'unreferenced-footnote'
+]);
+
+/**
+ * Inconsistency found in a parse result, and how it was repaired
+ */
+export const parseWarningSchema = z.object({
+  code: parseWarningCodeSchema,
+  message: z.string().describe('What was wrong and what was done about it'),
+  path: z.string().optional().describe('Dotted path of the affected field, e.g. structure.sections.4.position.page'),
+  repaired: z.boolean().describe('Whether the value was corrected; unrepaired issues are reported only')
+});
+
+/**
+ * Recognition confidence of one page read with OCR
+ */
+export const ocrPageSchema = z.object({
+  page: z.number().describe('Page number'),
+  confidence: z.number().min(0).max(1).describe('Mean word confidence reported by the OCR engine (0-1)')
+});
 
 /**
  * Comprehensive schema for the Document Parser Agent
@@ -13,9 +95,13 @@ export const documentParserSchema = z.object({
       type: z.enum(['heading', 'paragraph', 'list', 'table', 'image', 'footer', 'header', 'caption']),
       level: z.number().optional().describe('Heading level for headings (1-6)'),
       content: z.string().describe('Text content of this section'),
+      table: documentTableSchema.optional().describe('Rows and cells of table sections'),
+      fontIndex: z.number().optional().describe('Index into formatting.fonts of the font the section is set in'),
+      runs: z.array(styleRunSchema).optional().describe('Inline formatting within the content; unformatted text has no run'),
       position: z.object({
         page: z.number().describe('Page number where this section appears'),
-        order: z.number().describe('Order within the page')
+        order: z.number().describe('Order within the page'),
+        boundingBox: boundingBoxSchema.optional().describe('Where the section sits on the page')
       })
     })).describe('Structured sections of the document with hierarchical information'),
     
@@ -61,6 +147,10 @@ export const documentParserSchema = z.object({
       hasFooters: z.boolean().describe('Document has footer sections'),
       hasWatermarks: z.boolean().describe('Document contains watermarks'),
       orientation: z.enum(['portrait', 'landscape']).describe('Page orientation'),
+      pageSize: z.object({
+        width: z.number().describe('Page width in points'),
+        height: z.number().describe('Page height in points')
+      }).optional().describe('Size of the pages, the coordinate space of section bounding boxes'),
       margins: z.object({
         top: z.number().optional().describe('Top margin in points'),
         bottom: z.number().optional().describe('Bottom margin in points'),
@@ -100,19 +190,75 @@ export const documentParserSchema = z.object({
     // Quality indicators
     isScanned: z.boolean().describe('Whether document appears to be scanned (OCR needed)'),
     textQuality: z.enum(['excellent', 'good', 'fair', 'poor']).describe('Quality of extracted text'),
-    extractionConfidence: z.number().min(0).max(1).describe('Confidence score for text extraction (0-1)')
-  }).describe('Comprehensive document metadata for translation workflow')
+    extractionConfidence: z.number().min(0).max(1).describe('Confidence score for text extraction (0-1)'),
+    ocrPages: z.array(ocrPageSchema).optional().describe('Pages without a text layer that were read with local OCR'),
+
+    // Provenance
+    sources: z.record(z.string(), metadataFieldSourceSchema).optional().describe('Source of each metadata field, keyed by field name')
+  }).describe('Comprehensive document metadata for translation workflow'),
+
+  warnings: z.array(parseWarningSchema).optional().describe('Inconsistencies the consistency check found and repaired')
+});
+
+/**
+ * Schema requested from the model; field provenance, OCR confidences and
+ * warnings are recorded locally
+ */
+export const documentParserModelSchema = documentParserSchema.omit({ warnings: true }).extend({
+  metadata: documentParserSchema.shape.metadata.omit({ sources: true, ocrPages: true })
 });
 
 
 
+/**
+ * How a parse result relates to the parse cache
+ */
+export const parseCacheInfoSchema = z.object({
+  hit: z.boolean().describe('Result was served from the cache without calling the model'),
+  key: z.string().describe('File SHA-256 followed by a fingerprint of model, schema and prompt'),
+  backend: z.string().describe('Cache backend: memory, filesystem or sqlite'),
+  forced: z.boolean().optional().describe('Cache was bypassed on request and the entry refreshed')
+});
+
+/**
+ * Result as far as the model has produced it while the object is streamed in
+ * Not validated: any field may still be missing and arrays may end early
+ */
+export const partialDocumentParserSchema = documentParserSchema.deepPartial();
+
+/**
+ * One line of the newline-delimited JSON stream of /api/document-parser
+ * Partial results are followed by exactly one result or error line
+ */
+export const documentParserStreamEventSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('partial'),
+    data: partialDocumentParserSchema
+  }),
+  z.object({
+    type: z.literal('result'),
+    data: documentParserSchema.describe('Complete result, validated and checked'),
+    cache: parseCacheInfoSchema.optional(),
+    metrics: requestMetricsSchema.optional()
+  }),
+  z.object({
+    type: z.literal('error'),
+    error: z.string(),
+    status: z.number().describe('HTTP status the failure maps to'),
+    code: uploadErrorCodeSchema.optional()
+  })
+]);
+
 /**
  * Response schema that wraps the document parser result
  */
 export const documentParserResponseSchema = z.object({
   success: z.boolean(),
   data: documentParserSchema.optional(),
-  error: z.string().optional()
+  cache: parseCacheInfoSchema.optional(),
+  metrics: requestMetricsSchema.optional().describe('Request ID, stage timings, token usage and estimated cost of the request'),
+  error: z.string().optional(),
+  code: uploadErrorCodeSchema.optional().describe('Why the file content was rejected, for uploads refused before parsing')
 });
 
 
@@ -0,0 +1,21 @@
+import { z } from 'zod';
+import { documentParserSchema } from './document-parser';
+
+/**
+ * Formats the export endpoint renders
+ */
+export const exportFormatSchema = z.enum(['pdf', 'markdown', 'html', 'docx']);
+
+/**
+ * Request schema for the export endpoints
+ * Takes a (translated) document inline, the ID of a completed parse job, or
+ * the ID of a review whose reviewed translation is rendered
+ */
+export const exportRequestSchema = z.object({
+  document: documentParserSchema.optional().describe('Original or translated document to render'),
+  jobId: z.string().optional().describe('ID of a completed parse job to render instead of an inline document'),
+  reviewId: z.string().optional().describe('ID of a review whose reviewed translation is rendered')
+}).refine(
+  (request) => [request.document, request.jobId, request.reviewId].filter(Boolean).length === 1,
+  { message: 'Provide one of document, jobId or reviewId', path: ['document'] }
+);
@@ -0,0 +1,81 @@
+import { z } from 'zod';
+
+// Language code of a glossary entry; '*' matches any language
+const entryLanguageSchema = z.string().min(1);
+
+/**
+ * Fields of a glossary entry supplied by clients
+ * Do-not-translate entries keep `source` verbatim and need no `target`
+ */
+export const glossaryEntryInputSchema = z.object({
+  sourceLanguage: entryLanguageSchema.describe('Source language (ISO 639-1) or * for any'),
+  targetLanguage: entryLanguageSchema.describe('Target language (ISO 639-1) or * for any'),
+  source: z.string().trim().min(1).describe('Term as it appears in source documents'),
+  target: z.string().trim().optional().describe('Required translation of the term'),
+  doNotTranslate: z.boolean().default(false).describe('Term must appear unchanged in the translation'),
+  caseSensitive: z.boolean().default(false).describe('Match the term only with the same capitalisation'),
+  matchInflections: z.boolean().default(false).describe('Also match inflected forms (plural, possessive, case endings)'),
+  note: z.string().optional().describe('Usage note passed to the translator')
+}).refine(
+  (entry) => entry.doNotTranslate || Boolean(entry.target),
+  { message: 'is required unless doNotTranslate is set', path: ['target'] }
+);
+
+export const glossaryEntrySchema = z.object({
+  id: z.string(),
+  sourceLanguage: z.string(),
+  targetLanguage: z.string(),
+  source: z.string(),
+  target: z.string().optional(),
+  doNotTranslate: z.boolean(),
+  caseSensitive: z.boolean(),
+  matchInflections: z.boolean(),
+  note: z.string().optional()
+});
+
+export const glossarySchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string().optional(),
+  entries: z.array(glossaryEntrySchema),
+  createdAt: z.string(),
+  updatedAt: z.string()
+});
+
+export const glossaryInputSchema = z.object({
+  name: z.string().trim().min(1, 'name is required'),
+  description: z.string().optional(),
+  entries: z.array(glossaryEntryInputSchema).optional()
+});
+
+export const glossaryUpdateSchema = z.object({
+  name: z.string().trim().min(1).optional(),
+  description: z.string().optional()
+});
+
+/**
+ * Glossary listing without its entries
+ */
+export const glossarySummarySchema = glossarySchema.omit({ entries: true }).extend({
+  entryCount: z.number()
+});
+
+export const glossaryResponseSchema = z.object({
+  success: z.boolean(),
+  data: glossarySchema.optional(),
+  error: z.string().optional()
+});
+
+export const glossaryListResponseSchema = z.object({
+  success: z.boolean(),
+  data: z.array(glossarySummarySchema).optional(),
+  error: z.string().optional()
+});
+
+export const glossaryImportResponseSchema = z.object({
+  success: z.boolean(),
+  data: glossarySchema.optional(),
+  imported: z.number().optional().describe('Number of entries added by the import'),
+  skipped: z.array(z.string()).optional().describe('Rows or term entries that could not be imported, with reasons'),
+  error: z.string().optional()
+});
@@ -0,0 +1,16 @@
+export * from './document-parser';
+export * from './translation';
+export * from './language-detection';
+export * from './job';
+export * from './export';
+export * from './input-format';
+export * from './model';
+export * from './quality';
+export * from './glossary';
+export * from './translation-memory';
+export * from './xliff';
+export * from './review';
+export * from './batch';
+export * from './api-key';
+export * from './metrics';
+export * from './pipeline';
@@ -0,0 +1,35 @@
+import { z } from 'zod';
+
+/**
+ * Upload format served by a registered input adapter
+ */
+export const inputFormatSchema = z.object({
+  id: z.string(),
+  label: z.string(),
+  mimeTypes: z.array(z.string()),
+  extensions: z.array(z.string())
+});
+
+export const inputFormatsResponseSchema = z.object({
+  success: z.boolean(),
+  data: z.object({
+    formats: z.array(inputFormatSchema),
+    maxFileSize: z.number().describe('Maximum upload size in bytes')
+  }).optional(),
+  error: z.string().optional()
+});
+
+/**
+ * Why an upload, or its content, was rejected before parsing
+ */
+export const uploadErrorCodeSchema = z.enum([
+  'file_too_large',
+  'unsupported_type',
+  'content_mismatch',
+  'file_truncated',
+  'file_malformed',
+  'pdf_password_required',
+  'pdf_password_incorrect',
+  'pdf_javascript',
+  'pdf_attachments'
+]);
@@ -0,0 +1,44 @@
+import { z } from 'zod';
+import { documentParserSchema, parseCacheInfoSchema } from './document-parser';
+import { uploadErrorCodeSchema } from './input-format';
+import { requestMetricsSchema } from './metrics';
+
+export const jobStatusSchema = z.enum(['queued', 'running', 'completed', 'failed', 'cancelled']);
+
+export const jobStageSchema = z.enum(['queued', 'validating', 'parsing', 'finalizing', 'done']);
+
+/**
+ * Public view of an asynchronous document processing job
+ * Sent from GET /api/jobs/:id and as Server-Sent Events payloads
+ */
+export const jobSummarySchema = z.object({
+  id: z.string().describe('Job identifier returned on submission'),
+  status: jobStatusSchema.describe('Lifecycle status of the job'),
+  stage: jobStageSchema.describe('Pipeline stage currently running'),
+  progress: z.number().min(0).max(100).describe('Overall progress percentage'),
+  filename: z.string().describe('Original filename'),
+  glossaryId: z.string().optional().describe('Glossary applied when the parsed document is translated'),
+  cache: parseCacheInfoSchema.optional().describe('Parse cache outcome, set once parsing finishes'),
+  metrics: requestMetricsSchema.optional().describe('Stage timings and model usage of the job, set once it finishes'),
+  createdAt: z.string().describe('ISO timestamp when the job was submitted'),
+  updatedAt: z.string().describe('ISO timestamp of the last status change'),
+  error: z.object({
+    message: z.string(),
+    status: z.number().describe('HTTP status the failure maps to'),
+    code: uploadErrorCodeSchema.optional().describe('Set when the file content was rejected')
+  }).optional().describe('Failure details when status is failed')
+});
+
+export const jobResponseSchema = z.object({
+  success: z.boolean(),
+  data: jobSummarySchema.optional(),
+  error: z.string().optional(),
+  code: uploadErrorCodeSchema.optional()
+});
+
+export const jobResultResponseSchema = z.object({
+  success: z.boolean(),
+  data: documentParserSchema.optional(),
+  job: jobSummarySchema.optional(),
+  error: z.string().optional()
+});
@@ -0,0 +1,64 @@
+import { z } from 'zod';
+import { documentParserSchema } from './document-parser';
+import { requestMetricsSchema } from './metrics';
+
+/**
+ * Schema requested from the language model
+ * Identifies the primary language, the sections written in another one and
+ * proposes translation targets for the user
+ */
+export const languageDetectionModelSchema = z.object({
+  detectedLanguage: z.string().describe('Detected primary language of the document (ISO 639-1 code)'),
+  confidence: z.number().min(0).max(1).describe('Confidence score for the detection (0-1)'),
+  availableTargets: z.array(z.string()).describe('Suggested target languages (ISO 639-1 codes), excluding the source language'),
+  otherSections: z.array(z.object({
+    index: z.number().describe('Number of the excerpt, as given in brackets'),
+    language: z.string().describe('Language of that excerpt (ISO 639-1 code)')
+  })).describe('Excerpts written in a language other than the primary one; empty for single-language documents')
+});
+
+/**
+ * Language of one section
+ */
+export const sectionLanguageSchema = z.object({
+  index: z.number().describe('Index in structure.sections'),
+  language: z.string().describe('ISO 639-1 code'),
+  confidence: z.number().min(0).max(1).describe('Confidence score for the section (0-1)')
+});
+
+/**
+ * Result of the Language Detection Agent
+ * The model's answer is cross-checked with an offline statistical detector;
+ * sections without enough text to tell are left out of `sections`
+ */
+export const languageDetectionSchema = languageDetectionModelSchema.omit({ otherSections: true }).extend({
+  sections: z.array(sectionLanguageSchema).describe('Language of each section with text'),
+  languages: z.array(z.object({
+    language: z.string().describe('ISO 639-1 code'),
+    share: z.number().min(0).max(1).describe('Share of the section text written in this language')
+  })).describe('Languages found in the document, largest share first; more than one for mixed documents'),
+  crossCheck: z.object({
+    language: z.string().describe('Language found by the statistical detector'),
+    confidence: z.number().min(0).max(1),
+    agrees: z.boolean().describe('Whether it matches the model\'s primary language')
+  }).optional().describe('Offline statistical detection of the whole text, absent when the text is too short')
+});
+
+/**
+ * Request to detect the languages of a parsed document (inline or by parse job ID)
+ */
+export const languageDetectionRequestSchema = z.object({
+  document: documentParserSchema.optional().describe('Parsed document produced by the Document Parser Agent'),
+  jobId: z.string().optional().describe('ID of a completed parse job'),
+  model: z.string().optional().describe('Registry model ID or provider:model; defaults to the detectLanguage stage model')
+}).refine(
+  (request) => Boolean(request.document) !== Boolean(request.jobId),
+  { message: 'Provide either document or jobId', path: ['document'] }
+);
+
+export const languageDetectionResponseSchema = z.object({
+  success: z.boolean(),
+  data: languageDetectionSchema.optional(),
+  metrics: requestMetricsSchema.optional().describe('Request ID, stage timings, token usage and estimated cost of the request'),
+  error: z.string().optional()
+});
@@ -0,0 +1,25 @@
+import { z } from 'zod';
+
+/**
+ * Tokens one model consumed while serving a request, with the estimated cost
+ */
+export const modelUsageReportSchema = z.object({
+  model: z.string().describe('Registry ID of the model'),
+  calls: z.number().describe('Model calls that reported usage'),
+  promptTokens: z.number(),
+  completionTokens: z.number(),
+  totalTokens: z.number(),
+  estimatedCost: z.number().nullable().describe('Estimated cost in USD; null when the price table has no entry for the model')
+});
+
+/**
+ * Where the time of a request went and what it cost
+ */
+export const requestMetricsSchema = z.object({
+  requestId: z.string().describe('Request ID, also sent as the X-Request-Id header and logged with every entry'),
+  durationMs: z.number().describe('Time spent so far, in milliseconds'),
+  stages: z.record(z.string(), z.number()).describe('Milliseconds spent in each pipeline stage'),
+  usage: z.array(modelUsageReportSchema).describe('Token usage per model; empty when no model was called'),
+  totalTokens: z.number(),
+  estimatedCost: z.number().describe('Estimated cost in USD of the models with a price')
+});
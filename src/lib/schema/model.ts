@@ -0,0 +1,73 @@
+import { z } from 'zod';
+
+/**
+ * Pipeline stages that call a language model and can each use a different one
+ */
+export const modelStageSchema = z.enum(['parse', 'detectLanguage', 'translate', 'evaluate']);
+
+export const modelProviderTypeSchema = z.enum(['google', 'openai', 'openai-compatible']);
+
+/**
+ * What a model can accept; text-only models receive locally extracted text instead of the raw file
+ */
+export const modelCapabilitiesSchema = z.object({
+  pdfInput: z.boolean().describe('Accepts PDF files as native input'),
+  structuredOutput: z.boolean().describe('Supports JSON schema constrained output')
+});
+
+export const modelProviderConfigSchema = z.object({
+  type: modelProviderTypeSchema,
+  baseURL: z.string().url().optional(),
+  apiKey: z.string().optional(),
+  apiKeyEnv: z.string().optional().describe('Environment variable holding the API key')
+});
+
+/**
+ * Price of a model, used to estimate what requests cost
+ */
+export const modelPricingSchema = z.object({
+  input: z.number().nonnegative().describe('USD per million prompt tokens'),
+  output: z.number().nonnegative().describe('USD per million completion tokens')
+});
+
+export const modelDefinitionSchema = z.object({
+  provider: z.string(),
+  model: z.string().describe('Model name sent to the provider'),
+  label: z.string().optional(),
+  capabilities: modelCapabilitiesSchema.partial().optional(),
+  pricing: modelPricingSchema.optional()
+});
+
+/**
+ * Registry configuration file (MODEL_CONFIG_PATH or models.config.json)
+ */
+export const modelConfigSchema = z.object({
+  providers: z.record(z.string(), modelProviderConfigSchema).default({}),
+  models: z.record(z.string(), modelDefinitionSchema).default({}),
+  defaults: z.object({
+    default: z.string().optional(),
+    parse: z.string().optional(),
+    detectLanguage: z.string().optional(),
+    translate: z.string().optional(),
+    evaluate: z.string().optional()
+  }).default({})
+});
+
+export const modelInfoSchema = z.object({
+  id: z.string(),
+  provider: z.string(),
+  model: z.string(),
+  label: z.string().optional(),
+  capabilities: modelCapabilitiesSchema,
+  pricing: modelPricingSchema.optional().describe('Absent when the price table has no entry for the model'),
+  available: z.boolean().describe('Whether the provider credentials are configured')
+});
+
+export const modelsResponseSchema = z.object({
+  success: z.boolean(),
+  data: z.object({
+    models: z.array(modelInfoSchema),
+    defaults: z.record(modelStageSchema, z.string())
+  }).optional(),
+  error: z.string().optional()
+});
@@ -0,0 +1,76 @@
+import { z } from 'zod';
+import { documentParserSchema } from './document-parser';
+import { languageDetectionSchema } from './language-detection';
+import { requestMetricsSchema } from './metrics';
+import { qualityReportSchema } from './quality';
+import { translationInfoSchema } from './translation';
+
+export const pipelineStageSchema = z.enum([
+  'pending',
+  'parsing',
+  'detecting-language',
+  'awaiting-target-language',
+  'translating',
+  'quality-check',
+  'formatting',
+  'completed'
+]);
+
+/**
+ * Payload of the target language selection interrupt
+ * The run pauses with it after language detection until a target is chosen
+ */
+export const targetLanguageRequestSchema = z.object({
+  detectedLanguage: z.string().describe('Detected primary language (ISO 639-1 code)'),
+  confidence: z.number().min(0).max(1).describe('Confidence of the detection (0-1)'),
+  availableTargets: z.array(z.string()).describe('Suggested target languages (ISO 639-1 codes)'),
+  languages: languageDetectionSchema.shape.languages.describe('Languages found in the document by share of its text')
+});
+
+/**
+ * Request to start a run of the translation graph on a parsed document (inline or by parse job ID)
+ * Without a target language the run pauses after language detection
+ */
+export const pipelineStartRequestSchema = z.object({
+  document: documentParserSchema.optional().describe('Parsed document produced by the Document Parser Agent'),
+  jobId: z.string().optional().describe('ID of a completed parse job'),
+  targetLanguage: z.string().min(1).optional().describe('Target language (ISO 639-1 code); omit to choose it after language detection'),
+  glossaryId: z.string().optional().describe('Glossary to apply; defaults to the glossary chosen for the parse job'),
+  model: z.string().optional().describe('Registry model ID or provider:model; defaults to the translate stage model')
+}).refine(
+  (request) => Boolean(request.document) !== Boolean(request.jobId),
+  { message: 'Provide either document or jobId', path: ['document'] }
+);
+
+/**
+ * Answer to the target language selection interrupt
+ */
+export const pipelineResumeRequestSchema = z.object({
+  targetLanguage: z.string().min(1).describe('Target language (ISO 639-1 code)'),
+  model: z.string().optional().describe('Registry model ID or provider:model; defaults to the translate stage model')
+});
+
+/**
+ * State of one run of the translation graph, addressed by its thread ID
+ * Read from the run's latest checkpoint, so it survives server restarts
+ */
+export const pipelineRunSchema = z.object({
+  threadId: z.string().describe('Thread the run is checkpointed under'),
+  stage: pipelineStageSchema.describe('Pipeline stage reached'),
+  targetLanguage: z.string().nullable().describe('Chosen target language; null while awaiting the selection'),
+  languageDetection: languageDetectionSchema.nullable().describe('Result of the Language Detection Agent'),
+  awaiting: targetLanguageRequestSchema.nullable().describe('Set while the run is paused for target language selection'),
+  document: documentParserSchema.nullable().describe('Translated document once the run completes'),
+  translation: translationInfoSchema.nullable(),
+  quality: qualityReportSchema.nullable(),
+  retryCount: z.number().describe('Quality retries so far'),
+  completedAt: z.string().nullable().describe('ISO timestamp when the translated PDF was rendered'),
+  error: z.string().optional().describe('Failure of the step the run stopped at')
+});
+
+export const pipelineResponseSchema = z.object({
+  success: z.boolean(),
+  data: pipelineRunSchema.optional(),
+  metrics: requestMetricsSchema.optional().describe('Request ID, stage timings, token usage and estimated cost of the request'),
+  error: z.string().optional()
+});
@@ -0,0 +1,69 @@
+import { z } from 'zod';
+
+/**
+ * Metrics the quality judge model assigns to one translated section
+ */
+export const qualityJudgementSchema = z.object({
+  accuracy: z.number().min(0).max(1).describe('How faithfully the translation conveys the source meaning (0-1)'),
+  fluency: z.number().min(0).max(1).describe('How natural and grammatical the translation reads (0-1)'),
+  issues: z.array(z.string()).describe('Short descriptions of concrete problems, empty when none')
+});
+
+/**
+ * Deterministic checks run on every section
+ */
+export const sectionChecksSchema = z.object({
+  structure: z.boolean().describe('Type, level and position match the source section'),
+  content: z.boolean().describe('Non-empty source text produced non-empty translated text'),
+  numbers: z.boolean().describe('All numbers from the source appear in the translation'),
+  urls: z.boolean().describe('All URLs from the source appear unchanged'),
+  emails: z.boolean().describe('All email addresses from the source appear unchanged'),
+  footnoteMarkers: z.boolean().describe('All footnote markers from the source appear unchanged'),
+  glossary: z.boolean().describe('Glossary terms use their required translation and protected terms are unchanged')
+});
+
+export const sectionQualitySchema = z.object({
+  index: z.number().describe('Index in structure.sections'),
+  page: z.number(),
+  order: z.number(),
+  type: z.string(),
+  score: z.number().min(0).max(1),
+  accuracy: z.number().min(0).max(1).optional(),
+  fluency: z.number().min(0).max(1).optional(),
+  checks: sectionChecksSchema,
+  issues: z.array(z.string()),
+  passed: z.boolean(),
+  skipped: z.boolean().optional().describe('Empty source section that was not evaluated')
+});
+
+export const sectionRetrySchema = z.object({
+  index: z.number(),
+  page: z.number(),
+  order: z.number(),
+  attempts: z.number().describe('Number of times the section was translated again'),
+  reasons: z.array(z.string()).describe('Issues that triggered the retries'),
+  resolved: z.boolean().describe('Whether the section passed after its last retry')
+});
+
+/**
+ * Quality report for a translated document
+ */
+export const qualityReportSchema = z.object({
+  qualityScore: z.number().min(0).max(1),
+  passed: z.boolean(),
+  threshold: z.number(),
+  translationMetrics: z.object({
+    accuracy: z.number().min(0).max(1).optional(),
+    fluency: z.number().min(0).max(1).optional(),
+    structure: z.number().min(0).max(1).describe('Share of deterministic checks passed')
+  }),
+  structure: z.object({
+    sourceSections: z.number(),
+    translatedSections: z.number(),
+    typeMismatches: z.number(),
+    parity: z.boolean().describe('Section count and types match the source')
+  }),
+  sections: z.array(sectionQualitySchema),
+  retriedSections: z.array(sectionRetrySchema),
+  evaluatedAt: z.string()
+});
@@ -0,0 +1,90 @@
+import { z } from 'zod';
+import { documentParserSchema } from './document-parser';
+import { requestMetricsSchema } from './metrics';
+import { qualityReportSchema } from './quality';
+import { translationInfoSchema } from './translation';
+
+/**
+ * Review state of a translated section
+ * Approved sections are done; locked sections can be neither edited nor translated again
+ */
+export const reviewStatusSchema = z.enum(['draft', 'approved', 'locked']);
+
+export const reviewSectionSchema = z.object({
+  index: z.number().describe('Index in structure.sections'),
+  status: reviewStatusSchema,
+  flagged: z.boolean().describe('Marked by a reviewer as needing attention'),
+  machineTranslation: z.string().describe('Latest machine translation, kept to show and revert reviewer edits'),
+  edited: z.boolean().describe('Translated text differs from the machine translation'),
+  updatedAt: z.string().optional().describe('ISO timestamp of the last reviewer change')
+});
+
+/**
+ * A translation under review, with the reviewed text in `translation`
+ */
+export const reviewSchema = z.object({
+  id: z.string(),
+  jobId: z.string().optional().describe('Parse job the source document came from'),
+  filename: z.string(),
+  sourceLanguage: z.string(),
+  targetLanguage: z.string(),
+  glossaryId: z.string().optional(),
+  model: z.string().optional(),
+  source: documentParserSchema,
+  translation: documentParserSchema,
+  quality: qualityReportSchema.optional(),
+  sections: z.array(reviewSectionSchema),
+  createdAt: z.string(),
+  updatedAt: z.string()
+});
+
+/**
+ * Review listing without documents
+ */
+export const reviewSummarySchema = reviewSchema.omit({ source: true, translation: true, quality: true, sections: true }).extend({
+  sectionCount: z.number(),
+  approved: z.number().describe('Sections approved or locked'),
+  edited: z.number().describe('Sections changed by reviewers'),
+  flagged: z.number()
+});
+
+/**
+ * Starts a review from the response of /api/translate
+ */
+export const reviewCreateRequestSchema = z.object({
+  document: documentParserSchema.optional().describe('Source document that was translated'),
+  jobId: z.string().optional().describe('ID of the completed parse job that was translated instead of an inline document'),
+  translation: documentParserSchema.describe('Translated document'),
+  translationInfo: translationInfoSchema,
+  quality: qualityReportSchema.optional()
+}).refine(
+  (request) => Boolean(request.document) !== Boolean(request.jobId),
+  { message: 'Provide either document or jobId', path: ['document'] }
+);
+
+export const reviewSectionUpdateSchema = z.object({
+  content: z.string().optional().describe('Reviewed translation of the section'),
+  status: reviewStatusSchema.optional(),
+  flagged: z.boolean().optional()
+}).refine(
+  (update) => update.content !== undefined || update.status !== undefined || update.flagged !== undefined,
+  { message: 'Provide content, status or flagged' }
+);
+
+export const reviewRetranslateRequestSchema = z.object({
+  instructions: z.string().optional().describe('Reviewer notes passed to the translator with the quality findings'),
+  model: z.string().optional().describe('Registry model ID or provider:model; defaults to the model of the review')
+});
+
+export const reviewResponseSchema = z.object({
+  success: z.boolean(),
+  data: reviewSchema.optional(),
+  metrics: requestMetricsSchema.optional().describe('Token usage and estimated cost, sent when a section is translated again'),
+  error: z.string().optional()
+});
+
+export const reviewListResponseSchema = z.object({
+  success: z.boolean(),
+  data: z.array(reviewSummarySchema).optional(),
+  error: z.string().optional()
+});
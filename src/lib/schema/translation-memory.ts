@@ -0,0 +1,60 @@
+import { z } from 'zod';
+
+export const translationMemoryOriginSchema = z.enum(['translation', 'import']);
+
+/**
+ * Source/target segment pair stored in the translation memory
+ * Segments are document sections, footnotes and table of contents titles
+ */
+export const translationMemoryEntrySchema = z.object({
+  id: z.string(),
+  sourceLanguage: z.string().describe('Source language code, as given by the translation or TMX file'),
+  targetLanguage: z.string().describe('Target language code'),
+  source: z.string(),
+  target: z.string(),
+  origin: translationMemoryOriginSchema.describe('Whether the pair came from a finished translation or a TMX import'),
+  createdAt: z.string(),
+  updatedAt: z.string()
+});
+
+export const translationMemoryMatchSchema = z.object({
+  entryId: z.string(),
+  source: z.string(),
+  target: z.string(),
+  score: z.number().min(0).max(100).describe('Match percentage; 100 means the normalised source is identical')
+});
+
+export const translationMemoryLookupRequestSchema = z.object({
+  text: z.string().min(1),
+  sourceLanguage: z.string().min(1),
+  targetLanguage: z.string().min(1),
+  minScore: z.number().min(0).max(100).optional().describe('Lowest fuzzy match percentage to return (default 75)')
+});
+
+export const translationMemoryLookupResponseSchema = z.object({
+  success: z.boolean(),
+  data: z.array(translationMemoryMatchSchema).optional(),
+  error: z.string().optional()
+});
+
+export const translationMemoryListResponseSchema = z.object({
+  success: z.boolean(),
+  data: z.array(translationMemoryEntrySchema).optional(),
+  total: z.number().optional().describe('Entries matching the filter before paging'),
+  error: z.string().optional()
+});
+
+export const translationMemoryImportResponseSchema = z.object({
+  success: z.boolean(),
+  imported: z.number().optional().describe('Segment pairs added or updated'),
+  skipped: z.array(z.string()).optional().describe('Translation units that could not be imported, with reasons'),
+  error: z.string().optional()
+});
+
+/**
+ * How many segments of a translation were served from the memory
+ */
+export const translationMemoryUsageSchema = z.object({
+  exact: z.number().describe('Segments reused from 100% matches without calling the translator'),
+  fuzzy: z.number().describe('Segments translated with fuzzy matches as context')
+});
@@ -0,0 +1,55 @@
+import { z } from 'zod';
+import { documentParserSchema } from './document-parser';
+import { sectionLanguageSchema } from './language-detection';
+import { requestMetricsSchema } from './metrics';
+import { qualityReportSchema } from './quality';
+import { translationMemoryUsageSchema } from './translation-memory';
+
+/**
+ * Request schema for the Translation Agent
+ * Takes a parsed document (inline or by parse job ID) and translates its sections
+ * while preserving structure
+ */
+export const translationRequestSchema = z.object({
+  document: documentParserSchema.optional().describe('Parsed document produced by the Document Parser Agent'),
+  jobId: z.string().optional().describe('ID of a completed parse job to translate instead of an inline document'),
+  sourceLanguage: z.string().min(1).describe('Source language (ISO 639-1 code or language name)'),
+  targetLanguage: z.string().min(1).describe('Target language (ISO 639-1 code or language name)'),
+  model: z.string().optional().describe('Registry model ID or provider:model; defaults to the translate stage model'),
+  glossaryId: z.string().optional().describe('Glossary to apply; defaults to the glossary chosen for the parse job'),
+  useTranslationMemory: z.boolean().optional().describe('Reuse and record segments in the translation memory (default true)'),
+  sectionLanguages: z.array(sectionLanguageSchema).optional().describe('Per-section languages from language detection; sections already in the target language are kept'),
+  qualityThreshold: z.number().min(0).max(1).optional().describe('Minimum section and document score (default 0.8)'),
+  maxRetries: z.number().int().min(0).max(10).optional().describe('Retries per failing section (default 3)')
+}).refine(
+  (request) => Boolean(request.document) !== Boolean(request.jobId),
+  { message: 'Provide either document or jobId', path: ['document'] }
+);
+
+/**
+ * Summary of a completed translation run
+ */
+export const translationInfoSchema = z.object({
+  sourceLanguage: z.string().describe('Language the document was translated from'),
+  targetLanguage: z.string().describe('Language the document was translated into'),
+  translatedAt: z.string().describe('ISO timestamp when translation finished'),
+  translatedSections: z.number().describe('Number of sections sent to the translator'),
+  skippedSections: z.number().describe('Number of empty sections left untouched'),
+  keptSections: z.number().optional().describe('Number of sections already in the target language, kept as they are'),
+  model: z.string().optional().describe('Model that produced the translation'),
+  glossaryId: z.string().optional().describe('Glossary applied to the translation'),
+  memory: translationMemoryUsageSchema.optional().describe('Translation memory matches used')
+});
+
+/**
+ * Response schema that wraps the translated document
+ * The translated document keeps the exact shape of the parser result
+ */
+export const translationResponseSchema = z.object({
+  success: z.boolean(),
+  data: documentParserSchema.optional(),
+  translation: translationInfoSchema.optional(),
+  quality: qualityReportSchema.optional(),
+  metrics: requestMetricsSchema.optional().describe('Request ID, stage timings, token usage and estimated cost of the request'),
+  error: z.string().optional()
+});
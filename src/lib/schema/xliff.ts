@@ -0,0 +1,55 @@
+import { z } from 'zod';
+import { documentParserSchema } from './document-parser';
+
+/**
+ * Request schema for XLIFF export
+ * The source document comes inline or from a completed parse job, and the
+ * translation is the document returned by /api/translate; a review supplies both
+ */
+export const xliffExportRequestSchema = z.object({
+  document: documentParserSchema.optional().describe('Source document the translation was made from'),
+  jobId: z.string().optional().describe('ID of a completed parse job to use as the source instead of an inline document'),
+  translation: documentParserSchema.optional().describe('Translated document whose sections become the XLIFF targets'),
+  reviewId: z.string().optional().describe('ID of a review whose source and reviewed translation are exported'),
+  sourceLanguage: z.string().min(1).optional().describe('srcLang of the file; defaults to the source document language'),
+  targetLanguage: z.string().min(1).optional().describe('trgLang of the file; defaults to the translated document language')
+}).refine(
+  (request) => request.reviewId
+    ? !request.document && !request.jobId && !request.translation
+    : Boolean(request.document) !== Boolean(request.jobId) && Boolean(request.translation),
+  { message: 'Provide reviewId, or translation with either document or jobId', path: ['document'] }
+);
+
+export const xliffConflictReasonSchema = z.enum([
+  'unknown-unit',
+  'duplicate-unit',
+  'missing-unit',
+  'source-changed',
+  'metadata-mismatch',
+  'invalid-markup',
+  'missing-markers',
+  'concurrent-edit'
+]);
+
+/**
+ * A unit of the reviewed file that could not be applied, or a section the file does not cover
+ */
+export const xliffConflictSchema = z.object({
+  unitId: z.string().describe('XLIFF unit ID'),
+  section: z.number().optional().describe('Index of the section in structure.sections, when the unit maps to one'),
+  reason: xliffConflictReasonSchema,
+  message: z.string().describe('Readable description of the conflict')
+});
+
+export const xliffImportSummarySchema = z.object({
+  updatedSections: z.array(z.number()).describe('Indexes of sections whose translation was replaced by the reviewed target'),
+  unchangedSections: z.number().describe('Sections left exactly as they were'),
+  conflicts: z.array(xliffConflictSchema).describe('Units that were not applied, with reasons')
+});
+
+export const xliffImportResponseSchema = z.object({
+  success: z.boolean(),
+  data: documentParserSchema.optional().describe('Translated document with the reviewed targets applied'),
+  import: xliffImportSummarySchema.optional(),
+  error: z.string().optional()
+});
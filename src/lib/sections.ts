@@ -0,0 +1,45 @@
+import { normalizeStyleRuns, remapStyleRuns } from '@/lib/style-runs';
+import { updateTableContent } from '@/lib/tables';
+import { DocumentSection, StyleRun } from '@/lib/types';
+
+/**
+ * Replaces a section's text, keeping its table and inline formatting in step
+ * with the new content
+ * `placedRuns` are runs already placed on the new content, as a translator
+ * returns them; without them the section's runs are re-mapped
+ */
+export const replaceSectionContent = (section: DocumentSection, content: string, placedRuns?: StyleRun[]): DocumentSection => {
+  const { table, runs, ...rest } = section;
+  const updatedTable = table && updateTableContent(table, content);
+  const updatedRuns = placedRuns
+    ? normalizeStyleRuns(placedRuns, content.length)
+    : remapStyleRuns(section.content, runs, content);
+
+  return {
+    ...rest,
+    content,
+    ...(updatedTable && { table: updatedTable }),
+    ...(updatedRuns?.length && { runs: updatedRuns }),
+  };
+};
+
+const isValidFontIndex = (fontIndex: number | undefined, fontCount: number): fontIndex is number =>
+  fontIndex !== undefined && Number.isInteger(fontIndex) && fontIndex >= 0 && fontIndex < fontCount;
+
+/**
+ * Checks the layout details a model reported against the document: runs are
+ * clamped to the section text, font references must point into the font
+ * list, and bounding boxes need a positive size on the page
+ */
+export const normalizeSectionLayout = (sections: DocumentSection[], fontCount: number): DocumentSection[] =>
+  sections.map(({ runs, fontIndex, position: { boundingBox, ...position }, ...section }) => {
+    const normalizedRuns = normalizeStyleRuns(runs, section.content.length);
+    const hasBox = boundingBox && boundingBox.width > 0 && boundingBox.height > 0 && boundingBox.x >= 0 && boundingBox.y >= 0;
+
+    return {
+      ...section,
+      ...(isValidFontIndex(fontIndex, fontCount) && { fontIndex }),
+      ...(normalizedRuns.length && { runs: normalizedRuns }),
+      position: hasBox ? { ...position, boundingBox } : position,
+    };
+  });
@@ -0,0 +1,27 @@
+import { describe, expect, it } from '@jest/globals';
+import { markStyleRuns, readStyleRuns } from './style-runs';
+
+describe('style tags', () => {
+  it('wraps overlapping runs in numbered tags', () => {
+    const marked = markStyleRuns({
+      text: 'Read the terms first.',
+      runs: [{ start: 5, end: 14, bold: true }, { start: 9, end: 20, italic: true }],
+    });
+
+    expect(marked).toBe('Read <r1>the <r2>terms</r1> first</r2>.');
+  });
+
+  it('leaves text that already contains tags unmarked', () => {
+    const text = 'Use <r1> for the first run.';
+    expect(markStyleRuns({ text, runs: [{ start: 0, end: 3, bold: true }] })).toBe(text);
+  });
+
+  it('reads runs back from the tags and drops tags it did not send', () => {
+    const source = { text: 'Read the terms first.', runs: [{ start: 9, end: 14, bold: true }] };
+
+    expect(readStyleRuns('Lesen Sie zuerst die <r1>Bedingungen</r1><r7>.', source)).toEqual({
+      text: 'Lesen Sie zuerst die Bedingungen.',
+      runs: [{ start: 21, end: 32, bold: true }],
+    });
+  });
+});
@@ -0,0 +1,261 @@
+import { StyleRun } from '@/lib/types';
+
+/**
+ * Text with the inline formatting that applies to it
+ */
+export type StyledText = {
+  text: string;
+  runs: StyleRun[];
+};
+
+export type RunStyle = Omit<StyleRun, 'start' | 'end'>;
+
+const STYLE_KEYS = ['bold', 'italic', 'underline', 'strikethrough', 'superscript', 'subscript', 'link'] as const;
+
+// Runs further than this from a word boundary are not widened to it (unspaced scripts)
+const MAX_WORD_SNAP = 24;
+
+export const hasStyle = (style: RunStyle): boolean => STYLE_KEYS.some(key => Boolean(style[key]));
+
+const sameStyle = (a: RunStyle, b: RunStyle): boolean => STYLE_KEYS.every(key => (a[key] ?? false) === (b[key] ?? false));
+
+export const styleOf = ({ start, end, ...style }: StyleRun): RunStyle => style;
+
+/**
+ * Clamps runs to the text, drops empty and unformatted ones, sorts them by
+ * offset and joins neighbours with the same formatting
+ */
+export const normalizeStyleRuns = (runs: StyleRun[] | undefined, length: number): StyleRun[] => {
+  const sorted = (runs ?? [])
+    .map(run => ({
+      ...run,
+      start: Math.min(Math.max(Math.round(run.start) || 0, 0), length),
+      end: Math.min(Math.max(Math.round(run.end) || 0, 0), length),
+    }))
+    .filter(run => run.end > run.start && hasStyle(styleOf(run)))
+    .sort((a, b) => a.start - b.start || a.end - b.end);
+
+  const merged: StyleRun[] = [];
+  for (const run of sorted) {
+    const previous = merged[merged.length - 1];
+    if (previous && previous.end === run.start && sameStyle(styleOf(previous), styleOf(run))) {
+      previous.end = run.end;
+    } else {
+      merged.push({ ...run });
+    }
+  }
+  return merged;
+};
+
+/**
+ * Runs within [start, end), with offsets relative to `start`
+ */
+export const sliceStyleRuns = (runs: StyleRun[], start: number, end: number): StyleRun[] =>
+  runs
+    .map(run => ({ ...run, start: Math.max(run.start, start) - start, end: Math.min(run.end, end) - start }))
+    .filter(run => run.end > run.start);
+
+// `offsets[i]` is where character i of the old text ended up; removed characters map to the next kept one
+const shiftRuns = (runs: StyleRun[], offsets: number[]): StyleRun[] =>
+  runs
+    .map(run => ({ ...run, start: offsets[run.start], end: offsets[run.end] }))
+    .filter(run => run.end > run.start);
+
+/**
+ * Collapses whitespace to single spaces and trims, keeping runs on their characters
+ */
+export const collapseStyledText = ({ text, runs }: StyledText): StyledText => {
+  let result = '';
+  const offsets: number[] = [];
+
+  for (const char of text.split('')) {
+    offsets.push(result.length);
+    if (!/\s/.test(char)) {
+      result += char;
+    } else if (result && !result.endsWith(' ')) {
+      result += ' ';
+    }
+  }
+  offsets.push(result.length);
+
+  const collapsed = result.endsWith(' ') ? result.slice(0, -1) : result;
+  return { text: collapsed, runs: shiftRuns(runs, offsets.map(offset => Math.min(offset, collapsed.length))) };
+};
+
+/**
+ * Splits styled text into trimmed lines, each with its own runs
+ */
+export const splitStyledLines = ({ text, runs }: StyledText): StyledText[] => {
+  let offset = 0;
+  return text.split('\n').map(line => {
+    const start = offset + line.length - line.trimStart().length;
+    const trimmed = line.trim();
+    offset += line.length + 1;
+    return { text: trimmed, runs: sliceStyleRuns(runs, start, start + trimmed.length) };
+  });
+};
+
+/**
+ * Splits text at run boundaries into pieces with uniform formatting
+ * Overlapping runs combine their formatting
+ */
+export const splitByStyleRuns = ({ text, runs }: StyledText): { text: string; style: RunStyle }[] => {
+  const boundaries = Array.from(new Set([0, text.length, ...runs.flatMap(run => [run.start, run.end])]))
+    .filter(offset => offset >= 0 && offset <= text.length)
+    .sort((a, b) => a - b);
+
+  return boundaries.slice(0, -1).flatMap((start, index) => {
+    const end = boundaries[index + 1];
+    if (end <= start) return [];
+    const style = runs
+      .filter(run => run.start <= start && run.end >= end)
+      .reduce<RunStyle>((combined, run) => ({ ...combined, ...styleOf(run) }), {});
+    return [{ text: text.slice(start, end), style }];
+  });
+};
+
+const isWordChar = (char: string | undefined): boolean => char !== undefined && !/[\s.,;:!?()[\]{}"'\u00AB\u00BB\u201C\u201D]/.test(char);
+
+// Widens a range to whole words so emphasis does not start or end mid-word,
+// except on sides where the source run did (superscripts, partial emphasis)
+const snapToWords = (text: string, start: number, end: number, [snapStart, snapEnd]: [boolean, boolean]): [number, number] => {
+  let snappedStart = start;
+  while (snapStart && snappedStart > 0 && isWordChar(text[snappedStart - 1]) && start - snappedStart < MAX_WORD_SNAP) snappedStart--;
+  let snappedEnd = end;
+  while (snapEnd && snappedEnd < text.length && isWordChar(text[snappedEnd]) && snappedEnd - end < MAX_WORD_SNAP) snappedEnd++;
+  return [snappedStart, snappedEnd];
+};
+
+/**
+ * Carries a section's runs over to text edited without style tags (review
+ * edits, XLIFF imports, memory matches) or to the runs a translator lost
+ *
+ * Runs over text the translation kept unchanged (names, numbers, URLs, codes)
+ * move to where that text now is; runs spanning the whole text span the whole
+ * translation; other runs are placed at the same relative position, widened to
+ * whole words. Emphasis on a translated phrase therefore lands near, not always
+ * exactly on, its translation.
+ */
+export const remapStyleRuns = (source: string, runs: StyleRun[] | undefined, translated: string): StyleRun[] | undefined => {
+  if (!runs?.length) return undefined;
+  if (source === translated) return runs;
+
+  const sourceStart = source.length - source.trimStart().length;
+  const sourceEnd = source.trimEnd().length;
+  const targetStart = translated.length - translated.trimStart().length;
+  const targetEnd = translated.trimEnd().length;
+  const scale = (targetEnd - targetStart) / Math.max(sourceEnd - sourceStart, 1);
+  const used: [number, number][] = [];
+
+  const remapped = runs.map((run): StyleRun => {
+    const fragment = source.slice(run.start, run.end).trim();
+    const offset = run.start + source.slice(run.start, run.end).indexOf(fragment);
+    const before = source[offset - 1];
+    const after = source[offset + fragment.length];
+    const atWordEdges: [boolean, boolean] = [!isWordChar(before), !isWordChar(after)];
+
+    if (run.start <= sourceStart && run.end >= sourceEnd) {
+      return { ...run, start: targetStart, end: targetEnd };
+    }
+
+    // Unchanged text: the occurrence closest to the expected position that no other run took,
+    // on whole words, or within a word only next to the same characters as in the source
+    const expected = targetStart + (offset - sourceStart) * scale;
+    const fits = (char: string | undefined, sourceChar: string | undefined, atEdge: boolean) =>
+      atEdge ? !isWordChar(char) : char === sourceChar;
+    let best = -1;
+    for (let index = fragment ? translated.indexOf(fragment) : -1; index !== -1; index = translated.indexOf(fragment, index + 1)) {
+      const wholeWords = fits(translated[index - 1], before, atWordEdges[0])
+        && fits(translated[index + fragment.length], after, atWordEdges[1]);
+      const taken = used.some(([start, end]) => start === index && end === index + fragment.length);
+      if (wholeWords && !taken && (best === -1 || Math.abs(index - expected) < Math.abs(best - expected))) best = index;
+    }
+    if (best !== -1) {
+      used.push([best, best + fragment.length]);
+      return { ...run, start: best, end: best + fragment.length };
+    }
+
+    const start = Math.round(targetStart + (run.start - sourceStart) * scale);
+    const end = Math.max(Math.round(targetStart + (run.end - sourceStart) * scale), start + 1);
+    const [snappedStart, snappedEnd] = snapToWords(translated, start, end, atWordEdges);
+    return { ...run, start: snappedStart, end: snappedEnd };
+  });
+
+  const normalized = normalizeStyleRuns(remapped, translated.length);
+  return normalized.length ? normalized : undefined;
+};
+
+// <r1>…</r1>: the first run of the text, numbered in run order
+const STYLE_TAG = /<(\/?)r(\d+)>/g;
+
+const hasStyleTags = (text: string): boolean => text.search(STYLE_TAG) !== -1;
+
+/**
+ * Wraps each run in numbered tags for a translator, which moves them with the
+ * words they mark: "Press <r1>Save</r1> now" may come back as
+ * "<r1>Speichern</r1> jetzt dr\u00FCcken"
+ * Text that already contains such tags is returned as it is
+ */
+export const markStyleRuns = ({ text, runs }: StyledText): string => {
+  if (!runs.length || hasStyleTags(text)) return text;
+
+  // At the same offset, runs close before others open
+  const tags = runs
+    .flatMap((run, index) => [
+      { offset: run.start, tag: `<r${index + 1}>`, order: 1 },
+      { offset: run.end, tag: `</r${index + 1}>`, order: 0 },
+    ])
+    .sort((a, b) => a.offset - b.offset || a.order - b.order);
+
+  let result = '';
+  let offset = 0;
+  for (const tag of tags) {
+    result += text.slice(offset, tag.offset) + tag.tag;
+    offset = tag.offset;
+  }
+  return result + text.slice(offset);
+};
+
+/**
+ * Reads a translator's output of `markStyleRuns` back into text and runs
+ *
+ * Each run goes where its tags are in the output; runs whose tags were
+ * dropped, reversed or repeated are re-mapped by `remapStyleRuns`. Unknown
+ * tags are removed.
+ */
+export const readStyleRuns = (translated: string, source: StyledText): StyledText => {
+  if (!source.runs.length || hasStyleTags(source.text)) {
+    return { text: translated, runs: remapStyleRuns(source.text, source.runs, translated) ?? [] };
+  }
+
+  let text = '';
+  let offset = 0;
+  const opened = new Map<number, number>();
+  const placed = new Map<number, StyleRun>();
+  const seen = new Set<string>();
+  const repeated = new Set<number>();
+
+  for (const match of translated.matchAll(STYLE_TAG)) {
+    text += translated.slice(offset, match.index!);
+    offset = match.index! + match[0].length;
+
+    const [tag, closing] = match;
+    const index = Number(match[2]) - 1;
+    const run = source.runs[index];
+    if (!run) continue;
+    if (seen.has(tag)) repeated.add(index);
+    seen.add(tag);
+
+    if (!closing) {
+      opened.set(index, text.length);
+    } else if (opened.has(index) && opened.get(index)! < text.length) {
+      placed.set(index, { ...run, start: opened.get(index)!, end: text.length });
+    }
+  }
+  text += translated.slice(offset);
+
+  const kept = source.runs.flatMap((_run, index) => placed.has(index) && !repeated.has(index) ? [placed.get(index)!] : []);
+  const lost = source.runs.filter((_run, index) => !placed.has(index) || repeated.has(index));
+  const runs = normalizeStyleRuns([...kept, ...(remapStyleRuns(source.text, lost, text) ?? [])], text.length);
+  return { text, runs };
+};
@@ -0,0 +1,88 @@
+import { describe, expect, it } from '@jest/globals';
+import { DocumentSection, DocumentTable } from '@/lib/types';
+import {
+  isTranslatableCell,
+  layoutTable,
+  normalizeTableSections,
+  tableFromText,
+  tableToGrid,
+  tableToText,
+  updateTableContent,
+} from './tables';
+
+// Region | Q1 | Q2 with a header spanning both quarters
+const spannedTable: DocumentTable = {
+  rows: [
+    [{ content: 'Region', header: true, rowSpan: 2 }, { content: 'Sales', header: true, colSpan: 2 }],
+    [{ content: 'Q1', header: true }, { content: 'Q2', header: true }],
+    [{ content: 'North' }, { content: '120' }, { content: '140' }],
+  ],
+  headerRows: 2,
+  headerColumns: 1,
+};
+
+describe('layoutTable', () => {
+  it('places cells around row and column spans', () => {
+    const { cells, rowCount, columnCount } = layoutTable(spannedTable);
+
+    expect([rowCount, columnCount]).toEqual([3, 3]);
+    expect(cells.map(({ cell, row, column }) => [cell.content, row, column])).toEqual([
+      ['Region', 0, 0], ['Sales', 0, 1],
+      ['Q1', 1, 1], ['Q2', 1, 2],
+      ['North', 2, 0], ['120', 2, 1], ['140', 2, 2],
+    ]);
+    expect(tableToGrid(spannedTable)).toEqual([['Region', 'Sales', ''], ['', 'Q1', 'Q2'], ['North', '120', '140']]);
+  });
+});
+
+describe('table text', () => {
+  it('writes the grid with a separator below the header rows and escapes pipes', () => {
+    expect(tableToText({ ...spannedTable, rows: [...spannedTable.rows, [{ content: 'East | West' }, { content: '9' }, { content: '8' }]] }))
+      .toBe([
+        '| Region | Sales |  |',
+        '|  | Q1 | Q2 |',
+        '| --- | --- | --- |',
+        '| North | 120 | 140 |',
+        '| East \\| West | 9 | 8 |',
+      ].join('\n'));
+  });
+
+  it('reads header rows from a separator line or from a row of labels', () => {
+    expect(tableFromText('| Name | Age |\n| --- | --- |\n| Ana | 31 |')).toEqual({
+      rows: [[{ content: 'Name', header: true }, { content: 'Age', header: true }], [{ content: 'Ana' }, { content: '31' }]],
+      headerRows: 1,
+      headerColumns: 0,
+    });
+    expect(tableFromText('|  | 2023 | 2024 |\n| Sales | 10 | 12 |')).toMatchObject({ headerRows: 0, headerColumns: 1 });
+    expect(tableFromText('Just a line of text')).toBeUndefined();
+  });
+
+  it('takes edited cell text over and keeps spans while the grid keeps its shape', () => {
+    const edited = updateTableContent(spannedTable, '| Region | Umsatz |  |\n|  | Q1 | Q2 |\n| --- | --- | --- |\n| Nord | 120 | 140 |');
+
+    expect(edited?.rows[0][1]).toEqual({ content: 'Umsatz', header: true, colSpan: 2 });
+    expect(edited?.rows[2][0].content).toBe('Nord');
+    expect(updateTableContent(spannedTable, '| A | B |\n| 1 | 2 |')?.rows).toHaveLength(2);
+  });
+});
+
+describe('normalizeTableSections', () => {
+  it('fills in tables from text and links captions to the table before them', () => {
+    const sections: DocumentSection[] = [
+      { type: 'table', content: '| Name | Age |\n| --- | --- |\n| Ana | 31 |', position: { page: 1, order: 0 } },
+      { type: 'caption', content: 'Table 1: Staff', position: { page: 1, order: 1 } },
+      { type: 'image', content: 'Logo', position: { page: 1, order: 2 } },
+      { type: 'caption', content: 'Figure 1: Logo', position: { page: 1, order: 3 } },
+    ];
+
+    const [table] = normalizeTableSections(sections);
+    expect(table.table).toMatchObject({ headerRows: 1, captionOrder: 1 });
+  });
+});
+
+describe('isTranslatableCell', () => {
+  it('skips cells without letters', () => {
+    expect(['Total', '1,250.00', '2024-06-30', '', '\u5408\u8A08'].map(content => isTranslatableCell({ content })))
+      .toEqual([true, false, false, false, true]);
+  });
+});
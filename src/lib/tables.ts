@@ -0,0 +1,241 @@
+import { DocumentSection, DocumentTable, TableCell } from '@/lib/types';
+
+/**
+ * A cell with the grid position it occupies once spans are resolved
+ */
+export type PlacedTableCell = {
+  cell: TableCell;
+  row: number;
+  column: number;
+  rowSpan: number;
+  colSpan: number;
+};
+
+export type TableLayout = {
+  cells: PlacedTableCell[];
+  rowCount: number;
+  columnCount: number;
+};
+
+// Separator rows as written after Markdown table headers (| --- | :-: |)
+const SEPARATOR_LINE = /^\|?[\s:|-]+\|?$/;
+// Cells without letters (numbers, dates, amounts) are kept as they are
+const LETTER = new RegExp('\\p{L}', 'u');
+
+const readSpan = (value: number | undefined): number => Math.max(Math.round(value ?? 1) || 1, 1);
+
+/**
+ * Resolves row and column spans into grid positions, as browsers lay out HTML
+ * tables: each cell takes the next column its row has free, and spans running
+ * past the last row are cut off there
+ */
+export const layoutTable = (table: DocumentTable): TableLayout => {
+  const occupied: boolean[][] = table.rows.map(() => []);
+  const cells: PlacedTableCell[] = [];
+  let columnCount = 0;
+
+  for (const [row, rowCells] of table.rows.entries()) {
+    let column = 0;
+    for (const cell of rowCells) {
+      while (occupied[row][column]) column++;
+
+      const rowSpan = Math.min(readSpan(cell.rowSpan), table.rows.length - row);
+      const colSpan = readSpan(cell.colSpan);
+      for (let r = row; r < row + rowSpan; r++) {
+        for (let c = column; c < column + colSpan; c++) occupied[r][c] = true;
+      }
+
+      cells.push({ cell, row, column, rowSpan, colSpan });
+      column += colSpan;
+      columnCount = Math.max(columnCount, column);
+    }
+  }
+
+  return { cells, rowCount: table.rows.length, columnCount };
+};
+
+/**
+ * Cell texts on the full grid; positions covered by a span are empty
+ */
+export const tableToGrid = (table: DocumentTable): string[][] => {
+  const { cells, rowCount, columnCount } = layoutTable(table);
+  const grid = Array.from({ length: rowCount }, () => Array<string>(columnCount).fill(''));
+  for (const { cell, row, column } of cells) grid[row][column] = cell.content;
+  return grid;
+};
+
+// Pipes escaped as \| belong to the cell text
+const splitPipes = (line: string): string[] => {
+  const cells: string[] = [];
+  let current = '';
+  for (let index = 0; index < line.length; index++) {
+    if (line[index] === '\\' && line[index + 1] === '|') {
+      current += '|';
+      index++;
+    } else if (line[index] === '|') {
+      cells.push(current);
+      current = '';
+    } else {
+      current += line[index];
+    }
+  }
+  cells.push(current);
+
+  // Outer pipes do not open or close a cell
+  if (line.startsWith('|')) cells.shift();
+  if (/(^|[^\\])\|$/.test(line) && line.length > 1) cells.pop();
+  return cells.map(cell => cell.trim());
+};
+
+// Cells are separated by pipes, or by tabs in pasted text
+const splitTableLine = (line: string): string[] =>
+  line.includes('|') ? splitPipes(line) : line.split('\t').map(cell => cell.trim());
+
+/**
+ * Reads tables written as text: one row per line, cells separated by pipes
+ * (escaped as \|) or tabs; rows above a Markdown separator line are header rows
+ */
+export const parseTableText = (content: string): { rows: string[][]; headerRows: number } => {
+  const lines = content.split('\n').map(line => line.trim()).filter(Boolean);
+  const separator = lines.findIndex(line => SEPARATOR_LINE.test(line));
+  const rows = lines.filter(line => !SEPARATOR_LINE.test(line)).map(splitTableLine);
+
+  return { rows, headerRows: separator > 0 ? separator : 0 };
+};
+
+const isLabel = (text: string): boolean => LETTER.test(text);
+
+/**
+ * Builds a table from its text form; undefined when no line has more than one cell
+ *
+ * Without a separator line the first row counts as a header row when all its
+ * cells are labels, and the first column as a header column when the top
+ * left cell is empty, as in most cross tables
+ */
+export const tableFromText = (content: string): DocumentTable | undefined => {
+  const parsed = parseTableText(content);
+  if (!parsed.rows.some(row => row.length > 1)) return undefined;
+
+  const [first] = parsed.rows;
+  const headerRows = parsed.headerRows
+    || (parsed.rows.length > 1 && first.every(cell => cell && isLabel(cell)) ? 1 : 0);
+  const headerColumns = first[0] === '' && parsed.rows.length > 1 ? 1 : 0;
+
+  return {
+    rows: parsed.rows.map((row, rowIndex) => row.map((content, columnIndex) => ({
+      content,
+      ...((rowIndex < headerRows || columnIndex < headerColumns) && { header: true }),
+    }))),
+    headerRows,
+    headerColumns,
+  };
+};
+
+const escapeCell = (text: string): string => text.replace(/\s+/g, ' ').trim().replace(/\|/g, '\\|');
+
+/**
+ * Text form of a table, kept in the section content for search, review and
+ * quality checks: pipe-separated rows on the full grid, with a separator line
+ * below the header rows
+ */
+export const tableToText = (table: DocumentTable): string => {
+  const grid = tableToGrid(table);
+  const lines = grid.map(row => `| ${row.map(escapeCell).join(' | ')} |`);
+  if (table.headerRows > 0 && table.headerRows < grid.length) {
+    lines.splice(table.headerRows, 0, `|${' --- |'.repeat(grid[0].length)}`);
+  }
+  return lines.join('\n');
+};
+
+/**
+ * Whether a cell holds text worth translating
+ */
+export const isTranslatableCell = (cell: TableCell): boolean => isLabel(cell.content);
+
+/**
+ * Applies edited table text to the table it was written from
+ * Cell contents are taken over position by position while the grid keeps its
+ * shape, so spans and header cells survive; a reshaped grid is read afresh
+ */
+export const updateTableContent = (table: DocumentTable, content: string): DocumentTable | undefined => {
+  const { rows } = parseTableText(content);
+  const { cells, rowCount, columnCount } = layoutTable(table);
+
+  if (rows.length !== rowCount || rows.some(row => row.length !== columnCount)) {
+    const rebuilt = tableFromText(content);
+    return rebuilt && { ...rebuilt, ...(table.captionOrder !== undefined && { captionOrder: table.captionOrder }) };
+  }
+
+  const placed = new Map(cells.map(({ cell, row, column }) => [cell, rows[row][column]]));
+  return {
+    ...table,
+    rows: table.rows.map(row => row.map(cell => ({ ...cell, content: placed.get(cell) ?? cell.content }))),
+  };
+};
+
+/**
+ * Text of the caption section linked to a table section, if any
+ */
+export const findTableCaption = (sections: DocumentSection[], section: DocumentSection): string | undefined => {
+  const order = section.table?.captionOrder;
+  if (order === undefined) return undefined;
+
+  return sections.find(caption =>
+    caption.type === 'caption' && caption.position.page === section.position.page && caption.position.order === order
+  )?.content;
+};
+
+/**
+ * Links each caption section to the table right before it, or else right
+ * after it on the same page, unless that table already has a caption;
+ * captions next to images stay with the image
+ */
+const linkTableCaptions = (sections: DocumentSection[]): void => {
+  const pages = new Map<number, DocumentSection[]>();
+  for (const section of sections) {
+    pages.set(section.position.page, [...(pages.get(section.position.page) ?? []), section]);
+  }
+
+  for (const pageSections of pages.values()) {
+    const ordered = [...pageSections].sort((a, b) => a.position.order - b.position.order);
+    const captionOrders = new Set(ordered.filter(section => section.type === 'caption').map(section => section.position.order));
+    const unlinked = (section: DocumentSection | undefined) =>
+      section?.table && (section.table.captionOrder === undefined || !captionOrders.has(section.table.captionOrder))
+        ? section.table
+        : undefined;
+    const linked = new Set(ordered.flatMap(section => unlinked(section) ? [] : section.table?.captionOrder ?? []));
+
+    for (const [index, section] of ordered.entries()) {
+      if (section.type !== 'caption' || linked.has(section.position.order)) continue;
+
+      const previous = ordered[index - 1];
+      if (previous?.type === 'image') continue;
+      const table = unlinked(previous) ?? unlinked(ordered[index + 1]);
+      if (table) {
+        table.captionOrder = section.position.order;
+        linked.add(section.position.order);
+      }
+    }
+  }
+};
+
+/**
+ * Gives every table section a table: one the parser did not fill in is read
+ * from the section text, an empty text is written from the table; captions
+ * are then linked to the tables they describe
+ */
+export const normalizeTableSections = (sections: DocumentSection[]): DocumentSection[] => {
+  const normalized = sections.map((section): DocumentSection => {
+    if (section.type !== 'table') return section;
+    if (!section.table) {
+      const table = tableFromText(section.content);
+      return table ? { ...section, table } : section;
+    }
+    // Copied, as caption links are set in place below
+    const table = { ...section.table };
+    return { ...section, table, content: section.content.trim() ? section.content : tableToText(table) };
+  });
+
+  linkTableCaptions(normalized);
+  return normalized;
+};
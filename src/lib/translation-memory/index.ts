@@ -0,0 +1,4 @@
+export * from './store';
+export * from './matching';
+export * from './segments';
+export * from './tmx';
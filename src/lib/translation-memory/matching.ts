@@ -0,0 +1,54 @@
+// Ideographic and Thai characters count as one token each; other scripts split into words
+const TOKEN_PATTERN = '[\\p{Script=Han}\\p{Script=Hiragana}\\p{Script=Katakana}\\p{Script=Thai}]|[\\p{L}\\p{M}\\p{N}]+|\\S';
+
+export const DEFAULT_MIN_MATCH_SCORE = 75;
+
+/**
+ * Collapses whitespace so segments that differ only in spacing or line wrapping match exactly
+ */
+export const normalizeSegment = (text: string): string => text.replace(/\s+/g, ' ').trim();
+
+const tokenize = (text: string): string[] => text.match(new RegExp(TOKEN_PATTERN, 'gu')) ?? [];
+
+// Levenshtein distance over tokens, keeping two rows
+const editDistance = (a: string[], b: string[]): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+};
+
+/**
+ * Match percentage between two segments, as CAT tools report it
+ * 100 only for segments identical after whitespace normalisation; otherwise
+ * the token edit distance relative to the longer segment, capped at 99
+ * Returns 0 early when the lengths alone rule out reaching `minScore`
+ */
+export const getMatchScore = (a: string, b: string, minScore = 0): number => {
+  const normalizedA = normalizeSegment(a);
+  const normalizedB = normalizeSegment(b);
+  if (normalizedA === normalizedB) return 100;
+
+  const tokensA = tokenize(normalizedA);
+  const tokensB = tokenize(normalizedB);
+  const longest = Math.max(tokensA.length, tokensB.length);
+  if (longest === 0) return 0;
+
+  // The distance is at least the length difference
+  const shortest = Math.min(tokensA.length, tokensB.length);
+  if ((100 * shortest) / longest < minScore) return 0;
+
+  const score = Math.floor(100 * (1 - editDistance(tokensA, tokensB) / longest));
+  return Math.min(score, 99);
+};
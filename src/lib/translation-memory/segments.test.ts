@@ -0,0 +1,53 @@
+import { describe, expect, it } from '@jest/globals';
+import { createTestDocument } from '@/test/documents';
+import { collectSegmentPairs } from './segments';
+
+const languages = { sourceLanguage: 'en', targetLanguage: 'fr' };
+
+describe('collectSegmentPairs', () => {
+  it('leaves out sections detected in another language than the source', () => {
+    const source = createTestDocument([
+      { type: 'paragraph', content: 'The results are final.' },
+      { type: 'paragraph', content: 'Die Ergebnisse sind endg\u00FCltig.' },
+      { type: 'paragraph', content: 'Les r\u00E9sultats sont d\u00E9finitifs.' },
+    ]);
+    const translated = createTestDocument([
+      { type: 'paragraph', content: 'Les r\u00E9sultats sont d\u00E9finitifs.' },
+      { type: 'paragraph', content: 'Les r\u00E9sultats sont d\u00E9finitifs.' },
+      { type: 'paragraph', content: 'Les r\u00E9sultats sont d\u00E9finitifs.' },
+    ]);
+
+    const pairs = collectSegmentPairs(source, translated, {
+      ...languages,
+      sectionLanguages: [
+        { index: 0, language: 'EN', confidence: 0.9 },
+        { index: 1, language: 'de', confidence: 0.9 },
+        { index: 2, language: 'fr', confidence: 0.9 },
+      ],
+    });
+
+    expect(pairs.map(pair => pair.source)).toEqual(['The results are final.']);
+  });
+
+  it('stores tables cell by cell, without the cells that are not translated', () => {
+    const table = (cells: string[][]) => ({
+      rows: cells.map(row => row.map(content => ({ content }))),
+      headerRows: 1,
+      headerColumns: 0,
+    });
+    const source = createTestDocument([
+      { type: 'table', content: 'Region | Revenue\nNorth | 1,200', table: table([['Region', 'Revenue'], ['North', '1,200']]) },
+    ]);
+    const translated = createTestDocument([
+      { type: 'table', content: 'R\u00E9gion | Chiffre\nNord | 1,200', table: table([['R\u00E9gion', 'Chiffre'], ['Nord', '1,200']]) },
+    ]);
+
+    const pairs = collectSegmentPairs(source, translated, languages);
+
+    expect(pairs.map(({ source: text, target }) => [text, target])).toEqual([
+      ['Region', 'R\u00E9gion'],
+      ['Revenue', 'Chiffre'],
+      ['North', 'Nord'],
+    ]);
+  });
+});
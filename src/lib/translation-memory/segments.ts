@@ -0,0 +1,59 @@
+import { isTranslatableCell } from '@/lib/tables';
+import { DocumentParserResult, DocumentTable, QualityReport, SectionLanguage } from '@/lib/types';
+import { SegmentPair } from './store';
+
+export type SegmentPairOptions = {
+  sourceLanguage: string;
+  targetLanguage: string;
+  quality?: QualityReport | null;
+  // Per-section languages from language detection, as passed to the translation
+  sectionLanguages?: SectionLanguage[];
+};
+
+/**
+ * Source/target pairs of a finished translation: sections, table cells,
+ * footnotes and table of contents titles
+ * With a quality report, sections that failed evaluation are left out so the
+ * memory only learns accepted translations. Sections detected in another
+ * language than the source were kept or translated from that language, so
+ * they are left out too. Tables are stored cell by cell, the way they are
+ * translated and looked up.
+ */
+export const collectSegmentPairs = (
+  source: DocumentParserResult,
+  translated: DocumentParserResult,
+  { sourceLanguage, targetLanguage, quality, sectionLanguages }: SegmentPairOptions
+): SegmentPair[] => {
+  const pair = (sourceText: string | undefined, targetText: string | undefined): SegmentPair[] =>
+    sourceText?.trim() && targetText?.trim()
+      ? [{ sourceLanguage, targetLanguage, source: sourceText, target: targetText }]
+      : [];
+
+  const tablePairs = (sourceTable: DocumentTable, targetTable: DocumentTable): SegmentPair[] =>
+    sourceTable.rows.flatMap((row, rowIndex) => row.flatMap((cell, cellIndex) =>
+      isTranslatableCell(cell) ? pair(cell.content, targetTable.rows[rowIndex]?.[cellIndex]?.content) : []));
+
+  const otherLanguage = new Set((sectionLanguages ?? [])
+    .filter(entry => entry.language.toLowerCase() !== sourceLanguage.toLowerCase())
+    .map(entry => entry.index));
+
+  const sections = source.structure.sections.flatMap((section, index) => {
+    if (quality?.sections[index]?.passed === false || otherLanguage.has(index)) return [];
+
+    const target = translated.structure.sections[index];
+    if (section.table) {
+      return target?.table ? tablePairs(section.table, target.table) : [];
+    }
+    return pair(section.content, target?.content);
+  });
+
+  const footnotes = (source.structure.footnotes ?? []).flatMap((footnote, index) =>
+    pair(footnote.content, translated.structure.footnotes?.[index]?.content)
+  );
+
+  const tableOfContents = (source.structure.tableOfContents ?? []).flatMap((entry, index) =>
+    pair(entry.title, translated.structure.tableOfContents?.[index]?.title)
+  );
+
+  return [...sections, ...footnotes, ...tableOfContents];
+};
@@ -0,0 +1,180 @@
+import { existsSync, readFileSync } from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { writeJsonAtomic } from '@/lib/json-file';
+import { TranslationMemoryEntry, TranslationMemoryMatch, TranslationMemoryOrigin } from '@/lib/types';
+import { DEFAULT_MIN_MATCH_SCORE, getMatchScore, normalizeSegment } from './matching';
+
+const DEFAULT_MEMORY_PATH = path.join(process.cwd(), '.data', 'translation-memory.json');
+
+const DEFAULT_MATCH_LIMIT = 3;
+
+export type SegmentPair = Pick<TranslationMemoryEntry, 'sourceLanguage' | 'targetLanguage' | 'source' | 'target'>;
+
+export type TranslationMemoryFilter = {
+  sourceLanguage?: string;
+  targetLanguage?: string;
+  // Case-insensitive substring of the source or target text
+  query?: string;
+};
+
+export type LookupOptions = {
+  minScore?: number;
+  limit?: number;
+};
+
+// Regional variants share a memory: en-US segments serve en-GB lookups
+const baseLanguage = (code: string): string => code.toLowerCase().split(/[-_]/)[0];
+
+const pairKey = (sourceLanguage: string, targetLanguage: string): string =>
+  `${baseLanguage(sourceLanguage)}\u0000${baseLanguage(targetLanguage)}`;
+
+const matchesFilter = (entry: TranslationMemoryEntry, { sourceLanguage, targetLanguage, query }: TranslationMemoryFilter) =>
+  (!sourceLanguage || baseLanguage(entry.sourceLanguage) === baseLanguage(sourceLanguage))
+  && (!targetLanguage || baseLanguage(entry.targetLanguage) === baseLanguage(targetLanguage))
+  && (!query || `${entry.source}\n${entry.target}`.toLowerCase().includes(query.toLowerCase()));
+
+/**
+ * File-backed translation memory
+ * Entries are indexed per language pair by their normalised source segment;
+ * storing a segment again replaces its translation
+ */
+const createTranslationMemoryStore = (filePath: string = process.env.TRANSLATION_MEMORY_PATH || DEFAULT_MEMORY_PATH) => {
+  // Language pair -> normalised source -> entry
+  let pairs: Map<string, Map<string, TranslationMemoryEntry>> | undefined;
+
+  const load = () => {
+    if (!pairs) {
+      const stored: TranslationMemoryEntry[] = existsSync(filePath) ? JSON.parse(readFileSync(filePath, 'utf8')) : [];
+      pairs = new Map();
+      for (const entry of stored) {
+        segmentsFor(entry.sourceLanguage, entry.targetLanguage).set(normalizeSegment(entry.source), entry);
+      }
+    }
+    return pairs;
+  };
+
+  const segmentsFor = (sourceLanguage: string, targetLanguage: string) => {
+    const key = pairKey(sourceLanguage, targetLanguage);
+    let segments = pairs!.get(key);
+    if (!segments) {
+      segments = new Map();
+      pairs!.set(key, segments);
+    }
+    return segments;
+  };
+
+  const allEntries = (): TranslationMemoryEntry[] =>
+    Array.from(load().values()).flatMap(segments => Array.from(segments.values()));
+
+  const persist = () => writeJsonAtomic(filePath, allEntries());
+
+  return {
+    list: (filter: TranslationMemoryFilter = {}, { offset = 0, limit = 100 } = {}) => {
+      const entries = allEntries().filter(entry => matchesFilter(entry, filter));
+      return { entries: entries.slice(offset, offset + limit), total: entries.length };
+    },
+
+    entries: (filter: TranslationMemoryFilter = {}): TranslationMemoryEntry[] =>
+      allEntries().filter(entry => matchesFilter(entry, filter)),
+
+    /**
+     * Best matches for a source segment, highest score first
+     */
+    lookup: (
+      text: string,
+      sourceLanguage: string,
+      targetLanguage: string,
+      { minScore = DEFAULT_MIN_MATCH_SCORE, limit = DEFAULT_MATCH_LIMIT }: LookupOptions = {}
+    ): TranslationMemoryMatch[] => {
+      const segments = load().get(pairKey(sourceLanguage, targetLanguage));
+      if (!segments) return [];
+
+      const exact = segments.get(normalizeSegment(text));
+      const matches: TranslationMemoryMatch[] = [];
+      for (const entry of segments.values()) {
+        const score = entry === exact ? 100 : getMatchScore(text, entry.source, minScore);
+        if (score >= minScore) {
+          matches.push({ entryId: entry.id, source: entry.source, target: entry.target, score });
+        }
+      }
+
+      return matches.sort((a, b) => b.score - a.score).slice(0, limit);
+    },
+
+    /**
+     * Adds segment pairs, replacing the translation of segments already stored
+     * Returns the number of pairs written
+     */
+    add: (inputs: SegmentPair[], origin: TranslationMemoryOrigin): number => {
+      load();
+      const now = new Date().toISOString();
+      let written = 0;
+
+      for (const input of inputs) {
+        const source = input.source.trim();
+        const target = input.target.trim();
+        if (!source || !target) continue;
+
+        const segments = segmentsFor(input.sourceLanguage, input.targetLanguage);
+        const key = normalizeSegment(source);
+        const existing = segments.get(key);
+        if (existing?.target === target) continue;
+
+        segments.set(key, {
+          id: existing?.id ?? randomUUID(),
+          sourceLanguage: input.sourceLanguage,
+          targetLanguage: input.targetLanguage,
+          source,
+          target,
+          origin,
+          createdAt: existing?.createdAt ?? now,
+          updatedAt: now,
+        });
+        written++;
+      }
+
+      if (written > 0) persist();
+      return written;
+    },
+
+    remove: (id: string): boolean => {
+      for (const segments of load().values()) {
+        for (const [key, entry] of segments) {
+          if (entry.id === id) {
+            segments.delete(key);
+            persist();
+            return true;
+          }
+        }
+      }
+      return false;
+    },
+
+    /**
+     * Removes the entries matching the filter; returns how many were removed
+     */
+    clear: (filter: TranslationMemoryFilter = {}): number => {
+      let removed = 0;
+      for (const segments of load().values()) {
+        for (const [key, entry] of segments) {
+          if (matchesFilter(entry, filter)) {
+            segments.delete(key);
+            removed++;
+          }
+        }
+      }
+
+      if (removed > 0) persist();
+      return removed;
+    },
+  };
+};
+
+export type TranslationMemoryStore = ReturnType<typeof createTranslationMemoryStore>;
+
+// Reuse one store across hot reloads in development
+const globalForMemory = globalThis as unknown as { translationMemory?: TranslationMemoryStore };
+
+export const translationMemory = globalForMemory.translationMemory
+  ?? (globalForMemory.translationMemory = createTranslationMemoryStore());
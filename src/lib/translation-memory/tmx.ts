@@ -0,0 +1,110 @@
+import { HTMLElement, parse } from 'node-html-parser';
+import { TranslationMemoryEntry } from '@/lib/types';
+import { SegmentPair } from './store';
+
+export type TmxImportOptions = {
+  // Restrict the import to one language pair; language codes match by prefix (en matches en-US)
+  sourceLanguage?: string;
+  targetLanguage?: string;
+};
+
+export type TmxImportResult = {
+  pairs: SegmentPair[];
+  skipped: string[];
+};
+
+const escapeXml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// TMX dates are ISO 8601 basic format in UTC, e.g. 20240131T120000Z
+const toTmxDate = (iso: string): string => iso.replace(/[-:]/g, '').replace(/\.\d+/, '');
+
+const languageMatches = (language: string, wanted?: string): boolean =>
+  !wanted || language.toLowerCase().startsWith(wanted.toLowerCase());
+
+/**
+ * Serialises entries as TMX 1.4, one translation unit per entry
+ */
+export const exportTmx = (entries: TranslationMemoryEntry[]): string => {
+  const sourceLanguages = new Set(entries.map(entry => entry.sourceLanguage));
+  const srclang = sourceLanguages.size === 1 ? Array.from(sourceLanguages)[0] : '*all*';
+
+  const units = entries.map(entry => `    <tu tuid="${escapeXml(entry.id)}" creationdate="${toTmxDate(entry.createdAt)}" changedate="${toTmxDate(entry.updatedAt)}">
+      <prop type="x-origin">${entry.origin}</prop>
+      <tuv xml:lang="${escapeXml(entry.sourceLanguage)}"><seg>${escapeXml(entry.source)}</seg></tuv>
+      <tuv xml:lang="${escapeXml(entry.targetLanguage)}"><seg>${escapeXml(entry.target)}</seg></tuv>
+    </tu>`);
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<tmx version="1.4">
+  <header creationtool="langgraph-agent" creationtoolversion="0.1.0" segtype="paragraph" o-tmf="json" adminlang="en" srclang="${escapeXml(srclang)}" datatype="plaintext"/>
+  <body>
+${units.join('\n')}
+  </body>
+</tmx>
+`;
+};
+
+// Segment text without inline markup such as tags or placeholders carried by <bpt>, <ept>, <ph> and <it>
+const segmentText = (tuv: HTMLElement): string | undefined => {
+  const segment = tuv.querySelector('seg');
+  if (!segment) return undefined;
+
+  segment.querySelectorAll('bpt, ept, ph, it').forEach(element => element.remove());
+  return segment.text.trim() || undefined;
+};
+
+/**
+ * Reads translation units from a TMX file (1.1 to 1.4)
+ * The source language comes from the options, the header's srclang, or the
+ * first variant of each unit; every other variant becomes a pair with it
+ */
+export const parseTmx = (xml: string, options: TmxImportOptions = {}): TmxImportResult => {
+  const root = parse(xml, { lowerCaseTagName: true });
+  const result: TmxImportResult = { pairs: [], skipped: [] };
+
+  if (!root.querySelector('tmx')) {
+    result.skipped.push('File is not a TMX document');
+    return result;
+  }
+
+  const headerLanguage = root.querySelector('header')?.getAttribute('srclang');
+  const defaultSource = options.sourceLanguage
+    ?? (headerLanguage && headerLanguage !== '*all*' ? headerLanguage : undefined);
+
+  root.querySelectorAll('tu').forEach((unit, index) => {
+    const label = `Translation unit ${unit.getAttribute('tuid') ?? index + 1}`;
+    const variants = unit.querySelectorAll('tuv').flatMap(tuv => {
+      const language = tuv.getAttribute('xml:lang') ?? tuv.getAttribute('lang');
+      const text = segmentText(tuv);
+      return language && text ? [{ language, text }] : [];
+    });
+
+    const source = variants.find(variant => languageMatches(variant.language, defaultSource ?? variants[0]?.language));
+    if (!source) {
+      result.skipped.push(`${label}: no segment in source language ${defaultSource}`);
+      return;
+    }
+
+    const targets = variants.filter(variant => variant !== source && languageMatches(variant.language, options.targetLanguage));
+    if (targets.length === 0) {
+      result.skipped.push(`${label}: no target segment${options.targetLanguage ? ` in ${options.targetLanguage}` : ''}`);
+      return;
+    }
+
+    for (const target of targets) {
+      result.pairs.push({
+        sourceLanguage: source.language,
+        targetLanguage: target.language,
+        source: source.text,
+        target: target.text,
+      });
+    }
+  });
+
+  return result;
+};
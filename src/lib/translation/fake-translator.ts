@@ -0,0 +1,9 @@
+import { Translator } from './translator';
+
+/**
+ * Deterministic translator for tests and offline development
+ * Prefixes each text with the target language instead of calling a model
+ */
+export const createFakeTranslator = (): Translator => ({
+  translate: async ({ text, targetLanguage }) => `[${targetLanguage}] ${text}`,
+});
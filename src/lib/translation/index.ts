@@ -0,0 +1,3 @@
+export * from './translator';
+export * from './fake-translator';
+export * from './translate-document';
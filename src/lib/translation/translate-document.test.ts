@@ -0,0 +1,146 @@
+import { describe, expect, it } from '@jest/globals';
+import { createTestDocument } from '@/test/documents';
+import { createFakeTranslator } from './fake-translator';
+import { translateDocument } from './translate-document';
+import { Translator } from './translator';
+
+const translator = createFakeTranslator();
+
+describe('translateDocument with the fake translator', () => {
+  const document = createTestDocument(
+    [
+      { type: 'heading', level: 1, content: 'Annual report', fontIndex: 0 },
+      { type: 'paragraph', content: 'Revenue grew in every region.', position: { page: 1, order: 1, boundingBox: { x: 72, y: 120, width: 400, height: 40 } } },
+      { type: 'paragraph', content: '   ' },
+      {
+        type: 'table',
+        content: 'Region | Sales\nNorth | 120',
+        table: {
+          rows: [
+            [{ content: 'Region', header: true }, { content: 'Sales', header: true }],
+            [{ content: 'North' }, { content: '120' }],
+          ],
+          headerRows: 1,
+          headerColumns: 0,
+        },
+        position: { page: 2, order: 0 },
+      },
+      { type: 'list', content: '- First point\n- Second point', position: { page: 2, order: 1 } },
+    ],
+    { structure: { footnotes: [{ number: 1, content: 'Unaudited figures.', page: 1 }], totalPages: 2 } }
+  );
+
+  it('translates every section in order and keeps type, level, font and position', async () => {
+    const { document: translated } = await translateDocument(document, { translator, sourceLanguage: 'en', targetLanguage: 'de' });
+
+    const { sections } = translated.structure;
+    expect(sections.map(section => section.type)).toEqual(['heading', 'paragraph', 'paragraph', 'table', 'list']);
+    expect(sections.map(section => section.position)).toEqual(document.structure.sections.map(section => section.position));
+    expect(sections[0]).toMatchObject({ level: 1, fontIndex: 0, content: '[de] Annual report' });
+    expect(sections[1].content).toBe('[de] Revenue grew in every region.');
+    expect(sections[4].content).toBe('[de] - First point\n- Second point');
+  });
+
+  it('leaves empty sections untouched and counts them as skipped', async () => {
+    const { document: translated, translation } = await translateDocument(document, { translator, sourceLanguage: 'en', targetLanguage: 'de' });
+
+    expect(translated.structure.sections[2].content).toBe('   ');
+    expect(translation).toMatchObject({ sourceLanguage: 'en', targetLanguage: 'de', translatedSections: 4, skippedSections: 1 });
+  });
+
+  it('translates tables cell by cell and keeps the grid', async () => {
+    const { document: translated } = await translateDocument(document, { translator, sourceLanguage: 'en', targetLanguage: 'de' });
+
+    const table = translated.structure.sections[3].table!;
+    expect(table.headerRows).toBe(1);
+    expect(table.rows.map(row => row.map(cell => cell.content))).toEqual([
+      ['[de] Region', '[de] Sales'],
+      ['[de] North', '120'],
+    ]);
+    expect(table.rows[0].every(cell => cell.header)).toBe(true);
+  });
+
+  it('translates footnotes and sets the document language', async () => {
+    const { document: translated } = await translateDocument(document, { translator, sourceLanguage: 'en', targetLanguage: 'de' });
+
+    expect(translated.structure.footnotes).toEqual([{ number: 1, content: '[de] Unaudited figures.', page: 1 }]);
+    expect(translated.structure.totalPages).toBe(2);
+    expect(translated.metadata.language).toBe('de');
+    expect(translated.extractedText.startsWith('[de] Annual report')).toBe(true);
+  });
+
+  it('keeps sections detected in the target language', async () => {
+    const { document: translated, translation } = await translateDocument(document, {
+      translator,
+      sourceLanguage: 'en',
+      targetLanguage: 'de',
+      sectionLanguages: [{ index: 1, language: 'de', confidence: 0.9 }],
+    });
+
+    expect(translated.structure.sections[1].content).toBe('Revenue grew in every region.');
+    expect(translation.keptSections).toBe(1);
+  });
+
+  it('matches detected languages regardless of case', async () => {
+    const { document: translated, translation } = await translateDocument(document, {
+      translator,
+      sourceLanguage: 'en',
+      targetLanguage: 'DE',
+      sectionLanguages: [
+        { index: 0, language: 'EN', confidence: 0.9 },
+        { index: 1, language: 'de', confidence: 0.9 },
+      ],
+    });
+
+    expect(translated.structure.sections[0].content).toBe('[DE] Annual report');
+    expect(translated.structure.sections[1].content).toBe('Revenue grew in every region.');
+    expect(translation.keptSections).toBe(1);
+  });
+});
+
+describe('translateDocument with inline formatting', () => {
+  const source = 'Press the red button to stop the machine.';
+  const document = createTestDocument([
+    {
+      type: 'paragraph',
+      content: source,
+      runs: [{ start: 10, end: 13, bold: true }, { start: 24, end: 28, italic: true }],
+    },
+  ]);
+
+  // Answers like a model would, with the tagged words in a different order
+  const translations = new Map([
+    ['Press the <r1>red</r1> button to <r2>stop</r2> the machine.', 'Um die Maschine <r2>anzuhalten</r2>, dr\u00FCcken Sie den <r1>roten</r1> Knopf.'],
+  ]);
+  const reorderingTranslator: Translator = {
+    translate: async ({ text }) => translations.get(text) ?? text,
+  };
+
+  it('places each run on its translation when the sentence is reordered', async () => {
+    const { document: translated } = await translateDocument(document, { translator: reorderingTranslator, sourceLanguage: 'en', targetLanguage: 'de' });
+
+    const [section] = translated.structure.sections;
+    expect(section.content).toBe('Um die Maschine anzuhalten, dr\u00FCcken Sie den roten Knopf.');
+    expect(section.runs?.map(run => [section.content.slice(run.start, run.end), run])).toEqual([
+      ['anzuhalten', { start: 16, end: 26, italic: true }],
+      ['roten', { start: 44, end: 49, bold: true }],
+    ]);
+  });
+
+  it('tells the translator about the tags and re-maps runs it dropped', async () => {
+    const inputs: Parameters<Translator['translate']>[0][] = [];
+    const untaggingTranslator: Translator = {
+      translate: async input => {
+        inputs.push(input);
+        return 'Dr\u00FCcken Sie den roten Knopf, um die Maschine anzuhalten.';
+      },
+    };
+
+    const { document: translated } = await translateDocument(document, { translator: untaggingTranslator, sourceLanguage: 'en', targetLanguage: 'de' });
+
+    expect(inputs[0]).toMatchObject({ text: 'Press the <r1>red</r1> button to <r2>stop</r2> the machine.', styleTags: true });
+    const [section] = translated.structure.sections;
+    expect(section.content).not.toMatch(/<\/?r\d>/);
+    expect(section.runs?.map(run => run.bold ? 'bold' : 'italic')).toEqual(['bold', 'italic']);
+  });
+});
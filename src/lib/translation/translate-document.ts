@@ -0,0 +1,223 @@
+import { findGlossaryTerms } from '@/lib/glossary/matching';
+import { replaceSectionContent } from '@/lib/sections';
+import { markStyleRuns, readStyleRuns } from '@/lib/style-runs';
+import { isTranslatableCell, tableToText } from '@/lib/tables';
+import {
+  DocumentParserResult,
+  DocumentTable,
+  GlossaryEntry,
+  SectionLanguage,
+  StyleRun,
+  TranslationInfo,
+  TranslationMemoryMatch,
+} from '@/lib/types';
+import { TranslationInput, Translator } from './translator';
+
+export type TranslateDocumentOptions = {
+  translator: Translator;
+  sourceLanguage: string;
+  targetLanguage: string;
+  // Entries for this language pair; matching terms are passed to the translator per text
+  glossary?: GlossaryEntry[];
+  // Translation memory matches for a source segment, best first; 100% matches
+  // are reused without calling the translator, fuzzy ones are passed as context
+  memory?: (text: string) => TranslationMemoryMatch[];
+  // Per-section languages from language detection: sections in another source
+  // language are translated from it, sections in the target language are kept
+  sectionLanguages?: SectionLanguage[];
+};
+
+export type TranslateDocumentResult = {
+  document: DocumentParserResult;
+  translation: TranslationInfo;
+};
+
+// extractedText of a translated document: its section texts in order
+export const joinSectionText = (sections: DocumentParserResult['structure']['sections']): string =>
+  sections.map(section => section.content).filter(Boolean).join('\n\n');
+
+// Section index -> detected language, for sections in a language other than the document's
+// Language codes are compared case-insensitively, so "EN" and "en" are the same language
+const getSectionLanguages = (sectionLanguages: SectionLanguage[] | undefined, sourceLanguage: string): Map<number, string> =>
+  new Map((sectionLanguages ?? [])
+    .filter(entry => entry.language.toLowerCase() !== sourceLanguage.toLowerCase())
+    .map(entry => [entry.index, entry.language.toLowerCase()]));
+
+const isTargetLanguage = (language: string | undefined, targetLanguage: string): boolean =>
+  language !== undefined && language.toLowerCase() === targetLanguage.toLowerCase();
+
+// Runs the callback over items one at a time, preserving order
+const mapSequential = async <T, R>(items: T[], callback: (item: T, index: number) => Promise<R>): Promise<R[]> => {
+  const results: R[] = [];
+  for (const [index, item] of items.entries()) {
+    results.push(await callback(item, index));
+  }
+  return results;
+};
+
+/**
+ * Translates a table cell by cell, so rows, columns and spans stay as they are
+ * Cells without text to translate (numbers, dates, empty cells) are kept
+ */
+const translateTable = async (table: DocumentTable, translate: (text: string) => Promise<string>): Promise<DocumentTable> => ({
+  ...table,
+  rows: await mapSequential(table.rows, row => mapSequential(row, async cell =>
+    isTranslatableCell(cell) ? { ...cell, content: await translate(cell.content) } : { ...cell })),
+});
+
+/**
+ * Translates a parsed document section by section
+ * Section type, level, font and position are carried over unchanged and
+ * inline formatting travels through the translator as style tags, so the
+ * Output Formatter can rebuild the original layout
+ * Sections detected in the target language are kept as they are; sections in
+ * a third language are translated from that language, without the memory of
+ * the document's language pair
+ */
+export const translateDocument = async (
+  document: DocumentParserResult,
+  { translator, sourceLanguage, targetLanguage, glossary, memory, sectionLanguages }: TranslateDocumentOptions
+): Promise<TranslateDocumentResult> => {
+  let translatedSections = 0;
+  let skippedSections = 0;
+  let keptSections = 0;
+  const memoryUsage = { exact: 0, fuzzy: 0 };
+  const languages = getSectionLanguages(sectionLanguages, sourceLanguage);
+
+  // With runs, the translator gets the text with style tags and its output keeps them
+  const translate = async (text: string, sectionType: TranslationInput['sectionType'], language = sourceLanguage, runs: StyleRun[] = []) => {
+    const matches = language === sourceLanguage ? memory?.(text) ?? [] : [];
+    if (matches[0]?.score === 100) {
+      memoryUsage.exact++;
+      return matches[0].target;
+    }
+    if (matches.length) memoryUsage.fuzzy++;
+
+    const marked = markStyleRuns({ text, runs });
+    return translator.translate({
+      text: marked,
+      sourceLanguage: language,
+      targetLanguage,
+      sectionType,
+      ...(glossary && { glossary: findGlossaryTerms(glossary, text) }),
+      ...(matches.length && { memoryMatches: matches }),
+      ...(marked !== text && { styleTags: true }),
+    });
+  };
+
+  // Sections are translated one by one to keep ordering and rate usage predictable
+  const sections = await mapSequential(document.structure.sections, async (section, index) => {
+    if (!section.content.trim()) {
+      skippedSections++;
+      return { ...section, position: { ...section.position } };
+    }
+
+    const language = languages.get(index);
+    if (isTargetLanguage(language, targetLanguage)) {
+      keptSections++;
+      return { ...section, position: { ...section.position } };
+    }
+
+    if (section.table) {
+      const table = await translateTable(section.table, text => translate(text, section.type, language));
+      translatedSections++;
+      return { ...section, content: tableToText(table), table, position: { ...section.position } };
+    }
+
+    const output = await translate(section.content, section.type, language, section.runs);
+    const { text, runs } = readStyleRuns(output, { text: section.content, runs: section.runs ?? [] });
+    translatedSections++;
+    return { ...replaceSectionContent(section, text, runs), position: { ...section.position } };
+  });
+
+  const footnotes = document.structure.footnotes
+    ? await mapSequential(document.structure.footnotes, async (footnote) => ({
+      ...footnote,
+      content: await translate(footnote.content, 'footnote'),
+    }))
+    : undefined;
+
+  const tableOfContents = document.structure.tableOfContents
+    ? await mapSequential(document.structure.tableOfContents, async (entry) => ({
+      ...entry,
+      title: await translate(entry.title, 'tableOfContents'),
+    }))
+    : undefined;
+
+  const translatedDocument: DocumentParserResult = {
+    ...document,
+    extractedText: joinSectionText(sections),
+    structure: {
+      ...document.structure,
+      sections,
+      ...(footnotes && { footnotes }),
+      ...(tableOfContents && { tableOfContents }),
+    },
+    metadata: {
+      ...document.metadata,
+      language: targetLanguage,
+    },
+  };
+
+  return {
+    document: translatedDocument,
+    translation: {
+      sourceLanguage,
+      targetLanguage,
+      translatedAt: new Date().toISOString(),
+      translatedSections,
+      skippedSections,
+      ...(keptSections > 0 && { keptSections }),
+      ...(memory && { memory: memoryUsage }),
+    },
+  };
+};
+
+/**
+ * Translates selected sections again, passing the problems found in the
+ * previous attempt to the translator; all other sections are kept as they are
+ */
+export const retranslateSections = async (
+  source: DocumentParserResult,
+  translated: DocumentParserResult,
+  feedback: Map<number, string[]>,
+  { translator, sourceLanguage, targetLanguage, glossary, sectionLanguages }: TranslateDocumentOptions
+): Promise<DocumentParserResult> => {
+  const languages = getSectionLanguages(sectionLanguages, sourceLanguage);
+
+  const sections = await mapSequential(translated.structure.sections, async (section, index) => {
+    const original = source.structure.sections[index];
+    const language = languages.get(index);
+    if (!feedback.has(index) || !original?.content.trim() || isTargetLanguage(language, targetLanguage)) {
+      return section;
+    }
+
+    const translate = (text: string, runs: StyleRun[] = []) => {
+      const marked = markStyleRuns({ text, runs });
+      return translator.translate({
+        text: marked,
+        sourceLanguage: language ?? sourceLanguage,
+        targetLanguage,
+        sectionType: original.type,
+        feedback: feedback.get(index),
+        ...(glossary && { glossary: findGlossaryTerms(glossary, text) }),
+        ...(marked !== text && { styleTags: true }),
+      });
+    };
+
+    if (original.table) {
+      const table = await translateTable(original.table, text => translate(text));
+      return { ...original, content: tableToText(table), table, position: { ...original.position } };
+    }
+
+    const output = await translate(original.content, original.runs);
+    const { text, runs } = readStyleRuns(output, { text: original.content, runs: original.runs ?? [] });
+    return { ...replaceSectionContent(original, text, runs), position: { ...original.position } };
+  });
+
+  return {
+    ...translated,
+    extractedText: joinSectionText(sections),
+    structure: { ...translated.structure, sections },
+  };
+};
@@ -0,0 +1,84 @@
+import { generateText, type LanguageModel } from 'ai';
+import { resolveModel } from '@/lib/models';
+import { DocumentSection, GlossaryEntry, TranslationMemoryMatch } from '@/lib/types';
+
+/**
+ * A single unit of text handed to a translator
+ */
+export type TranslationInput = {
+  text: string;
+  sourceLanguage: string;
+  targetLanguage: string;
+  sectionType?: DocumentSection['type'] | 'footnote' | 'tableOfContents';
+  // Problems found in a previous attempt, set when a section is retried
+  feedback?: string[];
+  // Glossary entries whose terms occur in the text
+  glossary?: GlossaryEntry[];
+  // Fuzzy translation memory matches for similar earlier segments
+  memoryMatches?: TranslationMemoryMatch[];
+  // The text wraps formatted words in <r1>…</r1> tags that must come back around their translation
+  styleTags?: boolean;
+};
+
+/**
+ * Translator abstraction used by the Translation Agent
+ * Keeps the model call swappable so tests can run without network access
+ */
+export interface Translator {
+  translate(input: TranslationInput): Promise<string>;
+}
+
+const describeGlossaryEntry = ({ source, target, doNotTranslate, note }: GlossaryEntry): string =>
+  `- "${source}" → ${doNotTranslate ? 'keep unchanged' : `"${target}"`}${note ? ` (${note})` : ''}`;
+
+const buildTranslationPrompt = ({
+  text,
+  sourceLanguage,
+  targetLanguage,
+  sectionType,
+  feedback,
+  glossary,
+  memoryMatches,
+  styleTags,
+}: TranslationInput): string => {
+  const glossaryNote = glossary?.length
+    ? `\n- Use this terminology exactly, adapting only grammatical endings where the language requires it:\n${glossary.map(describeGlossaryEntry).join('\n')}`
+    : '';
+  const memoryNote = memoryMatches?.length
+    ? `\n\nSimilar segments translated earlier (match percentage in brackets); reuse their wording where the meaning is unchanged:\n${memoryMatches
+      .map(match => `[${match.score}%] ${match.source}\n=> ${match.target}`)
+      .join('\n\n')}`
+    : '';
+  const styleTagNote = styleTags
+    ? '\n- Keep every tag such as <r1> and </r1> exactly once, around the translation of the words it encloses, even where they move in the sentence'
+    : '';
+  const retryNote = feedback?.length
+    ? `\n\nA previous translation of this text was rejected for these problems; avoid them:\n${feedback.map(issue => `- ${issue}`).join('\n')}`
+    : '';
+
+  return `Translate the following ${sectionType ?? 'text'} from ${sourceLanguage} to ${targetLanguage}.
+
+Rules:
+- Return only the translated text, with no commentary or quotation marks
+- Preserve line breaks, list markers, numbering and table separators
+- Keep numbers, URLs, email addresses and footnote markers unchanged${styleTagNote}${glossaryNote}${memoryNote}${retryNote}
+
+Text:
+${text}`;
+};
+
+/**
+ * Translator backed by a language model through the Vercel AI SDK
+ * Defaults to the registry's `translate` stage model
+ */
+export const createModelTranslator = (model: LanguageModel = resolveModel(undefined, 'translate').model): Translator => ({
+  translate: async (input) => {
+    const result = await generateText({
+      model,
+      prompt: buildTranslationPrompt(input),
+      temperature: 0,
+    });
+
+    return result.text.trim();
+  },
+});
@@ -1,7 +1,287 @@
 import { z } from 'zod';
-import { documentParserSchema, documentParserResponseSchema } from './schema/';
+import {
+  documentParserSchema,
+  documentParserModelSchema,
+  metadataFieldSourceSchema,
+  tableCellSchema,
+  documentTableSchema,
+  styleRunSchema,
+  boundingBoxSchema,
+  parseWarningCodeSchema,
+  parseWarningSchema,
+  ocrPageSchema,
+  documentParserResponseSchema,
+  partialDocumentParserSchema,
+  documentParserStreamEventSchema,
+  parseCacheInfoSchema,
+  translationRequestSchema,
+  translationInfoSchema,
+  translationResponseSchema,
+  languageDetectionSchema,
+  languageDetectionModelSchema,
+  sectionLanguageSchema,
+  languageDetectionResponseSchema,
+  jobStatusSchema,
+  jobStageSchema,
+  jobSummarySchema,
+  jobResponseSchema,
+  jobResultResponseSchema,
+  batchStatusSchema,
+  batchFileSchema,
+  batchSummarySchema,
+  batchResponseSchema,
+  apiKeyLimitsSchema,
+  apiKeyUsageSchema,
+  apiKeySchema,
+  apiKeyCreateRequestSchema,
+  apiKeyResponseSchema,
+  apiKeyListResponseSchema,
+  modelUsageReportSchema,
+  requestMetricsSchema,
+  exportRequestSchema,
+  exportFormatSchema,
+  inputFormatSchema,
+  inputFormatsResponseSchema,
+  uploadErrorCodeSchema,
+  modelStageSchema,
+  modelProviderTypeSchema,
+  modelCapabilitiesSchema,
+  modelProviderConfigSchema,
+  modelPricingSchema,
+  modelDefinitionSchema,
+  modelConfigSchema,
+  modelInfoSchema,
+  modelsResponseSchema,
+  qualityJudgementSchema,
+  sectionChecksSchema,
+  sectionQualitySchema,
+  sectionRetrySchema,
+  qualityReportSchema,
+  glossaryEntryInputSchema,
+  glossaryEntrySchema,
+  glossarySchema,
+  glossaryInputSchema,
+  glossaryUpdateSchema,
+  glossarySummarySchema,
+  glossaryResponseSchema,
+  glossaryListResponseSchema,
+  glossaryImportResponseSchema,
+  translationMemoryOriginSchema,
+  translationMemoryEntrySchema,
+  translationMemoryMatchSchema,
+  translationMemoryLookupRequestSchema,
+  translationMemoryLookupResponseSchema,
+  translationMemoryListResponseSchema,
+  translationMemoryImportResponseSchema,
+  translationMemoryUsageSchema,
+  xliffExportRequestSchema,
+  xliffConflictReasonSchema,
+  xliffConflictSchema,
+  xliffImportSummarySchema,
+  xliffImportResponseSchema,
+  reviewStatusSchema,
+  reviewSectionSchema,
+  reviewSchema,
+  reviewSummarySchema,
+  reviewCreateRequestSchema,
+  reviewSectionUpdateSchema,
+  reviewRetranslateRequestSchema,
+  reviewResponseSchema,
+  reviewListResponseSchema,
+  pipelineStageSchema,
+  targetLanguageRequestSchema,
+  pipelineStartRequestSchema,
+  pipelineResumeRequestSchema,
+  pipelineRunSchema,
+  pipelineResponseSchema,
+} from './schema/';
 
 export type DocumentParserResult = z.infer<typeof documentParserSchema>;
 
+export type DocumentParserModelResult = z.infer<typeof documentParserModelSchema>;
+
+export type MetadataFieldSource = z.infer<typeof metadataFieldSourceSchema>;
+
 export type DocumentParserResponse = z.infer<typeof documentParserResponseSchema>;
 
+export type PartialDocumentParserResult = z.infer<typeof partialDocumentParserSchema>;
+
+export type DocumentParserStreamEvent = z.infer<typeof documentParserStreamEventSchema>;
+
+export type ParseCacheInfo = z.infer<typeof parseCacheInfoSchema>;
+
+export type DocumentSection = DocumentParserResult['structure']['sections'][number];
+
+export type TableCell = z.infer<typeof tableCellSchema>;
+
+export type DocumentTable = z.infer<typeof documentTableSchema>;
+
+export type StyleRun = z.infer<typeof styleRunSchema>;
+
+export type BoundingBox = z.infer<typeof boundingBoxSchema>;
+
+export type ParseWarningCode = z.infer<typeof parseWarningCodeSchema>;
+
+export type ParseWarning = z.infer<typeof parseWarningSchema>;
+
+export type OcrPageConfidence = z.infer<typeof ocrPageSchema>;
+
+export type TranslationRequest = z.infer<typeof translationRequestSchema>;
+
+export type TranslationInfo = z.infer<typeof translationInfoSchema>;
+
+export type TranslationResponse = z.infer<typeof translationResponseSchema>;
+
+export type LanguageDetectionResult = z.infer<typeof languageDetectionSchema>;
+
+export type LanguageDetectionModelResult = z.infer<typeof languageDetectionModelSchema>;
+
+export type SectionLanguage = z.infer<typeof sectionLanguageSchema>;
+
+export type LanguageDetectionResponse = z.infer<typeof languageDetectionResponseSchema>;
+
+export type JobStatus = z.infer<typeof jobStatusSchema>;
+
+export type JobStage = z.infer<typeof jobStageSchema>;
+
+export type JobSummary = z.infer<typeof jobSummarySchema>;
+
+export type JobResponse = z.infer<typeof jobResponseSchema>;
+
+export type JobResultResponse = z.infer<typeof jobResultResponseSchema>;
+
+export type BatchStatus = z.infer<typeof batchStatusSchema>;
+
+export type BatchFile = z.infer<typeof batchFileSchema>;
+
+export type BatchSummary = z.infer<typeof batchSummarySchema>;
+
+export type BatchResponse = z.infer<typeof batchResponseSchema>;
+
+export type ApiKeyLimits = z.infer<typeof apiKeyLimitsSchema>;
+
+export type ApiKeyUsage = z.infer<typeof apiKeyUsageSchema>;
+
+export type ApiKey = z.infer<typeof apiKeySchema>;
+
+export type ApiKeyCreateRequest = z.infer<typeof apiKeyCreateRequestSchema>;
+
+export type ApiKeyResponse = z.infer<typeof apiKeyResponseSchema>;
+
+export type ApiKeyListResponse = z.infer<typeof apiKeyListResponseSchema>;
+
+export type ModelUsageReport = z.infer<typeof modelUsageReportSchema>;
+
+export type RequestMetrics = z.infer<typeof requestMetricsSchema>;
+
+export type ExportRequest = z.infer<typeof exportRequestSchema>;
+
+export type ExportFormat = z.infer<typeof exportFormatSchema>;
+
+export type InputFormat = z.infer<typeof inputFormatSchema>;
+
+export type InputFormatsResponse = z.infer<typeof inputFormatsResponseSchema>;
+
+export type UploadErrorCode = z.infer<typeof uploadErrorCodeSchema>;
+
+export type ModelStage = z.infer<typeof modelStageSchema>;
+
+export type ModelProviderType = z.infer<typeof modelProviderTypeSchema>;
+
+export type ModelCapabilities = z.infer<typeof modelCapabilitiesSchema>;
+
+export type ModelProviderConfig = z.infer<typeof modelProviderConfigSchema>;
+
+export type ModelPricing = z.infer<typeof modelPricingSchema>;
+
+export type ModelDefinition = z.infer<typeof modelDefinitionSchema>;
+
+export type ModelConfig = z.infer<typeof modelConfigSchema>;
+
+export type ModelInfo = z.infer<typeof modelInfoSchema>;
+
+export type ModelsResponse = z.infer<typeof modelsResponseSchema>;
+
+export type QualityJudgement = z.infer<typeof qualityJudgementSchema>;
+
+export type SectionChecks = z.infer<typeof sectionChecksSchema>;
+
+export type SectionQuality = z.infer<typeof sectionQualitySchema>;
+
+export type SectionRetry = z.infer<typeof sectionRetrySchema>;
+
+export type QualityReport = z.infer<typeof qualityReportSchema>;
+
+export type GlossaryEntryInput = z.infer<typeof glossaryEntryInputSchema>;
+
+export type GlossaryEntry = z.infer<typeof glossaryEntrySchema>;
+
+export type Glossary = z.infer<typeof glossarySchema>;
+
+export type GlossaryInput = z.infer<typeof glossaryInputSchema>;
+
+export type GlossaryUpdate = z.infer<typeof glossaryUpdateSchema>;
+
+export type GlossarySummary = z.infer<typeof glossarySummarySchema>;
+
+export type GlossaryResponse = z.infer<typeof glossaryResponseSchema>;
+
+export type GlossaryListResponse = z.infer<typeof glossaryListResponseSchema>;
+
+export type GlossaryImportResponse = z.infer<typeof glossaryImportResponseSchema>;
+
+export type TranslationMemoryOrigin = z.infer<typeof translationMemoryOriginSchema>;
+
+export type TranslationMemoryEntry = z.infer<typeof translationMemoryEntrySchema>;
+
+export type TranslationMemoryMatch = z.infer<typeof translationMemoryMatchSchema>;
+
+export type TranslationMemoryLookupRequest = z.infer<typeof translationMemoryLookupRequestSchema>;
+
+export type TranslationMemoryLookupResponse = z.infer<typeof translationMemoryLookupResponseSchema>;
+
+export type TranslationMemoryListResponse = z.infer<typeof translationMemoryListResponseSchema>;
+
+export type TranslationMemoryImportResponse = z.infer<typeof translationMemoryImportResponseSchema>;
+
+export type TranslationMemoryUsage = z.infer<typeof translationMemoryUsageSchema>;
+
+export type XliffExportRequest = z.infer<typeof xliffExportRequestSchema>;
+
+export type XliffConflictReason = z.infer<typeof xliffConflictReasonSchema>;
+
+export type XliffConflict = z.infer<typeof xliffConflictSchema>;
+
+export type XliffImportSummary = z.infer<typeof xliffImportSummarySchema>;
+
+export type XliffImportResponse = z.infer<typeof xliffImportResponseSchema>;
+
+export type ReviewStatus = z.infer<typeof reviewStatusSchema>;
+
+export type ReviewSection = z.infer<typeof reviewSectionSchema>;
+
+export type Review = z.infer<typeof reviewSchema>;
+
+export type ReviewSummary = z.infer<typeof reviewSummarySchema>;
+
+export type ReviewCreateRequest = z.infer<typeof reviewCreateRequestSchema>;
+
+export type ReviewSectionUpdate = z.infer<typeof reviewSectionUpdateSchema>;
+
+export type ReviewRetranslateRequest = z.infer<typeof reviewRetranslateRequestSchema>;
+
+export type ReviewResponse = z.infer<typeof reviewResponseSchema>;
+
+export type ReviewListResponse = z.infer<typeof reviewListResponseSchema>;
+
+export type PipelineStage = z.infer<typeof pipelineStageSchema>;
+
+export type TargetLanguageRequest = z.infer<typeof targetLanguageRequestSchema>;
+
+export type PipelineStartRequest = z.infer<typeof pipelineStartRequestSchema>;
+
+export type PipelineResumeRequest = z.infer<typeof pipelineResumeRequestSchema>;
+
+export type PipelineRun = z.infer<typeof pipelineRunSchema>;
+
+export type PipelineResponse = z.infer<typeof pipelineResponseSchema>;
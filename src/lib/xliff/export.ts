@@ -0,0 +1,136 @@
+import { sha256 } from '@/lib/parse-cache';
+import { DocumentParserResult, DocumentSection } from '@/lib/types';
+import { InlineMarker, splitInlineMarkers } from './markers';
+
+export type XliffExportOptions = {
+  sourceLanguage: string;
+  targetLanguage: string;
+};
+
+export const XLIFF_NAMESPACE = 'urn:oasis:names:tc:xliff:document:2.0';
+export const METADATA_NAMESPACE = 'urn:oasis:names:tc:xliff:metadata:2.0';
+
+// Unit IDs are the section's index in structure.sections
+export const toUnitId = (index: number): string => `s${index}`;
+
+// Fingerprint of the exported target, used on import to tell reviewer edits
+// apart from changes made to the translation after export
+export const getTargetChecksum = (text: string): string => sha256(text).slice(0, 16);
+
+const escapeXml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// Characters XML 1.0 cannot carry literally are written as <cp> elements
+const escapeText = (text: string): string =>
+  escapeXml(text).replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g,
+    char => `<cp hex="${char.charCodeAt(0).toString(16).toUpperCase().padStart(4, '0')}"/>`);
+
+type UnitData = {
+  dataRef: (marker: InlineMarker) => string;
+  toXml: (indent: string) => string;
+};
+
+// Original data of one unit; markers with the same value share a data entry
+const createUnitData = (): UnitData => {
+  const ids = new Map<string, string>();
+
+  return {
+    dataRef: marker => {
+      let id = ids.get(marker.value);
+      if (!id) {
+        id = `d${ids.size + 1}`;
+        ids.set(marker.value, id);
+      }
+      return id;
+    },
+    toXml: indent => {
+      if (ids.size === 0) return '';
+      const entries = Array.from(ids, ([value, id]) => `${indent}  <data id="${id}">${escapeText(value)}</data>`);
+      return `${indent}<originalData>\n${entries.join('\n')}\n${indent}</originalData>\n`;
+    },
+  };
+};
+
+// Source placeholders are numbered in order; target placeholders reuse the ID
+// of the source placeholder with the same value, as XLIFF requires
+const renderContent = (text: string, data: UnitData, placeholderIds?: Map<string, string[]>): { xml: string; ids: Map<string, string[]> } => {
+  const ids = new Map<string, string[]>();
+  const available = new Map(Array.from(placeholderIds ?? [], ([value, list]) => [value, [...list]]));
+  let next = Array.from(placeholderIds?.values() ?? []).reduce((total, list) => total + list.length, 0);
+
+  const xml = splitInlineMarkers(text).map(part => {
+    if (typeof part === 'string') return escapeText(part);
+
+    const id = available.get(part.value)?.shift() ?? `ph${++next}`;
+    ids.set(part.value, [...(ids.get(part.value) ?? []), id]);
+    return `<ph id="${id}" dataRef="${data.dataRef(part)}" type="${part.type}" disp="${escapeXml(part.value)}" canDelete="no"/>`;
+  }).join('');
+
+  return { xml, ids };
+};
+
+const renderMetadata = (section: DocumentSection, checksum: string | undefined): string => {
+  const entries: [string, string | number | undefined][] = [
+    ['type', section.type],
+    ['page', section.position.page],
+    ['order', section.position.order],
+    ['level', section.level],
+    ['target-checksum', checksum],
+  ];
+
+  return `      <mda:metadata>
+        <mda:metaGroup category="section">
+${entries.filter(([, value]) => value !== undefined).map(([type, value]) => `          <mda:meta type="${type}">${escapeXml(String(value))}</mda:meta>`).join('\n')}
+        </mda:metaGroup>
+      </mda:metadata>
+`;
+};
+
+const renderUnit = (index: number, source: DocumentSection, translated: DocumentSection | undefined): string => {
+  const id = toUnitId(index);
+  const data = createUnitData();
+  const sourceContent = renderContent(source.content, data);
+  const target = translated?.content;
+  const targetContent = target ? renderContent(target, data, sourceContent.ids).xml : undefined;
+
+  // Empty sections are carried along so every section has a unit, but are not for translation
+  const translate = source.content.trim() ? '' : ' translate="no"';
+  const state = target ? 'translated' : 'initial';
+
+  return `    <unit id="${id}" name="${escapeXml(`${source.type} p${source.position.page}.${source.position.order}`)}"${translate}>
+${renderMetadata(source, target !== undefined ? getTargetChecksum(target) : undefined)}${data.toXml('      ')}      <segment id="${id}-1" state="${state}">
+        <source>${sourceContent.xml}</source>${targetContent !== undefined ? `
+        <target>${targetContent}</target>` : ''}
+      </segment>
+    </unit>`;
+};
+
+/**
+ * Serialises a translation as XLIFF 2.0 for review in CAT tools
+ *
+ * Each entry of structure.sections becomes one unit whose ID is the section
+ * index. Section type, page, order and heading level are stored as unit
+ * metadata together with a checksum of the exported target, and links,
+ * footnote markers, emphasis delimiters and placeholders are protected as
+ * <ph> codes backed by the unit's original data.
+ */
+export const exportXliff = (
+  source: DocumentParserResult,
+  translated: DocumentParserResult,
+  { sourceLanguage, targetLanguage }: XliffExportOptions
+): string => {
+  const translatedSections = translated.structure.sections;
+  const units = source.structure.sections.map((section, index) => renderUnit(index, section, translatedSections[index]));
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<xliff xmlns="${XLIFF_NAMESPACE}" xmlns:mda="${METADATA_NAMESPACE}" version="2.0" srcLang="${escapeXml(sourceLanguage)}" trgLang="${escapeXml(targetLanguage)}">
+  <file id="f1" original="${escapeXml(source.metadata.filename)}" xml:space="preserve">
+${units.join('\n')}
+  </file>
+</xliff>
+`;
+};
@@ -0,0 +1,263 @@
+import { HTMLElement, Node, NodeType, parse } from 'node-html-parser';
+import { DocumentProcessingError } from '@/lib/processing-errors';
+import { replaceSectionContent } from '@/lib/sections';
+import { joinSectionText } from '@/lib/translation';
+import { DocumentParserResult, DocumentSection, XliffConflict, XliffImportSummary } from '@/lib/types';
+import { getTargetChecksum, toUnitId } from './export';
+import { countMarkers, splitInlineMarkers } from './markers';
+
+export type XliffImportOptions = {
+  // Document the translation was made from; enables the source-text check
+  source?: DocumentParserResult;
+};
+
+export type XliffImportResult = XliffImportSummary & {
+  document: DocumentParserResult;
+};
+
+type UnitContent = {
+  source: string;
+  // Undefined when no segment has a target
+  target?: string;
+};
+
+type UnitMetadata = Map<string, string>;
+
+// Tag name without namespace prefix (mda:meta -> meta)
+const localName = (element: HTMLElement): string => element.rawTagName.toLowerCase().replace(/^.*:/, '');
+
+const childElements = (element: HTMLElement, name?: string): HTMLElement[] =>
+  element.childNodes.filter((node): node is HTMLElement =>
+    node.nodeType === NodeType.ELEMENT_NODE && (!name || localName(node as HTMLElement) === name));
+
+const descendants = (element: HTMLElement, name: string): HTMLElement[] =>
+  element.querySelectorAll('*').filter(child => localName(child) === name);
+
+/**
+ * Rebuilds plain text from XLIFF inline content: placeholders are replaced by
+ * their original data, paired codes and annotations keep their content
+ * Throws with a readable reason when a code refers to data the unit does not have
+ */
+const readInline = (nodes: Node[], data: Map<string, string>): string =>
+  nodes.map(node => {
+    if (node.nodeType === NodeType.TEXT_NODE) return node.text;
+    if (node.nodeType !== NodeType.ELEMENT_NODE) return '';
+
+    const element = node as HTMLElement;
+    switch (localName(element)) {
+      case 'ph':
+      case 'sc':
+      case 'ec': {
+        const dataRef = element.getAttribute('dataRef') ?? element.getAttribute('dataRefStart');
+        const value = dataRef !== undefined ? data.get(dataRef) : element.getAttribute('equiv');
+        if (value === undefined) {
+          throw new Error(`inline code ${element.getAttribute('id') ?? `<${localName(element)}>`} has no original data`);
+        }
+        return value;
+      }
+      case 'pc': {
+        const start = element.getAttribute('dataRefStart');
+        const end = element.getAttribute('dataRefEnd');
+        return `${start ? data.get(start) ?? '' : ''}${readInline(element.childNodes, data)}${end ? data.get(end) ?? '' : ''}`;
+      }
+      case 'cp':
+        return String.fromCodePoint(parseInt(element.getAttribute('hex') ?? '', 16) || 0xFFFD);
+      default:
+        // <mrk> annotations and unknown extensions keep their text
+        return readInline(element.childNodes, data);
+    }
+  }).join('');
+
+// Segments and ignorables in document order; an ignorable without target keeps its source
+const readUnitContent = (unit: HTMLElement, data: Map<string, string>): UnitContent => {
+  const parts = childElements(unit).filter(child => ['segment', 'ignorable'].includes(localName(child)));
+  let source = '';
+  let target = '';
+  let hasTarget = false;
+
+  for (const part of parts) {
+    const sourceText = readInline(childElements(part, 'source')[0]?.childNodes ?? [], data);
+    const targetElement = childElements(part, 'target')[0];
+    source += sourceText;
+
+    if (targetElement) {
+      hasTarget = hasTarget || localName(part) === 'segment';
+      target += readInline(targetElement.childNodes, data);
+    } else {
+      target += localName(part) === 'ignorable' ? sourceText : '';
+    }
+  }
+
+  return hasTarget ? { source, target } : { source };
+};
+
+const readMetadata = (unit: HTMLElement): UnitMetadata =>
+  new Map(descendants(unit, 'meta').flatMap(meta => {
+    const type = meta.getAttribute('type');
+    return type ? [[type, meta.text.trim()] as [string, string]] : [];
+  }));
+
+const readOriginalData = (unit: HTMLElement): Map<string, string> =>
+  new Map(descendants(unit, 'data').flatMap(data => {
+    const id = data.getAttribute('id');
+    return id ? [[id, readInline(data.childNodes, new Map())] as [string, string]] : [];
+  }));
+
+// Metadata fields that differ from the section the unit maps to
+const metadataMismatches = (metadata: UnitMetadata, section: DocumentSection): string[] => {
+  const expected: [string, string | number | undefined][] = [
+    ['type', section.type],
+    ['page', section.position.page],
+    ['order', section.position.order],
+  ];
+
+  return expected
+    .filter(([type, value]) => metadata.has(type) && metadata.get(type) !== String(value))
+    .map(([type, value]) => `${type} is ${metadata.get(type)}, expected ${value}`);
+};
+
+// Protected markers of the source that the reviewed target dropped
+const missingMarkers = (source: string, target: string): string[] => {
+  const targetCounts = countMarkers(splitInlineMarkers(target));
+  return Array.from(countMarkers(splitInlineMarkers(source))).flatMap(([value, count]) =>
+    (targetCounts.get(value) ?? 0) < count ? [value] : []);
+};
+
+const languageMatches = (language: string | undefined, expected: string | undefined): boolean =>
+  !language || !expected || language.toLowerCase().split('-')[0] === expected.toLowerCase().split('-')[0];
+
+/**
+ * Applies a reviewed XLIFF 2.0 file to the translated document
+ *
+ * Units map to sections by ID. A unit is applied when its target differs
+ * from the exported one (per the target checksum stored at export) and the
+ * translation has not changed since; units the reviewer left alone keep the
+ * section exactly as it is. Unknown, duplicate and missing units, changed
+ * source text or metadata, unresolved inline codes, dropped protected markers
+ * and sections edited on both sides are reported as conflicts and leave the
+ * section untouched.
+ */
+export const importXliff = (
+  xml: string,
+  translated: DocumentParserResult,
+  options: XliffImportOptions = {}
+): XliffImportResult => {
+  const root = parse(xml, { lowerCaseTagName: true, voidTag: { tags: [] } });
+  const xliff = root.querySelector('xliff');
+  if (!xliff) {
+    throw new DocumentProcessingError('File is not an XLIFF document', 422);
+  }
+
+  const version = xliff.getAttribute('version');
+  if (!version?.startsWith('2.')) {
+    throw new DocumentProcessingError(`Unsupported XLIFF version ${version ?? 'unknown'}. Export and import use XLIFF 2.0`, 422);
+  }
+
+  const targetLanguage = xliff.getAttribute('trgLang');
+  if (!languageMatches(targetLanguage, translated.metadata.language)) {
+    throw new DocumentProcessingError(
+      `XLIFF target language ${targetLanguage} does not match the translation language ${translated.metadata.language}`,
+      422
+    );
+  }
+
+  const sections = translated.structure.sections;
+  const sourceSections = options.source?.structure.sections;
+  const updatedSections = [...sections];
+  const conflicts: XliffConflict[] = [];
+  const updated: number[] = [];
+  const seen = new Set<number>();
+
+  for (const unit of descendants(xliff, 'unit')) {
+    const unitId = unit.getAttribute('id') ?? '';
+    const index = /^s\d+$/.test(unitId) ? Number(unitId.slice(1)) : -1;
+    const section = sections[index];
+
+    if (!section || toUnitId(index) !== unitId) {
+      conflicts.push({ unitId, reason: 'unknown-unit', message: `Unit ${unitId} does not match any section` });
+      continue;
+    }
+    if (seen.has(index)) {
+      conflicts.push({ unitId, section: index, reason: 'duplicate-unit', message: `Unit ${unitId} appears more than once` });
+      continue;
+    }
+    seen.add(index);
+
+    const metadata = readMetadata(unit);
+    const sourceSection = sourceSections?.[index];
+    const mismatches = metadataMismatches(metadata, sourceSection ?? section);
+    if (mismatches.length) {
+      conflicts.push({ unitId, section: index, reason: 'metadata-mismatch', message: `Unit metadata changed: ${mismatches.join('; ')}` });
+      continue;
+    }
+
+    let content: UnitContent;
+    try {
+      content = readUnitContent(unit, readOriginalData(unit));
+    } catch (error) {
+      conflicts.push({ unitId, section: index, reason: 'invalid-markup', message: `Unit ${unitId}: ${(error as Error).message}` });
+      continue;
+    }
+
+    if (sourceSection && content.source !== sourceSection.content) {
+      conflicts.push({ unitId, section: index, reason: 'source-changed', message: `Source text of unit ${unitId} differs from the source document` });
+      continue;
+    }
+
+    // No target, or the target as exported: the reviewer did not touch this unit
+    const exportedChecksum = metadata.get('target-checksum');
+    const target = content.target;
+    if (target === undefined || target === section.content || (exportedChecksum && getTargetChecksum(target) === exportedChecksum)) {
+      continue;
+    }
+
+    const missing = missingMarkers(content.source, target);
+    if (missing.length) {
+      conflicts.push({
+        unitId,
+        section: index,
+        reason: 'missing-markers',
+        message: `Reviewed target of unit ${unitId} dropped protected markers: ${missing.join(', ')}`,
+      });
+      continue;
+    }
+
+    // The translation changed after export as well; neither version wins silently
+    if (exportedChecksum && getTargetChecksum(section.content) !== exportedChecksum) {
+      conflicts.push({
+        unitId,
+        section: index,
+        reason: 'concurrent-edit',
+        message: `Section ${index} was changed after export and in the reviewed file`,
+      });
+      continue;
+    }
+
+    updatedSections[index] = replaceSectionContent(section, target);
+    updated.push(index);
+  }
+
+  for (const index of sections.keys()) {
+    if (!seen.has(index) && !conflicts.some(conflict => conflict.section === index)) {
+      conflicts.push({
+        unitId: toUnitId(index),
+        section: index,
+        reason: 'missing-unit',
+        message: `Section ${index} has no unit in the file`,
+      });
+    }
+  }
+
+  const document: DocumentParserResult = updated.length === 0 ? translated : {
+    ...translated,
+    extractedText: joinSectionText(updatedSections),
+    structure: { ...translated.structure, sections: updatedSections },
+  };
+
+  return {
+    document,
+    updatedSections: updated,
+    unchangedSections: sections.length - updated.length,
+    conflicts,
+  };
+};
@@ -0,0 +1,3 @@
+export * from './markers';
+export * from './export';
+export * from './import';
@@ -0,0 +1,51 @@
+/**
+ * Text that reviewers must not edit: links, footnote references, emphasis
+ * delimiters and template placeholders
+ */
+export type InlineMarker = {
+  value: string;
+  type: 'link' | 'fmt' | 'other';
+};
+
+export type InlineContent = Array<string | InlineMarker>;
+
+const MARKER_PATTERN = new RegExp([
+  // URLs and email addresses
+  '(\\b(?:https?:\\/\\/|www\\.)[^\\s<>"\'()[\\]]*[^\\s<>"\'()[\\].,;:!?]|[\\w.+-]+@[\\w-]+(?:\\.[\\w-]+)+)',
+  // Emphasis delimiters
+  '(\\*\\*|__|~~)',
+  // Footnote markers: [1], [^1], ^1 and superscript digits
+  '(\\[\\^?\\d+\\]|\\^\\d+|[\\u2070\\u00B9\\u00B2\\u00B3\\u2074-\\u2079]+)',
+  // Placeholders: {{name}}, {name}, %s, %1$s
+  '(\\{\\{[^{}]+\\}\\}|\\{[\\w.-]+\\}|%(?:\\d+\\$)?[sd])',
+].join('|'), 'g');
+
+/**
+ * Splits text into editable stretches and protected markers
+ */
+export const splitInlineMarkers = (text: string): InlineContent => {
+  const content: InlineContent = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(MARKER_PATTERN)) {
+    const [value, link, format] = match;
+    const index = match.index!;
+    if (index > lastIndex) content.push(text.slice(lastIndex, index));
+    content.push({ value, type: link ? 'link' : format ? 'fmt' : 'other' });
+    lastIndex = index + value.length;
+  }
+
+  if (lastIndex < text.length) content.push(text.slice(lastIndex));
+  return content;
+};
+
+/**
+ * Marker values in text, counting repeats
+ */
+export const countMarkers = (content: InlineContent): Map<string, number> => {
+  const counts = new Map<string, number>();
+  for (const part of content) {
+    if (typeof part !== 'string') counts.set(part.value, (counts.get(part.value) ?? 0) + 1);
+  }
+  return counts;
+};
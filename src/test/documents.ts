@@ -0,0 +1,56 @@
+import { DocumentParserResult, DocumentSection } from '@/lib/types';
+
+export type TestSection = Pick<DocumentSection, 'type' | 'content'> & Partial<DocumentSection>;
+
+/**
+ * A minimal parse result holding the given sections, numbered in order on page 1
+ * unless they carry their own position
+ */
+export const createTestDocument = (
+  sections: TestSection[],
+  overrides: Partial<Omit<DocumentParserResult, 'structure'>> & { structure?: Partial<DocumentParserResult['structure']> } = {}
+): DocumentParserResult => {
+  const { structure, ...rest } = overrides;
+  const fullSections: DocumentSection[] = sections.map((section, index) => ({
+    position: { page: 1, order: index },
+    ...section,
+  }));
+
+  return {
+    extractedText: fullSections.map(section => section.content).join('\n\n'),
+    structure: {
+      sections: fullSections,
+      pageBreaks: [],
+      totalPages: 1,
+      ...structure,
+    },
+    formatting: {
+      fonts: [],
+      styles: {
+        hasBold: false,
+        hasItalic: false,
+        hasUnderline: false,
+        hasStrikethrough: false,
+        hasHighlight: false,
+        hasSuperscript: false,
+        hasSubscript: false,
+      },
+      layout: { columns: 1, hasHeaders: false, hasFooters: false, hasWatermarks: false, orientation: 'portrait' },
+    },
+    metadata: {
+      filename: 'test.pdf',
+      fileSize: 1024,
+      extractedAt: '2026-01-01T00:00:00.000Z',
+      pageCount: 1,
+      language: 'en',
+      hasImages: false,
+      hasCharts: false,
+      hasTables: false,
+      hasFormFields: false,
+      isScanned: false,
+      textQuality: 'good',
+      extractionConfidence: 0.9,
+    },
+    ...rest,
+  };
+};
@@ -0,0 +1,20 @@
+/**
+ * Sets environment variables for a test and returns a function restoring the
+ * previous values, deleting the variables that were unset before
+ */
+export const setEnv = (values: Record<string, string | undefined>): (() => void) => {
+  const previous = Object.fromEntries(Object.keys(values).map(name => [name, process.env[name]]));
+
+  const apply = (entries: Record<string, string | undefined>) => {
+    for (const [name, value] of Object.entries(entries)) {
+      if (value === undefined) {
+        delete process.env[name];
+      } else {
+        process.env[name] = value;
+      }
+    }
+  };
+
+  apply(values);
+  return () => apply(previous);
+};
@@ -0,0 +1,14 @@
+import { mkdtempSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+
+// Stores that persist to disk write into a fresh directory per test file instead of .data/
+const dataDirectory = mkdtempSync(path.join(tmpdir(), 'doctranslator-test-'));
+
+process.env.API_KEY_STORE = 'memory';
+process.env.PARSE_CACHE = 'memory';
+process.env.GLOSSARY_STORE_PATH = path.join(dataDirectory, 'glossaries.json');
+process.env.TRANSLATION_MEMORY_PATH = path.join(dataDirectory, 'translation-memory.json');
+process.env.REVIEW_STORE_DIR = path.join(dataDirectory, 'reviews');
+process.env.LANGGRAPH_CHECKPOINT_DIR = path.join(dataDirectory, 'checkpoints');
+process.env.LOG_LEVEL = 'error';